@@ -214,7 +214,8 @@ final class PageController extends AbstractController
      *       "id": "uuid",
      *       "type": "component-type",
      *       "variant": "variant-name",
-     *       "settings": {...}
+     *       "settings": {...},
+     *       "schemaVersion": 2 (optional)
      *     }
      *   ]
      * }
@@ -11,6 +11,7 @@ use App\Request\GetDemoProductsRequest;
 use App\Service\DemoCategoryService;
 use App\Service\DemoProductService;
 use App\Service\DemoPageService;
+use App\Service\DemoShopService;
 use Psr\Log\LoggerInterface;
 use Symfony\Bundle\FrameworkBundle\Controller\AbstractController;
 use Symfony\Component\HttpFoundation\JsonResponse;
@@ -31,6 +32,7 @@ final class PublicShopController extends AbstractController
         private readonly DemoPageService $pageService,
         private readonly DemoProductService $demoProductService,
         private readonly DemoCategoryService $demoCategoryService,
+        private readonly DemoShopService $demoShopService,
         private readonly LoggerInterface $logger
     ) {}
 
@@ -95,6 +97,60 @@ final class PublicShopController extends AbstractController
         }
     }
 
+    /**
+     * Retrieves the saved theme settings of a specific shop.
+     *
+     * This endpoint is used by the Demo Shop frontend to render pages with the
+     * shop's theme. Shops that never saved a theme get an empty object, so the
+     * frontend falls back to its default theme.
+     *
+     * @param string $shopId UUID of the shop
+     * @return JsonResponse Theme settings (200), shop not found (404), or error (500)
+     *
+     * Response examples:
+     * - 200 OK: {"colors": {"primary": "#3b82f6"}, "fonts": {"heading": "Inter"}, "colorScheme": "auto"}
+     * - 200 OK: {}
+     * - 404 Not Found: {"error": "Shop not found"}
+     * - 500 Internal Server Error: {"error": "An unexpected error occurred"}
+     */
+    #[Route('/api/public/shops/{shopId}/theme', name: 'public_shop_theme', methods: ['GET'])]
+    public function getTheme(string $shopId): JsonResponse
+    {
+        try {
+            // Validate shop ID
+            if (!$this->isValidUuid($shopId)) {
+                throw new \InvalidArgumentException('Invalid shop ID format');
+            }
+
+            $shopReadModel = $this->demoShopService->getPublicShop($shopId);
+
+            if ($shopReadModel === null) {
+                $this->logger->info('Shop not found', [
+                    'shopId' => $shopId,
+                ]);
+
+                return new JsonResponse(
+                    ['error' => 'Shop not found'],
+                    JsonResponse::HTTP_NOT_FOUND
+                );
+            }
+
+            // ThemeSettings serializes as a JSON object, also when empty
+            return new JsonResponse($shopReadModel->getThemeSettings(), JsonResponse::HTTP_OK);
+        } catch (\Throwable $exception) {
+            $this->logger->error('Unexpected error retrieving theme', [
+                'shopId' => $shopId,
+                'exception' => $exception->getMessage(),
+                'trace' => $exception->getTraceAsString(),
+            ]);
+
+            return new JsonResponse(
+                ['error' => 'An unexpected error occurred'],
+                JsonResponse::HTTP_INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+
     /**
      * Retrieves demo products with optional category filtering.
      *
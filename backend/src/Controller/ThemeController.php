@@ -0,0 +1,250 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Controller;
+
+use App\Exception\ShopNotFoundException;
+use App\Model\Entity\User;
+use App\Request\UpdateThemeRequest;
+use App\Service\ThemeService;
+use Psr\Log\LoggerInterface;
+use Symfony\Bundle\FrameworkBundle\Controller\AbstractController;
+use Symfony\Component\HttpFoundation\JsonResponse;
+use Symfony\Component\HttpKernel\Attribute\MapRequestPayload;
+use Symfony\Component\Routing\Attribute\Route;
+use Symfony\Component\Security\Http\Attribute\IsGranted;
+
+/**
+ * API controller for authenticated user's theme management.
+ *
+ * Provides authenticated access to the theme settings of the user's shop.
+ * All endpoints require valid JWT authentication and enforce data isolation.
+ */
+final class ThemeController extends AbstractController
+{
+    public function __construct(
+        private readonly ThemeService $themeService,
+        private readonly LoggerInterface $logger
+    ) {}
+
+    /**
+     * Retrieves the theme settings of the authenticated user's shop.
+     *
+     * Shops that never saved a theme get an empty object, so the client
+     * falls back to its default theme.
+     *
+     * @return JsonResponse Theme settings (200), shop not found (404), or error (500)
+     *
+     * Response examples:
+     * - 200 OK: {"colors": {"primary": "#3b82f6"}, "fonts": {"heading": "Inter"}, "colorScheme": "light"}
+     * - 200 OK: {}
+     * - 404 Not Found: {"error": "shop_not_found", "message": "Shop not found for user ..."}
+     * - 500 Internal Server Error: {"error": "An unexpected error occurred"}
+     */
+    #[Route('/api/theme', name: 'api_theme_get', methods: ['GET'])]
+    #[IsGranted('ROLE_USER')]
+    public function getTheme(): JsonResponse
+    {
+        try {
+            // Get the authenticated user from security context
+            /** @var User $authenticatedUser */
+            $authenticatedUser = $this->getUser();
+
+            if (!$authenticatedUser instanceof User) {
+                $this->logger->error('Authenticated user is not a User instance', [
+                    'user_class' => get_class($authenticatedUser),
+                ]);
+
+                return new JsonResponse(
+                    ['error' => 'Authentication error'],
+                    JsonResponse::HTTP_UNAUTHORIZED
+                );
+            }
+
+            // Retrieve theme settings of user's shop
+            $themeSettings = $this->themeService->getTheme($authenticatedUser->getId());
+
+            // Return theme settings (ThemeSettings serializes as a JSON object)
+            return new JsonResponse(
+                $themeSettings,
+                JsonResponse::HTTP_OK
+            );
+        } catch (ShopNotFoundException $exception) {
+            // User has no shop (edge case)
+            $this->logger->info('Shop not found for user', [
+                'message' => $exception->getMessage(),
+            ]);
+
+            return new JsonResponse(
+                [
+                    'error' => 'shop_not_found',
+                    'message' => $exception->getMessage()
+                ],
+                JsonResponse::HTTP_NOT_FOUND
+            );
+        } catch (\Throwable $exception) {
+            // Unexpected error
+            $this->logger->error('Unexpected error retrieving theme', [
+                'exception' => $exception->getMessage(),
+                'trace' => $exception->getTraceAsString(),
+            ]);
+
+            return new JsonResponse(
+                ['error' => 'An unexpected error occurred'],
+                JsonResponse::HTTP_INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+
+    /**
+     * Replaces the theme settings of the authenticated user's shop.
+     *
+     * Theme validation is handled by UpdateThemeRequest DTO. Groups that are
+     * not part of the request body are removed from the stored theme.
+     *
+     * Request body format:
+     * {
+     *   "colors": {"primary": "#3b82f6", "secondary": "#64748b", "accent": "#f59e0b"},
+     *   "fonts": {"heading": "Inter", "body": "Inter"},
+     *   "spacing": {"base": 8},
+     *   "typography": {"baseSize": 16, "scaleRatio": 1.25, ...},
+     *   "colorScheme": "auto",
+     *   "schemes": {"light": {"background": "#ffffff", ...}, "dark": {...}}
+     * }
+     *
+     * @param UpdateThemeRequest $request Validated request DTO with theme data
+     * @return JsonResponse Stored theme settings (200), invalid theme (422), shop not found (404), or error (500)
+     *
+     * Response examples:
+     * - 200 OK: {"colors": {"primary": "#3b82f6"}, "colorScheme": "auto"}
+     * - 404 Not Found: {"error": "shop_not_found", "message": "Shop not found for user ..."}
+     * - 500 Internal Server Error: {"error": "An unexpected error occurred"}
+     */
+    #[Route('/api/theme', name: 'api_theme_update', methods: ['PUT'])]
+    #[IsGranted('ROLE_USER')]
+    public function updateTheme(
+        #[MapRequestPayload] UpdateThemeRequest $request
+    ): JsonResponse {
+        try {
+            // Get the authenticated user from security context
+            /** @var User $authenticatedUser */
+            $authenticatedUser = $this->getUser();
+
+            if (!$authenticatedUser instanceof User) {
+                $this->logger->error('Authenticated user is not a User instance', [
+                    'user_class' => get_class($authenticatedUser),
+                ]);
+
+                return new JsonResponse(
+                    ['error' => 'Authentication error'],
+                    JsonResponse::HTTP_UNAUTHORIZED
+                );
+            }
+
+            // Update theme settings via service layer
+            $themeSettings = $this->themeService->updateTheme(
+                $authenticatedUser->getId(),
+                $request->getThemeSettings()
+            );
+
+            // Return stored theme settings (ThemeSettings serializes as a JSON object)
+            return new JsonResponse(
+                $themeSettings,
+                JsonResponse::HTTP_OK
+            );
+        } catch (ShopNotFoundException $exception) {
+            // User has no shop (edge case)
+            $this->logger->info('Shop not found for user during theme update', [
+                'message' => $exception->getMessage(),
+            ]);
+
+            return new JsonResponse(
+                [
+                    'error' => 'shop_not_found',
+                    'message' => $exception->getMessage()
+                ],
+                JsonResponse::HTTP_NOT_FOUND
+            );
+        } catch (\Throwable $exception) {
+            // Unexpected error
+            $this->logger->error('Unexpected error updating theme', [
+                'exception' => $exception->getMessage(),
+                'trace' => $exception->getTraceAsString(),
+            ]);
+
+            return new JsonResponse(
+                ['error' => 'An unexpected error occurred'],
+                JsonResponse::HTTP_INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+
+    /**
+     * Resets the theme of the authenticated user's shop to the defaults.
+     *
+     * Removes all stored theme settings; the client then renders its
+     * default theme. This operation is irreversible (no undo in MVP).
+     *
+     * @return JsonResponse Empty theme settings (200), shop not found (404), or error (500)
+     *
+     * Response examples:
+     * - 200 OK: {}
+     * - 404 Not Found: {"error": "shop_not_found", "message": "Shop not found for user ..."}
+     * - 500 Internal Server Error: {"error": "An unexpected error occurred"}
+     */
+    #[Route('/api/theme/reset', name: 'api_theme_reset', methods: ['POST'])]
+    #[IsGranted('ROLE_USER')]
+    public function resetTheme(): JsonResponse
+    {
+        try {
+            // Get the authenticated user from security context
+            /** @var User $authenticatedUser */
+            $authenticatedUser = $this->getUser();
+
+            if (!$authenticatedUser instanceof User) {
+                $this->logger->error('Authenticated user is not a User instance', [
+                    'user_class' => get_class($authenticatedUser),
+                ]);
+
+                return new JsonResponse(
+                    ['error' => 'Authentication error'],
+                    JsonResponse::HTTP_UNAUTHORIZED
+                );
+            }
+
+            // Reset theme settings via service layer
+            $themeSettings = $this->themeService->resetTheme($authenticatedUser->getId());
+
+            // Return empty theme settings (serializes as {})
+            return new JsonResponse(
+                $themeSettings,
+                JsonResponse::HTTP_OK
+            );
+        } catch (ShopNotFoundException $exception) {
+            // User has no shop (edge case)
+            $this->logger->info('Shop not found for user during theme reset', [
+                'message' => $exception->getMessage(),
+            ]);
+
+            return new JsonResponse(
+                [
+                    'error' => 'shop_not_found',
+                    'message' => $exception->getMessage()
+                ],
+                JsonResponse::HTTP_NOT_FOUND
+            );
+        } catch (\Throwable $exception) {
+            // Unexpected error
+            $this->logger->error('Unexpected error resetting theme', [
+                'exception' => $exception->getMessage(),
+                'trace' => $exception->getTraceAsString(),
+            ]);
+
+            return new JsonResponse(
+                ['error' => 'An unexpected error occurred'],
+                JsonResponse::HTTP_INTERNAL_SERVER_ERROR
+            );
+        }
+    }
+}
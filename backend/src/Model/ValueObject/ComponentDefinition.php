@@ -6,17 +6,22 @@ namespace App\Model\ValueObject;
 
 use InvalidArgumentException;
 use JsonSerializable;
+use Symfony\Component\Uid\Uuid;
 
 final readonly class ComponentDefinition implements JsonSerializable
 {
     /**
      * @param array<int,mixed> $props
+     * @param int|null $schemaVersion Props shape version of the component type; null for layouts saved before versioning
+     * @param array<int,ComponentDefinition[]>|null $slots Child layouts of container components, one per slot; null for other components
      */
     public function __construct(
         private string $id,
         private string $type,
         private string $variant,
-        private array $props
+        private array $props,
+        private ?int $schemaVersion = null,
+        private ?array $slots = null
     ) {
         $this->validate();
     }
@@ -30,24 +35,88 @@ final readonly class ComponentDefinition implements JsonSerializable
             throw new InvalidArgumentException("Invalid component definition structure");
         }
 
+        // Checked here rather than left to the typed constructor, so bad input never ends in a TypeError
+        if (!is_string($data['id']) || !is_string($data['type']) || !is_string($data['variant']) || !is_array($data['props'])) {
+            throw new InvalidArgumentException("Invalid component definition structure");
+        }
+
+        $schemaVersion = $data['schemaVersion'] ?? null;
+        if ($schemaVersion !== null && !is_int($schemaVersion)) {
+            throw new InvalidArgumentException("Component schema version must be an integer");
+        }
+
         return new self(
             $data['id'],
             $data['type'],
             $data['variant'],
-            $data['props']
+            $data['props'],
+            $schemaVersion,
+            isset($data['slots']) ? self::slotsFromArray($data['slots']) : null
+        );
+    }
+
+    /**
+     * @return array<int,ComponentDefinition[]>
+     */
+    private static function slotsFromArray(mixed $slots): array
+    {
+        if (!is_array($slots)) {
+            throw new InvalidArgumentException("Component slots must be an array of layouts");
+        }
+
+        return array_map(
+            function (mixed $slot): array {
+                if (!is_array($slot)) {
+                    throw new InvalidArgumentException("Component slots must be an array of layouts");
+                }
+
+                return array_map(fn(mixed $item) => self::childFromArray($item), array_values($slot));
+            },
+            array_values($slots)
         );
     }
+
+    /**
+     * Slot children are not covered by the request constraints,
+     * so the UUID check on their ids happens here
+     */
+    private static function childFromArray(mixed $item): self
+    {
+        if (!is_array($item)) {
+            throw new InvalidArgumentException("Invalid component definition structure");
+        }
+
+        if (is_string($item['id'] ?? null) && !Uuid::isValid($item['id'])) {
+            throw new InvalidArgumentException("Component id must be a valid UUID");
+        }
+
+        return self::fromArray($item);
+    }
+
     /**
      * @return array<string,mixed>
      */
      public function toArray(): array
     {
-        return [
+        $data = [
             'id' => $this->id,
             'type' => $this->type,
             'variant' => $this->variant,
             'props' => $this->props,
         ];
+
+        if ($this->schemaVersion !== null) {
+            $data['schemaVersion'] = $this->schemaVersion;
+        }
+
+        if ($this->slots !== null) {
+            $data['slots'] = array_map(
+                fn(array $slot) => array_map(fn(ComponentDefinition $child) => $child->toArray(), $slot),
+                $this->slots
+            );
+        }
+
+        return $data;
     }
 
     public function jsonSerialize(): array
@@ -78,6 +147,19 @@ final readonly class ComponentDefinition implements JsonSerializable
         return $this->props;
     }
 
+    public function getSchemaVersion(): ?int
+    {
+        return $this->schemaVersion;
+    }
+
+    /**
+     * @return array<int,ComponentDefinition[]>|null
+     */
+    public function getSlots(): ?array
+    {
+        return $this->slots;
+    }
+
     private function validate(): void
     {
         if (empty($this->id)) {
@@ -91,5 +173,21 @@ final readonly class ComponentDefinition implements JsonSerializable
         if (empty($this->variant)) {
             throw new InvalidArgumentException("Component variant cannot be empty");
         }
+
+        if ($this->schemaVersion !== null && $this->schemaVersion < 1) {
+            throw new InvalidArgumentException("Component schema version must be positive");
+        }
+
+        foreach ($this->slots ?? [] as $slot) {
+            if (!is_array($slot)) {
+                throw new InvalidArgumentException("Component slots must be an array of layouts");
+            }
+
+            foreach ($slot as $child) {
+                if (!$child instanceof ComponentDefinition) {
+                    throw new InvalidArgumentException("All slot items must be ComponentDefinition instances");
+                }
+            }
+        }
     }
 }
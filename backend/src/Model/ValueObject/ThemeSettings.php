@@ -5,9 +5,10 @@ declare(strict_types=1);
 namespace App\Model\ValueObject;
 
 use Doctrine\ORM\Mapping as ORM;
+use JsonSerializable;
 
 #[ORM\Embeddable]
-final readonly class ThemeSettings
+final readonly class ThemeSettings implements JsonSerializable
 {
     /**
      * @param array<int,mixed> $settings
@@ -38,6 +39,14 @@ final readonly class ThemeSettings
         return $this->settings;
     }
 
+    /**
+     * Serializes as a JSON object, also for shops that never saved a theme
+     */
+    public function jsonSerialize(): object
+    {
+        return (object) $this->settings;
+    }
+
     public function get(string $key, mixed $default = null): mixed
     {
         return $this->settings[$key] ?? $default;
@@ -4,6 +4,7 @@ declare(strict_types=1);
 
 namespace App\ReadModel;
 
+use App\Model\ValueObject\ThemeSettings;
 use JsonSerializable;
 
 /**
@@ -12,7 +13,8 @@ use JsonSerializable;
  * Decouples the Shop entity from API responses to prevent accidental
  * exposure of internal data. Only includes essential shop information.
  *
- * Theme settings are excluded from registration response as per API plan.
+ * Theme settings are excluded from the JSON output (and so from the registration
+ * response, as per API plan); the public theme endpoint reads them via getThemeSettings().
  */
 final readonly class ShopReadModel implements JsonSerializable
 {
@@ -20,13 +22,20 @@ final readonly class ShopReadModel implements JsonSerializable
      * @param string $id Shop UUID
      * @param string $name Shop name
      * @param string $createdAt ISO 8601 formatted creation timestamp
+     * @param ThemeSettings $themeSettings Saved theme settings, empty if the shop never saved a theme
      */
     public function __construct(
         private string $id,
         private string $name,
-        private string $createdAt
+        private string $createdAt,
+        private ThemeSettings $themeSettings
     ) {}
 
+    public function getThemeSettings(): ThemeSettings
+    {
+        return $this->themeSettings;
+    }
+
     /**
      * Serializes the shop to JSON for API response.
      *
@@ -11,7 +11,7 @@ use Doctrine\Persistence\ManagerRegistry;
 /**
  * @extends ServiceEntityRepository<Shop>
  */
-final class ShopRepository extends ServiceEntityRepository
+class ShopRepository extends ServiceEntityRepository
 {
     public function __construct(ManagerRegistry $registry)
     {
@@ -30,6 +30,9 @@ final readonly class UpdatePageLayoutRequest
          * - type: Component type name (e.g., 'hero', 'text-section')
          * - variant: Component variant name (e.g., 'with-image', 'single-column')
          * - props: Component-specific props object/array
+         * - schemaVersion (optional): Props shape version of the component type
+         * - slots (optional): Child layouts of container components, one array of
+         *   components per slot; children are validated by ComponentDefinition::fromArray()
          *
          * Empty array is valid and allows clearing all components from the page.
          */
@@ -56,6 +59,16 @@ final readonly class UpdatePageLayoutRequest
                     'props' => [
                         new Assert\Type(type: 'array', message: 'Component props must be an object'),
                     ],
+                    'schemaVersion' => new Assert\Optional([
+                        new Assert\Type(type: 'integer', message: 'Component schema version must be an integer'),
+                        new Assert\Positive(message: 'Component schema version must be positive'),
+                    ]),
+                    'slots' => new Assert\Optional([
+                        new Assert\Type(type: 'array', message: 'Component slots must be an array of layouts'),
+                        new Assert\All([
+                            new Assert\Type(type: 'array', message: 'Component slots must be an array of layouts'),
+                        ]),
+                    ]),
                 ],
                 allowExtraFields: false,
                 allowMissingFields: false
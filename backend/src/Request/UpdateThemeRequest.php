@@ -0,0 +1,223 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Request;
+
+use App\Model\ValueObject\ThemeSettings;
+use Symfony\Component\Validator\Constraints as Assert;
+
+/**
+ * Request DTO for updating theme settings endpoint.
+ *
+ * Validates input parameters for PUT /api/theme.
+ * Every group (colors, fonts, spacing, typography, colorScheme, schemes) is
+ * optional and may be partial; keys outside the known groups are rejected.
+ *
+ * Transformation to ThemeSettings ValueObject happens via getThemeSettings() method.
+ */
+final readonly class UpdateThemeRequest
+{
+    private const HEX_COLOR_PATTERN = '/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/';
+
+    /**
+     * @param array<string,mixed>|null $colors
+     * @param array<string,mixed>|null $fonts
+     * @param array<string,mixed>|null $spacing
+     * @param array<string,mixed>|null $typography
+     * @param array<string,mixed>|null $schemes
+     */
+    public function __construct(
+        /**
+         * Brand colors: primary, secondary, accent (hex)
+         */
+        #[Assert\Type(type: 'array', message: 'Theme colors must be an object')]
+        #[Assert\Collection(
+            fields: [
+                'primary' => [
+                    new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                    new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                ],
+                'secondary' => [
+                    new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                    new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                ],
+                'accent' => [
+                    new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                    new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                ],
+            ],
+            allowExtraFields: false,
+            allowMissingFields: true
+        )]
+        private ?array $colors = null,
+        /**
+         * Font families: heading, body
+         */
+        #[Assert\Type(type: 'array', message: 'Theme fonts must be an object')]
+        #[Assert\Collection(
+            fields: [
+                'heading' => [
+                    new Assert\NotBlank(message: 'Theme font is required'),
+                    new Assert\Type(type: 'string', message: 'Theme font must be a string'),
+                ],
+                'body' => [
+                    new Assert\NotBlank(message: 'Theme font is required'),
+                    new Assert\Type(type: 'string', message: 'Theme font must be a string'),
+                ],
+            ],
+            allowExtraFields: false,
+            allowMissingFields: true
+        )]
+        private ?array $fonts = null,
+        /**
+         * Spacing scale: base unit in pixels
+         */
+        #[Assert\Type(type: 'array', message: 'Theme spacing must be an object')]
+        #[Assert\Collection(
+            fields: [
+                'base' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                    new Assert\Positive(message: 'Theme value must be positive'),
+                ],
+            ],
+            allowExtraFields: false,
+            allowMissingFields: true
+        )]
+        private ?array $spacing = null,
+        /**
+         * Type scale: base size, scale ratio, line heights and letter spacings
+         */
+        #[Assert\Type(type: 'array', message: 'Theme typography must be an object')]
+        #[Assert\Collection(
+            fields: [
+                'baseSize' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                    new Assert\Positive(message: 'Theme value must be positive'),
+                ],
+                'scaleRatio' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                    new Assert\GreaterThanOrEqual(value: 1, message: 'Scale ratio must be at least 1'),
+                ],
+                'headingLineHeight' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                    new Assert\Positive(message: 'Theme value must be positive'),
+                ],
+                'bodyLineHeight' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                    new Assert\Positive(message: 'Theme value must be positive'),
+                ],
+                'headingLetterSpacing' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                ],
+                'bodyLetterSpacing' => [
+                    new Assert\Type(type: ['int', 'float'], message: 'Theme value must be a number'),
+                ],
+            ],
+            allowExtraFields: false,
+            allowMissingFields: true
+        )]
+        private ?array $typography = null,
+        /**
+         * Color scheme the storefront renders: light, dark, or auto (follows the visitor's system)
+         */
+        #[Assert\Choice(
+            choices: ['light', 'dark', 'auto'],
+            message: 'Color scheme must be one of: light, dark, auto'
+        )]
+        private ?string $colorScheme = null,
+        /**
+         * Surface colors per scheme: light and dark, each with background,
+         * surface, text, mutedText and border (hex)
+         */
+        #[Assert\Type(type: 'array', message: 'Theme schemes must be an object')]
+        #[Assert\Collection(
+            fields: [
+                'light' => [
+                    new Assert\Type(type: 'array', message: 'Theme scheme must be an object'),
+                    new Assert\Collection(
+                        fields: [
+                            'background' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'surface' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'text' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'mutedText' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'border' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                        ],
+                        allowExtraFields: false,
+                        allowMissingFields: true
+                    ),
+                ],
+                'dark' => [
+                    new Assert\Type(type: 'array', message: 'Theme scheme must be an object'),
+                    new Assert\Collection(
+                        fields: [
+                            'background' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'surface' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'text' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'mutedText' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                            'border' => [
+                                new Assert\Type(type: 'string', message: 'Theme color must be a string'),
+                                new Assert\Regex(pattern: self::HEX_COLOR_PATTERN, message: 'Theme color must be a hex color'),
+                            ],
+                        ],
+                        allowExtraFields: false,
+                        allowMissingFields: true
+                    ),
+                ],
+            ],
+            allowExtraFields: false,
+            allowMissingFields: true
+        )]
+        private ?array $schemes = null
+    ) {}
+
+    /**
+     * Transforms the submitted groups into a ThemeSettings ValueObject.
+     *
+     * Groups that were not submitted are left out, so the stored settings
+     * only contain what the user configured.
+     */
+    public function getThemeSettings(): ThemeSettings
+    {
+        $settings = array_filter(
+            [
+                'colors' => $this->colors,
+                'fonts' => $this->fonts,
+                'spacing' => $this->spacing,
+                'typography' => $this->typography,
+                'colorScheme' => $this->colorScheme,
+                'schemes' => $this->schemes,
+            ],
+            static fn (mixed $value): bool => $value !== null && $value !== []
+        );
+
+        return ThemeSettings::fromArray($settings);
+    }
+}
@@ -114,7 +114,8 @@ final readonly class AuthService
                 'shop' => new ShopReadModel(
                     $shop->getId(),
                     $shop->getName(),
-                    $shop->getCreatedAt()->format('c')
+                    $shop->getCreatedAt()->format('c'),
+                    $shop->getThemeSettings()
                 ),
             ];
         } catch (Throwable $e) {
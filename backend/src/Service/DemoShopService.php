@@ -0,0 +1,45 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Service;
+
+use App\ReadModel\ShopReadModel;
+use App\Repository\ShopRepository;
+
+/**
+ * Service for public shop-related business operations.
+ *
+ * Orchestrates shop data retrieval for the Demo Shop,
+ * exposing shops only through their read model.
+ */
+final readonly class DemoShopService
+{
+    public function __construct(
+        private ShopRepository $shopRepository
+    ) {}
+
+    /**
+     * Retrieves public shop data for the Demo Shop.
+     *
+     * This method is intended for public access without authentication.
+     *
+     * @param string $shopId UUID of the shop
+     * @return ShopReadModel|null Shop data if found, null if shop doesn't exist
+     */
+    public function getPublicShop(string $shopId): ?ShopReadModel
+    {
+        $shop = $this->shopRepository->findById($shopId);
+
+        if ($shop === null) {
+            return null;
+        }
+
+        return new ShopReadModel(
+            $shop->getId(),
+            $shop->getName(),
+            $shop->getCreatedAt()->format('c'),
+            $shop->getThemeSettings()
+        );
+    }
+}
@@ -0,0 +1,86 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Service;
+
+use App\Exception\ShopNotFoundException;
+use App\Model\Entity\Shop;
+use App\Model\ValueObject\ThemeSettings;
+use App\Repository\ShopRepository;
+
+/**
+ * Service for authenticated theme-related business operations.
+ *
+ * Reads and updates the theme settings stored on the authenticated user's shop.
+ */
+final readonly class ThemeService
+{
+    public function __construct(
+        private ShopRepository $shopRepository
+    ) {}
+
+    /**
+     * Retrieves the theme settings of the authenticated user's shop.
+     *
+     * Shops that never saved a theme return empty settings.
+     *
+     * @param string $userId UUID of the authenticated user
+     * @throws ShopNotFoundException If user doesn't have an associated shop
+     */
+    public function getTheme(string $userId): ThemeSettings
+    {
+        return $this->findShop($userId)->getThemeSettings();
+    }
+
+    /**
+     * Replaces the theme settings of the authenticated user's shop.
+     *
+     * @param string $userId UUID of the authenticated user
+     * @param ThemeSettings $themeSettings New theme settings to store
+     * @return ThemeSettings Stored theme settings
+     * @throws ShopNotFoundException If user doesn't have an associated shop
+     */
+    public function updateTheme(string $userId, ThemeSettings $themeSettings): ThemeSettings
+    {
+        $shop = $this->findShop($userId);
+
+        // Update theme settings using entity method (updates timestamp automatically)
+        $shop->updateThemeSettings($themeSettings);
+
+        // Persist changes to database
+        $this->shopRepository->save($shop);
+
+        return $shop->getThemeSettings();
+    }
+
+    /**
+     * Clears the theme settings of the authenticated user's shop.
+     *
+     * The editor and storefront fall back to their built-in defaults
+     * for every setting that is not stored.
+     *
+     * @param string $userId UUID of the authenticated user
+     * @return ThemeSettings Empty theme settings
+     * @throws ShopNotFoundException If user doesn't have an associated shop
+     */
+    public function resetTheme(string $userId): ThemeSettings
+    {
+        return $this->updateTheme($userId, ThemeSettings::default());
+    }
+
+    /**
+     * @throws ShopNotFoundException If user doesn't have an associated shop
+     */
+    private function findShop(string $userId): Shop
+    {
+        $shop = $this->shopRepository->findByUserId($userId);
+
+        // If user has no shop, throw exception (edge case)
+        if ($shop === null) {
+            throw new ShopNotFoundException($userId);
+        }
+
+        return $shop;
+    }
+}
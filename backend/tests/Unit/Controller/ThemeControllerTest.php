@@ -0,0 +1,203 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tests\Unit\Controller;
+
+use App\Controller\ThemeController;
+use App\Model\Entity\Shop;
+use App\Model\Entity\User;
+use App\Model\ValueObject\Email;
+use App\Model\ValueObject\ThemeSettings;
+use App\Repository\ShopRepository;
+use App\Request\UpdateThemeRequest;
+use App\Service\ThemeService;
+use PHPUnit\Framework\Attributes\CoversClass;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\MockObject\MockObject;
+use PHPUnit\Framework\TestCase;
+use Psr\Log\NullLogger;
+use Symfony\Component\DependencyInjection\Container;
+use Symfony\Component\HttpFoundation\JsonResponse;
+use Symfony\Component\Security\Core\Authentication\Token\Storage\TokenStorage;
+use Symfony\Component\Security\Core\Authentication\Token\UsernamePasswordToken;
+
+/**
+ * Unit tests for ThemeController
+ *
+ * Runs the controller with a real ThemeService over a mocked repository to verify:
+ * - Theme settings are read from and stored on the authenticated user's shop
+ * - Empty theme settings are returned as a JSON object
+ * - Missing shops map to 404
+ */
+#[CoversClass(ThemeController::class)]
+#[CoversClass(ThemeService::class)]
+final class ThemeControllerTest extends TestCase
+{
+    private const USER_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+    private ShopRepository|MockObject $shopRepository;
+    private ThemeController $controller;
+    private User $user;
+
+    protected function setUp(): void
+    {
+        $this->shopRepository = $this->createMock(ShopRepository::class);
+        $this->user = User::create(self::USER_ID, new Email('owner@example.com'), 'hashed-password');
+
+        $tokenStorage = new TokenStorage();
+        $tokenStorage->setToken(new UsernamePasswordToken($this->user, 'api', $this->user->getRoles()));
+
+        $container = new Container();
+        $container->set('security.token_storage', $tokenStorage);
+
+        $this->controller = new ThemeController(
+            new ThemeService($this->shopRepository),
+            new NullLogger()
+        );
+        $this->controller->setContainer($container);
+    }
+
+    #[Test]
+    public function it_returns_theme_settings_of_users_shop(): void
+    {
+        // Arrange
+        $shop = $this->createShop();
+        $shop->updateThemeSettings(ThemeSettings::fromArray([
+            'colors' => ['primary' => '#3b82f6'],
+            'colorScheme' => 'dark',
+        ]));
+
+        $this->shopRepository
+            ->expects($this->once())
+            ->method('findByUserId')
+            ->with(self::USER_ID)
+            ->willReturn($shop);
+
+        // Act
+        $response = $this->controller->getTheme();
+
+        // Assert
+        $this->assertSame(JsonResponse::HTTP_OK, $response->getStatusCode());
+        $this->assertSame(
+            '{"colors":{"primary":"#3b82f6"},"colorScheme":"dark"}',
+            $response->getContent()
+        );
+    }
+
+    #[Test]
+    public function it_returns_empty_object_when_no_theme_is_saved(): void
+    {
+        // Arrange
+        $this->shopRepository
+            ->method('findByUserId')
+            ->willReturn($this->createShop());
+
+        // Act
+        $response = $this->controller->getTheme();
+
+        // Assert
+        $this->assertSame(JsonResponse::HTTP_OK, $response->getStatusCode());
+        $this->assertSame('{}', $response->getContent());
+    }
+
+    #[Test]
+    public function it_returns_404_when_user_has_no_shop(): void
+    {
+        // Arrange
+        $this->shopRepository
+            ->method('findByUserId')
+            ->willReturn(null);
+
+        // Act
+        $response = $this->controller->getTheme();
+
+        // Assert
+        $this->assertSame(JsonResponse::HTTP_NOT_FOUND, $response->getStatusCode());
+        $this->assertSame('shop_not_found', json_decode((string) $response->getContent(), true)['error']);
+    }
+
+    #[Test]
+    public function it_stores_submitted_theme_on_users_shop(): void
+    {
+        // Arrange
+        $shop = $this->createShop();
+        $request = new UpdateThemeRequest(
+            colors: ['primary' => '#ff0000', 'secondary' => '#00ff00'],
+            fonts: ['heading' => 'Inter'],
+            colorScheme: 'auto'
+        );
+
+        $this->shopRepository
+            ->method('findByUserId')
+            ->with(self::USER_ID)
+            ->willReturn($shop);
+
+        $this->shopRepository
+            ->expects($this->once())
+            ->method('save')
+            ->with($shop);
+
+        // Act
+        $response = $this->controller->updateTheme($request);
+
+        // Assert
+        $expected = [
+            'colors' => ['primary' => '#ff0000', 'secondary' => '#00ff00'],
+            'fonts' => ['heading' => 'Inter'],
+            'colorScheme' => 'auto',
+        ];
+        $this->assertSame(JsonResponse::HTTP_OK, $response->getStatusCode());
+        $this->assertSame($expected, json_decode((string) $response->getContent(), true));
+        $this->assertSame($expected, $shop->getThemeSettings()->toArray());
+    }
+
+    #[Test]
+    public function it_does_not_save_theme_when_user_has_no_shop(): void
+    {
+        // Arrange
+        $this->shopRepository
+            ->method('findByUserId')
+            ->willReturn(null);
+
+        $this->shopRepository
+            ->expects($this->never())
+            ->method('save');
+
+        // Act
+        $response = $this->controller->updateTheme(new UpdateThemeRequest(colorScheme: 'dark'));
+
+        // Assert
+        $this->assertSame(JsonResponse::HTTP_NOT_FOUND, $response->getStatusCode());
+    }
+
+    #[Test]
+    public function it_clears_theme_settings_on_reset(): void
+    {
+        // Arrange
+        $shop = $this->createShop();
+        $shop->updateThemeSettings(ThemeSettings::fromArray(['spacing' => ['base' => 4]]));
+
+        $this->shopRepository
+            ->method('findByUserId')
+            ->willReturn($shop);
+
+        $this->shopRepository
+            ->expects($this->once())
+            ->method('save')
+            ->with($shop);
+
+        // Act
+        $response = $this->controller->resetTheme();
+
+        // Assert
+        $this->assertSame(JsonResponse::HTTP_OK, $response->getStatusCode());
+        $this->assertSame('{}', $response->getContent());
+        $this->assertSame([], $shop->getThemeSettings()->toArray());
+    }
+
+    private function createShop(): Shop
+    {
+        return Shop::create('660e8400-e29b-41d4-a716-446655440000', $this->user, 'Test Shop');
+    }
+}
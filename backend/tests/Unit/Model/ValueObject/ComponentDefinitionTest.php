@@ -178,6 +178,182 @@ final class ComponentDefinitionTest extends TestCase
         $this->assertSame($original, $result);
     }
 
+    #[Test]
+    public function it_keeps_the_schema_version_through_from_array_and_to_array(): void
+    {
+        $original = [
+            'id' => 'comp-321',
+            'type' => 'CategoryPills',
+            'variant' => 'left',
+            'props' => ['showAllOption' => true],
+            'schemaVersion' => 2,
+        ];
+
+        $component = ComponentDefinition::fromArray($original);
+
+        $this->assertSame(2, $component->getSchemaVersion());
+        $this->assertSame($original, $component->toArray());
+    }
+
+    #[Test]
+    public function it_omits_a_missing_schema_version_from_array(): void
+    {
+        $component = new ComponentDefinition('comp-123', 'hero', 'default', []);
+
+        $this->assertNull($component->getSchemaVersion());
+        $this->assertArrayNotHasKey('schemaVersion', $component->toArray());
+    }
+
+    #[Test]
+    public function it_throws_exception_for_non_positive_schema_version(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Component schema version must be positive');
+
+        new ComponentDefinition('comp-123', 'hero', 'default', [], 0);
+    }
+
+    #[Test]
+    public function it_keeps_nested_slots_through_from_array_and_to_array(): void
+    {
+        $original = [
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => ['paddingY' => 'medium'],
+            'slots' => [
+                [
+                    [
+                        'id' => '550e8400-e29b-41d4-a716-446655440001',
+                        'type' => 'Columns',
+                        'variant' => 'equal',
+                        'props' => ['columnCount' => 2],
+                        'slots' => [
+                            [['id' => '550e8400-e29b-41d4-a716-446655440002', 'type' => 'Heading', 'variant' => 'text-only', 'props' => []]],
+                            [],
+                        ],
+                    ],
+                ],
+            ],
+        ];
+
+        $component = ComponentDefinition::fromArray($original);
+
+        $this->assertCount(1, $component->getSlots());
+        $this->assertSame('550e8400-e29b-41d4-a716-446655440001', $component->getSlots()[0][0]->getId());
+        $this->assertSame($original, $component->toArray());
+    }
+
+    #[Test]
+    public function it_omits_missing_slots_from_array(): void
+    {
+        $component = new ComponentDefinition('comp-123', 'hero', 'default', []);
+
+        $this->assertNull($component->getSlots());
+        $this->assertArrayNotHasKey('slots', $component->toArray());
+    }
+
+    #[Test]
+    public function it_throws_exception_for_invalid_slot_children(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Invalid component definition structure');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => [[['id' => '550e8400-e29b-41d4-a716-446655440001', 'type' => 'Heading']]],
+        ]);
+    }
+
+    #[Test]
+    public function it_throws_exception_for_slot_children_with_invalid_id(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Component id must be a valid UUID');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => [[['id' => 'comp-child', 'type' => 'Heading', 'variant' => 'text-only', 'props' => []]]],
+        ]);
+    }
+
+    #[Test]
+    public function it_throws_exception_for_slot_children_with_non_integer_schema_version(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Component schema version must be an integer');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => [[[
+                'id' => '550e8400-e29b-41d4-a716-446655440001',
+                'type' => 'Heading',
+                'variant' => 'text-only',
+                'props' => [],
+                'schemaVersion' => '2',
+            ]]],
+        ]);
+    }
+
+    #[Test]
+    public function it_throws_exception_for_slot_children_with_non_array_props(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Invalid component definition structure');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => [[[
+                'id' => '550e8400-e29b-41d4-a716-446655440001',
+                'type' => 'Heading',
+                'variant' => 'text-only',
+                'props' => 'Welcome',
+            ]]],
+        ]);
+    }
+
+    #[Test]
+    public function it_throws_exception_for_slot_children_that_are_not_components(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Invalid component definition structure');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => [['not-a-component']],
+        ]);
+    }
+
+    #[Test]
+    public function it_throws_exception_for_slots_that_are_not_layouts(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Component slots must be an array of layouts');
+
+        ComponentDefinition::fromArray([
+            'id' => 'comp-section',
+            'type' => 'Section',
+            'variant' => 'contained',
+            'props' => [],
+            'slots' => ['not-a-layout'],
+        ]);
+    }
+
     #[Test]
     public function it_handles_complex_nested_props(): void
     {
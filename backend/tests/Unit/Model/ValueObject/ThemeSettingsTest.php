@@ -29,6 +29,15 @@ final class ThemeSettingsTest extends TestCase
         $this->assertSame([], $settings->toArray());
     }
 
+    #[Test]
+    public function it_serializes_as_json_object(): void
+    {
+        $settings = new ThemeSettings(['colors' => ['primary' => '#3b82f6']]);
+
+        $this->assertSame('{"colors":{"primary":"#3b82f6"}}', json_encode($settings));
+        $this->assertSame('{}', json_encode(ThemeSettings::default()));
+    }
+
     #[Test]
     public function it_gets_existing_setting(): void
     {
@@ -0,0 +1,63 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tests\Unit\ReadModel;
+
+use App\Model\ValueObject\ThemeSettings;
+use App\ReadModel\ShopReadModel;
+use PHPUnit\Framework\Attributes\CoversClass;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\TestCase;
+
+/**
+ * Unit tests for ShopReadModel
+ *
+ * Tests the ReadModel with various scenarios:
+ * - JSON serialization structure
+ * - Theme settings access outside of the JSON output
+ */
+#[CoversClass(ShopReadModel::class)]
+final class ShopReadModelTest extends TestCase
+{
+    #[Test]
+    public function it_excludes_theme_settings_from_json_serialize(): void
+    {
+        // Arrange
+        $readModel = new ShopReadModel(
+            id: '660e8400-e29b-41d4-a716-446655440000',
+            name: 'Test Shop',
+            createdAt: '2025-01-15T10:30:00+00:00',
+            themeSettings: ThemeSettings::fromArray(['colorScheme' => 'dark'])
+        );
+
+        // Act
+        $result = $readModel->jsonSerialize();
+
+        // Assert
+        $this->assertSame(
+            [
+                'id' => '660e8400-e29b-41d4-a716-446655440000',
+                'name' => 'Test Shop',
+                'created_at' => '2025-01-15T10:30:00+00:00',
+            ],
+            $result
+        );
+    }
+
+    #[Test]
+    public function it_exposes_theme_settings(): void
+    {
+        // Arrange
+        $themeSettings = ThemeSettings::fromArray(['fonts' => ['heading' => 'Lato']]);
+        $readModel = new ShopReadModel(
+            id: '660e8400-e29b-41d4-a716-446655440000',
+            name: 'Test Shop',
+            createdAt: '2025-01-15T10:30:00+00:00',
+            themeSettings: $themeSettings
+        );
+
+        // Act & Assert
+        $this->assertSame($themeSettings, $readModel->getThemeSettings());
+    }
+}
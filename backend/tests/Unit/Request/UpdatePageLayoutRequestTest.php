@@ -410,6 +410,58 @@ final class UpdatePageLayoutRequestTest extends TestCase
         $this->assertGreaterThan(0, $violations->count());
     }
 
+    #[Test]
+    public function it_accepts_an_optional_component_schema_version(): void
+    {
+        // Arrange
+        $layout = [
+            [
+                'id' => '550e8400-e29b-41d4-a716-446655440000',
+                'type' => 'CategoryPills',
+                'variant' => 'left',
+                'props' => ['showAllOption' => true],
+                'schemaVersion' => 2,
+            ],
+        ];
+
+        // Act
+        $request = new UpdatePageLayoutRequest($layout);
+        $violations = $this->validator->validate($request);
+
+        // Assert
+        $this->assertCount(0, $violations);
+        $this->assertSame(2, $request->getLayout()->getComponents()[0]->getSchemaVersion());
+    }
+
+    #[Test]
+    public function it_fails_validation_when_schema_version_is_not_a_positive_integer(): void
+    {
+        // Arrange
+        $layout = [
+            [
+                'id' => '550e8400-e29b-41d4-a716-446655440000',
+                'type' => 'CategoryPills',
+                'variant' => 'left',
+                'props' => [],
+                'schemaVersion' => 0,
+            ],
+            [
+                'id' => '550e8400-e29b-41d4-a716-446655440001',
+                'type' => 'CategoryPills',
+                'variant' => 'left',
+                'props' => [],
+                'schemaVersion' => '2',
+            ],
+        ];
+
+        // Act
+        $request = new UpdatePageLayoutRequest($layout);
+        $violations = $this->validator->validate($request);
+
+        // Assert
+        $this->assertCount(2, $violations);
+    }
+
     #[Test]
     public function it_is_immutable(): void
     {
@@ -450,4 +502,34 @@ final class UpdatePageLayoutRequestTest extends TestCase
         $this->expectException(\InvalidArgumentException::class);
         $request->getLayout();
     }
+
+    #[Test]
+    public function it_throws_exception_when_transforming_layout_with_malformed_slot_children(): void
+    {
+        // Arrange - slot children pass Symfony validation, which only covers top-level components
+        $layout = [
+            [
+                'id' => '550e8400-e29b-41d4-a716-446655440000',
+                'type' => 'Section',
+                'variant' => 'contained',
+                'props' => [],
+                'slots' => [[
+                    [
+                        'id' => '550e8400-e29b-41d4-a716-446655440001',
+                        'type' => 'Heading',
+                        'variant' => 'text-only',
+                        'props' => [],
+                        'schemaVersion' => '2',
+                    ],
+                ]],
+            ],
+        ];
+
+        $request = new UpdatePageLayoutRequest($layout);
+        $this->assertCount(0, $this->validator->validate($request));
+
+        // Act & Assert - domain validation should throw InvalidArgumentException, not a TypeError
+        $this->expectException(\InvalidArgumentException::class);
+        $request->getLayout();
+    }
 }
@@ -0,0 +1,174 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tests\Unit\Request;
+
+use App\Request\UpdateThemeRequest;
+use PHPUnit\Framework\Attributes\CoversClass;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\TestCase;
+use Symfony\Component\Validator\Validation;
+use Symfony\Component\Validator\Validator\ValidatorInterface;
+
+#[CoversClass(UpdateThemeRequest::class)]
+final class UpdateThemeRequestTest extends TestCase
+{
+    private ValidatorInterface $validator;
+
+    protected function setUp(): void
+    {
+        $this->validator = Validation::createValidatorBuilder()
+            ->enableAttributeMapping()
+            ->getValidator();
+    }
+
+    #[Test]
+    public function it_accepts_complete_theme(): void
+    {
+        // Arrange
+        $scheme = [
+            'background' => '#ffffff',
+            'surface' => '#f8fafc',
+            'text' => '#0f172a',
+            'mutedText' => '#64748b',
+            'border' => '#e2e8f0',
+        ];
+
+        // Act
+        $request = new UpdateThemeRequest(
+            colors: ['primary' => '#3b82f6', 'secondary' => '#64748b', 'accent' => '#f59e0b'],
+            fonts: ['heading' => 'Inter', 'body' => 'Inter'],
+            spacing: ['base' => 8],
+            typography: [
+                'baseSize' => 16,
+                'scaleRatio' => 1.25,
+                'headingLineHeight' => 1.2,
+                'bodyLineHeight' => 1.5,
+                'headingLetterSpacing' => -0.5,
+                'bodyLetterSpacing' => 0,
+            ],
+            colorScheme: 'auto',
+            schemes: ['light' => $scheme, 'dark' => $scheme]
+        );
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(0, $violations);
+    }
+
+    #[Test]
+    public function it_accepts_partial_theme(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(colors: ['primary' => '#abc']);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(0, $violations);
+    }
+
+    #[Test]
+    public function it_rejects_invalid_hex_color(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(colors: ['primary' => 'blue']);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Theme color must be a hex color', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_invalid_scheme_color(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(schemes: ['dark' => ['background' => '#12345']]);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Theme color must be a hex color', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_unknown_color_scheme(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(colorScheme: 'sepia');
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Color scheme must be one of: light, dark, auto', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_scale_ratio_below_one(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(typography: ['scaleRatio' => 0.8]);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Scale ratio must be at least 1', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_non_positive_spacing(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(spacing: ['base' => 0]);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Theme value must be positive', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_blank_font(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(fonts: ['heading' => '']);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('Theme font is required', $violations[0]->getMessage());
+    }
+
+    #[Test]
+    public function it_rejects_unknown_keys_in_group(): void
+    {
+        // Arrange & Act
+        $request = new UpdateThemeRequest(colors: ['primary' => '#000000', 'tertiary' => '#ffffff']);
+
+        // Assert
+        $violations = $this->validator->validate($request);
+        $this->assertCount(1, $violations);
+        $this->assertSame('colors[tertiary]', $violations[0]->getPropertyPath());
+    }
+
+    #[Test]
+    public function it_transforms_submitted_groups_to_theme_settings(): void
+    {
+        // Arrange
+        $request = new UpdateThemeRequest(
+            colors: ['primary' => '#3b82f6'],
+            fonts: [],
+            colorScheme: 'dark'
+        );
+
+        // Act
+        $themeSettings = $request->getThemeSettings();
+
+        // Assert
+        $this->assertSame(
+            ['colors' => ['primary' => '#3b82f6'], 'colorScheme' => 'dark'],
+            $themeSettings->toArray()
+        );
+    }
+}
@@ -0,0 +1,79 @@
+<?php
+
+declare(strict_types=1);
+
+namespace App\Tests\Unit\Service;
+
+use App\Model\Entity\Shop;
+use App\Model\Entity\User;
+use App\Model\ValueObject\Email;
+use App\Model\ValueObject\ThemeSettings;
+use App\Repository\ShopRepository;
+use App\Service\DemoShopService;
+use PHPUnit\Framework\Attributes\CoversClass;
+use PHPUnit\Framework\Attributes\Test;
+use PHPUnit\Framework\MockObject\MockObject;
+use PHPUnit\Framework\TestCase;
+
+/**
+ * Unit tests for DemoShopService
+ *
+ * Tests the service layer with mocked repository to verify:
+ * - Mapping of the shop entity to its read model
+ * - Proper null handling
+ */
+#[CoversClass(DemoShopService::class)]
+final class DemoShopServiceTest extends TestCase
+{
+    private ShopRepository|MockObject $shopRepository;
+    private DemoShopService $shopService;
+
+    protected function setUp(): void
+    {
+        $this->shopRepository = $this->createMock(ShopRepository::class);
+        $this->shopService = new DemoShopService($this->shopRepository);
+    }
+
+    #[Test]
+    public function it_returns_shop_read_model_with_theme_settings(): void
+    {
+        // Arrange
+        $shopId = '660e8400-e29b-41d4-a716-446655440000';
+        $user = User::create('550e8400-e29b-41d4-a716-446655440000', new Email('owner@example.com'), 'hashed-password');
+        $shop = Shop::create($shopId, $user, 'Test Shop');
+        $shop->updateThemeSettings(ThemeSettings::fromArray(['colorScheme' => 'dark']));
+
+        $this->shopRepository
+            ->expects($this->once())
+            ->method('findById')
+            ->with($shopId)
+            ->willReturn($shop);
+
+        // Act
+        $result = $this->shopService->getPublicShop($shopId);
+
+        // Assert
+        $this->assertNotNull($result);
+        $this->assertSame($shopId, $result->jsonSerialize()['id']);
+        $this->assertSame(['colorScheme' => 'dark'], $result->getThemeSettings()->toArray());
+    }
+
+    #[Test]
+    public function it_returns_null_when_shop_does_not_exist(): void
+    {
+        // Arrange
+        $shopId = '00000000-0000-0000-0000-000000000000';
+
+        $this->shopRepository
+            ->expects($this->once())
+            ->method('findById')
+            ->with($shopId)
+            ->willReturn(null);
+
+        // Act
+        $result = $this->shopService->getPublicShop($shopId);
+
+        // Assert
+        $this->assertNull($result);
+    }
+}
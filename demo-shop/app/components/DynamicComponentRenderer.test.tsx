@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import DynamicComponentRenderer from '~/components/DynamicComponentRenderer';
+import type { PageLayoutData } from '~/types/shop';
+
+vi.mock('react-router', () => ({
+  useSearchParams: () => [new URLSearchParams(), vi.fn()],
+}));
+
+vi.mock('~/hooks/useCategories', () => ({
+  useCategories: () => ({
+    categories: [{ id: 1, name: 'Shoes' }],
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+  }),
+}));
+
+function createLayout(props: Record<string, unknown>): PageLayoutData {
+  return {
+    type: 'home',
+    layout: {
+      components: [
+        {
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          type: 'Heading',
+          variant: 'background-color',
+          props: { text: 'Welcome', level: 'h1', ...props },
+        },
+      ],
+    },
+  };
+}
+
+describe('DynamicComponentRenderer', () => {
+  describe('theme references', () => {
+    it('resolves theme colors in component props', () => {
+      render(
+        <DynamicComponentRenderer
+          layout={createLayout({ textColor: 'theme.primary', backgroundColor: 'theme.secondary' })}
+          themeSettings={{ colors: { primary: '#112233', secondary: '#445566' } }}
+        />
+      );
+
+      const heading = screen.getByRole('heading', { name: 'Welcome' });
+      expect(heading).toHaveStyle({ color: '#112233' });
+      expect(heading.closest('[style*="background"]')).toHaveStyle({ backgroundColor: '#445566' });
+    });
+
+    it('falls back to the default theme colors', () => {
+      render(
+        <DynamicComponentRenderer
+          layout={createLayout({ textColor: 'theme.primary', backgroundColor: 'rgba(0, 0, 0, 1)' })}
+          themeSettings={{}}
+        />
+      );
+
+      expect(screen.getByRole('heading', { name: 'Welcome' })).toHaveStyle({ color: '#3b82f6' });
+    });
+
+    it('rejects malformed references', () => {
+      render(
+        <DynamicComponentRenderer
+          layout={createLayout({ textColor: 'theme.brand', backgroundColor: 'rgba(0, 0, 0, 1)' })}
+          themeSettings={{}}
+        />
+      );
+
+      expect(screen.getByText('Invalid Component Configuration')).toBeInTheDocument();
+    });
+  });
+
+  describe('schema migrations', () => {
+    it('upgrades components saved with an older schema before validating them', () => {
+      const layout: PageLayoutData = {
+        type: 'catalog',
+        layout: {
+          components: [
+            {
+              id: '550e8400-e29b-41d4-a716-446655440001',
+              type: 'CategoryPills',
+              variant: 'left',
+              props: { variant: 'left', showAllOption: 'false' },
+            },
+          ],
+        },
+      };
+
+      render(<DynamicComponentRenderer layout={layout} themeSettings={{}} />);
+
+      expect(screen.queryByText('Invalid Component Configuration')).not.toBeInTheDocument();
+      expect(screen.getByText('Shoes')).toBeInTheDocument();
+      expect(screen.queryByText('All')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('containers', () => {
+    function createHeading(id: string, text: string) {
+      return { id, type: 'Heading', variant: 'text-only', props: { text, level: 'h2' } };
+    }
+
+    it('renders child layouts into the slots of containers', () => {
+      const layout: PageLayoutData = {
+        type: 'home',
+        layout: {
+          components: [
+            {
+              id: 'section',
+              type: 'Section',
+              variant: 'contained',
+              props: { paddingY: 'medium' },
+              slots: [
+                [
+                  {
+                    id: 'columns',
+                    type: 'Columns',
+                    variant: 'equal',
+                    props: { columnCount: 2, gap: 'medium' },
+                    slots: [[createHeading('left', 'Left')], [createHeading('right', 'Right')]],
+                  },
+                ],
+              ],
+            },
+          ],
+        },
+      };
+
+      const { container } = render(<DynamicComponentRenderer layout={layout} themeSettings={{}} />);
+
+      const section = container.querySelector('section');
+      expect(section).toContainElement(screen.getByRole('heading', { name: 'Left' }));
+      expect(section).toContainElement(screen.getByRole('heading', { name: 'Right' }));
+      expect(screen.getAllByRole('heading').map((heading) => heading.textContent)).toEqual(['Left', 'Right']);
+    });
+
+    it('keeps children of slots beyond the column count in the last column', () => {
+      const layout: PageLayoutData = {
+        type: 'home',
+        layout: {
+          components: [
+            {
+              id: 'columns',
+              type: 'Columns',
+              variant: 'equal',
+              props: { columnCount: 2, gap: 'medium' },
+              slots: [[createHeading('first', 'First')], [], [createHeading('third', 'Third')]],
+            },
+          ],
+        },
+      };
+
+      render(<DynamicComponentRenderer layout={layout} themeSettings={{}} />);
+
+      expect(screen.getByRole('heading', { name: 'Third' })).toBeInTheDocument();
+    });
+  });
+});
@@ -4,8 +4,16 @@
  */
 
 import { Fragment } from 'react';
+import { fitSlots, resolveThemeTokens, type ThemeColors } from '@shared/utils';
+import { migrateComponent } from '@shared/registry';
 import type { PageLayoutData, ThemeSettings, ComponentConfig } from '~/types/shop';
-import { componentRegistry, schemaRegistry, isValidComponentType } from '../../component-registry.config';
+import {
+  componentRegistry,
+  schemaRegistry,
+  runtimeDefaultsRegistry,
+  slotCountRegistry,
+  isValidComponentType,
+} from '../../component-registry.config';
 import { Alert, AlertDescription, AlertTitle } from '~/components/ui/alert';
 
 interface DynamicComponentRendererProps {
@@ -19,23 +27,7 @@ interface DynamicComponentRendererProps {
  * These components need data arrays and callbacks that aren't stored in the database
  */
 function getDefaultRuntimeProps(type: string): Record<string, any> {
-  const defaults: Record<string, Record<string, any>> = {
-    CategoryPills: {
-      categories: [],
-      selectedCategoryId: null,
-      onCategorySelect: () => {},
-      isLoading: false,
-      error: null,
-    },
-    ProductListGrid: {
-      products: [],
-      isLoading: false,
-      error: null,
-      onRetry: () => {},
-    },
-  };
-
-  return defaults[type] || { isLoading: false, error: null };
+  return { isLoading: false, error: null, ...runtimeDefaultsRegistry[type] };
 }
 
 /**
@@ -73,17 +65,52 @@ function validateComponentProps(type: string, props: Record<string, any>) {
 }
 
 /**
- * Renders a single component from the registry
+ * Renders the child layouts of a container component, one per slot
+ * @param type - Container component type
+ * @param props - Validated props of the container, which decide its slot count
+ * @param slots - Child layouts stored with the container
+ * @param runtimeProps - Runtime props passed on to the children
+ * @param themeColors - Theme colors passed on to the children
+ * @returns Rendered slots, or undefined for components without slots
+ */
+function renderSlots(
+  type: string,
+  props: Record<string, any>,
+  slots: ComponentConfig[][] | undefined,
+  runtimeProps?: Record<string, any>,
+  themeColors?: ThemeColors
+) {
+  const getSlotCount = slotCountRegistry[type];
+  if (!getSlotCount) {
+    return undefined;
+  }
+
+  return fitSlots(slots, getSlotCount(props)).map((children, slot) => (
+    <Fragment key={slot}>
+      {children.map((child, index) => renderComponent(child, index, runtimeProps, themeColors))}
+    </Fragment>
+  ));
+}
+
+/**
+ * Renders a single component from the registry, along with its child layouts
  * @param config - Component configuration from layout
  * @param index - Component index for key prop
  * @param runtimeProps - Runtime props to merge with component's props
+ * @param themeColors - Theme colors that resolve references such as `theme.primary`
  * @returns React element or error placeholder
  */
-function renderComponent(config: ComponentConfig, index: number, runtimeProps?: Record<string, any>) {
-  const { id, type, props } = config;
-
-  // Merge runtime props with component's props
-  const mergedProps = { ...props, ...runtimeProps };
+function renderComponent(
+  config: ComponentConfig,
+  index: number,
+  runtimeProps?: Record<string, any>,
+  themeColors?: ThemeColors
+) {
+  // Layouts saved with older component schemas are upgraded before validation
+  const { id, type, variant, props, slots } = migrateComponent(config);
+
+  // Merge runtime props with component's props; the variant is stored on the definition
+  const mergedProps = { ...props, variant, ...runtimeProps };
 
   // Check if component type exists in registry
   if (!isValidComponentType(type)) {
@@ -121,10 +148,16 @@ function renderComponent(config: ComponentConfig, index: number, runtimeProps?:
   // Get component from registry
   const Component = componentRegistry[type];
 
+  // Schemas accept theme references; resolve them to the shop's colors after validation
+  const resolvedProps = resolveThemeTokens(validation.data, themeColors);
+
+  // Containers render their child layouts into their slots
+  const renderedSlots = renderSlots(type, validation.data, slots, runtimeProps, themeColors);
+
   // Render component with validated props
   return (
     <div key={id || `component-${index}`} data-testid="rendered-component">
-      <Component {...validation.data} />
+      <Component {...resolvedProps} slots={renderedSlots} />
     </div>
   );
 }
@@ -171,7 +204,9 @@ export default function DynamicComponentRenderer({
   // Render all components
   return (
     <Fragment>
-      {components.map((component, index) => renderComponent(component, index, runtimeProps))}
+      {components.map((component, index) =>
+        renderComponent(component, index, runtimeProps, themeSettings.colors)
+      )}
     </Fragment>
   );
 }
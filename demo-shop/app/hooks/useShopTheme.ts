@@ -0,0 +1,13 @@
+import { useRouteLoaderData } from 'react-router';
+import type { RootLoaderData, ThemeSettings } from '~/types/shop';
+
+/**
+ * Returns the theme of the current shop, loaded once by the root loader
+ *
+ * Falls back to an empty theme (the defaults) outside shop routes and while
+ * an error boundary replaces the root loader data.
+ */
+export function useShopTheme(): ThemeSettings {
+  const data = useRouteLoaderData('root') as RootLoaderData | undefined;
+  return data?.theme ?? {};
+}
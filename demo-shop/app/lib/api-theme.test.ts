@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchShopTheme } from '~/lib/api-theme';
+
+const shopId = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('fetchShopTheme', () => {
+  // Silence expected error logging for failure-path tests
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fetches and returns the shop theme on success', async () => {
+    const theme = {
+      colors: { primary: '#111111' },
+      fonts: { heading: 'Lato' },
+      colorScheme: 'dark',
+    };
+    const fetchSpy = vi.spyOn(globalThis as any, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => theme,
+    } as any);
+
+    await expect(fetchShopTheme(shopId)).resolves.toEqual(theme);
+
+    const calledUrl = (fetchSpy.mock.calls[0]?.[0] as string) ?? '';
+    expect(calledUrl).toContain(`/api/public/shops/${shopId}/theme`);
+  });
+
+  it('returns an empty theme when the shop has none saved', async () => {
+    vi.spyOn(globalThis as any, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({}),
+    } as any);
+
+    await expect(fetchShopTheme(shopId)).resolves.toEqual({});
+  });
+
+  it('throws a not found error for unknown shops', async () => {
+    vi.spyOn(globalThis as any, 'fetch').mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      json: async () => ({ error: 'Shop not found' }),
+    } as any);
+
+    await expect(fetchShopTheme(shopId)).rejects.toThrow(`Shop with ID ${shopId} not found`);
+  });
+
+  it('throws a generic error for other non-OK responses', async () => {
+    vi.spyOn(globalThis as any, 'fetch').mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error',
+      json: async () => ({}),
+    } as any);
+
+    await expect(fetchShopTheme(shopId)).rejects.toThrow('Failed to fetch theme: 500 Internal Server Error');
+  });
+
+  it('throws when response payload does not match schema', async () => {
+    vi.spyOn(globalThis as any, 'fetch').mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({ colorScheme: 'sepia' }),
+    } as any);
+
+    await expect(fetchShopTheme(shopId)).rejects.toThrow('Invalid theme data received from server');
+  });
+});
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { COLOR_SCHEME_PREFERENCES } from '@shared/utils';
+import { buildApiUrl } from './api';
+import type { ThemeSettings } from '~/types/shop';
+
+/**
+ * Zod schema for the page colors of one color scheme
+ */
+const SchemeColorsSchema = z
+  .object({
+    background: z.string(),
+    surface: z.string(),
+    text: z.string(),
+    mutedText: z.string(),
+    border: z.string(),
+  })
+  .partial();
+
+/**
+ * Zod schema for validating the theme response.
+ * Every group is optional: shops that never saved a theme return an empty object.
+ */
+const ThemeSettingsSchema = z.object({
+  colors: z
+    .object({
+      primary: z.string(),
+      secondary: z.string(),
+      accent: z.string(),
+      background: z.string(),
+      text: z.string(),
+    })
+    .partial()
+    .optional(),
+  fonts: z
+    .object({
+      heading: z.string(),
+      body: z.string(),
+    })
+    .partial()
+    .optional(),
+  spacing: z
+    .object({
+      base: z.number().positive(),
+    })
+    .partial()
+    .optional(),
+  typography: z
+    .object({
+      baseSize: z.number().positive(),
+      scaleRatio: z.number().min(1),
+      headingLineHeight: z.number().positive(),
+      bodyLineHeight: z.number().positive(),
+      headingLetterSpacing: z.number(),
+      bodyLetterSpacing: z.number(),
+    })
+    .partial()
+    .optional(),
+  colorScheme: z.enum(COLOR_SCHEME_PREFERENCES).optional(),
+  schemes: z
+    .object({
+      light: SchemeColorsSchema,
+      dark: SchemeColorsSchema,
+    })
+    .partial()
+    .optional(),
+});
+
+/**
+ * Fetches the saved theme of a shop from the backend API
+ *
+ * Used by the root loader, so the theme is loaded once and rendered on the
+ * server together with the page.
+ *
+ * @param shopId - UUID of the shop
+ * @returns Promise resolving to the theme settings; empty when the shop has no saved theme
+ * @throws Error if the shop doesn't exist, fetch fails or response validation fails
+ */
+export async function fetchShopTheme(shopId: string): Promise<ThemeSettings> {
+  const url = buildApiUrl(`/api/public/shops/${shopId}/theme`);
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      // Handle 404 specifically for unknown shop
+      if (response.status === 404) {
+        throw new Error(`Shop with ID ${shopId} not found`);
+      }
+
+      throw new Error(
+        `Failed to fetch theme: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: unknown = await response.json();
+
+    // Validate response with Zod
+    const validationResult = ThemeSettingsSchema.safeParse(data);
+
+    if (!validationResult.success) {
+      console.error('Theme API response validation failed:', validationResult.error);
+      throw new Error('Invalid theme data received from server');
+    }
+
+    return validationResult.data;
+  } catch (error) {
+    // Re-throw with context
+    if (error instanceof Error) {
+      console.error('Error fetching theme:', error.message);
+      throw error;
+    }
+
+    // Handle unexpected error types
+    console.error('Unexpected error fetching theme:', error);
+    throw new Error('An unexpected error occurred while fetching the theme');
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getComponentTheme,
+  getThemeColorSchemeStyleSheet,
+  getThemePaletteVariables,
+  getThemeStyleSheet,
+  getThemeTypographyVariables,
+} from '~/lib/theme';
+
+describe('getThemePaletteVariables', () => {
+  it('returns a 50-950 scale for each brand color', () => {
+    const variables = getThemePaletteVariables({
+      colors: { primary: '#3b82f6', secondary: '#6366f1', accent: '#f59e0b' },
+    });
+
+    expect(Object.keys(variables)).toHaveLength(33);
+    expect(variables['--color-primary-50']).toMatch(/^#[0-9a-f]{6}$/);
+    expect(variables['--color-accent-950']).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('keeps the brand color itself in its scale', () => {
+    const variables = getThemePaletteVariables({ colors: { primary: '#3b82f6' } });
+
+    expect(Object.values(variables)).toContain('#3b82f6');
+  });
+
+  it('skips colors that are missing or not hex', () => {
+    expect(getThemePaletteVariables({})).toEqual({});
+    expect(getThemePaletteVariables({ colors: { primary: 'blue' } })).toEqual({});
+  });
+});
+
+describe('getThemeTypographyVariables', () => {
+  it('uses the bundled font stacks for the theme fonts', () => {
+    const variables = getThemeTypographyVariables({ fonts: { heading: 'Playfair Display', body: 'Lato' } });
+
+    expect(variables['--font-heading']).toBe('"Playfair Display Variable", "Playfair Display", ui-serif, Georgia, serif');
+    expect(variables['--font-body']).toBe('"Lato", ui-sans-serif, system-ui, sans-serif');
+  });
+
+  it('fills type scale values the shop never set with the defaults', () => {
+    const variables = getThemeTypographyVariables({ typography: { baseSize: 18 } });
+
+    expect(variables).toMatchObject({
+      '--font-size-body': '18px',
+      '--font-size-h1': '43.95px',
+      '--line-height-body': '1.6',
+    });
+    expect(variables['--font-heading']).toBeUndefined();
+  });
+});
+
+describe('getThemeColorSchemeStyleSheet', () => {
+  it('applies the light scheme by default', () => {
+    const styleSheet = getThemeColorSchemeStyleSheet({});
+
+    expect(styleSheet).toContain(':root { --color-background: #ffffff;');
+    expect(styleSheet).toContain('--background: #ffffff;');
+    expect(styleSheet).not.toContain('@media');
+  });
+
+  it('follows the device for auto', () => {
+    const styleSheet = getThemeColorSchemeStyleSheet({
+      colorScheme: 'auto',
+      schemes: { dark: { background: '#000000' } },
+    });
+
+    expect(styleSheet).toContain('@media (prefers-color-scheme: dark) { :root { --color-background: #000000;');
+  });
+
+  it('keeps page colors saved before color schemes existed', () => {
+    const styleSheet = getThemeColorSchemeStyleSheet({ colors: { background: '#fafafa', text: '#222222' } });
+
+    expect(styleSheet).toContain('--color-background: #fafafa;');
+    expect(styleSheet).toContain('--color-text: #222222;');
+  });
+});
+
+describe('getThemeStyleSheet', () => {
+  it('applies the theme variables and the color scheme to the document root', () => {
+    const styleSheet = getThemeStyleSheet({
+      colors: { primary: '#3b82f6' },
+      fonts: { heading: 'Lato' },
+      spacing: { base: 12 },
+      colorScheme: 'dark',
+    });
+
+    const [variables, colorScheme] = styleSheet.split('\n');
+    expect(variables).toMatch(/^:root \{ --color-primary: #3b82f6; --color-primary-50: #[0-9a-f]{6};/);
+    expect(variables).toContain('--font-heading: "Lato", ui-sans-serif, system-ui, sans-serif;');
+    expect(variables).toContain('--spacing-base: 12px;');
+    expect(colorScheme).toContain('color-scheme: dark;');
+  });
+
+  it('leaves out values that are not safe to render', () => {
+    const styleSheet = getThemeStyleSheet({ colors: { primary: '</style><script>alert(1)</script>' } });
+
+    expect(styleSheet).not.toContain('</style>');
+    expect(styleSheet).not.toContain('--color-primary:');
+  });
+});
+
+describe('getComponentTheme', () => {
+  it('fills the colors the shop never set with the defaults', () => {
+    const theme = getComponentTheme({ colors: { primary: '#123456' }, fonts: { heading: 'Lato' } });
+
+    expect(theme.colors.primary).toBe('#123456');
+    expect(theme.colors.secondary).toBe('#6366f1');
+    expect(theme.fonts).toEqual({ heading: 'Lato', body: 'Inter' });
+    expect(theme.schemeColors.background).toBe('#ffffff');
+  });
+
+  it('provides the dark page colors of dark themes', () => {
+    const theme = getComponentTheme({ colorScheme: 'dark', schemes: { dark: { surface: '#000000' } } });
+
+    expect(theme.colorScheme).toBe('dark');
+    expect(theme.schemeColors.surface).toBe('#000000');
+    expect(theme.schemeColors.background).toBe('#0f172a');
+  });
+
+  it('provides the light scheme rendered on the server for themes that follow the device', () => {
+    const theme = getComponentTheme({ colorScheme: 'auto', colors: { text: '#222222' } });
+
+    expect(theme.colorScheme).toBe('light');
+    expect(theme.schemeColors.text).toBe('#222222');
+  });
+});
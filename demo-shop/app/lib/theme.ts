@@ -0,0 +1,144 @@
+// Theme utilities
+
+import {
+  DEFAULT_SCHEME_COLORS,
+  DEFAULT_TYPE_SCALE,
+  getColorSchemeStyleSheet,
+  getCssRule,
+  getFontStack,
+  getPaletteCssVariables,
+  getSchemeCssVariables,
+  getTypographyCssVariables,
+  type ColorScheme,
+  type SchemeColors,
+} from "@shared/utils";
+import { createTheme, type Theme } from "@shared/theme";
+import type { ThemeSettings } from "~/types/shop";
+
+/**
+ * Builds the tonal scale variables (--color-primary-50 … --color-primary-950)
+ * for the brand colors of a theme, matching the Theme Builder canvas
+ * @param theme - Theme settings of the shop
+ * @returns CSS custom properties by name; colors the shop never set are skipped
+ */
+export function getThemePaletteVariables(theme: ThemeSettings): Record<string, string> {
+  const { primary, secondary, accent } = theme.colors ?? {};
+
+  return {
+    ...(primary ? getPaletteCssVariables("primary", primary) : {}),
+    ...(secondary ? getPaletteCssVariables("secondary", secondary) : {}),
+    ...(accent ? getPaletteCssVariables("accent", accent) : {}),
+  };
+}
+
+/**
+ * Builds the font and type scale variables (--font-heading, --font-size-h1, …)
+ * used by the shared components, matching the Theme Builder canvas
+ * @param theme - Theme settings of the shop
+ * @returns CSS custom properties by name; type scale values the shop never set use the defaults
+ */
+export function getThemeTypographyVariables(theme: ThemeSettings): Record<string, string> {
+  const { heading, body } = theme.fonts ?? {};
+
+  return {
+    ...(heading ? { "--font-heading": getFontStack(heading) } : {}),
+    ...(body ? { "--font-body": getFontStack(body) } : {}),
+    ...getTypographyCssVariables({ ...DEFAULT_TYPE_SCALE, ...theme.typography }),
+  };
+}
+
+/**
+ * Adds the class used by the app's `dark:` styles while the device prefers
+ * dark. Inlined in the document head for themes that follow the device, so
+ * it runs before the first paint.
+ */
+export const AUTO_COLOR_SCHEME_SCRIPT =
+  '(function(){var m=window.matchMedia("(prefers-color-scheme: dark)");' +
+  'var a=function(){document.documentElement.classList.toggle("dark",m.matches)};' +
+  'a();m.addEventListener("change",a)})();';
+
+function getSchemeColors(theme: ThemeSettings, scheme: ColorScheme): SchemeColors {
+  if (scheme === "dark") {
+    return { ...DEFAULT_SCHEME_COLORS.dark, ...theme.schemes?.dark };
+  }
+
+  // Shops saved before color schemes existed store their light page colors under colors
+  return {
+    ...DEFAULT_SCHEME_COLORS.light,
+    ...(theme.colors?.background ? { background: theme.colors.background } : {}),
+    ...(theme.colors?.text ? { text: theme.colors.text } : {}),
+    ...theme.schemes?.light,
+  };
+}
+
+/**
+ * Builds the style sheet applying the shop's light and dark page colors,
+ * rendered in the document head so the right scheme shows on first paint
+ * @param theme - Theme settings of the shop
+ * @returns CSS for the document root; colors the shop never set use the defaults
+ */
+export function getThemeColorSchemeStyleSheet(theme: ThemeSettings): string {
+  const light = getSchemeColors(theme, "light");
+  const dark = getSchemeColors(theme, "dark");
+
+  // Also sets the tokens behind the app's own styles, such as the body background
+  const toVariables = (colors: SchemeColors) => ({
+    ...getSchemeCssVariables(colors),
+    "--background": colors.background,
+    "--foreground": colors.text,
+  });
+
+  return getColorSchemeStyleSheet(":root", theme.colorScheme ?? "light", {
+    light: toVariables(light),
+    dark: toVariables(dark),
+  });
+}
+
+/**
+ * Builds the brand color, font, type scale and spacing variables of a theme
+ * @param theme - Theme settings of the shop
+ * @returns CSS custom properties by name; values the shop never set are skipped or use the defaults
+ */
+export function getThemeVariables(theme: ThemeSettings): Record<string, string> {
+  const { primary, secondary, accent } = theme.colors ?? {};
+
+  return {
+    ...(primary ? { "--color-primary": primary } : {}),
+    ...(secondary ? { "--color-secondary": secondary } : {}),
+    ...(accent ? { "--color-accent": accent } : {}),
+    ...getThemePaletteVariables(theme),
+    ...getThemeTypographyVariables(theme),
+    ...(theme.spacing?.base ? { "--spacing-base": `${theme.spacing.base}px` } : {}),
+  };
+}
+
+/**
+ * Builds the complete theme style sheet for the document head, so the page is
+ * rendered on the server with its theme and never flashes the default one
+ * @param theme - Theme settings of the shop
+ * @returns CSS applying the theme variables and color scheme to the document root
+ */
+export function getThemeStyleSheet(theme: ThemeSettings): string {
+  return `${getCssRule(":root", getThemeVariables(theme))}\n${getThemeColorSchemeStyleSheet(theme)}`;
+}
+
+/**
+ * Builds the theme provided to the shared components
+ * Themes that follow the device are provided with their light scheme, the one
+ * rendered on the server; the style sheet switches the page colors on its own
+ * @param theme - Theme settings of the shop
+ * @returns Complete theme; values the shop never set use the defaults
+ */
+export function getComponentTheme(theme: ThemeSettings): Theme {
+  const { primary, secondary, accent } = theme.colors ?? {};
+  const colorScheme: ColorScheme = theme.colorScheme === "dark" ? "dark" : "light";
+
+  return createTheme({
+    colors: { primary, secondary, accent },
+    colorScheme,
+    schemeColors: getSchemeColors(theme, colorScheme),
+    fonts: theme.fonts,
+    typeScale: theme.typography,
+    baseSpacing: theme.spacing?.base,
+  });
+}
@@ -5,32 +5,61 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  type ShouldRevalidateFunctionArgs,
 } from "react-router";
+import { useMemo } from "react";
 
 import type { Route } from "./+types/root";
+import type { RootLoaderData } from "./types/shop";
+import { ThemeProvider } from "@shared/theme";
+import { AUTO_COLOR_SCHEME_SCRIPT, getComponentTheme, getThemeStyleSheet } from "./lib/theme";
+import { fetchShopTheme } from "./lib/api-theme";
+import { isValidUuid } from "./lib/validation";
+import { useShopTheme } from "./hooks/useShopTheme";
+import "./lib/fonts";
 import "./app.css";
 
-export const links: Route.LinksFunction = () => [
-  { rel: "preconnect", href: "https://fonts.googleapis.com" },
-  {
-    rel: "preconnect",
-    href: "https://fonts.gstatic.com",
-    crossOrigin: "anonymous",
-  },
-  {
-    rel: "stylesheet",
-    href: "https://fonts.googleapis.com/css2?family=Inter:ital,opsz,wght@0,14..32,100..900;1,14..32,100..900&display=swap",
-  },
-];
+/**
+ * Root loader that fetches the shop's saved theme once for all shop routes
+ * A missing or broken theme never breaks the page: the default theme is used instead
+ */
+export async function loader({ params }: Route.LoaderArgs): Promise<RootLoaderData> {
+  const { shopId } = params;
+
+  // Non-shop routes and invalid IDs (rejected by the shop route loaders) use the default theme
+  if (!shopId || !isValidUuid(shopId)) {
+    return { theme: {} };
+  }
+
+  try {
+    return { theme: await fetchShopTheme(shopId) };
+  } catch (error) {
+    console.error("Error loading shop theme:", error);
+    return { theme: {} };
+  }
+}
+
+/**
+ * Reload the theme only when navigating to another shop
+ */
+export function shouldRevalidate({ currentParams, nextParams }: ShouldRevalidateFunctionArgs) {
+  return currentParams.shopId !== nextParams.shopId;
+}
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  const theme = useShopTheme();
+  const colorScheme = theme.colorScheme ?? "light";
+
+  // The theme is rendered on the server, so the page never flashes the default colors or fonts
   return (
-    <html lang="en">
+    <html lang="en" className={colorScheme === "dark" ? "dark" : undefined} suppressHydrationWarning>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <Meta />
         <Links />
+        <style>{getThemeStyleSheet(theme)}</style>
+        {colorScheme === "auto" && <script dangerouslySetInnerHTML={{ __html: AUTO_COLOR_SCHEME_SCRIPT }} />}
       </head>
       <body data-testid="demo-shop-body">
         {children}
@@ -42,7 +71,14 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
-  return <Outlet />;
+  const theme = useShopTheme();
+  const componentTheme = useMemo(() => getComponentTheme(theme), [theme]);
+
+  return (
+    <ThemeProvider theme={componentTheme}>
+      <Outlet />
+    </ThemeProvider>
+  );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
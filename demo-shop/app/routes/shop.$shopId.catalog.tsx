@@ -1,8 +1,8 @@
-import { useEffect } from "react";
 import { useLoaderData, isRouteErrorResponse } from "react-router";
 import type { Route } from "./+types/shop.$shopId.catalog";
 import { buildApiUrl } from "~/lib/api";
 import { isValidUuid } from "~/lib/validation";
+import { useShopTheme } from "~/hooks/useShopTheme";
 import type { ShopPageLoaderData, PageLayoutData } from "~/types/shop";
 import { Alert, AlertDescription, AlertTitle } from "~/components/ui/alert";
 import { Button } from "~/components/ui/button";
@@ -40,7 +40,6 @@ export async function loader({ params }: Route.LoaderArgs) {
     const loaderData: ShopPageLoaderData = {
       shopId,
       page: pageData,
-      theme: {}, // TODO: Fetch theme settings in future iteration
     };
 
     return loaderData;
@@ -65,41 +64,13 @@ export async function loader({ params }: Route.LoaderArgs) {
  */
 export default function ShopCatalogRoute() {
   const data = useLoaderData<typeof loader>();
-
-  // Apply theme settings via CSS custom properties
-  useEffect(() => {
-    if (data.theme.colors) {
-      const root = document.documentElement;
-      if (data.theme.colors.primary) {
-        root.style.setProperty('--color-primary', data.theme.colors.primary);
-      }
-      if (data.theme.colors.secondary) {
-        root.style.setProperty('--color-secondary', data.theme.colors.secondary);
-      }
-      if (data.theme.colors.background) {
-        root.style.setProperty('--color-background', data.theme.colors.background);
-      }
-      if (data.theme.colors.text) {
-        root.style.setProperty('--color-text', data.theme.colors.text);
-      }
-    }
-
-    if (data.theme.fonts) {
-      const root = document.documentElement;
-      if (data.theme.fonts.heading) {
-        root.style.setProperty('--font-heading', data.theme.fonts.heading);
-      }
-      if (data.theme.fonts.body) {
-        root.style.setProperty('--font-body', data.theme.fonts.body);
-      }
-    }
-  }, [data.theme]);
+  const theme = useShopTheme();
 
   return (
     <div className="min-h-screen">
       <DynamicComponentRenderer
         layout={data.page}
-        themeSettings={data.theme}
+        themeSettings={theme}
         runtimeProps={{ shopId: data.shopId }}
       />
     </div>
@@ -1,12 +1,20 @@
 // Type definitions for shop and page data
 
+import type { ColorSchemePreference, SchemeColors } from "@shared/utils";
+
 /**
  * Custom view model that aggregates data from multiple API endpoints
  */
 export interface ShopPageLoaderData {
   shopId: string;
   page: PageLayoutData;
-  theme: ThemeSettings;
+}
+
+/**
+ * Data of the root loader, shared by every route
+ */
+export interface RootLoaderData {
+  theme: ThemeSettings; // Saved theme of the current shop; empty outside shop routes
 }
 
 /**
@@ -27,6 +35,8 @@ export interface ComponentConfig {
   type: string;
   variant: string;
   props: Record<string, any>;
+  schemaVersion?: number; // Missing in layouts saved before schema versions
+  slots?: ComponentConfig[][]; // Child layouts of container components, one per slot
 }
 
 /**
@@ -36,6 +46,7 @@ export interface ThemeSettings {
   colors?: {
     primary?: string;
     secondary?: string;
+    accent?: string;
     background?: string;
     text?: string;
   };
@@ -43,6 +54,22 @@ export interface ThemeSettings {
     heading?: string;
     body?: string;
   };
+  spacing?: {
+    base?: number; // Base spacing unit in pixels
+  };
+  typography?: {
+    baseSize?: number; // Body font size in pixels
+    scaleRatio?: number; // Size ratio between heading levels
+    headingLineHeight?: number;
+    bodyLineHeight?: number;
+    headingLetterSpacing?: number; // In em
+    bodyLetterSpacing?: number; // In em
+  };
+  colorScheme?: ColorSchemePreference; // Defaults to "light"; "auto" follows the visitor's device
+  schemes?: {
+    light?: Partial<SchemeColors>;
+    dark?: Partial<SchemeColors>;
+  };
 }
 
 /**
@@ -1,80 +1,64 @@
 /**
- * Unified Component Registry Configuration
+ * Component Registry Configuration
  *
- * Central configuration for all shared components used in the demo shop.
- * This is the single source of truth for component registration.
+ * Derives the demo shop's registry from the shared component registry, the
+ * single source of truth also used by the Theme Builder. Components that
+ * fetch their own data are swapped for their containers here.
  *
- * When adding a new component:
- * 1. Import the component and its props schema from @shared/components
- * 2. Add a new entry to componentRegistryConfig with both the component and schema
- * 3. The componentRegistry and schemaRegistry will be automatically derived
- *
- * This ensures component definitions and validations stay in sync.
+ * When adding a new component, register it in `shared/registry`; only add an
+ * entry to containerOverrides if the shop needs a data-fetching container.
  */
 
-import { HeaderNavigation, HeaderNavigationPropsSchema } from '@shared/components/HeaderNavigation';
-import { Heading, HeadingPropsSchema } from '@shared/components/Heading';
-import { TextSection, TextSectionPropsSchema } from '@shared/components/TextSection';
+import { sharedComponentRegistry } from '@shared/registry';
 import CategoryPillsContainer from '~/containers/CategoryPillsContainer';
-import { CategoryPillsPropsSchema } from '@shared/components/CategoryPills';
 import ProductListGridContainer from '~/containers/ProductListGridContainer';
-import { ProductListGridPropsSchema } from '@shared/components/ProductListGrid';
-import { ProductDetail, ProductDetailPropsSchema } from '@shared/components/ProductDetail';
 import type React from 'react';
 
 /**
- * Component registry entry structure
+ * Containers rendered instead of the shared presentational components
  */
-interface ComponentRegistryEntry {
-  component: React.ComponentType<any>;
-  schema: any;
-}
-
-/**
- * Main component registry configuration
- * Maps component type identifiers to their React component and Zod schema
- */
-const componentRegistryConfig: Record<string, ComponentRegistryEntry> = {
-  HeaderNavigation: {
-    component: HeaderNavigation,
-    schema: HeaderNavigationPropsSchema,
-  },
-  Heading: {
-    component: Heading,
-    schema: HeadingPropsSchema,
-  },
-  TextSection: {
-    component: TextSection,
-    schema: TextSectionPropsSchema,
-  },
-  CategoryPills: {
-    component: CategoryPillsContainer,
-    schema: CategoryPillsPropsSchema,
-  },
-  ProductListGrid: {
-    component: ProductListGridContainer,
-    schema: ProductListGridPropsSchema,
-  },
-  ProductDetail: {
-    component: ProductDetail,
-    schema: ProductDetailPropsSchema,
-  },
+const containerOverrides: Record<string, React.ComponentType<any>> = {
+  CategoryPills: CategoryPillsContainer,
+  ProductListGrid: ProductListGridContainer,
 };
 
 /**
  * Component registry - maps component type strings to React components
- * Automatically derived from componentRegistryConfig
+ * Automatically derived from the shared registry
  */
 export const componentRegistry: Record<string, React.ComponentType<any>> = Object.fromEntries(
-  Object.entries(componentRegistryConfig).map(([key, value]) => [key, value.component])
+  Object.entries(sharedComponentRegistry).map(([key, value]) => [
+    key,
+    containerOverrides[key] ?? value.Component,
+  ])
 );
 
 /**
  * Schema registry - maps component type strings to Zod validation schemas
- * Automatically derived from componentRegistryConfig
+ * Automatically derived from the shared registry
  */
 export const schemaRegistry: Record<string, any> = Object.fromEntries(
-  Object.entries(componentRegistryConfig).map(([key, value]) => [key, value.schema])
+  Object.entries(sharedComponentRegistry).map(([key, value]) => [key, value.propsSchema])
+);
+
+/**
+ * Runtime defaults - maps component type strings to the runtime props used
+ * until a page provides its own data (empty lists, no-op callbacks)
+ * Automatically derived from the shared registry
+ */
+export const runtimeDefaultsRegistry: Record<string, Record<string, unknown>> = Object.fromEntries(
+  Object.entries(sharedComponentRegistry).map(([key, value]) => [key, value.runtimeDefaults])
+);
+
+/**
+ * Slot count registry - maps container component types to the number of
+ * child layouts their props ask for
+ * Automatically derived from the shared registry
+ */
+export const slotCountRegistry: Record<string, (props: Record<string, unknown>) => number> = Object.fromEntries(
+  Object.entries(sharedComponentRegistry).flatMap(([key, value]) =>
+    value.getSlotCount ? [[key, value.getSlotCount]] : []
+  )
 );
 
 /**
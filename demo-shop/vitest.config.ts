@@ -4,6 +4,10 @@ import tsconfigPaths from 'vite-tsconfig-paths';
 
 export default defineConfig({
   plugins: [react(), tsconfigPaths()],
+  resolve: {
+    // Same as vite.config.ts: shared components must use the app's React
+    dedupe: ['react', 'react-dom', 'react-router-dom', 'zod'],
+  },
   test: {
     globals: true,
     environment: 'jsdom',
@@ -30,3 +30,6 @@ export { CategoryPillsPropsSchema, CategorySchema } from './types';
 // Export component metadata for Theme Builder
 export { meta } from './meta';
 export type { CategoryPillsMeta } from './meta';
+
+// Export layout migrations
+export { migrations } from './migrations';
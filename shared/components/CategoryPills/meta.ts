@@ -14,32 +14,25 @@ export const meta: ComponentMeta<
   description: 'Interactive category navigation pills for filtering products',
 
   /**
-   * Fields that can be edited in the Theme Builder
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
    */
   editableFields: [
     {
       name: 'variant',
       label: 'Layout Variant',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'left', label: 'Left Aligned' },
-        { value: 'center', label: 'Center Aligned' },
-        { value: 'fullWidth', label: 'Full Width' },
-      ],
+      optionLabels: {
+        left: 'Left Aligned',
+        center: 'Center Aligned',
+        fullWidth: 'Full Width',
+      },
       default: 'left',
       description: 'Choose how the category pills are laid out',
     },
     {
       name: 'showAllOption',
       label: 'Show "All" Option',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'true', label: 'Yes' },
-        { value: 'false', label: 'No' },
-      ],
-      default: 'true',
+      default: true,
       description: 'Display an "All" pill to show unfiltered products',
     },
   ],
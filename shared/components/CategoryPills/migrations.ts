@@ -0,0 +1,18 @@
+import type { ComponentMigration } from '../../registry/types';
+
+/**
+ * Schema migrations of saved CategoryPills components, oldest first
+ */
+export const migrations: ComponentMigration[] = [
+  {
+    version: 2,
+    description: 'showAllOption is a boolean; the former select field stored "true" or "false"',
+    migrate: ({ variant, props }) => ({
+      variant,
+      props:
+        typeof props.showAllOption === 'string'
+          ? { ...props, showAllOption: props.showAllOption !== 'false' }
+          : props,
+    }),
+  },
+];
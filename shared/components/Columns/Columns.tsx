@@ -0,0 +1,74 @@
+import React, { useMemo, memo } from 'react';
+import type { ColumnsProps, ColumnsGap } from './types';
+import { ColumnsPropsSchema } from './types';
+import styles from './Columns.module.css';
+
+const gapClasses: Record<ColumnsGap, string | undefined> = {
+  small: styles.gapSmall,
+  medium: styles.gapMedium,
+  large: styles.gapLarge,
+};
+
+/**
+ * Grid template of a variant, e.g. `minmax(0, 2fr) repeat(2, minmax(0, 1fr))`
+ * for three columns with a wide first one
+ */
+function getColumnsTemplate(variant: ColumnsProps['variant'], columnCount: number): string {
+  const column = 'minmax(0, 1fr)';
+  const wideColumn = 'minmax(0, 2fr)';
+  const others = `repeat(${columnCount - 1}, ${column})`;
+
+  switch (variant) {
+    case 'wide-left':
+      return `${wideColumn} ${others}`;
+    case 'wide-right':
+      return `${others} ${wideColumn}`;
+    default:
+      return `repeat(${columnCount}, ${column})`;
+  }
+}
+
+/**
+ * Columns component - A container placing child layouts side by side
+ *
+ * Supports three variants:
+ * - equal: Columns of equal width
+ * - wide-left: First column twice as wide as the others
+ * - wide-right: Last column twice as wide as the others
+ *
+ * The renderer renders the child layout of each column and passes them as
+ * slots, one per column.
+ */
+const Columns: React.FC<ColumnsProps> = (props) => {
+  const { variant, columnCount, gap, slots = [] } = props;
+
+  // Validate props with Zod schema
+  const validationResult = useMemo(() => ColumnsPropsSchema.safeParse(props), [props]);
+
+  if (!validationResult.success) {
+    console.warn('Columns component validation error:', validationResult.error);
+  }
+
+  // Use defaults if validation failed
+  const safeColumnCount = [2, 3, 4].includes(columnCount) ? columnCount : 2;
+  const style = {
+    '--columns-template': getColumnsTemplate(variant, safeColumnCount),
+  } as React.CSSProperties;
+
+  return (
+    <div
+      className={[styles.columns, gapClasses[gap] ?? styles.gapMedium].join(' ')}
+      data-column-count={safeColumnCount}
+      style={style}
+    >
+      {Array.from({ length: safeColumnCount }, (_, index) => (
+        <div key={index} className={styles.column}>
+          {slots[index]}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Wrap component with React.memo to prevent unnecessary re-renders
+export default memo(Columns);
@@ -0,0 +1,13 @@
+/**
+ * Barrel export for Columns component
+ *
+ * Provides a single entry point for importing the Columns container
+ * and its associated types, schema, and metadata.
+ */
+
+export { default } from './Columns';
+export { default as Columns } from './Columns';
+export type { ColumnsProps, ColumnsGap } from './types';
+export { ColumnsPropsSchema } from './types';
+export { meta } from './meta';
+export type { ColumnsMeta } from './meta';
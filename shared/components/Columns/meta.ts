@@ -0,0 +1,87 @@
+import type { ComponentMeta } from '../../types/component-meta';
+import type { ColumnsProps } from './types';
+
+/**
+ * Metadata configuration for the Columns component
+ *
+ * This metadata is used by the Theme Builder editor to provide
+ * a user-friendly interface for configuring the Columns component.
+ */
+
+export const meta: ComponentMeta<Omit<ColumnsProps, 'slots'>> = {
+  displayName: 'Columns',
+  description: 'Container placing components side by side',
+
+  /**
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
+   */
+  editableFields: [
+    {
+      name: 'columnCount',
+      label: 'Number of Columns',
+      control: 'number',
+      default: 2,
+      description: 'Removing columns moves their components into the last remaining one',
+    },
+    {
+      name: 'variant',
+      label: 'Column Widths',
+      optionLabels: {
+        equal: 'Equal',
+        'wide-left': 'Wide First Column',
+        'wide-right': 'Wide Last Column',
+      },
+      default: 'equal',
+      description: 'How the columns share the width',
+    },
+    {
+      name: 'gap',
+      label: 'Gap',
+      optionLabels: {
+        small: 'Small',
+        medium: 'Medium',
+        large: 'Large',
+      },
+      default: 'medium',
+      description: 'Space between columns',
+    },
+  ],
+
+  /**
+   * Available variants for the component
+   */
+  variants: [
+    {
+      value: 'equal',
+      label: 'Equal',
+      description: 'Columns of equal width',
+    },
+    {
+      value: 'wide-left',
+      label: 'Wide First Column',
+      description: 'First column twice as wide as the others',
+    },
+    {
+      value: 'wide-right',
+      label: 'Wide Last Column',
+      description: 'Last column twice as wide as the others',
+    },
+  ],
+
+  /**
+   * Default variant when component is added to the page
+   */
+  defaultVariant: 'equal',
+
+  /**
+   * Default configuration for new instances
+   */
+  defaultConfig: {
+    variant: 'equal',
+    columnCount: 2,
+    gap: 'medium',
+  },
+} as const;
+
+export type ColumnsMeta = typeof meta;
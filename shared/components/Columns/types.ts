@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react';
+import { z } from 'zod';
+
+/**
+ * Space between columns
+ */
+export type ColumnsGap = 'small' | 'medium' | 'large';
+
+/**
+ * Props for the Columns component
+ */
+export interface ColumnsProps {
+  /** How the width is shared: equally, or with a wider first or last column */
+  variant: 'equal' | 'wide-left' | 'wide-right';
+  /** Number of columns, each holding its own child layout */
+  columnCount: 2 | 3 | 4;
+  /** Space between columns */
+  gap: ColumnsGap;
+  /** Rendered child layouts, passed by the renderer; one slot per column */
+  slots?: ReactNode[];
+}
+
+/**
+ * Zod schema for runtime validation of Columns props.
+ *
+ * Slots are rendered children rather than saved props, so the schema leaves
+ * them out.
+ */
+export const ColumnsPropsSchema = z.object({
+  variant: z.enum(['equal', 'wide-left', 'wide-right']),
+  columnCount: z.union([z.literal(2), z.literal(3), z.literal(4)]),
+  gap: z.enum(['small', 'medium', 'large']),
+});
@@ -12,19 +12,16 @@ export const meta: ComponentMeta<Omit<HeaderNavigationProps, 'isLoading' | 'erro
     {
       name: 'logoUrl',
       label: 'Logo URL',
-      type: 'url',
-      required: true,
+      control: 'url',
       description: 'URL to the logo image file',
     },
     {
       name: 'logoPosition',
       label: 'Logo Position',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'left', label: 'Left' },
-        { value: 'center', label: 'Center' },
-      ],
+      optionLabels: {
+        left: 'Left',
+        center: 'Center',
+      },
       default: 'left',
     },
   ],
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useMemo, memo } from 'react';
 import type { HeadingProps } from './types';
 import { HeadingPropsSchema } from './types';
 import styles from './Heading.module.css';
+import { useTheme } from '../../theme';
+import { resolveThemeColor } from '../../utils/themeTokens';
 
 /**
  * Heading component - A versatile heading component with multiple visual variants
@@ -24,6 +26,7 @@ const Heading: React.FC<HeadingProps> = (props) => {
     error,
   } = props;
 
+  const theme = useTheme();
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
 
@@ -87,6 +90,9 @@ const Heading: React.FC<HeadingProps> = (props) => {
     );
   }
 
+  // Theme references the renderer left unresolved follow the provided theme
+  const safeTextColor = textColor ? resolveThemeColor(textColor, theme.colors) : undefined;
+
   // Use defaults if validation failed
   const safeText = text || 'Heading Text';
   const safeLevel = level || 'h2';
@@ -111,7 +117,7 @@ const Heading: React.FC<HeadingProps> = (props) => {
     const containerStyle: React.CSSProperties = {
       height: `${containerHeight}px`,
       backgroundImage: imageLoaded ? `url(${backgroundImageUrl})` : 'none',
-      backgroundColor: imageLoaded ? 'transparent' : '#e5e7eb',
+      backgroundColor: imageLoaded ? 'transparent' : theme.schemeColors.surface,
     };
 
     return (
@@ -119,7 +125,7 @@ const Heading: React.FC<HeadingProps> = (props) => {
         <div className={styles.overlay} />
         <HeadingElement
           className={styles.centeredHeading}
-          style={{ color: textColor }}
+          style={{ color: safeTextColor }}
         >
           {safeText}
         </HeadingElement>
@@ -140,14 +146,14 @@ const Heading: React.FC<HeadingProps> = (props) => {
     const containerHeight = height || 200;
     const containerStyle: React.CSSProperties = {
       height: `${containerHeight}px`,
-      backgroundColor: backgroundColor,
+      backgroundColor: resolveThemeColor(backgroundColor, theme.colors),
     };
 
     return (
       <div className={styles.backgroundColorContainer} style={containerStyle}>
         <HeadingElement
           className={styles.centeredHeading}
-          style={{ color: textColor }}
+          style={{ color: safeTextColor }}
         >
           {safeText}
         </HeadingElement>
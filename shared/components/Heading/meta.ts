@@ -13,74 +13,65 @@ export const meta: ComponentMeta<Omit<HeadingProps, 'isLoading' | 'error'>> = {
   description: 'Semantic heading with optional background image or color',
 
   /**
-   * Fields that can be edited in the Theme Builder
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
    */
   editableFields: [
     {
       name: 'text',
       label: 'Heading Text',
-      type: 'text',
-      required: true,
       description: 'The heading text to display',
-      maxLength: 500,
     },
     {
       name: 'level',
       label: 'Heading Level',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'h1', label: 'H1 (Main Heading)' },
-        { value: 'h2', label: 'H2 (Section Heading)' },
-        { value: 'h3', label: 'H3 (Subsection Heading)' },
-      ],
+      optionLabels: {
+        h1: 'H1 (Main Heading)',
+        h2: 'H2 (Section Heading)',
+        h3: 'H3 (Subsection Heading)',
+      },
       default: 'h2',
       description: 'Semantic heading level for document structure',
     },
     {
       name: 'variant',
       label: 'Visual Variant',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'text-only', label: 'Text Only' },
-        { value: 'background-image', label: 'Background Image' },
-        { value: 'background-color', label: 'Background Color' },
-      ],
+      optionLabels: {
+        'text-only': 'Text Only',
+        'background-image': 'Background Image',
+        'background-color': 'Background Color',
+      },
       default: 'text-only',
       description: 'Choose the visual style for the heading',
     },
     {
       name: 'textColor',
       label: 'Text Color',
-      type: 'color',
-      required: false,
+      control: 'color',
+      default: '#ffffff',
       description: 'Color of the text for background-image and background-color variants',
       visibleWhen: { variant: ['background-image', 'background-color'] },
+      contrastWith: 'backgroundColor',
     },
     {
       name: 'backgroundImageUrl',
       label: 'Background Image URL',
-      type: 'url',
-      required: false,
+      control: 'url',
+      default: 'https://via.placeholder.com/1200x400',
       description: 'URL to background image (for background-image variant)',
       visibleWhen: { variant: 'background-image' },
     },
     {
       name: 'backgroundColor',
       label: 'Background Color',
-      type: 'color',
-      required: false,
+      control: 'color',
+      default: 'rgba(31, 41, 55, 1)',
       description: 'Background color (for background-color variant)',
       visibleWhen: { variant: 'background-color' },
     },
     {
       name: 'height',
       label: 'Height (px)',
-      type: 'number',
-      required: false,
-      min: 50,
-      max: 1000,
       default: 300,
       description: 'Container height for background variants',
       visibleWhen: { variant: ['background-image', 'background-color'] },
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isThemeColorToken } from '../../utils/themeTokens';
 
 /**
  * Props for the Heading component
@@ -10,11 +11,11 @@ export interface HeadingProps {
   level: 'h1' | 'h2' | 'h3';
   /** Visual variant of the heading component */
   variant: 'text-only' | 'background-image' | 'background-color';
-  /** Text color for background variants (hex format) */
+  /** Text color for background variants (hex format or theme reference such as `theme.primary`) */
   textColor?: string;
   /** URL to background image (required for 'background-image' variant) */
   backgroundImageUrl?: string;
-  /** Background color value (rgba format, required for 'background-color' variant) */
+  /** Background color value (rgba or hex format, or theme reference; required for 'background-color' variant) */
   backgroundColor?: string;
   /** Height in pixels for background variants (ignored for 'text-only' variant) */
   height?: number;
@@ -34,14 +35,21 @@ export const HeadingPropsSchema = z
     variant: z.enum(['text-only', 'background-image', 'background-color']),
     textColor: z
       .string()
-      .regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Text color must be a valid hex color')
+      .refine(
+        (value) => /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(value) || isThemeColorToken(value),
+        'Text color must be a valid hex color or theme color'
+      )
       .optional(),
     backgroundImageUrl: z.string().optional(),
     backgroundColor: z
       .string()
-      .regex(
-        /^rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+\s*)?\)$/,
-        'Background color must be in rgba format'
+      .refine(
+        (value) =>
+          /^rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+\s*)?\)$/.test(value) ||
+          // Theme references resolve to hex colors before rendering
+          /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(value) ||
+          isThemeColorToken(value),
+        'Background color must be in rgba or hex format, or a theme color'
       )
       .optional(),
     height: z.number().min(50).max(1000).optional(),
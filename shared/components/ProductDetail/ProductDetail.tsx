@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link } from 'react-router';
+import { Link } from 'react-router-dom';
 import { formatPrice } from '../ProductListGrid/types';
 import type { ProductDetailProps } from './types';
 import styles from './ProductDetail.module.css';
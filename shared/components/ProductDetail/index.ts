@@ -1,4 +1,5 @@
 export { ProductDetail } from './ProductDetail';
-export { ProductDetailMeta } from './meta';
+export { meta } from './meta';
+export type { ProductDetailMeta } from './meta';
 export type { ProductDetailProps } from './types';
 export { ProductDetailPropsSchema } from './types';
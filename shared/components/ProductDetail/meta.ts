@@ -1,28 +1,25 @@
+import type { ComponentMeta } from '../../types/component-meta';
+import type { ProductDetailProps } from './types';
+
 /**
- * Component metadata for ProductDetail
+ * Metadata configuration for the ProductDetail component
  *
- * Used by the component registry to understand component capabilities
- * and configuration options.
+ * The product and shop ID are runtime props injected by the product page
+ * loader, so the component has no fields to edit in the Theme Builder.
  */
-export const ProductDetailMeta = {
-  name: 'ProductDetail',
+export const meta: ComponentMeta<Omit<ProductDetailProps, 'product' | 'shopId'>> = {
+  displayName: 'Product Detail',
   description: 'Displays comprehensive product information including image, title, pricing, category, and description',
-  category: 'product',
-  version: '1.0.0',
-
-  /**
-   * Props that can be configured through the Theme Builder
-   * Runtime props (product, shopId) are injected by DynamicComponentRenderer
-   */
-  configurableProps: [],
-
-  /**
-   * Runtime props injected by the page loader
-   */
-  runtimeProps: ['product', 'shopId'],
+  editableFields: [],
+  variants: [
+    {
+      value: 'default',
+      label: 'Default',
+      description: 'Product image next to its details',
+    },
+  ],
+  defaultVariant: 'default',
+  defaultConfig: {},
+} as const;
 
-  /**
-   * Component variants (none for MVP)
-   */
-  variants: [],
-};
+export type ProductDetailMeta = typeof meta;
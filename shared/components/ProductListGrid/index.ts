@@ -44,3 +44,6 @@ export {
 // Component Metadata
 export { meta } from './meta';
 export type { ProductListGridMeta } from './meta';
+
+// Layout Migrations
+export { migrations } from './migrations';
@@ -1,5 +1,5 @@
 import type { ComponentMeta } from '../../types/component-meta';
-import type { ProductListGridProps } from './types';
+import { DEFAULT_PRODUCTS_PER_ROW, type ProductListGridProps } from './types';
 
 /**
  * Metadata configuration for the ProductListGrid component
@@ -17,21 +17,19 @@ export const meta: ComponentMeta<
   description: 'Displays products in a configurable grid layout with responsive columns',
 
   /**
-   * Fields that can be edited in the Theme Builder
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
    */
   editableFields: [
     {
       name: 'productsPerRow',
       label: 'Products Per Row',
-      type: 'select',
-      required: true,
-      options: [
-        { value: '2', label: '2 Products (Large)' },
-        { value: '3', label: '3 Products (Balanced)' },
-        { value: '4', label: '4 Products (Compact)' },
-        { value: '6', label: '6 Products (Dense)' },
-      ],
-      default: '3',
+      optionLabels: {
+        '2': '2 Products (Large)',
+        '3': '3 Products (Balanced)',
+        '4': '4 Products (Compact)',
+        '6': '6 Products (Dense)',
+      },
       description: 'Number of products to display per row on desktop',
     },
   ],
@@ -71,7 +69,7 @@ export const meta: ComponentMeta<
    * Default configuration for new instances
    */
   defaultConfig: {
-    productsPerRow: 3,
+    productsPerRow: DEFAULT_PRODUCTS_PER_ROW,
   },
 } as const;
 
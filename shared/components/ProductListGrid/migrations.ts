@@ -0,0 +1,33 @@
+import type { ComponentMigration } from '../../registry/types';
+import { DEFAULT_PRODUCTS_PER_ROW, ProductsPerRowSchema, type ProductsPerRow } from './types';
+
+/**
+ * Reads a former select value as a number; blank values and numbers the
+ * select never offered fall back to the default
+ */
+function toProductsPerRow(value: string): ProductsPerRow {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return DEFAULT_PRODUCTS_PER_ROW;
+  }
+
+  const result = ProductsPerRowSchema.safeParse(Number(trimmed));
+  return result.success ? result.data : DEFAULT_PRODUCTS_PER_ROW;
+}
+
+/**
+ * Schema migrations of saved ProductListGrid components, oldest first
+ */
+export const migrations: ComponentMigration[] = [
+  {
+    version: 2,
+    description: 'productsPerRow is a number; the former select field could store its option value, e.g. "4"',
+    migrate: ({ variant, props }) => ({
+      variant,
+      props:
+        typeof props.productsPerRow === 'string'
+          ? { ...props, productsPerRow: toProductsPerRow(props.productsPerRow) }
+          : props,
+    }),
+  },
+];
@@ -56,6 +56,11 @@ export const ProductsPerRowSchema = z.union([
   z.literal(6),
 ]);
 
+/**
+ * Products per row of new grids and of props that don't set it
+ */
+export const DEFAULT_PRODUCTS_PER_ROW: ProductsPerRow = 3;
+
 /**
  * Image size variant to use based on grid density
  */
@@ -112,7 +117,7 @@ export interface ProductListGridProps {
  */
 export const ProductListGridPropsSchema = z.object({
   products: z.array(ProductSchema),
-  productsPerRow: ProductsPerRowSchema.default(3),
+  productsPerRow: ProductsPerRowSchema.default(DEFAULT_PRODUCTS_PER_ROW),
   isLoading: z.boolean().default(false),
   error: z.instanceof(Error).nullable().optional(),
   onRetry: z.function().optional(),
@@ -0,0 +1,58 @@
+import React, { useMemo, memo } from 'react';
+import type { SectionProps, SectionPadding } from './types';
+import { SectionPropsSchema } from './types';
+import styles from './Section.module.css';
+import { useTheme } from '../../theme';
+import { resolveThemeColor } from '../../utils/themeTokens';
+
+const paddingClasses: Record<SectionPadding, string | undefined> = {
+  none: styles.paddingNone,
+  small: styles.paddingSmall,
+  medium: styles.paddingMedium,
+  large: styles.paddingLarge,
+};
+
+/**
+ * Section component - A container holding a child layout
+ *
+ * Supports two variants:
+ * - contained: Content centered at page width
+ * - full-width: Content spanning the whole page
+ *
+ * The background always spans the whole page. The renderer renders the child
+ * layout and passes it as the only slot.
+ */
+const Section: React.FC<SectionProps> = (props) => {
+  const { variant, backgroundColor, paddingY, slots = [] } = props;
+
+  const theme = useTheme();
+
+  // Validate props with Zod schema
+  const validationResult = useMemo(() => SectionPropsSchema.safeParse(props), [props]);
+
+  if (!validationResult.success) {
+    console.warn('Section component validation error:', validationResult.error);
+  }
+
+  const className = [
+    styles.section,
+    variant === 'full-width' ? styles.fullWidth : styles.contained,
+    paddingClasses[paddingY] ?? styles.paddingMedium,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <section
+      className={className}
+      style={{
+        backgroundColor: backgroundColor ? resolveThemeColor(backgroundColor, theme.colors) : undefined,
+      }}
+    >
+      <div className={styles.content}>{slots[0]}</div>
+    </section>
+  );
+};
+
+// Wrap component with React.memo to prevent unnecessary re-renders
+export default memo(Section);
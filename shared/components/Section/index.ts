@@ -0,0 +1,13 @@
+/**
+ * Barrel export for Section component
+ *
+ * Provides a single entry point for importing the Section container
+ * and its associated types, schema, and metadata.
+ */
+
+export { default } from './Section';
+export { default as Section } from './Section';
+export type { SectionProps, SectionPadding } from './types';
+export { SectionPropsSchema } from './types';
+export { meta } from './meta';
+export type { SectionMeta } from './meta';
@@ -0,0 +1,80 @@
+import type { ComponentMeta } from '../../types/component-meta';
+import type { SectionProps } from './types';
+
+/**
+ * Metadata configuration for the Section component
+ *
+ * This metadata is used by the Theme Builder editor to provide
+ * a user-friendly interface for configuring the Section component.
+ */
+
+export const meta: ComponentMeta<Omit<SectionProps, 'slots'>> = {
+  displayName: 'Section',
+  description: 'Container grouping components on a shared background',
+
+  /**
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
+   */
+  editableFields: [
+    {
+      name: 'variant',
+      label: 'Width',
+      optionLabels: {
+        contained: 'Contained',
+        'full-width': 'Full Width',
+      },
+      default: 'contained',
+      description: 'Whether the content keeps to the page width',
+    },
+    {
+      name: 'backgroundColor',
+      label: 'Background Color',
+      control: 'color',
+      description: 'Background behind the whole section; leave empty for none',
+    },
+    {
+      name: 'paddingY',
+      label: 'Vertical Padding',
+      optionLabels: {
+        none: 'None',
+        small: 'Small',
+        medium: 'Medium',
+        large: 'Large',
+      },
+      default: 'medium',
+      description: 'Space above and below the content',
+    },
+  ],
+
+  /**
+   * Available variants for the component
+   */
+  variants: [
+    {
+      value: 'contained',
+      label: 'Contained',
+      description: 'Content centered at page width',
+    },
+    {
+      value: 'full-width',
+      label: 'Full Width',
+      description: 'Content spanning the whole page',
+    },
+  ],
+
+  /**
+   * Default variant when component is added to the page
+   */
+  defaultVariant: 'contained',
+
+  /**
+   * Default configuration for new instances
+   */
+  defaultConfig: {
+    variant: 'contained',
+    paddingY: 'medium',
+  },
+} as const;
+
+export type SectionMeta = typeof meta;
@@ -0,0 +1,40 @@
+import type { ReactNode } from 'react';
+import { z } from 'zod';
+import { isThemeColorToken } from '../../utils/themeTokens';
+
+/**
+ * Vertical padding steps of a section
+ */
+export type SectionPadding = 'none' | 'small' | 'medium' | 'large';
+
+/**
+ * Props for the Section component
+ */
+export interface SectionProps {
+  /** contained: content at page width; full-width: content spans the whole page */
+  variant: 'contained' | 'full-width';
+  /** Background color (hex format or theme reference such as `theme.primary`) */
+  backgroundColor?: string;
+  /** Space above and below the content */
+  paddingY: SectionPadding;
+  /** Rendered child layout, passed by the renderer; a section has a single slot */
+  slots?: ReactNode[];
+}
+
+/**
+ * Zod schema for runtime validation of Section props.
+ *
+ * Slots are rendered children rather than saved props, so the schema leaves
+ * them out.
+ */
+export const SectionPropsSchema = z.object({
+  variant: z.enum(['contained', 'full-width']),
+  backgroundColor: z
+    .string()
+    .refine(
+      (value) => /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(value) || isThemeColorToken(value),
+      'Background color must be a valid hex color or theme color'
+    )
+    .optional(),
+  paddingY: z.enum(['none', 'small', 'medium', 'large']),
+});
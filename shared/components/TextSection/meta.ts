@@ -13,62 +13,49 @@ export const meta: ComponentMeta<Omit<TextSectionProps, 'isLoading' | 'error'>>
   description: 'Multi-column text layout with optional icons or images',
 
   /**
-   * Fields that can be edited in the Theme Builder
+   * Props that can be edited in the Theme Builder; their field types and
+   * constraints are generated from the props schema
    */
   editableFields: [
     {
       name: 'variant',
       label: 'Visual Variant',
-      type: 'select',
-      required: true,
-      options: [
-        { value: 'text-only', label: 'Text Only' },
-        { value: 'with-icons', label: 'With Icons' },
-        { value: 'with-images', label: 'With Images' },
-      ],
+      optionLabels: {
+        'text-only': 'Text Only',
+        'with-icons': 'With Icons',
+        'with-images': 'With Images',
+      },
       default: 'text-only',
       description: 'Choose the visual style for the text section',
     },
     {
       name: 'columnCount',
       label: 'Number of Columns',
-      type: 'number',
-      required: true,
-      min: 1,
-      max: 4,
+      control: 'number',
       default: 3,
       description: 'Number of columns to display (1-4)',
     },
     {
       name: 'columns',
       label: 'Columns',
-      type: 'repeater',
-      required: true,
-      minItems: 1,
-      maxItems: 4,
+      countField: 'columnCount',
       description: 'Configure each column with text and optional media',
       fields: [
         {
           name: 'text',
           label: 'Column Text',
-          type: 'textarea',
-          required: true,
-          maxLength: 2000,
+          control: 'textarea',
           description: 'The text content for this column',
         },
         {
           name: 'iconUrl',
           label: 'Icon URL',
-          type: 'url',
-          required: false,
           description: 'URL to an icon image (for with-icons variant)',
           visibleWhen: { variant: 'with-icons' },
         },
         {
           name: 'imageUrl',
           label: 'Image URL',
-          type: 'url',
-          required: false,
           description: 'URL to a larger image (for with-images variant)',
           visibleWhen: { variant: 'with-images' },
         },
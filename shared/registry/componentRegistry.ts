@@ -0,0 +1,127 @@
+import type { z } from 'zod';
+import type { ComponentMeta } from '../types/component-meta';
+import { getSchemaFields } from '../utils/schemaFields';
+import type { ComponentRegistration, SchemaProps, SharedComponentRegistry } from './types';
+import { Heading, HeadingPropsSchema, meta as headingMeta } from '../components/Heading';
+import { TextSection, TextSectionPropsSchema, meta as textSectionMeta } from '../components/TextSection';
+import {
+  HeaderNavigation,
+  HeaderNavigationPropsSchema,
+  meta as headerNavigationMeta,
+} from '../components/HeaderNavigation';
+import { CategoryPills, CategoryPillsPropsSchema, meta as categoryPillsMeta } from '../components/CategoryPills';
+import {
+  ProductListGrid,
+  ProductListGridPropsSchema,
+  meta as productListGridMeta,
+} from '../components/ProductListGrid';
+import { ProductDetail, ProductDetailPropsSchema, meta as productDetailMeta } from '../components/ProductDetail';
+import { Section, SectionPropsSchema, meta as sectionMeta } from '../components/Section';
+import { Columns, ColumnsPropsSchema, meta as columnsMeta } from '../components/Columns';
+
+/**
+ * Registers a shared component.
+ *
+ * Fails to compile when the meta's defaultConfig doesn't match the props
+ * schema, so new instances never start out with props the schema rejects.
+ * The editor fields are generated from the schema, annotated by the meta.
+ */
+export function defineComponent<TSchema extends z.ZodType, TConfig extends SchemaProps<TSchema>>(
+  registration: Omit<ComponentRegistration<TSchema>, 'meta' | 'editableFields'> & { meta: ComponentMeta<TConfig> }
+): ComponentRegistration<TSchema> {
+  return {
+    ...registration,
+    editableFields: getSchemaFields(registration.propsSchema, registration.meta.editableFields),
+  };
+}
+
+/**
+ * Shared Component Registry
+ *
+ * Single source of truth for the components a page layout may contain. The
+ * Theme Builder derives its library and canvas from it, and the demo shop
+ * its renderer, swapping in containers that fetch data where needed.
+ *
+ * When adding a component, register it here with its meta, schema and the
+ * runtime props it needs before the app provides real data. Containers also
+ * tell how many child layouts they hold.
+ */
+export const sharedComponentRegistry: SharedComponentRegistry = {
+  Heading: defineComponent({
+    Component: Heading,
+    meta: headingMeta,
+    propsSchema: HeadingPropsSchema,
+    category: 'Content',
+    icon: 'Heading',
+    runtimeDefaults: { isLoading: false, error: null },
+  }),
+  TextSection: defineComponent({
+    Component: TextSection,
+    meta: textSectionMeta,
+    propsSchema: TextSectionPropsSchema,
+    category: 'Content',
+    icon: 'FileText',
+    runtimeDefaults: { isLoading: false, error: null },
+  }),
+  HeaderNavigation: defineComponent({
+    Component: HeaderNavigation,
+    meta: headerNavigationMeta,
+    propsSchema: HeaderNavigationPropsSchema,
+    category: 'Navigation',
+    icon: 'Menu',
+    runtimeDefaults: { isLoading: false, error: null },
+  }),
+  CategoryPills: defineComponent({
+    Component: CategoryPills,
+    meta: categoryPillsMeta,
+    propsSchema: CategoryPillsPropsSchema,
+    category: 'Navigation',
+    icon: 'Tags',
+    runtimeDefaults: {
+      categories: [],
+      selectedCategoryId: null,
+      onCategorySelect: () => {},
+      isLoading: false,
+      error: null,
+    },
+  }),
+  ProductListGrid: defineComponent({
+    Component: ProductListGrid,
+    meta: productListGridMeta,
+    propsSchema: ProductListGridPropsSchema,
+    category: 'Products',
+    icon: 'LayoutGrid',
+    runtimeDefaults: {
+      products: [],
+      isLoading: false,
+      error: null,
+      onRetry: () => {},
+    },
+  }),
+  ProductDetail: defineComponent({
+    Component: ProductDetail,
+    meta: productDetailMeta,
+    propsSchema: ProductDetailPropsSchema,
+    category: 'Products',
+    icon: 'Package',
+    runtimeDefaults: {},
+  }),
+  Section: defineComponent({
+    Component: Section,
+    meta: sectionMeta,
+    propsSchema: SectionPropsSchema,
+    category: 'Layout',
+    icon: 'Square',
+    runtimeDefaults: {},
+    getSlotCount: () => 1,
+  }),
+  Columns: defineComponent({
+    Component: Columns,
+    meta: columnsMeta,
+    propsSchema: ColumnsPropsSchema,
+    category: 'Layout',
+    icon: 'Columns',
+    runtimeDefaults: {},
+    getSlotCount: ({ columnCount }) => (typeof columnCount === 'number' ? columnCount : 2),
+  }),
+};
@@ -0,0 +1,22 @@
+/**
+ * Shared component registry barrel export
+ */
+
+export { sharedComponentRegistry, defineComponent } from './componentRegistry';
+export {
+  INITIAL_SCHEMA_VERSION,
+  componentMigrations,
+  getSchemaVersion,
+  migrateComponent,
+  migrateLayout,
+} from './migrations';
+export type {
+  ComponentCategory,
+  ComponentMigration,
+  ComponentMigrationRegistry,
+  ComponentRegistration,
+  MigratableComponent,
+  SchemaProps,
+  SharedComponentRegistry,
+  VersionedComponent,
+} from './types';
@@ -0,0 +1,84 @@
+import type { ComponentMigrationRegistry, VersionedComponent } from './types';
+import { migrations as categoryPillsMigrations } from '../components/CategoryPills';
+import { migrations as productListGridMigrations } from '../components/ProductListGrid';
+
+/**
+ * Version of components saved before schema versions were introduced
+ */
+export const INITIAL_SCHEMA_VERSION = 1;
+
+/**
+ * Component Migration Registry
+ *
+ * Saved layouts are plain JSON, so a change to a component's props shape
+ * (a renamed or newly required prop) needs a migration upgrading existing
+ * layouts. Both the Theme Builder and the demo shop run them when loading a
+ * layout.
+ *
+ * When changing a component's props shape, add a step with the next version
+ * to the component's migrations.ts.
+ */
+export const componentMigrations: ComponentMigrationRegistry = {
+  CategoryPills: categoryPillsMigrations,
+  ProductListGrid: productListGridMigrations,
+};
+
+/**
+ * Current schema version of a component type, stored on new components
+ */
+export function getSchemaVersion(
+  type: string,
+  registry: ComponentMigrationRegistry = componentMigrations
+): number {
+  const migrations = registry[type] ?? [];
+  return migrations.length > 0 ? migrations[migrations.length - 1].version : INITIAL_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrades a saved component to the current schema version of its type.
+ *
+ * Runs every migration newer than the component's version in order.
+ * Components that are current, of unknown types or saved by a newer
+ * editor are returned as they are.
+ */
+export function migrateComponent<T extends VersionedComponent>(
+  component: T,
+  registry: ComponentMigrationRegistry = componentMigrations
+): T {
+  const fromVersion = component.schemaVersion ?? INITIAL_SCHEMA_VERSION;
+  const pending = (registry[component.type] ?? []).filter((migration) => migration.version > fromVersion);
+
+  if (pending.length === 0) {
+    return component;
+  }
+
+  const migrated = pending.reduce((current, migration) => migration.migrate(current), {
+    variant: component.variant,
+    props: component.props,
+  });
+
+  return {
+    ...component,
+    variant: migrated.variant,
+    props: migrated.props,
+    schemaVersion: pending[pending.length - 1].version,
+  };
+}
+
+/**
+ * Upgrades every component of a saved layout, including the child layouts
+ * of containers
+ */
+export function migrateLayout<T extends VersionedComponent>(
+  layout: T[],
+  registry: ComponentMigrationRegistry = componentMigrations
+): T[] {
+  return layout.map((component) => {
+    const migrated = migrateComponent(component, registry);
+    if (!migrated.slots) {
+      return migrated;
+    }
+
+    return { ...migrated, slots: migrated.slots.map((slot) => migrateLayout(slot, registry)) };
+  });
+}
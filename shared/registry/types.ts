@@ -0,0 +1,80 @@
+import type React from 'react';
+import type { z } from 'zod';
+import type { ComponentMeta, EditableField } from '../types/component-meta';
+
+/**
+ * Component category, used to group the Theme Builder's component library
+ */
+export type ComponentCategory = 'Layout' | 'Content' | 'Navigation' | 'Products' | 'Forms' | 'Media';
+
+/**
+ * Props a component may receive, as accepted by its schema
+ */
+export type SchemaProps<TSchema extends z.ZodType> = Partial<z.input<TSchema>>;
+
+/**
+ * Registration of a shared component, used by both the Theme Builder and
+ * the demo shop
+ */
+export interface ComponentRegistration<TSchema extends z.ZodType = z.ZodType> {
+  /** The presentational component */
+  Component: React.ComponentType<any>;
+  /** Editor metadata; its defaultConfig fills new instances */
+  meta: ComponentMeta<SchemaProps<TSchema>>;
+  /** Fields of the property inspector, generated from the schema and the meta's annotations */
+  editableFields: EditableField[];
+  /** Zod schema validating the component's props */
+  propsSchema: TSchema;
+  /** Group of the component in the Theme Builder library */
+  category: ComponentCategory;
+  /** Icon name shown in the Theme Builder library */
+  icon: string;
+  /** Runtime props used until the app provides its own, e.g. an empty product list */
+  runtimeDefaults: SchemaProps<TSchema>;
+  /**
+   * Containers only: number of child layouts (slots) a component with these
+   * props holds. Renderers pass the rendered slots as the `slots` prop.
+   */
+  getSlotCount?: (props: Record<string, unknown>) => number;
+}
+
+/**
+ * Registrations keyed by component type, as stored in page layouts
+ */
+export type SharedComponentRegistry = Record<string, ComponentRegistration>;
+
+/**
+ * Component of a saved page layout. Layouts saved before schema versions
+ * were introduced have no schemaVersion and count as version 1.
+ */
+export interface VersionedComponent {
+  type: string;
+  variant: string;
+  props: Record<string, unknown>;
+  schemaVersion?: number;
+  /** Child layouts of a container, one per slot */
+  slots?: VersionedComponent[][];
+}
+
+/**
+ * The part of a saved component a migration may change
+ */
+export type MigratableComponent = Pick<VersionedComponent, 'variant' | 'props'>;
+
+/**
+ * One step upgrading saved components of a type to the next schema version
+ */
+export interface ComponentMigration {
+  /** Version the component has after this step; steps count up from 2 */
+  version: number;
+  /** What changed in the props shape */
+  description: string;
+  /** Upgrades a component of the previous version */
+  migrate: (component: MigratableComponent) => MigratableComponent;
+}
+
+/**
+ * Migrations keyed by component type, oldest first; types without
+ * migrations are still at version 1
+ */
+export type ComponentMigrationRegistry = Record<string, ComponentMigration[]>;
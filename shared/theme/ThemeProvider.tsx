@@ -0,0 +1,88 @@
+import React, { createContext, useContext } from 'react';
+import {
+  DEFAULT_SCHEME_COLORS,
+  DEFAULT_THEME_COLORS,
+  DEFAULT_TYPE_SCALE,
+  type ColorScheme,
+  type SchemeColors,
+  type ThemeColors,
+  type TypeScale,
+} from '../utils';
+
+/**
+ * Theme of the shop the shared components render for
+ *
+ * The Theme Builder canvas and the demo shop both mount a ThemeProvider and
+ * set the matching CSS custom properties (`--color-primary`, `--color-text`,
+ * …) on the surrounding element. The CSS modules read the variables; the
+ * components read this object for values they compute in script, such as
+ * resolving `theme.primary` references or inline placeholder colors.
+ */
+export interface Theme {
+  colors: Required<ThemeColors>; // Brand colors
+  colorScheme: ColorScheme; // Scheme being rendered
+  schemeColors: SchemeColors; // Page colors of that scheme
+  fonts: { heading: string; body: string }; // Font family names
+  typeScale: TypeScale;
+  baseSpacing: number; // Base spacing unit in pixels
+}
+
+// Partial theme accepted by createTheme; missing values use the defaults
+export interface ThemeInput {
+  colors?: ThemeColors;
+  colorScheme?: ColorScheme;
+  schemeColors?: Partial<SchemeColors>;
+  fonts?: Partial<Theme['fonts']>;
+  typeScale?: Partial<TypeScale>;
+  baseSpacing?: number;
+}
+
+// Drops unset values, so they don't override the defaults they are spread over
+function withoutUndefined<T extends object>(values: T = {} as T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Builds a complete theme, filling whatever the shop never set with the
+ * defaults. Page colors default to those of the chosen scheme.
+ */
+export function createTheme(input: ThemeInput = {}): Theme {
+  const colorScheme = input.colorScheme ?? 'light';
+
+  return {
+    colors: { ...DEFAULT_THEME_COLORS, ...withoutUndefined(input.colors) },
+    colorScheme,
+    schemeColors: { ...DEFAULT_SCHEME_COLORS[colorScheme], ...withoutUndefined(input.schemeColors) },
+    fonts: { heading: 'Inter', body: 'Inter', ...withoutUndefined(input.fonts) },
+    typeScale: { ...DEFAULT_TYPE_SCALE, ...withoutUndefined(input.typeScale) },
+    baseSpacing: input.baseSpacing ?? 8,
+  };
+}
+
+/**
+ * Theme used when no ThemeProvider is mounted, e.g. in isolated tests
+ */
+export const DEFAULT_THEME: Theme = createTheme();
+
+const ThemeContext = createContext<Theme>(DEFAULT_THEME);
+
+interface ThemeProviderProps {
+  theme: Theme;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the shop theme to the shared components below it
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ theme, children }) => {
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+/**
+ * Returns the theme of the nearest ThemeProvider, or the default theme
+ */
+export function useTheme(): Theme {
+  return useContext(ThemeContext);
+}
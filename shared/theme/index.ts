@@ -0,0 +1,6 @@
+/**
+ * Shared theme barrel export
+ */
+
+export { ThemeProvider, useTheme, createTheme, DEFAULT_THEME } from './ThemeProvider';
+export type { Theme, ThemeInput } from './ThemeProvider';
@@ -13,6 +13,7 @@ export type FieldType =
   | 'url'
   | 'color'
   | 'select'
+  | 'boolean'
   | 'repeater';
 
 /**
@@ -84,6 +85,7 @@ export interface UrlField extends BaseField {
 export interface ColorField extends BaseField {
   type: 'color';
   default?: string;
+  contrastWith?: string; // Background color field this text color is read against
 }
 
 /**
@@ -92,7 +94,16 @@ export interface ColorField extends BaseField {
 export interface SelectField extends BaseField {
   type: 'select';
   options: SelectOption[];
-  default?: string;
+  valueType?: 'string' | 'number'; // Type the prop stores options as; option values are strings
+  default?: string | number; // Typed like the prop, e.g. productsPerRow: 3
+}
+
+/**
+ * Boolean field configuration
+ */
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+  default?: boolean;
 }
 
 /**
@@ -102,6 +113,8 @@ export interface RepeaterField extends BaseField {
   type: 'repeater';
   minItems?: number;
   maxItems?: number;
+  /** Sibling number field that mirrors the item count (e.g. columnCount) */
+  countField?: string;
   fields: EditableField[];
 }
 
@@ -115,8 +128,39 @@ export type EditableField =
   | UrlField
   | ColorField
   | SelectField
+  | BooleanField
   | RepeaterField;
 
+/**
+ * Control of a schema prop whose type alone doesn't determine it, e.g. a
+ * string edited as a color or a union of number literals edited as a number
+ */
+export type FieldControl = 'text' | 'textarea' | 'url' | 'color' | 'number';
+
+/**
+ * Editor annotation of a props schema field.
+ *
+ * The field type, select options, constraints and whether a value is
+ * required are generated from the component's Zod schema (see
+ * getSchemaFields); annotations only add what a schema can't express.
+ */
+export interface FieldAnnotation {
+  name: string;
+  label: string;
+  description?: string;
+  /** Overrides the control the schema type implies */
+  control?: FieldControl;
+  /** Labels of select options by value; unlabeled options show their value */
+  optionLabels?: Record<string, string>;
+  /** Editor default, overriding the schema default */
+  default?: string | number | boolean;
+  visibleWhen?: VisibilityCondition;
+  contrastWith?: string; // Background color field this text color is read against
+  countField?: string; // Sibling number field mirroring a repeater's item count
+  /** Annotations of repeater item fields */
+  fields?: FieldAnnotation[];
+}
+
 /**
  * Variant definition for a component
  */
@@ -124,6 +168,8 @@ export interface ComponentVariant {
   value: string;
   label: string;
   description: string;
+  /** Optional thumbnail URL; the Theme Builder renders a live preview otherwise */
+  previewImage?: string;
 }
 
 /**
@@ -134,8 +180,8 @@ export interface ComponentMeta<TDefaultConfig = unknown> {
   displayName: string;
   /** Brief description of the component's purpose */
   description: string;
-  /** Fields that can be edited in the Theme Builder */
-  editableFields: EditableField[];
+  /** Props that can be edited in the Theme Builder, generated into fields from the props schema */
+  editableFields: FieldAnnotation[];
   /** Available visual variants for the component */
   variants: ComponentVariant[];
   /** Default variant when component is added */
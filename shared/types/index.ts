@@ -13,7 +13,10 @@ export type {
   UrlField,
   ColorField,
   SelectField,
+  BooleanField,
   RepeaterField,
   SelectOption,
+  FieldAnnotation,
+  FieldControl,
   VisibilityCondition,
 } from './component-meta';
@@ -0,0 +1,93 @@
+import { getCssRule } from './styleSheet';
+
+/**
+ * Light and dark color schemes for storefront themes
+ *
+ * Brand colors are shared by both schemes; each scheme has its own page
+ * colors (background, surface, text, muted text, border). A theme picks
+ * light, dark, or auto, which follows the visitor's `prefers-color-scheme`.
+ */
+
+export const COLOR_SCHEME_PREFERENCES = ['light', 'dark', 'auto'] as const;
+
+export type ColorSchemePreference = (typeof COLOR_SCHEME_PREFERENCES)[number];
+
+export type ColorScheme = Exclude<ColorSchemePreference, 'auto'>;
+
+export const SCHEME_COLOR_NAMES = ['background', 'surface', 'text', 'mutedText', 'border'] as const;
+
+export type SchemeColorName = (typeof SCHEME_COLOR_NAMES)[number];
+
+export type SchemeColors = Record<SchemeColorName, string>;
+
+/**
+ * Page colors used when a shop never saved a palette for a scheme
+ */
+export const DEFAULT_SCHEME_COLORS: Record<ColorScheme, SchemeColors> = {
+  light: {
+    background: '#ffffff',
+    surface: '#f9fafb',
+    text: '#111827',
+    mutedText: '#4b5563',
+    border: '#d1d5db',
+  },
+  dark: {
+    background: '#0f172a',
+    surface: '#1e293b',
+    text: '#f1f5f9',
+    mutedText: '#94a3b8',
+    border: '#334155',
+  },
+};
+
+// Variable names of the scheme colors, shared with the component CSS modules
+const SCHEME_COLOR_VARIABLES: Record<SchemeColorName, `--${string}`> = {
+  background: '--color-background',
+  surface: '--color-surface',
+  text: '--color-text',
+  mutedText: '--color-text-secondary',
+  border: '--color-border',
+};
+
+export function isColorSchemePreference(value: unknown): value is ColorSchemePreference {
+  return typeof value === 'string' && (COLOR_SCHEME_PREFERENCES as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the scheme to render for a preference; `auto` follows the device
+ */
+export function resolveColorScheme(preference: ColorSchemePreference, prefersDark: boolean): ColorScheme {
+  if (preference === 'auto') {
+    return prefersDark ? 'dark' : 'light';
+  }
+  return preference;
+}
+
+/**
+ * CSS custom properties of a scheme's page colors, e.g. `--color-background`
+ */
+export function getSchemeCssVariables(colors: SchemeColors): Record<`--${string}`, string> {
+  return Object.fromEntries(
+    SCHEME_COLOR_NAMES.map((name) => [SCHEME_COLOR_VARIABLES[name], colors[name]])
+  ) as Record<`--${string}`, string>;
+}
+
+/**
+ * Builds a style sheet applying the schemes to a selector.
+ *
+ * `auto` switches to the dark scheme through a media query, so the right
+ * colors apply on first paint without any script. Extra variables of each
+ * scheme (e.g. aliases used by an app's own styles) can be passed along.
+ */
+export function getColorSchemeStyleSheet(
+  selector: string,
+  preference: ColorSchemePreference,
+  schemes: Record<ColorScheme, Record<string, string>>
+): string {
+  const rule = (scheme: ColorScheme) => getCssRule(selector, { ...schemes[scheme], 'color-scheme': scheme });
+
+  if (preference === 'auto') {
+    return `${rule('light')}\n@media (prefers-color-scheme: dark) { ${rule('dark')} }`;
+  }
+  return rule(preference);
+}
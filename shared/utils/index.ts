@@ -0,0 +1,57 @@
+/**
+ * Shared utilities barrel export
+ */
+
+export {
+  matchesCondition,
+  isFieldVisible,
+  getVisibleFields,
+  pruneHiddenProps,
+  fillVisibleDefaults,
+} from './visibility';
+
+export { getSchemaFields } from './schemaFields';
+
+export { fitSlots } from './layoutSlots';
+
+export {
+  PALETTE_STEPS,
+  generateTonalPalette,
+  getPaletteCssVariables,
+} from './palette';
+export type { PaletteStep, TonalPalette } from './palette';
+
+export {
+  THEME_COLOR_NAMES,
+  DEFAULT_THEME_COLORS,
+  isThemeColorToken,
+  parseThemeColorToken,
+  formatThemeColorToken,
+  resolveThemeColor,
+  resolveThemeTokens,
+} from './themeTokens';
+export type { ThemeColorName, ThemeColors, ThemeColorToken } from './themeTokens';
+
+export {
+  FONT_FAMILIES,
+  FONT_PAIRINGS,
+  TYPE_SCALE_RATIOS,
+  DEFAULT_TYPE_SCALE,
+  getFontStack,
+  getTypeScaleSizes,
+  getTypographyCssVariables,
+} from './typography';
+export type { FontFamily, FontPairing, TypeScale } from './typography';
+
+export {
+  COLOR_SCHEME_PREFERENCES,
+  SCHEME_COLOR_NAMES,
+  DEFAULT_SCHEME_COLORS,
+  isColorSchemePreference,
+  resolveColorScheme,
+  getSchemeCssVariables,
+  getColorSchemeStyleSheet,
+} from './colorScheme';
+export type { ColorSchemePreference, ColorScheme, SchemeColorName, SchemeColors } from './colorScheme';
+
+export { isSafeCssValue, getCssRule } from './styleSheet';
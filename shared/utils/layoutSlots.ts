@@ -0,0 +1,30 @@
+/**
+ * Child layouts of container components
+ *
+ * Containers such as Section and Columns hold one child layout per slot.
+ * The number of slots follows the container's props (e.g. columnCount), so
+ * stored slots may be fewer or more than the props ask for.
+ */
+
+/**
+ * Fits stored child layouts to a container's slot count.
+ *
+ * Missing slots start out empty. Components of surplus slots move into the
+ * last remaining slot rather than disappearing, e.g. when a three-column
+ * layout is reduced to two columns.
+ */
+export function fitSlots<T>(slots: T[][] | undefined, count: number): T[][] {
+  const current = slots ?? [];
+  if (count <= 0) {
+    return [];
+  }
+
+  const fitted = Array.from({ length: count }, (_, index) => current[index] ?? []);
+  const surplus = current.slice(count).flat();
+
+  if (surplus.length > 0) {
+    fitted[count - 1] = [...fitted[count - 1], ...surplus];
+  }
+
+  return fitted;
+}
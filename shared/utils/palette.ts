@@ -0,0 +1,162 @@
+/**
+ * Tonal palette generation for theme colors
+ *
+ * Builds a 50–950 scale from a single brand color in the OKLCH color space,
+ * where equal lightness steps look equally far apart for every hue. Used by
+ * the Theme Builder canvas and the demo shop to expose hover, border and
+ * muted shades as CSS custom properties.
+ */
+
+export const PALETTE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type PaletteStep = (typeof PALETTE_STEPS)[number];
+
+export type TonalPalette = Record<PaletteStep, string>;
+
+interface Oklch {
+  l: number; // Lightness, 0-1
+  c: number; // Chroma, 0 to ~0.37
+  h: number; // Hue in degrees
+}
+
+// OKLCH lightness of each step, evenly spread from near-white to near-black
+const STEP_LIGHTNESS: Record<PaletteStep, number> = {
+  50: 0.975,
+  100: 0.94,
+  200: 0.885,
+  300: 0.81,
+  400: 0.71,
+  500: 0.625,
+  600: 0.55,
+  700: 0.48,
+  800: 0.41,
+  900: 0.35,
+  950: 0.26,
+};
+
+const HEX_COLOR_REGEX = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+}
+
+function hexToOklch(hex: string): Oklch {
+  const digits = hex.length === 4
+    ? hex.slice(1).split('').map((char) => char + char).join('')
+    : hex.slice(1);
+  const [r, g, b] = [0, 2, 4].map((offset) => toLinear(parseInt(digits.slice(offset, offset + 2), 16) / 255));
+
+  // Linear sRGB to OKLab (Björn Ottosson's reference matrices)
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+  return { l: lightness, c: Math.sqrt(a * a + bAxis * bAxis), h: hue < 0 ? hue + 360 : hue };
+}
+
+/**
+ * Converts OKLCH to linear sRGB channels, which may fall outside 0-1
+ */
+function oklchToLinearRgb({ l: lightness, c, h }: Oklch): [number, number, number] {
+  const radians = (h * Math.PI) / 180;
+  const a = c * Math.cos(radians);
+  const b = c * Math.sin(radians);
+
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function isInGamut(channels: [number, number, number]): boolean {
+  return channels.every((channel) => channel >= -0.0001 && channel <= 1.0001);
+}
+
+/**
+ * Converts OKLCH to hex, reducing chroma until the color fits in sRGB so the
+ * hue and lightness of the step are kept
+ */
+function oklchToHex(color: Oklch): string {
+  let low = 0;
+  let high = color.c;
+  let channels = oklchToLinearRgb(color);
+
+  if (!isInGamut(channels)) {
+    for (let step = 0; step < 20; step++) {
+      const middle = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb({ ...color, c: middle }))) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    channels = oklchToLinearRgb({ ...color, c: low });
+  }
+
+  return `#${channels
+    .map((channel) => Math.round(Math.min(1, Math.max(0, fromLinear(channel))) * 255))
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+/**
+ * Generates a 50–950 tonal scale from a hex color.
+ *
+ * The color itself is kept as-is at the step closest to its lightness; the
+ * other steps share its hue, with chroma tapering off towards the lightest
+ * and darkest ends. Returns null for values that aren't hex colors.
+ */
+export function generateTonalPalette(hex: string): TonalPalette | null {
+  if (!HEX_COLOR_REGEX.test(hex)) {
+    return null;
+  }
+
+  const base = hexToOklch(hex);
+  const anchorStep = PALETTE_STEPS.reduce((closest, step) =>
+    Math.abs(STEP_LIGHTNESS[step] - base.l) < Math.abs(STEP_LIGHTNESS[closest] - base.l) ? step : closest
+  );
+
+  const palette = {} as TonalPalette;
+  PALETTE_STEPS.forEach((step) => {
+    if (step === anchorStep) {
+      palette[step] = hex.toLowerCase();
+      return;
+    }
+
+    const lightness = STEP_LIGHTNESS[step];
+    const distance = Math.abs(lightness - base.l);
+    const chroma = base.c * Math.max(0.15, 1 - distance * 1.2);
+    palette[step] = oklchToHex({ l: lightness, c: chroma, h: base.h });
+  });
+
+  return palette;
+}
+
+/**
+ * CSS custom properties for a color's tonal scale, e.g. `--color-primary-600`.
+ * Returns no variables when the color isn't a hex color.
+ */
+export function getPaletteCssVariables(name: string, hex: string): Record<`--${string}`, string> {
+  const palette = generateTonalPalette(hex);
+  if (!palette) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    PALETTE_STEPS.map((step) => [`--color-${name}-${step}`, palette[step]])
+  ) as Record<`--${string}`, string>;
+}
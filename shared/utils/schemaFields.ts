@@ -0,0 +1,205 @@
+import type { z } from 'zod';
+import type { EditableField, FieldAnnotation, SelectOption } from '../types/component-meta';
+
+/**
+ * Editor field generation from Zod props schemas
+ *
+ * Field types, select options, min/max constraints and whether a value is
+ * required are read from the schema, so the Theme Builder inspector can't
+ * drift from what the demo shop validates. Component metadata annotates the
+ * props to edit with labels, descriptions and the rest a schema can't express.
+ */
+
+// Introspection data Zod exposes on every schema
+interface SchemaInternals {
+  def: {
+    type: string;
+    shape?: Record<string, z.ZodType>;
+    innerType?: z.ZodType;
+    element?: z.ZodType;
+    entries?: Record<string, string | number>;
+    options?: z.ZodType[];
+    values?: unknown[];
+    defaultValue?: unknown;
+  };
+  bag: {
+    minimum?: number;
+    maximum?: number;
+    format?: string;
+  };
+}
+
+function getInternals(schema: z.ZodType): SchemaInternals {
+  return (schema as unknown as { _zod: SchemaInternals })._zod;
+}
+
+interface UnwrappedSchema {
+  schema: z.ZodType;
+  optional: boolean;
+  defaultValue: unknown;
+}
+
+/**
+ * Strips optional, nullable and default wrappers, remembering whether the
+ * prop may be left out and which value the schema fills in then
+ */
+function unwrap(schema: z.ZodType): UnwrappedSchema {
+  let current = schema;
+  let optional = false;
+  let defaultValue: unknown;
+
+  for (;;) {
+    const { def } = getInternals(current);
+    if (!def.innerType || !['optional', 'nullable', 'default'].includes(def.type)) {
+      return { schema: current, optional, defaultValue };
+    }
+
+    if (def.type === 'optional' || def.type === 'default') {
+      optional = true;
+    }
+    if (def.type === 'default') {
+      defaultValue = def.defaultValue;
+    }
+    current = def.innerType;
+  }
+}
+
+// Integer checks bound numbers to the safe range, which is no editor limit
+function getBound(value: number | undefined): number | undefined {
+  return value !== undefined && Math.abs(value) < Number.MAX_SAFE_INTEGER ? value : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function toOptions(values: unknown[], annotation: FieldAnnotation): SelectOption[] {
+  return values.map((value) => ({
+    value: String(value),
+    label: annotation.optionLabels?.[String(value)] ?? String(value),
+  }));
+}
+
+/**
+ * Generates the editor field of one annotated prop
+ */
+function toEditableField(annotation: FieldAnnotation, propSchema: z.ZodType): EditableField {
+  const { schema, optional, defaultValue } = unwrap(propSchema);
+  const { def, bag } = getInternals(schema);
+  const base = {
+    name: annotation.name,
+    label: annotation.label,
+    required: !optional,
+    ...(annotation.description !== undefined && { description: annotation.description }),
+    ...(annotation.visibleWhen !== undefined && { visibleWhen: annotation.visibleWhen }),
+  };
+  const fieldDefault = annotation.default ?? defaultValue;
+
+  switch (def.type) {
+    case 'string': {
+      const control = annotation.control ?? (bag.format === 'url' ? 'url' : 'text');
+      if (control === 'color') {
+        return {
+          ...base,
+          type: 'color',
+          default: asString(fieldDefault),
+          ...(annotation.contrastWith !== undefined && { contrastWith: annotation.contrastWith }),
+        };
+      }
+      if (control === 'url') {
+        return { ...base, type: 'url', default: asString(fieldDefault) };
+      }
+      if (control === 'text' || control === 'textarea') {
+        return { ...base, type: control, maxLength: getBound(bag.maximum), default: asString(fieldDefault) };
+      }
+      break;
+    }
+
+    case 'number':
+      return {
+        ...base,
+        type: 'number',
+        min: getBound(bag.minimum),
+        max: getBound(bag.maximum),
+        default: asNumber(fieldDefault),
+      };
+
+    case 'boolean':
+      return { ...base, type: 'boolean', default: typeof fieldDefault === 'boolean' ? fieldDefault : undefined };
+
+    case 'enum':
+      return {
+        ...base,
+        type: 'select',
+        options: toOptions(Object.values(def.entries ?? {}), annotation),
+        valueType: 'string',
+        default: asString(fieldDefault),
+      };
+
+    case 'union': {
+      // Unions of literals, e.g. productsPerRow: 2 | 3 | 4 | 6
+      const values = (def.options ?? []).flatMap((option) => getInternals(option).def.values ?? [option]);
+      if (!values.every((value) => typeof value === 'string' || typeof value === 'number')) {
+        break;
+      }
+      if (annotation.control === 'number' && values.every((value) => typeof value === 'number')) {
+        return {
+          ...base,
+          type: 'number',
+          min: Math.min(...values),
+          max: Math.max(...values),
+          default: asNumber(fieldDefault),
+        };
+      }
+      return {
+        ...base,
+        type: 'select',
+        options: toOptions(values, annotation),
+        valueType: values.every((value) => typeof value === 'number') ? 'number' : 'string',
+        default: typeof fieldDefault === 'string' || typeof fieldDefault === 'number' ? fieldDefault : undefined,
+      };
+    }
+
+    case 'array':
+      if (def.element && getInternals(def.element).def.type === 'object') {
+        return {
+          ...base,
+          type: 'repeater',
+          minItems: getBound(bag.minimum),
+          maxItems: getBound(bag.maximum),
+          ...(annotation.countField !== undefined && { countField: annotation.countField }),
+          fields: getSchemaFields(def.element, annotation.fields ?? []),
+        };
+      }
+      break;
+  }
+
+  throw new Error(`Prop "${annotation.name}" (${def.type}) cannot be edited as a field`);
+}
+
+/**
+ * Generates the editor fields of the annotated props of an object schema,
+ * in annotation order.
+ *
+ * Throws when an annotation names a prop the schema doesn't have or whose
+ * type has no editor control, so drift fails as soon as a registry loads.
+ */
+export function getSchemaFields(schema: z.ZodType, annotations: FieldAnnotation[]): EditableField[] {
+  const { def } = getInternals(unwrap(schema).schema);
+  if (def.type !== 'object' || !def.shape) {
+    throw new Error(`Editor fields need an object schema, got ${def.type}`);
+  }
+  const shape = def.shape;
+
+  return annotations.map((annotation) => {
+    const propSchema = shape[annotation.name];
+    if (!propSchema) {
+      throw new Error(`Prop "${annotation.name}" is not part of the props schema`);
+    }
+    return toEditableField(annotation, propSchema);
+  });
+}
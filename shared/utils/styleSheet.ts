@@ -0,0 +1,28 @@
+/**
+ * Helpers for style sheets built from theme values
+ *
+ * Theme values come from shop settings, so each value is checked before it is
+ * written into a `<style>` element: anything that could end a declaration,
+ * a rule or the element itself is dropped.
+ */
+
+const SAFE_CSS_VALUE_REGEX = /^[#\w\s(),.%/"-]+$/;
+
+/**
+ * Checks whether a value can be written into a declaration as-is
+ */
+export function isSafeCssValue(value: string): boolean {
+  return SAFE_CSS_VALUE_REGEX.test(value);
+}
+
+/**
+ * Builds a CSS rule from declarations, e.g. `:root { --color-primary: #3b82f6; }`.
+ * Declarations with unsafe values are left out.
+ */
+export function getCssRule(selector: string, declarations: Record<string, string>): string {
+  const body = Object.entries(declarations)
+    .filter(([, value]) => isSafeCssValue(value))
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(' ');
+  return `${selector} { ${body} }`;
+}
@@ -0,0 +1,104 @@
+import { PALETTE_STEPS, generateTonalPalette, type PaletteStep } from './palette';
+
+/**
+ * Theme token references for color props
+ *
+ * Color fields may store a reference to a theme color instead of a literal,
+ * e.g. `theme.primary` or `theme.accent/200` for a shade of its tonal scale.
+ * References are resolved against the shop's theme at render time, so a
+ * brand color change reaches every component that uses it.
+ */
+
+export const THEME_COLOR_NAMES = ['primary', 'secondary', 'accent'] as const;
+
+export type ThemeColorName = (typeof THEME_COLOR_NAMES)[number];
+
+// Brand colors of a theme, in the shape stored by the API
+export type ThemeColors = Partial<Record<ThemeColorName, string>>;
+
+export interface ThemeColorToken {
+  color: ThemeColorName;
+  step?: PaletteStep; // Shade of the tonal scale; the theme color itself when omitted
+}
+
+/**
+ * Colors used when a shop never saved a theme
+ */
+export const DEFAULT_THEME_COLORS: Required<ThemeColors> = {
+  primary: '#3b82f6',
+  secondary: '#6366f1',
+  accent: '#f59e0b',
+};
+
+const THEME_COLOR_TOKEN_REGEX = new RegExp(
+  `^theme\\.(${THEME_COLOR_NAMES.join('|')})(?:/(${PALETTE_STEPS.join('|')}))?$`
+);
+
+/**
+ * Checks whether a value is a theme color reference
+ */
+export function isThemeColorToken(value: unknown): value is string {
+  return typeof value === 'string' && THEME_COLOR_TOKEN_REGEX.test(value);
+}
+
+export function parseThemeColorToken(value: string): ThemeColorToken | null {
+  const match = value.match(THEME_COLOR_TOKEN_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    color: match[1] as ThemeColorName,
+    ...(match[2] ? { step: Number(match[2]) as PaletteStep } : {}),
+  };
+}
+
+export function formatThemeColorToken({ color, step }: ThemeColorToken): string {
+  return step === undefined ? `theme.${color}` : `theme.${color}/${step}`;
+}
+
+/**
+ * Resolves a color value against the theme.
+ *
+ * Theme references become the referenced color; theme colors the shop never
+ * set fall back to the defaults. Literal colors are returned unchanged.
+ */
+export function resolveThemeColor(value: string, colors: ThemeColors = {}): string {
+  const token = parseThemeColorToken(value);
+  if (!token) {
+    return value;
+  }
+
+  const base = colors[token.color] ?? DEFAULT_THEME_COLORS[token.color];
+  if (token.step === undefined) {
+    return base;
+  }
+
+  const palette = generateTonalPalette(base) ?? generateTonalPalette(DEFAULT_THEME_COLORS[token.color]);
+  return palette ? palette[token.step] : base;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Resolves every theme reference in a component's props, including
+ * repeater items. Other values are returned as they are.
+ */
+export function resolveThemeTokens<T extends Record<string, unknown>>(props: T, colors: ThemeColors = {}): T {
+  const resolve = (value: unknown): unknown => {
+    if (isThemeColorToken(value)) {
+      return resolveThemeColor(value, colors);
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item)]));
+    }
+    return value;
+  };
+
+  return resolve(props) as T;
+}
@@ -0,0 +1,122 @@
+/**
+ * Typography settings shared by the Theme Builder and the demo shop
+ *
+ * Lists the bundled font families with suggested pairings, and turns a type
+ * scale (base size, ratio, line heights, letter-spacing) into the CSS custom
+ * properties that Heading and TextSection use for their sizes.
+ */
+
+export interface FontFamily {
+  name: string; // Name stored in theme settings
+  family: string; // CSS family name of the bundled font files
+  category: 'sans-serif' | 'serif';
+}
+
+export interface FontPairing {
+  id: string;
+  name: string;
+  heading: string; // FontFamily name
+  body: string; // FontFamily name
+}
+
+export interface TypeScale {
+  baseSize: number; // Body font size in pixels
+  scaleRatio: number; // Size ratio between consecutive levels (body → h3 → h2 → h1)
+  headingLineHeight: number; // Unitless
+  bodyLineHeight: number; // Unitless
+  headingLetterSpacing: number; // In em
+  bodyLetterSpacing: number; // In em
+}
+
+/**
+ * Fonts bundled with both apps, so they render without network access
+ */
+export const FONT_FAMILIES: FontFamily[] = [
+  { name: 'Inter', family: 'Inter Variable', category: 'sans-serif' },
+  { name: 'Roboto', family: 'Roboto Variable', category: 'sans-serif' },
+  { name: 'Open Sans', family: 'Open Sans Variable', category: 'sans-serif' },
+  { name: 'Lato', family: 'Lato', category: 'sans-serif' },
+  { name: 'Montserrat', family: 'Montserrat Variable', category: 'sans-serif' },
+  { name: 'Merriweather', family: 'Merriweather Variable', category: 'serif' },
+  { name: 'Playfair Display', family: 'Playfair Display Variable', category: 'serif' },
+];
+
+export const FONT_PAIRINGS: FontPairing[] = [
+  { id: 'modern', name: 'Modern', heading: 'Inter', body: 'Inter' },
+  { id: 'editorial', name: 'Editorial', heading: 'Playfair Display', body: 'Lato' },
+  { id: 'friendly', name: 'Friendly', heading: 'Montserrat', body: 'Open Sans' },
+  { id: 'classic', name: 'Classic', heading: 'Merriweather', body: 'Roboto' },
+  { id: 'geometric', name: 'Geometric', heading: 'Montserrat', body: 'Roboto' },
+];
+
+// Musical interval names are the usual labels for type scale ratios
+export const TYPE_SCALE_RATIOS = [
+  { value: 1.125, label: 'Major second (1.125)' },
+  { value: 1.2, label: 'Minor third (1.2)' },
+  { value: 1.25, label: 'Major third (1.25)' },
+  { value: 1.333, label: 'Perfect fourth (1.333)' },
+  { value: 1.5, label: 'Perfect fifth (1.5)' },
+];
+
+/**
+ * Type scale used when a shop never saved one
+ */
+export const DEFAULT_TYPE_SCALE: TypeScale = {
+  baseSize: 16,
+  scaleRatio: 1.25,
+  headingLineHeight: 1.2,
+  bodyLineHeight: 1.6,
+  headingLetterSpacing: 0,
+  bodyLetterSpacing: 0,
+};
+
+/**
+ * Builds the font-family stack for a font name, falling back to the system
+ * font of the same category. Unknown names are used as-is.
+ */
+export function getFontStack(name: string): string {
+  const font = FONT_FAMILIES.find((candidate) => candidate.name === name);
+  if (!font) {
+    return `"${name}", ui-sans-serif, system-ui, sans-serif`;
+  }
+
+  const fallback = font.category === 'serif'
+    ? 'ui-serif, Georgia, serif'
+    : 'ui-sans-serif, system-ui, sans-serif';
+  const families = font.family === font.name ? [font.family] : [font.family, font.name];
+  return `${families.map((family) => `"${family}"`).join(', ')}, ${fallback}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Font sizes in pixels: each heading level is one ratio step above the next
+ */
+export function getTypeScaleSizes(scale: TypeScale): Record<'body' | 'h3' | 'h2' | 'h1', number> {
+  return {
+    body: round(scale.baseSize),
+    h3: round(scale.baseSize * scale.scaleRatio ** 2),
+    h2: round(scale.baseSize * scale.scaleRatio ** 3),
+    h1: round(scale.baseSize * scale.scaleRatio ** 4),
+  };
+}
+
+/**
+ * CSS custom properties of a type scale, e.g. `--font-size-h1`
+ */
+export function getTypographyCssVariables(scale: TypeScale): Record<`--${string}`, string> {
+  const sizes = getTypeScaleSizes(scale);
+
+  return {
+    '--font-size-body': `${sizes.body}px`,
+    '--font-size-h3': `${sizes.h3}px`,
+    '--font-size-h2': `${sizes.h2}px`,
+    '--font-size-h1': `${sizes.h1}px`,
+    '--line-height-heading': String(scale.headingLineHeight),
+    '--line-height-body': String(scale.bodyLineHeight),
+    '--letter-spacing-heading': `${scale.headingLetterSpacing}em`,
+    '--letter-spacing-body': `${scale.bodyLetterSpacing}em`,
+  };
+}
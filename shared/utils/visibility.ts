@@ -0,0 +1,142 @@
+import type { EditableField, VisibilityCondition } from '../types/component-meta';
+
+/**
+ * Field visibility evaluation for component metadata
+ *
+ * Evaluates `visibleWhen` conditions declared on editable fields against the
+ * current props. Used by the Theme Builder inspector to show only relevant
+ * fields and to drop stale values of hidden fields before saving.
+ */
+
+type Props = Record<string, unknown>;
+
+/**
+ * Checks whether a visibility condition matches the given props.
+ *
+ * Every key of the condition must match (AND). A string expects an exact
+ * value, an array accepts any of its values. Values are compared as strings
+ * so numeric and boolean props can be matched against select option values.
+ *
+ * Keys missing from `props` are looked up in `parentProps`, which lets
+ * repeater sub-fields depend on the parent component's props (e.g. `variant`).
+ */
+export function matchesCondition(
+  condition: VisibilityCondition,
+  props: Props,
+  parentProps: Props = {}
+): boolean {
+  return Object.entries(condition).every(([key, expected]) => {
+    const actual = key in props ? props[key] : parentProps[key];
+
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+
+    const actualValue = String(actual);
+    return Array.isArray(expected)
+      ? expected.includes(actualValue)
+      : expected === actualValue;
+  });
+}
+
+/**
+ * Checks whether a single field is visible for the given props
+ */
+export function isFieldVisible(
+  field: EditableField,
+  props: Props,
+  parentProps: Props = {}
+): boolean {
+  if (!field.visibleWhen) {
+    return true;
+  }
+
+  return matchesCondition(field.visibleWhen, props, parentProps);
+}
+
+/**
+ * Returns the fields that are visible for the given props, preserving order
+ */
+export function getVisibleFields(
+  fields: EditableField[],
+  props: Props,
+  parentProps: Props = {}
+): EditableField[] {
+  return fields.filter((field) => isFieldVisible(field, props, parentProps));
+}
+
+/**
+ * Removes values of hidden fields from props.
+ *
+ * Only fields declared in `fields` are considered, so runtime props that are
+ * not part of the metadata are left untouched. Repeater items are pruned
+ * recursively with the parent props as fallback context.
+ */
+export function pruneHiddenProps(
+  fields: EditableField[],
+  props: Props,
+  parentProps: Props = {}
+): Props {
+  const pruned: Props = { ...props };
+
+  fields.forEach((field) => {
+    if (!isFieldVisible(field, props, parentProps)) {
+      delete pruned[field.name];
+      return;
+    }
+
+    if (field.type === 'repeater' && Array.isArray(props[field.name])) {
+      const context = { ...parentProps, ...props };
+      pruned[field.name] = (props[field.name] as unknown[]).map((item) =>
+        item && typeof item === 'object'
+          ? pruneHiddenProps(field.fields, item as Props, context)
+          : item
+      );
+    }
+  });
+
+  return pruned;
+}
+
+/**
+ * Fills in default values of visible fields that have no value yet.
+ *
+ * The counterpart of pruneHiddenProps: after switching variant, fields that
+ * became visible (e.g. Heading's `backgroundColor`) get their declared
+ * `default`, so the component has what the new variant needs. Fields without
+ * a default and props that are already set are left alone. Repeater items
+ * are filled recursively with the parent props as fallback context.
+ */
+export function fillVisibleDefaults(
+  fields: EditableField[],
+  props: Props,
+  parentProps: Props = {}
+): Props {
+  const filled: Props = { ...props };
+
+  fields.forEach((field) => {
+    if (!isFieldVisible(field, props, parentProps)) {
+      return;
+    }
+
+    if (field.type === 'repeater') {
+      if (Array.isArray(props[field.name])) {
+        const context = { ...parentProps, ...props };
+        filled[field.name] = (props[field.name] as unknown[]).map((item) =>
+          item && typeof item === 'object'
+            ? fillVisibleDefaults(field.fields, item as Props, context)
+            : item
+        );
+      }
+      return;
+    }
+
+    // Values supplied through parentProps (e.g. a definition-level variant) count as set
+    const isSet = props[field.name] !== undefined || parentProps[field.name] !== undefined;
+    if (!isSet && field.default !== undefined) {
+      filled[field.name] = field.default;
+    }
+  });
+
+  return filled;
+}
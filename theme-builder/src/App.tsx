@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { Toaster } from 'sonner'
 import { WorkspaceProvider } from './contexts/WorkspaceContext'
+import { ThemeSettingsProvider } from './contexts/ThemeSettingsContext'
 import { WorkspaceView } from './components/workspace/WorkspaceView'
 import { LoginForm } from './components/auth/LoginForm'
 import { RegistrationForm } from './components/auth/RegistrationForm'
@@ -70,7 +71,9 @@ function App() {
           element={
             isAuthenticated ? (
               <WorkspaceProvider>
-                <WorkspaceView />
+                <ThemeSettingsProvider>
+                  <WorkspaceView />
+                </ThemeSettingsProvider>
               </WorkspaceProvider>
             ) : (
               <Navigate to="/login" replace />
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import {
   AlertDialog,
@@ -10,29 +10,65 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import type { ComponentRegistry } from '../../types/workspace';
+import type { ComponentRegistry, LayoutSlot, ThemeSettings } from '../../types/workspace';
+import type { ColorScheme } from '@shared/utils';
+import { DEFAULT_THEME, ThemeProvider } from '@shared/theme';
+import { getComponentTheme, getThemeColors, getThemeStyle } from '../../lib/theme';
 import { CanvasComponent } from './CanvasComponent';
+import { CanvasSlot } from './CanvasSlot';
 import { EmptyCanvasPlaceholder } from './EmptyCanvasPlaceholder';
 import { InsertionIndicator } from './InsertionIndicator';
 import { ComponentDefinition } from '@/types/api';
 import type { DragState } from '../../hooks/useDragAndDrop';
+import type { ProblemSeverity } from '../../utils/layoutValidation';
+import { ROOT_SLOT, flattenLayout } from '../../utils/layoutTree';
 
 export interface CanvasProps {
   layout: ComponentDefinition[];
   componentRegistry: ComponentRegistry;
   onComponentDelete: (id: string) => void;
+  onComponentSettings?: (id: string) => void;
+  onComponentDuplicate?: (id: string) => void;
+  onComponentMove?: (fromIndex: number, toIndex: number, target: LayoutSlot) => void; // Within the slot of the component
+  onComponentInsert?: (componentType: string, atIndex: number, target: LayoutSlot) => void;
+  onComponentVariantChange?: (id: string, variant: string) => void;
+  selectedComponentId?: string | null;
   onRestoreDefault?: () => void;
   dragState?: DragState;
+  themeSettings?: ThemeSettings; // Applied live to the rendered components
+  colorScheme?: ColorScheme; // Scheme of the theme to preview (default: light)
+  problemSeverities?: Record<string, ProblemSeverity>; // Highlights components that fail validation
 }
 
 export function Canvas({
   layout,
   componentRegistry,
   onComponentDelete,
+  onComponentSettings,
+  onComponentDuplicate,
+  onComponentMove,
+  onComponentInsert,
+  onComponentVariantChange,
+  selectedComponentId,
   onRestoreDefault,
   dragState,
+  themeSettings,
+  colorScheme = 'light',
+  problemSeverities,
 }: CanvasProps) {
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const themeStyle = useMemo(
+    () => (themeSettings ? getThemeStyle(themeSettings, colorScheme) : undefined),
+    [themeSettings, colorScheme]
+  );
+  const themeColors = useMemo(
+    () => (themeSettings ? getThemeColors(themeSettings) : undefined),
+    [themeSettings]
+  );
+  const theme = useMemo(
+    () => (themeSettings ? getComponentTheme(themeSettings, colorScheme) : DEFAULT_THEME),
+    [themeSettings, colorScheme]
+  );
 
   const handleDeleteClick = (id: string) => {
     setDeleteConfirmId(id);
@@ -57,49 +93,81 @@ export function Canvas({
   // Get array of component IDs for sortable context
   const componentIds = layout.map((comp) => comp.id);
 
+  // Components only move sideways when there are columns or sections to move into
+  const restrictToVerticalAxis = !flattenLayout(layout).some((component) => component.slots);
+
+  // Containers render their child layouts through these, nesting as deep as the layout does
+  const renderSlot = (container: ComponentDefinition, slot: number) => {
+    const components = container.slots?.[slot] ?? [];
+
+    return (
+      <CanvasSlot key={slot} parentId={container.id} slot={slot} layout={components} dragState={dragState}>
+        {renderComponents(components, { parentId: container.id, slot })}
+      </CanvasSlot>
+    );
+  };
+
+  const renderComponents = (components: ComponentDefinition[], target: LayoutSlot) =>
+    components.map((componentDef, index) => (
+      <CanvasComponent
+        key={componentDef.id}
+        componentDefinition={componentDef}
+        componentRegistry={componentRegistry}
+        onDelete={handleDeleteClick}
+        onSettings={onComponentSettings}
+        onDuplicate={onComponentDuplicate}
+        onMove={onComponentMove}
+        onInsert={onComponentInsert}
+        onVariantChange={onComponentVariantChange}
+        isSelected={componentDef.id === selectedComponentId}
+        index={index}
+        totalCount={components.length}
+        slot={target}
+        renderSlot={renderSlot}
+        restrictToVerticalAxis={restrictToVerticalAxis}
+        isAnyDragging={dragState?.isDragging || false}
+        themeStyle={themeStyle}
+        themeColors={themeColors}
+        problemSeverity={problemSeverities?.[componentDef.id]}
+      />
+    ));
+
   return (
-    <SortableContext items={componentIds} strategy={verticalListSortingStrategy}>
-      <div className="relative space-y-2">
-        {/* Insertion indicator - shows where component will be dropped */}
-        {dragState && (
-          <InsertionIndicator
-            insertionIndex={dragState.insertionIndex}
-            layout={layout}
-            isDragging={dragState.isDragging}
-            draggedComponentId={dragState.draggedId}
-          />
-        )}
+    <ThemeProvider theme={theme}>
+      <SortableContext items={componentIds} strategy={verticalListSortingStrategy}>
+        <div className="relative space-y-2">
+          {/* Insertion indicator - shows where component will be dropped */}
+          {dragState && (
+            <InsertionIndicator
+              insertionIndex={dragState.insertionTarget?.parentId === null ? dragState.insertionIndex : null}
+              layout={layout}
+              isDragging={dragState.isDragging}
+              draggedComponentId={dragState.draggedId}
+            />
+          )}
 
-        {/* Render canvas components */}
-        {layout.map((componentDef, index) => (
-          <CanvasComponent
-            key={componentDef.id}
-            componentDefinition={componentDef}
-            componentRegistry={componentRegistry}
-            onDelete={handleDeleteClick}
-            index={index}
-            isAnyDragging={dragState?.isDragging || false}
-          />
-        ))}
+          {/* Render canvas components */}
+          {renderComponents(layout, ROOT_SLOT)}
 
-        {/* Delete confirmation dialog */}
-        <AlertDialog open={!!deleteConfirmId} onOpenChange={(open) => !open && handleCancelDelete()}>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Delete Component</AlertDialogTitle>
-              <AlertDialogDescription>
-                Are you sure you want to delete this component? This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel onClick={handleCancelDelete}>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-600 hover:bg-red-700">
-                Delete
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      </div>
-    </SortableContext>
+          {/* Delete confirmation dialog */}
+          <AlertDialog open={!!deleteConfirmId} onOpenChange={(open) => !open && handleCancelDelete()}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Component</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Are you sure you want to delete this component? This action cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel onClick={handleCancelDelete}>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleConfirmDelete} className="bg-red-600 hover:bg-red-700">
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </SortableContext>
+    </ThemeProvider>
   );
 }
@@ -1,18 +1,49 @@
-import { Suspense, useState } from 'react';
+import {
+  Suspense,
+  useRef,
+  useState,
+  type CSSProperties,
+  type FocusEvent,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Button } from '@/components/ui/button';
-import type { ComponentRegistry } from '../../types/workspace';
+import { resolveThemeTokens, type ThemeColors } from '@shared/utils';
+import type { ComponentRegistry, LayoutSlot } from '../../types/workspace';
 import { ComponentDefinition } from '@/types/api';
 import { getShopIdFromToken } from '@/lib/auth';
+import { InsertComponentMenu } from './InsertComponentMenu';
+import { VariantPicker } from './VariantPicker';
+import type { ProblemSeverity } from '../../utils/layoutValidation';
+import { ROOT_SLOT } from '../../utils/layoutTree';
+
+// Outline of components with validation problems, unless selected
+const problemClassNames: Record<ProblemSeverity, string> = {
+  error: 'border-red-500 ring-2 ring-red-200',
+  warning: 'border-yellow-400 ring-2 ring-yellow-100',
+};
 
 export interface CanvasComponentProps {
   componentDefinition: ComponentDefinition;
   componentRegistry: ComponentRegistry;
   onDelete: (id: string) => void;
   onSettings?: (id: string) => void;
-  index: number;
+  onDuplicate?: (id: string) => void;
+  onMove?: (fromIndex: number, toIndex: number, target: LayoutSlot) => void;
+  onInsert?: (componentType: string, atIndex: number, target: LayoutSlot) => void;
+  onVariantChange?: (id: string, variant: string) => void;
+  isSelected?: boolean;
+  index: number; // Position within the slot
+  totalCount?: number; // Number of components in the slot
+  slot?: LayoutSlot; // Slot holding the component (default: the page)
+  renderSlot?: (container: ComponentDefinition, slot: number) => ReactNode; // Renders child layouts of containers
+  restrictToVerticalAxis?: boolean; // Drags stay vertical unless there are slots to move into (default: true)
   isAnyDragging?: boolean;
+  themeStyle?: CSSProperties; // Theme variables, scoped to the rendered component
+  themeColors?: ThemeColors; // Resolves theme references such as `theme.primary` in props
+  problemSeverity?: ProblemSeverity; // Most severe validation problem, if any
 }
 
 export function CanvasComponent({
@@ -20,10 +51,27 @@ export function CanvasComponent({
   componentRegistry,
   onDelete,
   onSettings,
+  onDuplicate,
+  onMove,
+  onInsert,
+  onVariantChange,
+  isSelected = false,
   index,
+  totalCount = index + 1,
+  slot = ROOT_SLOT,
+  renderSlot,
+  restrictToVerticalAxis = true,
   isAnyDragging = false,
+  themeStyle,
+  themeColors,
+  problemSeverity,
 }: CanvasComponentProps) {
   const [isHovered, setIsHovered] = useState(false);
+  const [isFocusWithin, setIsFocusWithin] = useState(false);
+  const [isInsertMenuOpen, setIsInsertMenuOpen] = useState(false);
+  const [isVariantPickerOpen, setIsVariantPickerOpen] = useState(false);
+  const insertButtonRef = useRef<HTMLButtonElement>(null);
+  const variantButtonRef = useRef<HTMLButtonElement>(null);
 
   const {
     attributes,
@@ -38,6 +86,8 @@ export function CanvasComponent({
       type: 'canvas-component',
       componentDefinition,
       index,
+      slot,
+      restrictToVerticalAxis,
     },
   });
 
@@ -80,17 +130,77 @@ export function CanvasComponent({
     );
   }
 
-  // Merge defaultProps from registry with saved props from database
+  // Merge previewProps and defaultProps from registry with saved props from database
   // This ensures components have all required runtime props (like categories, products)
-  // even if the database only has the editable configuration props
-  const mergedProps = {
+  // even though the database only has the editable configuration props
+  // Theme references in color props are resolved against the current theme
+  const mergedProps = resolveThemeTokens({
     shopId,
     isLoading: false,
     error: null,
+    ...componentEntry.previewProps, // Runtime defaults and canvas samples, never saved
     ...componentEntry.defaultProps, // Default props from componentRegistry
     ...componentDefinition.props,    // Saved props from database (overrides defaults)
+    variant: componentDefinition.variant,
+  }, themeColors);
+
+  // Containers get their child layouts rendered as canvas slots, one per slot
+  const slotCount = componentEntry.getSlotCount?.(mergedProps) ?? 0;
+  const slots =
+    renderSlot && slotCount > 0
+      ? Array.from({ length: slotCount }, (_, slotIndex) => renderSlot(componentDefinition, slotIndex))
+      : undefined;
+
+  const canMoveUp = index > 0;
+  const canMoveDown = index < totalCount - 1;
+
+  // Keyboard commands on the focused component itself (not on its toolbar buttons)
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || !e.altKey || !onMove) return;
+
+    if (e.key === 'ArrowUp' && canMoveUp) {
+      e.preventDefault();
+      onMove(index, index - 1, slot);
+    } else if (e.key === 'ArrowDown' && canMoveDown) {
+      e.preventDefault();
+      onMove(index, index + 1, slot);
+    }
+  };
+
+  // Show the toolbar while focus is anywhere inside the component
+  const handleFocus = () => setIsFocusWithin(true);
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsFocusWithin(false);
+      setIsInsertMenuOpen(false);
+      setIsVariantPickerOpen(false);
+    }
+  };
+
+  const handleInsertSelect = (componentType: string) => {
+    setIsInsertMenuOpen(false);
+    onInsert?.(componentType, index + 1, slot);
+  };
+
+  const handleInsertMenuClose = () => {
+    setIsInsertMenuOpen(false);
+    insertButtonRef.current?.focus();
+  };
+
+  const handleVariantSelect = (variant: string) => {
+    setIsVariantPickerOpen(false);
+    onVariantChange?.(componentDefinition.id, variant);
+    variantButtonRef.current?.focus();
+  };
+
+  const handleVariantPickerClose = () => {
+    setIsVariantPickerOpen(false);
+    variantButtonRef.current?.focus();
   };
 
+  const hasVariants = componentEntry.meta.variants.length > 1;
+  const showControls = isHovered || isFocusWithin || isInsertMenuOpen || isVariantPickerOpen;
+
   // When any drag is active, disable transforms to freeze components in place
   // Only the dropbar moves, components stay still until drop
   const style = {
@@ -104,13 +214,20 @@ export function CanvasComponent({
     <div
       ref={setNodeRef}
       style={style}
-      className="group relative"
+      className="group relative rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
       data-component-id={componentDefinition.id}
+      tabIndex={0}
+      role="group"
+      aria-label={`${componentEntry.meta.name}, position ${index + 1} of ${totalCount}`}
+      aria-keyshortcuts={onMove ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
-      {/* Hover controls overlay */}
-      {isHovered && (
+      {/* Hover and focus controls overlay */}
+      {showControls && (
         <div className="absolute right-2 top-2 z-10 flex gap-2">
           {/* Drag handle */}
           <Button
@@ -120,16 +237,115 @@ export function CanvasComponent({
             {...listeners}
             className="cursor-move"
             title="Drag to reorder"
+            aria-label={`Drag ${componentEntry.meta.name}`}
           >
             ⋮⋮
           </Button>
-          {/* Settings button (future US-007) */}
+          {/* Move buttons - keyboard alternative to dragging */}
+          {onMove && (
+            <>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => onMove(index, index - 1, slot)}
+                disabled={!canMoveUp}
+                title="Move up (Alt+↑)"
+                aria-label="Move up"
+              >
+                ↑
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={() => onMove(index, index + 1, slot)}
+                disabled={!canMoveDown}
+                title="Move down (Alt+↓)"
+                aria-label="Move down"
+              >
+                ↓
+              </Button>
+            </>
+          )}
+
+          {/* Insert below button - opens the component menu */}
+          {onInsert && (
+            <div className="relative">
+              <Button
+                ref={insertButtonRef}
+                variant="secondary"
+                size="icon"
+                onClick={() => {
+                  setIsInsertMenuOpen((open) => !open);
+                  setIsVariantPickerOpen(false);
+                }}
+                title="Insert component below"
+                aria-label="Insert component below"
+                aria-haspopup="menu"
+                aria-expanded={isInsertMenuOpen}
+              >
+                ＋
+              </Button>
+              {isInsertMenuOpen && (
+                <InsertComponentMenu
+                  componentRegistry={componentRegistry}
+                  onSelect={handleInsertSelect}
+                  onClose={handleInsertMenuClose}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Variant button - opens the variant picker with previews */}
+          {onVariantChange && hasVariants && (
+            <div className="relative">
+              <Button
+                ref={variantButtonRef}
+                variant="secondary"
+                size="icon"
+                onClick={() => {
+                  setIsVariantPickerOpen((open) => !open);
+                  setIsInsertMenuOpen(false);
+                }}
+                title="Change variant"
+                aria-label="Change variant"
+                aria-haspopup="menu"
+                aria-expanded={isVariantPickerOpen}
+              >
+                ◧
+              </Button>
+              {isVariantPickerOpen && (
+                <VariantPicker
+                  componentDefinition={componentDefinition}
+                  componentEntry={componentEntry}
+                  renderProps={mergedProps}
+                  onSelect={handleVariantSelect}
+                  onClose={handleVariantPickerClose}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Duplicate button - inserts a copy right below */}
+          {onDuplicate && (
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={() => onDuplicate(componentDefinition.id)}
+              title="Duplicate component"
+              aria-label="Duplicate component"
+            >
+              ⧉
+            </Button>
+          )}
+
+          {/* Settings button - opens the property inspector */}
           {onSettings && (
             <Button
               variant="secondary"
               size="icon"
               onClick={() => onSettings(componentDefinition.id)}
               title="Component settings"
+              aria-label="Component settings"
             >
               ⚙️
             </Button>
@@ -141,6 +357,7 @@ export function CanvasComponent({
             size="icon"
             onClick={() => onDelete(componentDefinition.id)}
             title="Delete component"
+            aria-label="Delete component"
           >
             🗑️
           </Button>
@@ -155,11 +372,20 @@ export function CanvasComponent({
           </div>
         }
       >
-        <div className="rounded-lg border border-transparent transition-colors group-hover:border-blue-300">
-          <Component
-            {...mergedProps}
-            variant={componentDefinition.variant}
-          />
+        <div
+          className={`rounded-lg border transition-colors ${
+            isSelected
+              ? 'border-blue-500 ring-2 ring-blue-200'
+              : problemSeverity
+                ? problemClassNames[problemSeverity]
+                : 'border-transparent group-hover:border-blue-300'
+          }`}
+          data-problem-severity={problemSeverity}
+        >
+          {/* Theme scope: the toolbar and selection outline above keep the editor's own styles */}
+          <div style={themeStyle} data-testid="canvas-theme-scope">
+            <Component {...mergedProps} {...(slots && { slots })} />
+          </div>
         </div>
       </Suspense>
     </div>
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+
+export interface CanvasFrameProps {
+  width: number;
+  children: ReactNode;
+  /**
+   * Lets pointer events fall through to the editor, so drags started
+   * outside the frame (e.g. from the component library) can enter it
+   */
+  isPointerPassthrough?: boolean;
+  /**
+   * Receives key presses inside the frame, which don't reach the editor
+   * window. The original event is passed on, so its target still tells
+   * which canvas component has focus.
+   */
+  onKeyDown?: (e: KeyboardEvent) => void;
+}
+
+const FRAME_SRC_DOC = '<!DOCTYPE html><html><head></head><body></body></html>';
+
+// Marks stylesheets copied from the editor, so they can be replaced on change
+const MIRRORED_STYLE_ATTR = 'data-mirrored-style';
+
+/**
+ * Copies the editor's stylesheets (Tailwind and the CSS modules injected by
+ * lazily loaded components) into the frame document
+ */
+function mirrorStyles(frameDocument: Document) {
+  frameDocument.head
+    .querySelectorAll(`[${MIRRORED_STYLE_ATTR}]`)
+    .forEach((node) => node.remove());
+
+  document.head
+    .querySelectorAll('style, link[rel="stylesheet"]')
+    .forEach((node) => {
+      const clone = node.cloneNode(true) as Element;
+      clone.setAttribute(MIRRORED_STYLE_ATTR, '');
+      frameDocument.head.appendChild(clone);
+    });
+}
+
+/**
+ * CanvasFrame renders its children inside an iframe of the given width.
+ *
+ * The children stay in the editor's React tree through a portal, so context
+ * (workspace, drag and drop) keeps working, while media queries in the shared
+ * components respond to the frame's width instead of the editor window.
+ */
+export function CanvasFrame({ width, children, isPointerPassthrough = false, onKeyDown }: CanvasFrameProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [mountNode, setMountNode] = useState<HTMLElement | null>(null);
+
+  const handleLoad = useCallback(() => {
+    const frameDocument = iframeRef.current?.contentDocument;
+    if (!frameDocument) return;
+
+    mirrorStyles(frameDocument);
+
+    // Editor body styles lock the height to the viewport; the frame scrolls instead
+    Object.assign(frameDocument.body.style, {
+      margin: '0',
+      height: 'auto',
+      minHeight: '100%',
+      overflow: 'visible',
+    });
+
+    const mount = frameDocument.createElement('div');
+    mount.style.padding = '1rem';
+    frameDocument.body.appendChild(mount);
+    setMountNode(mount);
+  }, []);
+
+  // Keep mirrored styles in sync, e.g. when a lazy component loads its CSS module
+  useEffect(() => {
+    const frameDocument = mountNode?.ownerDocument;
+    if (!frameDocument) return;
+
+    const observer = new MutationObserver(() => mirrorStyles(frameDocument));
+    observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+    return () => observer.disconnect();
+  }, [mountNode]);
+
+  // Keep the latest key handler without re-attaching the listener when it changes
+  const onKeyDownRef = useRef(onKeyDown);
+  useEffect(() => {
+    onKeyDownRef.current = onKeyDown;
+  }, [onKeyDown]);
+
+  // Key presses inside the frame don't reach the editor window, so they are
+  // handed to the editor's shortcut handler along with their target
+  useEffect(() => {
+    const frameWindow = mountNode?.ownerDocument.defaultView;
+    if (!frameWindow) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => onKeyDownRef.current?.(e);
+
+    frameWindow.addEventListener('keydown', handleKeyDown);
+    return () => frameWindow.removeEventListener('keydown', handleKeyDown);
+  }, [mountNode]);
+
+  return (
+    <div
+      className="mx-auto h-full flex-shrink-0 overflow-hidden rounded-lg border border-gray-300 bg-white shadow-sm"
+      style={{ width: `${width}px` }}
+      data-testid="canvas-frame"
+    >
+      <iframe
+        ref={iframeRef}
+        srcDoc={FRAME_SRC_DOC}
+        onLoad={handleLoad}
+        title={`Canvas preview at ${width}px`}
+        data-canvas-frame=""
+        className="block h-full w-full border-0"
+        style={{ pointerEvents: isPointerPassthrough ? 'none' : undefined }}
+      />
+      {mountNode && createPortal(children, mountNode)}
+    </div>
+  );
+}
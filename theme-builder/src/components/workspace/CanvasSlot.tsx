@@ -0,0 +1,64 @@
+import type { ReactNode } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { InsertionIndicator } from './InsertionIndicator';
+import type { ComponentDefinition } from '@/types/api';
+import type { DragState } from '../../hooks/useDragAndDrop';
+
+export interface CanvasSlotProps {
+  parentId: string; // Container holding the slot
+  slot: number; // Slot of the container, e.g. its column
+  layout: ComponentDefinition[]; // Components of the slot
+  dragState?: DragState;
+  children: ReactNode; // Rendered canvas components of the slot
+}
+
+/**
+ * CanvasSlot renders a child layout of a container (a Section's content or a
+ * column of Columns) on the canvas.
+ *
+ * The slot is a drop target of its own, so components can be dropped into it
+ * even while it is empty, and sorts its components independently of the page.
+ */
+export function CanvasSlot({ parentId, slot, layout, dragState, children }: CanvasSlotProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${parentId}-slot-${slot}`,
+    data: {
+      type: 'canvas-slot',
+      parentId,
+      slot,
+      index: layout.length,
+    },
+  });
+
+  const target = dragState?.insertionTarget;
+  const isInsertionTarget = target?.parentId === parentId && target.slot === slot;
+
+  return (
+    <div ref={setNodeRef} className="relative" data-slot-parent-id={parentId} data-slot={slot}>
+      {/* Insertion indicator - shows where component will be dropped within this slot */}
+      {dragState && (
+        <InsertionIndicator
+          insertionIndex={isInsertionTarget ? dragState.insertionIndex : null}
+          layout={layout}
+          isDragging={dragState.isDragging}
+          draggedComponentId={dragState.draggedId}
+        />
+      )}
+
+      <SortableContext items={layout.map((component) => component.id)} strategy={verticalListSortingStrategy}>
+        {layout.length === 0 ? (
+          <div
+            className={`flex min-h-[80px] items-center justify-center rounded-lg border-2 border-dashed p-4 text-sm transition-colors ${
+              isOver ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+            }`}
+          >
+            Drop components here
+          </div>
+        ) : (
+          <div className="space-y-2">{children}</div>
+        )}
+      </SortableContext>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Button } from '@/components/ui/button';
+import type { ColorScheme } from '@shared/utils';
+
+export interface ColorSchemeToggleProps {
+  colorScheme: ColorScheme;
+  onColorSchemeChange: (scheme: ColorScheme) => void;
+}
+
+const schemeOptions: { scheme: ColorScheme; label: string }[] = [
+  { scheme: 'light', label: 'Light' },
+  { scheme: 'dark', label: 'Dark' },
+];
+
+/**
+ * ColorSchemeToggle switches the canvas preview between the theme's light
+ * and dark palettes. It only affects the preview, not the saved theme.
+ */
+export function ColorSchemeToggle({ colorScheme, onColorSchemeChange }: ColorSchemeToggleProps) {
+  return (
+    <div className="flex items-center rounded-md border" role="group" aria-label="Canvas color scheme">
+      {schemeOptions.map(({ scheme, label }) => (
+        <Button
+          key={scheme}
+          variant={colorScheme === scheme ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onColorSchemeChange(scheme)}
+          aria-pressed={colorScheme === scheme}
+          title={`Preview the ${scheme} color scheme`}
+          className="cursor-pointer"
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  );
+}
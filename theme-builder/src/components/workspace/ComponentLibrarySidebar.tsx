@@ -1,6 +1,18 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { useDndMonitor } from '@dnd-kit/core';
 import { Button } from '@/components/ui/button';
-import type { ComponentRegistry } from '../../types/workspace';
+import { Input } from '@/components/ui/input';
+import type { ComponentCategory, ComponentMetadata, ComponentRegistry } from '../../types/workspace';
+import { componentCategories, getComponentsByCategory } from '../../lib/componentRegistry';
+import {
+  addRecentComponent,
+  loadCollapsedCategories,
+  loadFavoriteComponents,
+  loadRecentComponents,
+  saveCollapsedCategories,
+  saveFavoriteComponents,
+} from '../../lib/componentLibraryStorage';
+import { fuzzyFilter } from '../../utils/fuzzySearch';
 import { DraggableComponentCard } from './DraggableComponentCard';
 
 export interface ComponentLibrarySidebarProps {
@@ -10,11 +22,21 @@ export interface ComponentLibrarySidebarProps {
   onComponentDragStart?: (componentType: string) => void;
 }
 
+interface LibraryItem {
+  type: string;
+  meta: ComponentMetadata;
+}
+
 export function ComponentLibrarySidebar({
   isCollapsed,
   onCollapseToggle,
   componentRegistry,
 }: ComponentLibrarySidebarProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [recentTypes, setRecentTypes] = useState(loadRecentComponents);
+  const [favoriteTypes, setFavoriteTypes] = useState(loadFavoriteComponents);
+  const [collapsedCategories, setCollapsedCategories] = useState(loadCollapsedCategories);
+
   // Track if we've loaded from localStorage to prevent infinite loops
   const hasLoadedFromStorage = useRef(false);
 
@@ -37,12 +59,87 @@ export function ComponentLibrarySidebar({
     localStorage.setItem('componentLibrary:collapsed', JSON.stringify(isCollapsed));
   }, [isCollapsed]);
 
-  // Get all components as a flat list
-  const allComponents = Object.entries(componentRegistry)
-    .map(([type, entry]) => ({
-      type,
-      meta: entry.meta,
-    }));
+  // A library component counts as used once it is dropped on the canvas
+  useDndMonitor({
+    onDragEnd({ active, over }) {
+      const componentType = active.data.current?.componentType as string | undefined;
+      if (componentType && over) {
+        setRecentTypes(addRecentComponent(componentType));
+      }
+    },
+  });
+
+  const toggleFavorite = (componentType: string) => {
+    const nextFavorites = favoriteTypes.includes(componentType)
+      ? favoriteTypes.filter((type) => type !== componentType)
+      : [...favoriteTypes, componentType];
+
+    setFavoriteTypes(nextFavorites);
+    saveFavoriteComponents(nextFavorites);
+  };
+
+  const toggleCategory = (category: ComponentCategory) => {
+    const nextCollapsed = collapsedCategories.includes(category)
+      ? collapsedCategories.filter((collapsed) => collapsed !== category)
+      : [...collapsedCategories, category];
+
+    setCollapsedCategories(nextCollapsed);
+    saveCollapsedCategories(nextCollapsed);
+  };
+
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape' && searchQuery !== '') {
+      e.preventDefault();
+      setSearchQuery('');
+    }
+  };
+
+  // Resolve stored types against the registry, skipping components that no longer exist
+  const toItems = (types: string[]): LibraryItem[] =>
+    types
+      .filter((type) => componentRegistry[type])
+      .map((type) => ({ type, meta: componentRegistry[type].meta }));
+
+  const allComponents = toItems(Object.keys(componentRegistry));
+  const isSearching = searchQuery.trim() !== '';
+  const searchResults = isSearching
+    ? fuzzyFilter(allComponents, searchQuery, ({ meta }) => [meta.name, meta.description])
+    : [];
+
+  const renderCard = ({ type, meta }: LibraryItem, sectionId?: string) => {
+    const isFavorite = favoriteTypes.includes(type);
+
+    return (
+      <div key={type} className="relative">
+        <DraggableComponentCard componentType={type} metadata={meta} sectionId={sectionId} />
+        {/* Kept outside the draggable card so clicking it never starts a drag */}
+        <button
+          type="button"
+          onClick={() => toggleFavorite(type)}
+          className={`absolute right-2 top-2 rounded px-1 text-base leading-none hover:text-yellow-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+            isFavorite ? 'text-yellow-500' : 'text-gray-400'
+          }`}
+          aria-pressed={isFavorite}
+          aria-label={`Favorite ${meta.name}`}
+          title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          {isFavorite ? '★' : '☆'}
+        </button>
+      </div>
+    );
+  };
+
+  const renderSection = (sectionId: string, title: string, items: LibraryItem[]) => (
+    <section key={sectionId} aria-labelledby={`library-section-${sectionId}`}>
+      <h3
+        id={`library-section-${sectionId}`}
+        className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500"
+      >
+        {title}
+      </h3>
+      <div className="space-y-2">{items.map((item) => renderCard(item, sectionId))}</div>
+    </section>
+  );
 
   if (isCollapsed) {
     return (
@@ -60,8 +157,11 @@ export function ComponentLibrarySidebar({
     );
   }
 
+  const favoriteItems = toItems(favoriteTypes);
+  const recentItems = toItems(recentTypes);
+
   return (
-    <aside className="w-80 border-r bg-gray-50 p-4" role="complementary" aria-label="Component library" data-testid="component-library">
+    <aside className="flex w-80 flex-col border-r bg-gray-50 p-4" role="complementary" aria-label="Component library" data-testid="component-library">
       {/* Header */}
       <div className="mb-4 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900">Components</h2>
@@ -75,15 +175,65 @@ export function ComponentLibrarySidebar({
         </Button>
       </div>
 
-      {/* All components in a simple list */}
-      <div className="space-y-2">
-        {allComponents.map(({ type, meta }) => (
-          <DraggableComponentCard
-            key={type}
-            componentType={type}
-            metadata={meta}
-          />
-        ))}
+      {/* Search */}
+      <Input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        onKeyDown={handleSearchKeyDown}
+        placeholder="Search components..."
+        aria-label="Search components"
+        className="mb-4 bg-white"
+      />
+
+      <div className="-mx-1 flex-1 space-y-6 overflow-y-auto px-1">
+        {isSearching ? (
+          <>
+            <p className="sr-only" role="status" aria-live="polite">
+              {searchResults.length} {searchResults.length === 1 ? 'component' : 'components'} found
+            </p>
+            {searchResults.length > 0 ? (
+              renderSection('search', 'Search results', searchResults)
+            ) : (
+              <p className="text-sm text-gray-500">No components match "{searchQuery.trim()}"</p>
+            )}
+          </>
+        ) : (
+          <>
+            {favoriteItems.length > 0 && renderSection('favorites', 'Favorites', favoriteItems)}
+            {recentItems.length > 0 && renderSection('recent', 'Recently used', recentItems)}
+
+            {/* Collapsible category sections */}
+            {componentCategories.map((category) => {
+              const items = getComponentsByCategory(category, componentRegistry);
+              if (items.length === 0) return null;
+
+              const isExpanded = !collapsedCategories.includes(category);
+              const contentId = `library-category-${category}`;
+
+              return (
+                <section key={category}>
+                  <button
+                    type="button"
+                    onClick={() => toggleCategory(category)}
+                    className="mb-2 flex w-full items-center gap-2 rounded text-left text-xs font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    aria-expanded={isExpanded}
+                    aria-controls={contentId}
+                  >
+                    <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span>
+                    <span className="flex-1">{category}</span>
+                    <span className="font-normal normal-case">{items.length}</span>
+                  </button>
+                  {isExpanded && (
+                    <div id={contentId} className="space-y-2">
+                      {items.map(({ type, meta }) => renderCard({ type, meta }))}
+                    </div>
+                  )}
+                </section>
+              );
+            })}
+          </>
+        )}
       </div>
     </aside>
   );
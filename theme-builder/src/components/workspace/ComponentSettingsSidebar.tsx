@@ -0,0 +1,148 @@
+import { Button } from '@/components/ui/button';
+import type { EditableField } from '@shared/types';
+import { getVisibleFields, resolveThemeTokens, type ThemeColors } from '@shared/utils';
+import type { ComponentRegistryEntry } from '../../types/workspace';
+import type { ComponentDefinition } from '../../types/api';
+import { PropertyField } from './PropertyField';
+import { RepeaterFieldEditor } from './RepeaterFieldEditor';
+import { ContrastCheck } from './ContrastCheck';
+import { getComponentContrastPairs } from '../../utils/contrast';
+
+export interface ComponentSettingsSidebarProps {
+  componentDefinition: ComponentDefinition;
+  componentEntry: ComponentRegistryEntry;
+  onPropsChange: (componentId: string, props: Record<string, unknown>) => void;
+  onClose: () => void;
+  themeColors?: ThemeColors; // Offered as swatches and used to resolve theme references
+}
+
+/**
+ * Builds the props patch for a field edit, keeping repeater item counts and
+ * their countField (e.g. TextSection columns/columnCount) consistent so the
+ * component's schema refinements keep accepting the result.
+ */
+function syncRepeaterCounts(
+  fields: EditableField[],
+  currentProps: Record<string, unknown>,
+  name: string,
+  value: unknown
+): Record<string, unknown> {
+  const patch: Record<string, unknown> = { [name]: value };
+
+  fields.forEach((field) => {
+    if (field.type !== 'repeater' || !field.countField) return;
+
+    // Items changed: the count follows the number of items
+    if (field.name === name && Array.isArray(value)) {
+      patch[field.countField] = value.length;
+    }
+
+    // Count changed: it can never drop below the number of existing items
+    if (field.countField === name && typeof value === 'number') {
+      const items = currentProps[field.name];
+      const itemCount = Array.isArray(items) ? items.length : 0;
+      patch[name] = Math.max(value, itemCount);
+    }
+  });
+
+  return patch;
+}
+
+/**
+ * ComponentSettingsSidebar is the right-hand property inspector.
+ *
+ * The form is built from the component's editableFields metadata, so new
+ * shared components become editable without any inspector changes.
+ */
+export function ComponentSettingsSidebar({
+  componentDefinition,
+  componentEntry,
+  onPropsChange,
+  onClose,
+  themeColors,
+}: ComponentSettingsSidebarProps) {
+  const { meta } = componentEntry;
+
+  // Saved props override registry defaults, the same way the canvas renders them
+  const currentProps: Record<string, unknown> = {
+    ...componentEntry.defaultProps,
+    ...componentDefinition.props,
+    variant: componentDefinition.variant,
+  };
+
+  const handleFieldChange = (name: string, value: unknown) => {
+    onPropsChange(
+      componentDefinition.id,
+      syncRepeaterCounts(meta.editableFields, currentProps, name, value)
+    );
+  };
+
+  // Only fields whose visibleWhen conditions match the current props are shown
+  const fields = getVisibleFields(meta.editableFields, currentProps);
+  // Contrast is measured on the colors theme references resolve to
+  const contrastPairs = getComponentContrastPairs(
+    meta.editableFields,
+    resolveThemeTokens(currentProps, themeColors)
+  );
+
+  return (
+    <aside
+      className="w-80 overflow-y-auto border-l bg-white p-4"
+      role="complementary"
+      aria-label="Component settings"
+      data-testid="component-settings"
+    >
+      <div className="mb-4 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold">{meta.name}</h2>
+          <p className="text-xs text-gray-500">Component settings</p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Close settings">
+          ✕
+        </Button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-sm text-gray-500">This component has no editable settings.</p>
+      ) : (
+        <div className="space-y-4">
+          {fields.map((field) =>
+            field.type === 'repeater' ? (
+              <RepeaterFieldEditor
+                key={field.name}
+                field={field}
+                value={currentProps[field.name]}
+                onChange={(items) => handleFieldChange(field.name, items)}
+                parentProps={currentProps}
+                idPrefix={componentDefinition.id}
+                themeColors={themeColors}
+              />
+            ) : (
+              <PropertyField
+                key={field.name}
+                field={field}
+                value={currentProps[field.name]}
+                onChange={(value) => handleFieldChange(field.name, value)}
+                idPrefix={componentDefinition.id}
+                themeColors={themeColors}
+              />
+            )
+          )}
+        </div>
+      )}
+
+      {contrastPairs.length > 0 && (
+        <div className="mt-6 space-y-2 border-t pt-4" aria-label="Color contrast" role="group">
+          <h3 className="text-sm font-semibold text-gray-900">Contrast</h3>
+          {contrastPairs.map((pair) => (
+            <ContrastCheck
+              key={pair.id}
+              pair={pair}
+              onApplySuggestion={(color) => handleFieldChange(pair.id, color)}
+            />
+          ))}
+        </div>
+      )}
+    </aside>
+  );
+}
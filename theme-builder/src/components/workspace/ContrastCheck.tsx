@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import {
+  analyzeContrast,
+  suggestPassingColor,
+  type ContrastLevel,
+  type ContrastPair,
+} from '../../utils/contrast';
+
+export interface ContrastCheckProps {
+  pair: ContrastPair;
+  onApplySuggestion?: (color: string) => void;
+}
+
+const levelClassNames: Record<ContrastLevel, string> = {
+  AAA: 'bg-green-100 text-green-800',
+  AA: 'bg-green-100 text-green-800',
+  'AA Large': 'bg-yellow-100 text-yellow-800',
+  Fail: 'bg-red-100 text-red-800',
+};
+
+/**
+ * ContrastCheck shows the WCAG contrast ratio of a text/background pair.
+ *
+ * Pairs below AA for normal text get a warning and, when one exists,
+ * a button applying the nearest passing text color.
+ */
+export function ContrastCheck({ pair, onApplySuggestion }: ContrastCheckProps) {
+  const result = analyzeContrast(pair.foreground, pair.background);
+  if (!result) return null;
+
+  const passes = result.level === 'AA' || result.level === 'AAA';
+  const suggestion = passes ? null : suggestPassingColor(pair.foreground, pair.background);
+
+  return (
+    <div className="text-xs" data-testid={`contrast-${pair.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex min-w-0 items-center gap-2 text-gray-600">
+          <span
+            className="flex h-5 w-7 flex-shrink-0 items-center justify-center rounded border text-[10px] font-semibold"
+            style={{ color: pair.foreground, backgroundColor: pair.background }}
+            aria-hidden="true"
+          >
+            Aa
+          </span>
+          <span className="truncate">{pair.label}</span>
+        </span>
+        <span className="flex flex-shrink-0 items-center gap-1">
+          <span className="text-gray-500">{result.ratio.toFixed(2)}:1</span>
+          <span className={`rounded px-1.5 py-0.5 font-semibold ${levelClassNames[result.level]}`}>
+            {result.level}
+          </span>
+        </span>
+      </div>
+
+      {!passes && (
+        <div className="mt-1 flex items-center justify-between gap-2" role="status">
+          <p className={result.level === 'Fail' ? 'text-red-600' : 'text-yellow-700'}>
+            {result.level === 'Fail' ? 'Hard to read.' : 'Only readable as large text.'}
+          </p>
+          {suggestion && onApplySuggestion && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onApplySuggestion(suggestion)}
+              aria-label={`Use suggested color ${suggestion} for ${pair.label}`}
+            >
+              <span
+                className="h-3 w-3 rounded-sm border border-black/10"
+                style={{ backgroundColor: suggestion }}
+                aria-hidden="true"
+              />
+              Use {suggestion}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
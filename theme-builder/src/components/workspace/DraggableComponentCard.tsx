@@ -5,14 +5,16 @@ import type { ComponentMetadata } from '../../types/workspace';
 export interface DraggableComponentCardProps {
   componentType: string;
   metadata: ComponentMetadata;
+  sectionId?: string; // Library section, keeps IDs unique when a component is listed twice
 }
 
 export const DraggableComponentCard = memo(function DraggableComponentCard({
   componentType,
   metadata,
+  sectionId,
 }: DraggableComponentCardProps) {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
-    id: `library-${componentType}`,
+    id: sectionId ? `library-${sectionId}-${componentType}` : `library-${componentType}`,
     data: {
       componentType,
     },
@@ -35,7 +37,7 @@ export const DraggableComponentCard = memo(function DraggableComponentCard({
 
         {/* Content */}
         <div className="flex-1 min-w-0">
-          <h4 className="text-sm font-semibold text-gray-900">{metadata.name}</h4>
+          <h4 className="pr-6 text-sm font-semibold text-gray-900">{metadata.name}</h4>
           <p className="mt-1 text-xs text-gray-600 line-clamp-2">{metadata.description}</p>
         </div>
       </div>
@@ -0,0 +1,41 @@
+import type { ComponentRegistry } from '../../types/workspace';
+import { useMenuNavigation } from '../../hooks/useMenuNavigation';
+
+export interface InsertComponentMenuProps {
+  componentRegistry: ComponentRegistry;
+  onSelect: (componentType: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * InsertComponentMenu lists the registered components for the
+ * "insert below" command of a canvas component.
+ *
+ * Focus moves to the first item when it opens; arrow keys move between
+ * items and Escape closes the menu.
+ */
+export function InsertComponentMenu({ componentRegistry, onSelect, onClose }: InsertComponentMenuProps) {
+  const { menuRef, handleKeyDown } = useMenuNavigation<HTMLDivElement>(onClose);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label="Insert component below"
+      onKeyDown={handleKeyDown}
+      className="absolute right-0 top-full z-20 mt-1 w-56 rounded-md border bg-white p-1 shadow-lg"
+    >
+      {Object.entries(componentRegistry).map(([type, entry]) => (
+        <button
+          key={type}
+          type="button"
+          role="menuitem"
+          onClick={() => onSelect(type)}
+          className="block w-full cursor-pointer rounded px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 focus:bg-gray-100 focus:outline-none"
+        >
+          {entry.meta.name}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef } from 'react';
 import type { ComponentDefinition } from '@/types/api';
+import { findCanvasComponentElement } from '../../utils/canvasFrame';
 
 export interface InsertionIndicatorProps {
   /**
@@ -59,7 +60,7 @@ export function InsertionIndicator({
       // Edge case: Empty canvas or insert at beginning
       if (layout.length === 0 || insertionIndex === 0) {
         // Position at top of canvas (first component or placeholder position)
-        const firstElement = document.querySelector('[data-component-id]');
+        const firstElement = layout[0] ? findCanvasComponentElement(layout[0].id) : null;
         if (firstElement) {
           const rect = firstElement.getBoundingClientRect();
           const container = firstElement.parentElement?.parentElement;
@@ -75,9 +76,7 @@ export function InsertionIndicator({
       const componentBeforeIndex = insertionIndex - 1;
       if (componentBeforeIndex >= 0 && componentBeforeIndex < layout.length) {
         const componentBefore = layout[componentBeforeIndex];
-        const element = document.querySelector(
-          `[data-component-id="${componentBefore.id}"]`
-        );
+        const element = findCanvasComponentElement(componentBefore.id);
 
         if (element) {
           const rect = element.getBoundingClientRect();
@@ -93,9 +92,7 @@ export function InsertionIndicator({
       // Edge case: Insert at end
       if (insertionIndex >= layout.length && layout.length > 0) {
         const lastComponent = layout[layout.length - 1];
-        const element = document.querySelector(
-          `[data-component-id="${lastComponent.id}"]`
-        );
+        const element = findCanvasComponentElement(lastComponent.id);
 
         if (element) {
           const rect = element.getBoundingClientRect();
@@ -0,0 +1,111 @@
+import { Button } from '@/components/ui/button';
+import type { ComponentDefinition } from '../../types/api';
+import type { ComponentRegistry } from '../../types/workspace';
+import type { LayoutProblem, ProblemSeverity } from '../../utils/layoutValidation';
+import { flattenLayout } from '../../utils/layoutTree';
+
+export interface LayoutProblemsPanelProps {
+  problems: LayoutProblem[];
+  layout: ComponentDefinition[];
+  componentRegistry: ComponentRegistry;
+  onSelectComponent: (componentId: string) => void;
+  onClose: () => void;
+}
+
+const severityClassNames: Record<ProblemSeverity, string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+};
+
+// Field path for display, e.g. "Columns › item 2 › iconUrl"
+function formatField(problem: LayoutProblem): string {
+  const [name, ...rest] = (problem.field ?? '').split('.');
+  const segments = rest.map((segment) => (/^\d+$/.test(segment) ? `item ${Number(segment) + 1}` : segment));
+  return [problem.fieldLabel ?? name, ...segments].join(' › ');
+}
+
+/**
+ * LayoutProblemsPanel lists the validation problems of the current layout,
+ * grouped by component in layout order with one row per field.
+ *
+ * Errors block saving; warnings are saved anyway.
+ */
+export function LayoutProblemsPanel({
+  problems,
+  layout,
+  componentRegistry,
+  onSelectComponent,
+  onClose,
+}: LayoutProblemsPanelProps) {
+  const errorCount = problems.filter((problem) => problem.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  // Positions count nested components in page order, as they appear on the canvas
+  const groups = flattenLayout(layout)
+    .map((component, index) => ({
+      component,
+      index,
+      problems: problems.filter((problem) => problem.componentId === component.id),
+    }))
+    .filter((group) => group.problems.length > 0);
+
+  return (
+    <section
+      className="max-h-64 overflow-y-auto border-t bg-white"
+      aria-label="Layout problems"
+      data-testid="layout-problems-panel"
+    >
+      <div className="sticky top-0 flex items-center justify-between border-b bg-white px-4 py-2">
+        <h2 className="text-sm font-semibold">
+          Problems
+          <span className="ml-2 font-normal text-gray-500">
+            {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount}{' '}
+            {warningCount === 1 ? 'warning' : 'warnings'}
+          </span>
+        </h2>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close problems panel">
+          ✕
+        </Button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">No problems found. The layout is ready to save.</p>
+      ) : (
+        <ul className="divide-y">
+          {groups.map(({ component, index, problems: componentProblems }) => {
+            const name = componentRegistry[component.type]?.meta.name ?? component.type;
+
+            return (
+              <li key={component.id} className="px-4 py-2">
+                <button
+                  type="button"
+                  onClick={() => onSelectComponent(component.id)}
+                  className="cursor-pointer text-sm font-medium text-blue-700 hover:underline"
+                >
+                  {name} (position {index + 1})
+                </button>
+                <ul className="mt-1 space-y-1">
+                  {componentProblems.map((problem, problemIndex) => (
+                    <li key={problemIndex} className="flex items-start gap-2 text-xs">
+                      <span
+                        className={`flex-shrink-0 rounded px-1.5 py-0.5 font-semibold ${severityClassNames[problem.severity]}`}
+                      >
+                        {problem.severity === 'error' ? 'Error' : 'Warning'}
+                      </span>
+                      <span className="text-gray-700">
+                        {problem.field && (
+                          <span className="font-medium">{formatField(problem)}: </span>
+                        )}
+                        {problem.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
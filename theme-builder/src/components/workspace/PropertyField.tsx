@@ -0,0 +1,292 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { EditableField, SelectField } from '@shared/types';
+import {
+  PALETTE_STEPS,
+  THEME_COLOR_NAMES,
+  formatThemeColorToken,
+  isThemeColorToken,
+  parseThemeColorToken,
+  resolveThemeColor,
+  type ThemeColors,
+} from '@shared/utils';
+
+export interface PropertyFieldProps {
+  field: EditableField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  idPrefix?: string;
+  /** Offers theme swatches on color fields, stored as references like `theme.primary` */
+  themeColors?: ThemeColors;
+}
+
+const HEX_COLOR_REGEX = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+const RGBA_COLOR_REGEX = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/;
+
+/**
+ * Converts a stored color value to the #rrggbb format required by <input type="color">
+ */
+function toPickerColor(value: unknown): string {
+  if (typeof value !== 'string') return '#000000';
+
+  if (HEX_COLOR_REGEX.test(value)) {
+    if (value.length === 4) {
+      return `#${value[1]}${value[1]}${value[2]}${value[2]}${value[3]}${value[3]}`.toLowerCase();
+    }
+    return value.toLowerCase();
+  }
+
+  const rgba = value.match(RGBA_COLOR_REGEX);
+  if (rgba) {
+    return `#${rgba.slice(1, 4)
+      .map((channel) => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+      .join('')}`;
+  }
+
+  return '#000000';
+}
+
+/**
+ * Converts a picked #rrggbb color back into the format of the current value,
+ * so rgba values keep their alpha channel and schemas expecting rgba stay valid
+ */
+function fromPickerColor(picked: string, currentValue: unknown): string {
+  if (typeof currentValue === 'string') {
+    const rgba = currentValue.match(RGBA_COLOR_REGEX);
+    if (rgba) {
+      const r = parseInt(picked.slice(1, 3), 16);
+      const g = parseInt(picked.slice(3, 5), 16);
+      const b = parseInt(picked.slice(5, 7), 16);
+      const alpha = rgba[4] ?? '1';
+      return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+    }
+  }
+
+  return picked;
+}
+
+interface ThemeSwatchesProps {
+  fieldLabel: string;
+  value: unknown;
+  themeColors: ThemeColors;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Theme color swatches for a color field. Picking one stores a reference to
+ * the theme color; once referenced, its tonal shades can be picked as well.
+ */
+function ThemeSwatches({ fieldLabel, value, themeColors, onChange }: ThemeSwatchesProps) {
+  const token = typeof value === 'string' ? parseThemeColorToken(value) : null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-1" role="group" aria-label={`${fieldLabel} theme colors`}>
+        {THEME_COLOR_NAMES.map((color) => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => onChange(formatThemeColorToken({ color }))}
+            aria-pressed={token?.color === color}
+            aria-label={`Use theme ${color}`}
+            title={`theme.${color}`}
+            className={`h-6 w-6 rounded border ${
+              token?.color === color ? 'ring-2 ring-blue-500 ring-offset-1' : 'border-gray-300'
+            }`}
+            style={{ backgroundColor: resolveThemeColor(`theme.${color}`, themeColors) }}
+          />
+        ))}
+        <span className="ml-1 text-xs text-gray-500">Theme</span>
+      </div>
+
+      {token && (
+        <div className="flex overflow-hidden rounded border" role="group" aria-label={`${fieldLabel} theme shades`}>
+          {PALETTE_STEPS.map((step) => {
+            const stepToken = formatThemeColorToken({ color: token.color, step });
+            return (
+              <button
+                key={step}
+                type="button"
+                onClick={() => onChange(token.step === step ? formatThemeColorToken({ color: token.color }) : stepToken)}
+                aria-pressed={token.step === step}
+                aria-label={`Use ${token.color} ${step}`}
+                title={stepToken}
+                className={`h-5 flex-1 ${token.step === step ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''}`}
+                style={{ backgroundColor: resolveThemeColor(stepToken, themeColors) }}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Select options are always strings in component metadata, while the props
+ * themselves may be numbers (productsPerRow). Coerce the selected option to
+ * the type the field stores, falling back to the type of the current value
+ * for fields without one.
+ */
+function coerceSelectValue(selected: string, field: SelectField, currentValue: unknown): unknown {
+  const valueType = field.valueType ?? typeof currentValue;
+
+  if (valueType === 'number') {
+    const parsed = Number(selected);
+    return Number.isNaN(parsed) ? selected : parsed;
+  }
+
+  if (valueType === 'boolean') {
+    return selected === 'true';
+  }
+
+  return selected;
+}
+
+const inputClassName = 'mt-1 w-full rounded border border-gray-300 px-3 py-2 text-sm';
+
+/**
+ * PropertyField renders a single editable field from a component's metadata
+ * as the matching form control for the property inspector.
+ */
+export function PropertyField({ field, value, onChange, idPrefix = 'prop', themeColors }: PropertyFieldProps) {
+  const inputId = `${idPrefix}-${field.name}`;
+
+  const renderControl = () => {
+    switch (field.type) {
+      case 'text':
+        return (
+          <Input
+            id={inputId}
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            maxLength={field.maxLength}
+            onChange={(e) => onChange(e.target.value)}
+            className="mt-1"
+          />
+        );
+
+      case 'textarea':
+        return (
+          <textarea
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            maxLength={field.maxLength}
+            rows={4}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName}
+          />
+        );
+
+      case 'url':
+        return (
+          <Input
+            id={inputId}
+            type="url"
+            placeholder="https://"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            className="mt-1"
+          />
+        );
+
+      case 'number':
+        return (
+          <Input
+            id={inputId}
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => {
+              const raw = e.target.value;
+              onChange(raw === '' ? undefined : Number(raw));
+            }}
+            className="mt-1"
+          />
+        );
+
+      case 'color': {
+        // Theme references show their resolved color in the picker
+        const displayedColor = typeof value === 'string' ? resolveThemeColor(value, themeColors) : value;
+        return (
+          <>
+            <div className="mt-1 flex items-center gap-2">
+              <input
+                type="color"
+                aria-label={`${field.label} picker`}
+                value={toPickerColor(displayedColor)}
+                // Replacing a theme reference keeps the format of the field's default
+                onChange={(e) =>
+                  onChange(fromPickerColor(e.target.value, isThemeColorToken(value) ? field.default : value))
+                }
+                className="h-9 w-12 flex-shrink-0 cursor-pointer rounded border"
+              />
+              <Input
+                id={inputId}
+                type="text"
+                value={typeof value === 'string' ? value : ''}
+                placeholder="#000000"
+                onChange={(e) => onChange(e.target.value || undefined)}
+              />
+            </div>
+            {themeColors && (
+              <ThemeSwatches
+                fieldLabel={field.label}
+                value={value}
+                themeColors={themeColors}
+                onChange={onChange}
+              />
+            )}
+          </>
+        );
+      }
+
+      case 'select':
+        return (
+          <select
+            id={inputId}
+            value={value === undefined || value === null ? '' : String(value)}
+            onChange={(e) => onChange(coerceSelectValue(e.target.value, field, value))}
+            className={inputClassName}
+          >
+            {value === undefined && <option value="">Select...</option>}
+            {field.options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'boolean':
+        return (
+          <div className="mt-1">
+            <input
+              id={inputId}
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              className="h-4 w-4 cursor-pointer"
+            />
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div data-testid={`property-field-${field.name}`}>
+      <Label htmlFor={inputId} className="text-xs text-gray-600">
+        {field.label}
+        {field.required && <span className="text-red-500">*</span>}
+      </Label>
+      {renderControl()}
+      {field.description && (
+        <p className="mt-1 text-xs text-gray-500">{field.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, type ReactNode } from 'react';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
+import { CSS } from '@dnd-kit/utilities';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { EditableField, RepeaterField } from '@shared/types';
+import { getVisibleFields, type ThemeColors } from '@shared/utils';
+import { PropertyField } from './PropertyField';
+
+type RepeaterItem = Record<string, unknown>;
+
+export interface RepeaterFieldEditorProps {
+  field: RepeaterField;
+  value: unknown;
+  onChange: (items: RepeaterItem[]) => void;
+  /** Props of the owning component, used to evaluate sub-field visibility */
+  parentProps?: Record<string, unknown>;
+  idPrefix?: string;
+  /** Theme colors offered on color sub-fields */
+  themeColors?: ThemeColors;
+}
+
+/**
+ * Builds a new repeater item from the sub-fields' default values
+ */
+function createItem(fields: EditableField[]): RepeaterItem {
+  const item: RepeaterItem = {};
+  fields.forEach((subField) => {
+    if (subField.type !== 'repeater' && subField.default !== undefined) {
+      item[subField.name] = subField.default;
+    } else if (subField.type === 'text' || subField.type === 'textarea') {
+      item[subField.name] = '';
+    }
+  });
+  return item;
+}
+
+let keyCounter = 0;
+const createKey = () => `repeater-item-${++keyCounter}`;
+
+/**
+ * RepeaterFieldEditor edits an array prop described by a RepeaterField.
+ *
+ * Each item renders its sub-fields and can be duplicated, removed and
+ * drag-reordered. minItems/maxItems from the metadata are enforced by
+ * disabling the corresponding actions.
+ */
+export function RepeaterFieldEditor({
+  field,
+  value,
+  onChange,
+  parentProps = {},
+  idPrefix = 'prop',
+  themeColors,
+}: RepeaterFieldEditorProps) {
+  const items: RepeaterItem[] = Array.isArray(value) ? (value as RepeaterItem[]) : [];
+  const minItems = field.minItems ?? 0;
+  const maxItems = field.maxItems ?? Infinity;
+
+  // Items have no identity of their own, so stable keys are tracked alongside them
+  // and regenerated whenever the array is replaced from outside this editor
+  const [itemKeys, setItemKeys] = useState<string[]>(() => items.map(createKey));
+  const keys = itemKeys.length === items.length ? itemKeys : items.map(createKey);
+  if (keys !== itemKeys) {
+    setItemKeys(keys);
+  }
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const canAdd = items.length < maxItems;
+  const canRemove = items.length > minItems;
+
+  const commit = (nextItems: RepeaterItem[], nextKeys: string[]) => {
+    setItemKeys(nextKeys);
+    onChange(nextItems);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    commit([...items, createItem(field.fields)], [...keys, createKey()]);
+  };
+
+  const handleRemove = (index: number) => {
+    if (!canRemove) return;
+    commit(
+      items.filter((_, i) => i !== index),
+      keys.filter((_, i) => i !== index)
+    );
+  };
+
+  const handleDuplicate = (index: number) => {
+    if (!canAdd) return;
+    const nextItems = [...items];
+    const nextKeys = [...keys];
+    nextItems.splice(index + 1, 0, structuredClone(items[index]));
+    nextKeys.splice(index + 1, 0, createKey());
+    commit(nextItems, nextKeys);
+  };
+
+  const handleItemChange = (index: number, name: string, itemValue: unknown) => {
+    const nextItems = items.map((item, i) => {
+      if (i !== index) return item;
+      const nextItem = { ...item, [name]: itemValue };
+      if (itemValue === undefined) {
+        delete nextItem[name];
+      }
+      return nextItem;
+    });
+    commit(nextItems, keys);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const fromIndex = keys.indexOf(active.id as string);
+    const toIndex = keys.indexOf(over.id as string);
+    if (fromIndex === -1 || toIndex === -1) return;
+
+    commit(arrayMove(items, fromIndex, toIndex), arrayMove(keys, fromIndex, toIndex));
+  };
+
+  const limitHint =
+    field.maxItems !== undefined
+      ? `${items.length} of ${field.maxItems}`
+      : `${items.length}`;
+
+  return (
+    <div data-testid={`property-field-${field.name}`}>
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-gray-600">
+          {field.label}
+          {field.required && <span className="text-red-500">*</span>}
+        </Label>
+        <span className="text-xs text-gray-500">{limitHint}</span>
+      </div>
+      {field.description && (
+        <p className="mt-1 text-xs text-gray-500">{field.description}</p>
+      )}
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        modifiers={[restrictToVerticalAxis]}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext items={keys} strategy={verticalListSortingStrategy}>
+          <ol className="mt-2 space-y-2" aria-label={field.label}>
+            {items.map((item, index) => (
+              <RepeaterItemCard
+                key={keys[index]}
+                sortableId={keys[index]}
+                index={index}
+                label={`${field.label} item ${index + 1}`}
+                canRemove={canRemove}
+                canDuplicate={canAdd}
+                onRemove={() => handleRemove(index)}
+                onDuplicate={() => handleDuplicate(index)}
+              >
+                {getVisibleFields(field.fields, item, parentProps)
+                  .filter((subField) => subField.type !== 'repeater')
+                  .map((subField) => (
+                    <PropertyField
+                      key={subField.name}
+                      field={subField}
+                      value={item[subField.name]}
+                      onChange={(itemValue) => handleItemChange(index, subField.name, itemValue)}
+                      idPrefix={`${idPrefix}-${field.name}-${index}`}
+                      themeColors={themeColors}
+                    />
+                  ))}
+              </RepeaterItemCard>
+            ))}
+          </ol>
+        </SortableContext>
+      </DndContext>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAdd}
+        disabled={!canAdd}
+        className="mt-2 w-full cursor-pointer"
+      >
+        + Add item
+      </Button>
+      {items.length < minItems && (
+        <p className="mt-1 text-xs text-red-600" role="alert">
+          At least {minItems} item{minItems === 1 ? '' : 's'} required
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface RepeaterItemCardProps {
+  sortableId: string;
+  index: number;
+  label: string;
+  canRemove: boolean;
+  canDuplicate: boolean;
+  onRemove: () => void;
+  onDuplicate: () => void;
+  children: ReactNode;
+}
+
+function RepeaterItemCard({
+  sortableId,
+  index,
+  label,
+  canRemove,
+  canDuplicate,
+  onRemove,
+  onDuplicate,
+  children,
+}: RepeaterItemCardProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: sortableId,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : 1,
+  };
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={style}
+      className="rounded-md border border-gray-200 bg-gray-50 p-3"
+      aria-label={label}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            {...attributes}
+            {...listeners}
+            className="cursor-move rounded px-1 text-gray-500 hover:bg-gray-200"
+            aria-label={`Reorder ${label}`}
+            title="Drag to reorder"
+          >
+            ⋮⋮
+          </button>
+          <span className="text-xs font-semibold text-gray-700">#{index + 1}</span>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDuplicate}
+            disabled={!canDuplicate}
+            aria-label={`Duplicate ${label}`}
+            title="Duplicate item"
+          >
+            ⧉
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            disabled={!canRemove}
+            aria-label={`Remove ${label}`}
+            title="Remove item"
+          >
+            ✕
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-3">{children}</div>
+    </li>
+  );
+}
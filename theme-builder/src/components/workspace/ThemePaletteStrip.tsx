@@ -0,0 +1,32 @@
+import { PALETTE_STEPS, generateTonalPalette } from '@shared/utils';
+
+export interface ThemePaletteStripProps {
+  name: string; // Display name of the theme color, e.g. "Primary"
+  color: string;
+}
+
+/**
+ * ThemePaletteStrip shows the tonal scale generated from a theme color,
+ * the shades exposed to components as `--color-{name}-{step}`
+ */
+export function ThemePaletteStrip({ name, color }: ThemePaletteStripProps) {
+  const palette = generateTonalPalette(color);
+  if (!palette) return null;
+
+  return (
+    <div>
+      <p className="mb-1 text-xs text-gray-600">{name}</p>
+      <ul className="flex overflow-hidden rounded border" aria-label={`${name} palette`}>
+        {PALETTE_STEPS.map((step) => (
+          <li
+            key={step}
+            className="h-6 flex-1"
+            style={{ backgroundColor: palette[step] }}
+            title={`${name} ${step}: ${palette[step]}`}
+            aria-label={`${step} ${palette[step]}`}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ThemePreset, ThemeSettings } from '../../types/workspace';
+import {
+  PRESET_NAME_MAX_LENGTH,
+  THEME_PRESETS,
+  deleteCustomPreset,
+  loadCustomPresets,
+  matchesPreset,
+  saveCustomPreset,
+} from '../../lib/themePresets';
+
+export interface ThemePresetGalleryProps {
+  settings: ThemeSettings;
+  onApply: (settings: ThemeSettings) => void;
+  onPreview: (settings: ThemeSettings | null) => void;
+  disabled?: boolean;
+}
+
+interface PresetCardProps {
+  preset: ThemePreset;
+  isActive: boolean;
+  onApply: (settings: ThemeSettings) => void;
+  onPreview: (settings: ThemeSettings | null) => void;
+  onDelete?: (presetId: string) => void;
+  disabled?: boolean;
+}
+
+function PresetCard({ preset, isActive, onApply, onPreview, onDelete, disabled }: PresetCardProps) {
+  const { settings } = preset;
+
+  return (
+    <li className="relative">
+      <button
+        type="button"
+        onClick={() => onApply(settings)}
+        onMouseEnter={() => onPreview(settings)}
+        onMouseLeave={() => onPreview(null)}
+        onFocus={() => onPreview(settings)}
+        onBlur={() => onPreview(null)}
+        disabled={disabled}
+        aria-pressed={isActive}
+        aria-label={`Apply ${preset.name} preset`}
+        className={`w-full rounded border p-2 text-left transition-colors disabled:opacity-50 ${
+          isActive ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200 hover:border-blue-300'
+        }`}
+      >
+        <span className="flex gap-1" aria-hidden="true">
+          {[settings.primaryColor, settings.secondaryColor, settings.accentColor].map((color, index) => (
+            <span
+              key={index}
+              className="h-4 flex-1 rounded-sm border border-black/10"
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </span>
+        <span className="mt-1 block truncate text-xs font-medium text-gray-900">{preset.name}</span>
+        <span className="block truncate text-[10px] text-gray-500">
+          {settings.headingFont} / {settings.bodyFont}
+        </span>
+      </button>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={() => onDelete(preset.id)}
+          aria-label={`Delete ${preset.name} preset`}
+          title="Delete preset"
+          className="absolute right-1 top-1 rounded bg-white/80 px-1 text-xs text-gray-500 hover:text-red-600"
+        >
+          ✕
+        </button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * ThemePresetGallery lists curated and custom theme presets.
+ *
+ * Hovering or focusing a preset previews it on the canvas; clicking it
+ * copies its settings into the working theme, which still has to be saved.
+ */
+export function ThemePresetGallery({ settings, onApply, onPreview, disabled }: ThemePresetGalleryProps) {
+  const [customPresets, setCustomPresets] = useState<ThemePreset[]>(loadCustomPresets);
+  const [presetName, setPresetName] = useState('');
+
+  // Don't leave a preview on the canvas when the gallery closes mid-hover
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const handleApply = (presetSettings: ThemeSettings) => {
+    onPreview(null);
+    onApply(presetSettings);
+  };
+
+  const handleSavePreset = (e: FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (name === '') return;
+
+    setCustomPresets(saveCustomPreset(name, settings));
+    setPresetName('');
+    toast.success(`Preset "${name}" saved`);
+  };
+
+  const handleDeletePreset = (presetId: string) => {
+    onPreview(null);
+    setCustomPresets(deleteCustomPreset(presetId));
+  };
+
+  return (
+    <div data-testid="theme-preset-gallery">
+      <ul className="grid grid-cols-2 gap-2" aria-label="Theme presets">
+        {THEME_PRESETS.map((preset) => (
+          <PresetCard
+            key={preset.id}
+            preset={preset}
+            isActive={matchesPreset(settings, preset)}
+            onApply={handleApply}
+            onPreview={onPreview}
+            disabled={disabled}
+          />
+        ))}
+      </ul>
+
+      {customPresets.length > 0 && (
+        <>
+          <h4 className="mb-2 mt-4 text-xs font-semibold text-gray-600">My presets</h4>
+          <ul className="grid grid-cols-2 gap-2" aria-label="My presets">
+            {customPresets.map((preset) => (
+              <PresetCard
+                key={preset.id}
+                preset={preset}
+                isActive={matchesPreset(settings, preset)}
+                onApply={handleApply}
+                onPreview={onPreview}
+                onDelete={handleDeletePreset}
+                disabled={disabled}
+              />
+            ))}
+          </ul>
+        </>
+      )}
+
+      <form className="mt-3 flex gap-2" onSubmit={handleSavePreset}>
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          aria-label="Preset name"
+          maxLength={PRESET_NAME_MAX_LENGTH}
+        />
+        <Button type="submit" variant="outline" disabled={presetName.trim() === ''}>
+          Save as preset
+        </Button>
+      </form>
+    </div>
+  );
+}
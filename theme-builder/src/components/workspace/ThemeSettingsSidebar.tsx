@@ -1,110 +1,476 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ColorField, SelectField } from '@shared/types';
+import {
+  FONT_PAIRINGS,
+  SCHEME_COLOR_NAMES,
+  TYPE_SCALE_RATIOS,
+  getFontStack,
+  getTypeScaleSizes,
+  type ColorScheme,
+  type ColorSchemePreference,
+  type SchemeColorName,
+} from '@shared/utils';
+import { useThemeSettings } from '../../contexts/ThemeSettingsContext';
+import type { ThemeSettings } from '../../types/workspace';
+import {
+  BASE_FONT_SIZE_MAX,
+  BASE_FONT_SIZE_MIN,
+  BASE_SPACING_MAX,
+  BASE_SPACING_MIN,
+  BASE_SPACING_STEP,
+  COLOR_SCHEME_OPTIONS,
+  FONT_OPTIONS,
+  LETTER_SPACING_MAX,
+  LETTER_SPACING_MIN,
+  LINE_HEIGHT_MAX,
+  LINE_HEIGHT_MIN,
+  SCHEME_COLOR_LABELS,
+  getSchemeContrastPairs,
+  getThemeContrastPairs,
+  getThemeTypeScale,
+  isHexColor,
+} from '../../lib/theme';
+import { PropertyField } from './PropertyField';
+import { ThemePresetGallery } from './ThemePresetGallery';
+import { ContrastCheck } from './ContrastCheck';
+import { ThemePaletteStrip } from './ThemePaletteStrip';
 
 export interface ThemeSettingsSidebarProps {
   onClose: () => void;
 }
 
+type ColorSettingName = 'primaryColor' | 'secondaryColor' | 'accentColor';
+type FontSettingName = 'headingFont' | 'bodyFont';
+
+const colorFields: (ColorField & { name: ColorSettingName })[] = [
+  { name: 'primaryColor', label: 'Primary Color', type: 'color', required: true },
+  { name: 'secondaryColor', label: 'Secondary Color', type: 'color', required: true },
+  { name: 'accentColor', label: 'Accent Color', type: 'color', required: true },
+];
+
+const fontFields: (SelectField & { name: FontSettingName })[] = [
+  { name: 'headingFont', label: 'Heading Font', type: 'select', required: true, options: FONT_OPTIONS },
+  { name: 'bodyFont', label: 'Body Font', type: 'select', required: true, options: FONT_OPTIONS },
+];
+
+const colorSchemeField: SelectField = {
+  name: 'colorScheme',
+  label: 'Color Scheme',
+  type: 'select',
+  required: true,
+  options: COLOR_SCHEME_OPTIONS,
+};
+
+// Palettes edited in the color scheme section, by the settings key holding them
+const schemePalettes: { scheme: ColorScheme; key: 'lightScheme' | 'darkScheme'; label: string }[] = [
+  { scheme: 'light', key: 'lightScheme', label: 'Light palette' },
+  { scheme: 'dark', key: 'darkScheme', label: 'Dark palette' },
+];
+
+const schemeColorFields: (ColorField & { name: SchemeColorName })[] = SCHEME_COLOR_NAMES.map((name) => ({
+  name,
+  label: SCHEME_COLOR_LABELS[name],
+  type: 'color',
+  required: true,
+}));
+
+const typeScaleRatioField: SelectField = {
+  name: 'typeScaleRatio',
+  label: 'Scale Ratio',
+  type: 'select',
+  required: true,
+  options: TYPE_SCALE_RATIOS.map((ratio) => ({ value: String(ratio.value), label: ratio.label })),
+};
+
+type NumericSettingName =
+  | 'baseSpacing'
+  | 'baseFontSize'
+  | 'headingLineHeight'
+  | 'bodyLineHeight'
+  | 'headingLetterSpacing'
+  | 'bodyLetterSpacing';
+
+interface RangeSettingProps {
+  name: NumericSettingName;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  onChange: (changes: Partial<ThemeSettings>) => void;
+}
+
+function RangeSetting({ name, label, value, min, max, step, unit = '', onChange }: RangeSettingProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`theme-${name}`} className="text-xs text-gray-600">
+          {label}
+        </Label>
+        <span className="text-xs text-gray-500">{value}{unit}</span>
+      </div>
+      <input
+        type="range"
+        id={`theme-${name}`}
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange({ [name]: Number(e.target.value) })}
+        className="mt-2 w-full"
+      />
+    </div>
+  );
+}
+
+/**
+ * ThemeSettingsSidebar edits the shop-wide theme.
+ *
+ * Theme changes are tracked separately from the page layout: they have their
+ * own unsaved state, save button and reset, and apply to every page.
+ */
 export function ThemeSettingsSidebar({ onClose }: ThemeSettingsSidebarProps) {
+  const {
+    settings,
+    hasUnsavedThemeChanges,
+    isLoading,
+    error,
+    isSavingTheme,
+    isResettingTheme,
+    updateThemeSettings,
+    discardThemeChanges,
+    saveTheme,
+    resetTheme,
+    setThemePreview,
+  } = useThemeSettings();
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+
+  const hasInvalidColors =
+    colorFields.some((field) => !isHexColor(settings[field.name])) ||
+    schemePalettes.some(({ key }) => SCHEME_COLOR_NAMES.some((name) => !isHexColor(settings[key][name])));
+  const isBusy = isLoading || isSavingTheme || isResettingTheme;
+
+  const handleChange = (changes: Partial<ThemeSettings>) => {
+    updateThemeSettings(changes);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveTheme();
+      toast.success('Theme saved successfully');
+    } catch (err) {
+      toast.error('Failed to save theme. Please try again.');
+      console.error('Theme save error:', err);
+    }
+  };
+
+  const handleConfirmReset = async () => {
+    setResetDialogOpen(false);
+    try {
+      await resetTheme();
+      toast.success('Theme reset to defaults');
+    } catch (err) {
+      toast.error('Failed to reset theme. Please try again.');
+      console.error('Theme reset error:', err);
+    }
+  };
+
   return (
-    <aside className="w-80 border-l bg-white p-4">
+    <aside
+      className="w-80 overflow-y-auto border-l bg-white p-4"
+      role="complementary"
+      aria-label="Theme settings"
+      data-testid="theme-settings"
+    >
       <div className="mb-4 flex items-center justify-between">
-        <h2 className="text-lg font-semibold">Theme Settings</h2>
-        <Button variant="ghost" size="icon" onClick={onClose}>
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold">Theme Settings</h2>
+          <p className="text-xs text-gray-500">Applies to all pages</p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Close theme settings">
           ✕
         </Button>
       </div>
 
+      {error && (
+        <p className="mb-4 rounded bg-red-50 p-2 text-xs text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+
       <div className="space-y-6">
+        {/* Presets section */}
+        <div>
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Presets</h3>
+          <ThemePresetGallery
+            settings={settings}
+            onApply={handleChange}
+            onPreview={setThemePreview}
+            disabled={isBusy}
+          />
+        </div>
+
         {/* Colors section */}
         <div>
           <h3 className="mb-3 text-sm font-semibold text-gray-900">Colors</h3>
           <div className="space-y-3">
-            <div>
-              <Label htmlFor="primary-color" className="text-xs text-gray-600">
-                Primary Color
-              </Label>
-              <div className="mt-1 flex items-center gap-2">
-                <input
-                  type="color"
-                  id="primary-color"
-                  defaultValue="#3b82f6"
-                  className="h-10 w-full cursor-pointer rounded border"
-                  disabled
+            {colorFields.map((field) => (
+              <div key={field.name}>
+                <PropertyField
+                  field={field}
+                  value={settings[field.name]}
+                  onChange={(value) => handleChange({ [field.name]: typeof value === 'string' ? value : '' })}
+                  idPrefix="theme"
                 />
+                {!isHexColor(settings[field.name]) && (
+                  <p className="mt-1 text-xs text-red-600">Enter a hex color such as #3b82f6</p>
+                )}
               </div>
-              <p className="mt-1 text-xs text-gray-500">Coming soon</p>
-            </div>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <h4 className="text-xs font-semibold text-gray-600">Palette</h4>
+            <ThemePaletteStrip name="Primary" color={settings.primaryColor} />
+            <ThemePaletteStrip name="Secondary" color={settings.secondaryColor} />
+            <ThemePaletteStrip name="Accent" color={settings.accentColor} />
+          </div>
+
+          <div className="mt-4 space-y-2" aria-label="Color contrast" role="group">
+            <h4 className="text-xs font-semibold text-gray-600">Contrast</h4>
+            {getThemeContrastPairs(settings).map((pair) => (
+              <ContrastCheck
+                key={pair.id}
+                pair={pair}
+                onApplySuggestion={(color) => handleChange({ [pair.id]: color })}
+              />
+            ))}
+          </div>
+        </div>
 
-            <div>
-              <Label htmlFor="secondary-color" className="text-xs text-gray-600">
-                Secondary Color
-              </Label>
-              <div className="mt-1 flex items-center gap-2">
-                <input
-                  type="color"
-                  id="secondary-color"
-                  defaultValue="#6366f1"
-                  className="h-10 w-full cursor-pointer rounded border"
-                  disabled
+        {/* Color scheme section */}
+        <div>
+          <h3 className="mb-3 text-sm font-semibold text-gray-900">Color Scheme</h3>
+          <PropertyField
+            field={colorSchemeField}
+            value={settings.colorScheme}
+            onChange={(value) => handleChange({ colorScheme: value as ColorSchemePreference })}
+            idPrefix="theme"
+          />
+
+          {schemePalettes.map(({ scheme, key, label }) => (
+            <div key={scheme} className="mt-4 space-y-3" role="group" aria-label={label}>
+              <h4 className="text-xs font-semibold text-gray-600">{label}</h4>
+              {schemeColorFields.map((field) => (
+                <div key={field.name}>
+                  <PropertyField
+                    field={field}
+                    value={settings[key][field.name]}
+                    onChange={(value) =>
+                      handleChange({ [key]: { ...settings[key], [field.name]: typeof value === 'string' ? value : '' } })
+                    }
+                    idPrefix={`theme-${scheme}`}
+                  />
+                  {!isHexColor(settings[key][field.name]) && (
+                    <p className="mt-1 text-xs text-red-600">Enter a hex color such as #3b82f6</p>
+                  )}
+                </div>
+              ))}
+              {getSchemeContrastPairs(settings, scheme).map((pair) => (
+                <ContrastCheck
+                  key={pair.id}
+                  pair={pair}
+                  onApplySuggestion={(color) => handleChange({ [key]: { ...settings[key], [pair.id]: color } })}
                 />
-              </div>
-              <p className="mt-1 text-xs text-gray-500">Coming soon</p>
+              ))}
             </div>
-          </div>
+          ))}
         </div>
 
         {/* Typography section */}
         <div>
           <h3 className="mb-3 text-sm font-semibold text-gray-900">Typography</h3>
           <div className="space-y-3">
-            <div>
-              <Label htmlFor="font-family" className="text-xs text-gray-600">
-                Font Family
-              </Label>
-              <select
-                id="font-family"
-                className="mt-1 w-full rounded border border-gray-300 px-3 py-2 text-sm"
-                disabled
-              >
-                <option>Inter</option>
-                <option>Roboto</option>
-                <option>Open Sans</option>
-              </select>
-              <p className="mt-1 text-xs text-gray-500">Coming soon</p>
+            {fontFields.map((field) => (
+              <PropertyField
+                key={field.name}
+                field={field}
+                value={settings[field.name]}
+                onChange={(value) => handleChange({ [field.name]: String(value) })}
+                idPrefix="theme"
+              />
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-2" aria-label="Font pairings" role="group">
+            <h4 className="text-xs font-semibold text-gray-600">Suggested pairings</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {FONT_PAIRINGS.map((pairing) => {
+                const isActive = settings.headingFont === pairing.heading && settings.bodyFont === pairing.body;
+                return (
+                  <button
+                    key={pairing.id}
+                    type="button"
+                    className={`rounded border p-2 text-left hover:border-blue-400 ${isActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                    onClick={() => handleChange({ headingFont: pairing.heading, bodyFont: pairing.body })}
+                    aria-pressed={isActive}
+                    aria-label={`Use ${pairing.name} pairing: ${pairing.heading} and ${pairing.body}`}
+                    disabled={isBusy}
+                  >
+                    <span className="block text-sm font-semibold" style={{ fontFamily: getFontStack(pairing.heading) }}>
+                      {pairing.heading}
+                    </span>
+                    <span className="block text-xs text-gray-600" style={{ fontFamily: getFontStack(pairing.body) }}>
+                      {pairing.body}
+                    </span>
+                  </button>
+                );
+              })}
             </div>
           </div>
+
+          <div className="mt-4 space-y-3" aria-label="Type scale" role="group">
+            <h4 className="text-xs font-semibold text-gray-600">Type scale</h4>
+            <RangeSetting
+              name="baseFontSize"
+              label="Base Font Size"
+              value={settings.baseFontSize}
+              min={BASE_FONT_SIZE_MIN}
+              max={BASE_FONT_SIZE_MAX}
+              step={1}
+              unit="px"
+              onChange={handleChange}
+            />
+            <PropertyField
+              field={typeScaleRatioField}
+              value={String(settings.typeScaleRatio)}
+              onChange={(value) => handleChange({ typeScaleRatio: Number(value) })}
+              idPrefix="theme"
+            />
+            <dl className="grid grid-cols-4 gap-1 text-center text-xs text-gray-500" data-testid="type-scale-sizes">
+              {Object.entries(getTypeScaleSizes(getThemeTypeScale(settings))).reverse().map(([level, size]) => (
+                <div key={level}>
+                  <dt className="font-semibold uppercase">{level}</dt>
+                  <dd>{size}px</dd>
+                </div>
+              ))}
+            </dl>
+            <RangeSetting
+              name="headingLineHeight"
+              label="Heading Line Height"
+              value={settings.headingLineHeight}
+              min={LINE_HEIGHT_MIN}
+              max={LINE_HEIGHT_MAX}
+              step={0.05}
+              onChange={handleChange}
+            />
+            <RangeSetting
+              name="bodyLineHeight"
+              label="Body Line Height"
+              value={settings.bodyLineHeight}
+              min={LINE_HEIGHT_MIN}
+              max={LINE_HEIGHT_MAX}
+              step={0.05}
+              onChange={handleChange}
+            />
+            <RangeSetting
+              name="headingLetterSpacing"
+              label="Heading Letter Spacing"
+              value={settings.headingLetterSpacing}
+              min={LETTER_SPACING_MIN}
+              max={LETTER_SPACING_MAX}
+              step={0.01}
+              unit="em"
+              onChange={handleChange}
+            />
+            <RangeSetting
+              name="bodyLetterSpacing"
+              label="Body Letter Spacing"
+              value={settings.bodyLetterSpacing}
+              min={LETTER_SPACING_MIN}
+              max={LETTER_SPACING_MAX}
+              step={0.01}
+              unit="em"
+              onChange={handleChange}
+            />
+          </div>
         </div>
 
         {/* Spacing section */}
         <div>
           <h3 className="mb-3 text-sm font-semibold text-gray-900">Spacing</h3>
-          <div className="space-y-3">
-            <div>
-              <Label htmlFor="base-spacing" className="text-xs text-gray-600">
-                Base Spacing
-              </Label>
-              <input
-                type="range"
-                id="base-spacing"
-                min="4"
-                max="16"
-                step="2"
-                defaultValue="8"
-                className="mt-2 w-full"
-                disabled
-              />
-              <p className="mt-1 text-xs text-gray-500">Coming soon</p>
-            </div>
-          </div>
+          <RangeSetting
+            name="baseSpacing"
+            label="Base Spacing"
+            value={settings.baseSpacing}
+            min={BASE_SPACING_MIN}
+            max={BASE_SPACING_MAX}
+            step={BASE_SPACING_STEP}
+            unit="px"
+            onChange={handleChange}
+          />
         </div>
 
-        <div className="pt-4">
-          <p className="text-xs text-gray-500">
-            Theme customization features will be available in a future update.
-          </p>
+        <div className="space-y-2 border-t pt-4">
+          <Button
+            className="w-full"
+            onClick={handleSave}
+            disabled={!hasUnsavedThemeChanges || hasInvalidColors || isBusy}
+          >
+            {isSavingTheme ? 'Saving...' : 'Save Theme'}
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={discardThemeChanges}
+              disabled={!hasUnsavedThemeChanges || isBusy}
+            >
+              Discard
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setResetDialogOpen(true)}
+              disabled={isBusy}
+            >
+              {isResettingTheme ? 'Resetting...' : 'Reset to Defaults'}
+            </Button>
+          </div>
         </div>
       </div>
+
+      {/* Reset confirmation dialog */}
+      <AlertDialog open={resetDialogOpen} onOpenChange={setResetDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Theme</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will restore the default colors, color schemes, typography and spacing for all pages. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmReset} className="bg-red-600 hover:bg-red-700">
+              Reset Theme
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </aside>
   );
 }
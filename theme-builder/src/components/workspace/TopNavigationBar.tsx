@@ -7,6 +7,18 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import type { PageType } from '../../types/api';
+import type { AutosaveStatus } from '../../hooks/useAutosave';
+import type { ColorScheme } from '@shared/utils';
+import { ViewportSwitcher } from './ViewportSwitcher';
+import { ColorSchemeToggle } from './ColorSchemeToggle';
+
+const autosaveStatusLabels: Record<AutosaveStatus, string | null> = {
+  idle: null,
+  pending: 'Autosave pending...',
+  saving: 'Autosaving...',
+  saved: 'All changes saved',
+  error: 'Autosave failed',
+};
 
 export interface TopNavigationBarProps {
   currentPageType: PageType;
@@ -14,12 +26,27 @@ export interface TopNavigationBarProps {
   hasUnsavedChanges: boolean;
   isSaving: boolean;
   isResetting: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  autosaveEnabled: boolean;
+  autosaveStatus: AutosaveStatus;
+  viewportWidth: number | null;
+  previewColorScheme: ColorScheme;
   onPageTypeChange: (type: PageType) => void;
   onReset: () => void;
   onSave: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onAutosaveToggle: (enabled: boolean) => void;
+  onViewportWidthChange: (width: number | null) => void;
+  onPreviewColorSchemeChange: (scheme: ColorScheme) => void;
   onDemo: () => void;
   onThemeToggle: () => void;
   isThemeSidebarOpen: boolean;
+  errorCount: number; // Layout problems that block saving
+  warningCount: number; // Layout problems saved anyway
+  onProblemsToggle: () => void;
+  isProblemsPanelOpen: boolean;
 }
 
 export function TopNavigationBar({
@@ -28,13 +55,30 @@ export function TopNavigationBar({
   hasUnsavedChanges,
   isSaving,
   isResetting,
+  canUndo,
+  canRedo,
+  autosaveEnabled,
+  autosaveStatus,
+  viewportWidth,
+  previewColorScheme,
   onPageTypeChange,
   onReset,
   onSave,
+  onUndo,
+  onRedo,
+  onAutosaveToggle,
+  onViewportWidthChange,
+  onPreviewColorSchemeChange,
   onDemo,
   onThemeToggle,
   isThemeSidebarOpen,
+  errorCount,
+  warningCount,
+  onProblemsToggle,
+  isProblemsPanelOpen,
 }: TopNavigationBarProps) {
+  const autosaveLabel = autosaveEnabled ? autosaveStatusLabels[autosaveStatus] : null;
+
   return (
     <header className="border-b bg-white px-6 py-4" data-testid="workspace-header">
       <div className="flex items-center justify-between">
@@ -58,10 +102,63 @@ export function TopNavigationBar({
               Unsaved changes
             </span>
           )}
+
+          <label className="flex cursor-pointer items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={autosaveEnabled}
+              onChange={(e) => onAutosaveToggle(e.target.checked)}
+              className="cursor-pointer"
+            />
+            Autosave
+          </label>
+
+          {autosaveLabel && (
+            <span
+              className={`text-xs ${autosaveStatus === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+              role="status"
+              data-testid="autosave-status"
+            >
+              {autosaveLabel}
+            </span>
+          )}
+        </div>
+
+        {/* Center: Canvas viewport and color scheme */}
+        <div className="flex items-center gap-3">
+          <ViewportSwitcher
+            viewportWidth={viewportWidth}
+            onViewportWidthChange={onViewportWidthChange}
+          />
+          <ColorSchemeToggle
+            colorScheme={previewColorScheme}
+            onColorSchemeChange={onPreviewColorSchemeChange}
+          />
         </div>
 
         {/* Right: Action buttons */}
         <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="cursor-pointer"
+            >
+              Undo
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="cursor-pointer"
+            >
+              Redo
+            </Button>
+          </div>
+
           <Button
             variant="outline"
             onClick={onReset}
@@ -71,9 +168,26 @@ export function TopNavigationBar({
             {isResetting ? 'Resetting...' : 'Reset'}
           </Button>
 
+          <Button
+            variant={isProblemsPanelOpen ? 'default' : 'outline'}
+            onClick={onProblemsToggle}
+            aria-pressed={isProblemsPanelOpen}
+            data-testid="problems-button"
+            className={`cursor-pointer ${
+              !isProblemsPanelOpen && errorCount > 0
+                ? 'border-red-300 text-red-700'
+                : !isProblemsPanelOpen && warningCount > 0
+                  ? 'border-yellow-300 text-yellow-800'
+                  : ''
+            }`}
+          >
+            Problems ({errorCount + warningCount})
+          </Button>
+
           <Button
             onClick={onSave}
             disabled={!hasUnsavedChanges || isSaving}
+            title={errorCount > 0 ? 'Fix the layout errors before saving' : undefined}
             className="cursor-pointer"
           >
             {isSaving ? 'Saving...' : 'Save'}
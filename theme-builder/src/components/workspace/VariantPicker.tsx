@@ -0,0 +1,96 @@
+import { Suspense } from 'react';
+import type { ComponentRegistryEntry } from '../../types/workspace';
+import type { ComponentDefinition } from '@/types/api';
+import { applyVariant } from '../../utils/componentVariant';
+import { useMenuNavigation } from '../../hooks/useMenuNavigation';
+
+// Previews render the component at 4x the thumbnail width, scaled down
+const PREVIEW_SCALE = 0.25;
+
+export interface VariantPickerProps {
+  componentDefinition: ComponentDefinition;
+  componentEntry: ComponentRegistryEntry;
+  /** Props the canvas renders the component with, used for the live previews */
+  renderProps: Record<string, unknown>;
+  onSelect: (variant: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * VariantPicker lists the variants of a canvas component with a preview of each.
+ *
+ * Variants with a `previewImage` show the thumbnail; the others show a live
+ * mini-render of the component as it would look after switching, including
+ * the defaults the variant fills in.
+ */
+export function VariantPicker({
+  componentDefinition,
+  componentEntry,
+  renderProps,
+  onSelect,
+  onClose,
+}: VariantPickerProps) {
+  const { menuRef, handleKeyDown } = useMenuNavigation<HTMLDivElement>(onClose);
+  const Component = componentEntry.Component;
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      aria-label="Choose variant"
+      onKeyDown={handleKeyDown}
+      className="absolute right-0 top-full z-20 mt-1 max-h-[28rem] w-72 space-y-1 overflow-y-auto rounded-md border bg-white p-1 shadow-lg"
+    >
+      {componentEntry.meta.variants.map((variant) => {
+        const isCurrent = variant.id === componentDefinition.variant;
+        const previewProps = applyVariant(
+          { ...componentDefinition, props: renderProps },
+          variant.id,
+          componentEntry
+        ).props;
+
+        return (
+          // Not a <button>: the live preview may contain links and buttons of its own
+          <div
+            key={variant.id}
+            role="menuitemradio"
+            tabIndex={-1}
+            aria-checked={isCurrent}
+            onClick={() => onSelect(variant.id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                onSelect(variant.id);
+              }
+            }}
+            className={`block w-full cursor-pointer rounded border p-2 text-left hover:bg-gray-50 focus:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+              isCurrent ? 'border-blue-500' : 'border-transparent'
+            }`}
+          >
+            <div
+              className="relative h-20 overflow-hidden rounded border border-gray-200 bg-white"
+              aria-hidden="true"
+              data-testid={`variant-preview-${variant.id}`}
+            >
+              {variant.previewImage ? (
+                <img src={variant.previewImage} alt="" className="h-full w-full object-cover" />
+              ) : (
+                <div
+                  className="pointer-events-none absolute left-0 top-0 origin-top-left"
+                  style={{ width: `${100 / PREVIEW_SCALE}%`, transform: `scale(${PREVIEW_SCALE})` }}
+                  inert
+                >
+                  <Suspense fallback={null}>
+                    <Component {...previewProps} variant={variant.id} />
+                  </Suspense>
+                </div>
+              )}
+            </div>
+            <span className="mt-1 block text-sm font-medium text-gray-900">{variant.name}</span>
+            <span className="block text-xs text-gray-600">{variant.description}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
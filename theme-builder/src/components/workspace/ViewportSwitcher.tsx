@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  VIEWPORT_PRESETS,
+  MIN_VIEWPORT_WIDTH,
+  MAX_VIEWPORT_WIDTH,
+  clampViewportWidth,
+  getViewportPreset,
+} from '../../utils/viewport';
+
+export interface ViewportSwitcherProps {
+  viewportWidth: number | null;
+  onViewportWidthChange: (width: number | null) => void;
+}
+
+/**
+ * ViewportSwitcher toggles the canvas preview between device presets
+ * and a custom width
+ */
+export function ViewportSwitcher({ viewportWidth, onViewportWidthChange }: ViewportSwitcherProps) {
+  // Draft text of the custom width input, committed on blur or Enter
+  const [customWidth, setCustomWidth] = useState<string | null>(null);
+  const activePreset = getViewportPreset(viewportWidth);
+
+  const commitCustomWidth = () => {
+    if (customWidth === null) return;
+
+    const width = Number(customWidth);
+    if (customWidth.trim() !== '' && Number.isFinite(width)) {
+      onViewportWidthChange(clampViewportWidth(width));
+    }
+    setCustomWidth(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2" role="group" aria-label="Canvas viewport">
+      <div className="flex items-center rounded-md border">
+        {VIEWPORT_PRESETS.map((preset) => (
+          <Button
+            key={preset.id}
+            variant={activePreset?.id === preset.id ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => onViewportWidthChange(preset.width)}
+            aria-pressed={activePreset?.id === preset.id}
+            title={preset.width ? `${preset.label} (${preset.width}px)` : `${preset.label} (full width)`}
+            className="cursor-pointer"
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+
+      <Input
+        type="number"
+        min={MIN_VIEWPORT_WIDTH}
+        max={MAX_VIEWPORT_WIDTH}
+        value={customWidth ?? viewportWidth ?? ''}
+        placeholder="Width"
+        onChange={(e) => setCustomWidth(e.target.value)}
+        onBlur={commitCustomWidth}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitCustomWidth();
+          if (e.key === 'Escape') setCustomWidth(null);
+        }}
+        aria-label="Custom viewport width in pixels"
+        className="h-8 w-24"
+      />
+    </div>
+  );
+}
@@ -1,7 +1,21 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, pointerWithin } from '@dnd-kit/core';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  pointerWithin,
+} from '@dnd-kit/core';
 import { toast } from 'sonner';
 import { conditionalAxisRestriction } from '../../utils/dragModifiers';
+import { canvasFrameMeasuring, withCanvasFrameCoordinates } from '../../utils/canvasFrame';
+import { getComponentIdFromTarget, hasTextSelection, isEditableTarget } from '../../utils/keyboard';
+import { canvasKeyboardCoordinates } from '../../utils/keyboardCoordinates';
+import { getComponentSeverities, hasBlockingProblems, validateLayout } from '../../utils/layoutValidation';
+import { ROOT_SLOT, findComponent, findComponentLocation, getSlotComponents } from '../../utils/layoutTree';
 import { Button } from '@/components/ui/button';
 import {
   AlertDialog,
@@ -14,14 +28,44 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useWorkspace } from '../../contexts/WorkspaceContext';
+import { useThemeSettings } from '../../contexts/ThemeSettingsContext';
 import { TopNavigationBar } from './TopNavigationBar';
 import { ComponentLibrarySidebar } from './ComponentLibrarySidebar';
 import { ThemeSettingsSidebar } from './ThemeSettingsSidebar';
+import { ComponentSettingsSidebar } from './ComponentSettingsSidebar';
 import { Canvas } from './Canvas';
+import { CanvasFrame } from './CanvasFrame';
+import { LayoutProblemsPanel } from './LayoutProblemsPanel';
 import { componentRegistry } from '../../lib/componentRegistry';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import { useAutosave } from '../../hooks/useAutosave';
+import { useDragAnnouncements, screenReaderInstructions } from '../../hooks/useDragAnnouncements';
 import { getShopIdFromToken } from '../../lib/auth';
+import { getDefaultPreviewScheme, getThemeColors } from '../../lib/theme';
+import { loadAutosavePreference, saveAutosavePreference } from '../../lib/workspaceStorage';
 import type { PageType } from '../../types/api';
+import type { LayoutSlot } from '../../types/workspace';
+import type { ColorScheme } from '@shared/utils';
+
+// Pointer drags hit-test under the cursor; keyboard drags have no pointer and use the closest droppable.
+// Drags started inside the viewport preview frame report frame-relative pointer coordinates.
+// Nested components lie within the droppables of their containers, so the innermost (smallest) one wins.
+const collisionDetection = withCanvasFrameCoordinates((args) => {
+  if (!args.pointerCoordinates) {
+    return closestCenter(args);
+  }
+
+  const getArea = (id: string | number) => {
+    const rect = args.droppableRects.get(id);
+    return rect ? rect.width * rect.height : Infinity;
+  };
+  return pointerWithin(args).sort((a, b) => getArea(a.id) - getArea(b.id));
+});
+
+// Display name used in announcements and toasts
+function getComponentName(componentType: string | undefined): string {
+  return (componentType && componentRegistry[componentType]?.meta.name) || 'Component';
+}
 
 export function WorkspaceView() {
   const {
@@ -32,35 +76,74 @@ export function WorkspaceView() {
     isResetting,
     isLoading,
     error,
+    canUndo,
+    canRedo,
+    pendingDraft,
+    clipboard,
     setCurrentPageType,
     addComponent,
     reorderComponent,
+    moveComponent,
     deleteComponent,
+    duplicateComponent,
+    copyComponent,
+    pasteComponent,
+    updateComponentProps,
+    setComponentVariant,
     saveLayout,
     resetLayout,
+    undo,
+    redo,
+    restoreDraft,
+    discardDraft,
   } = useWorkspace();
+  const { settings: themeSettings, previewSettings, hasUnsavedThemeChanges } = useThemeSettings();
 
   const [isThemeSidebarOpen, setIsThemeSidebarOpen] = useState(false);
+  const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
   const [isLibraryCollapsed, setIsLibraryCollapsed] = useState(false);
   const [pageChangeDialog, setPageChangeDialog] = useState<{
     open: boolean;
     targetPageType: PageType | null;
   }>({ open: false, targetPageType: null });
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [isAutosaveEnabled, setIsAutosaveEnabled] = useState(loadAutosavePreference);
+  const [viewportWidth, setViewportWidth] = useState<number | null>(null);
+  // Scheme picked with the canvas toggle; until then the theme's own scheme is shown
+  const [previewColorScheme, setPreviewColorScheme] = useState<ColorScheme | null>(null);
+  const [isProblemsPanelOpen, setIsProblemsPanelOpen] = useState(false);
+  const [commandAnnouncement, setCommandAnnouncement] = useState('');
   const [canvasWidth, setCanvasWidth] = useState<number | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
 
   // Set up drag and drop
   const { dragState, handleDragStart, handleDragMove, handleDragEnd, handleDragCancel } = useDragAndDrop(
     addComponent,
-    reorderComponent,
+    moveComponent,
     currentLayout
   );
 
-  // Warn before leaving page with unsaved changes
+  // Validate against the shared props schemas before anything is saved
+  const layoutProblems = useMemo(() => validateLayout(currentLayout, componentRegistry), [currentLayout]);
+  const isSaveBlocked = hasBlockingProblems(layoutProblems);
+  const problemSeverities = useMemo(() => getComponentSeverities(layoutProblems), [layoutProblems]);
+  const errorCount = layoutProblems.filter((problem) => problem.severity === 'error').length;
+  const warningCount = layoutProblems.length - errorCount;
+
+  // Autosave keeps the undo history, unlike an explicit save; it pauses while the layout has errors
+  const autosave = useCallback(() => saveLayout({ keepHistory: true }), [saveLayout]);
+  const autosaveStatus = useAutosave({
+    enabled: isAutosaveEnabled && !isSaveBlocked,
+    hasUnsavedChanges,
+    layout: currentLayout,
+    isBusy: isSaving || isResetting || pendingDraft !== null,
+    save: autosave,
+  });
+
+  // Warn before leaving page with unsaved layout or theme changes
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (hasUnsavedChanges) {
+      if (hasUnsavedChanges || hasUnsavedThemeChanges) {
         e.preventDefault();
         e.returnValue = '';
       }
@@ -68,7 +151,78 @@ export function WorkspaceView() {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [hasUnsavedChanges]);
+  }, [hasUnsavedChanges, hasUnsavedThemeChanges]);
+
+  // Undo/redo shortcuts; text inputs keep their native undo behaviour
+  const handleHistoryShortcut = useCallback(
+    (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    },
+    [undo, redo]
+  );
+
+  // Copy/paste shortcuts act on the focused component, or the inspected one
+  const handleClipboardShortcut = useCallback(
+    (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key !== 'c' && key !== 'v') return;
+
+      const targetId = getComponentIdFromTarget(e.target) ?? selectedComponentId;
+      const location = targetId ? findComponentLocation(currentLayout, targetId) : null;
+
+      if (key === 'c') {
+        if (!location || hasTextSelection(e.target)) return;
+
+        e.preventDefault();
+        const component = getSlotComponents(currentLayout, location)[location.index];
+        copyComponent(component.id);
+        toast.success(`${getComponentName(component.type)} copied`);
+      } else {
+        if (!clipboard) return;
+
+        // Paste below the target component, in its slot, or at the end of the page
+        e.preventDefault();
+        const target = location ?? ROOT_SLOT;
+        const slotLength = getSlotComponents(currentLayout, target).length;
+        const atIndex = location ? location.index + 1 : slotLength;
+        pasteComponent(atIndex, target);
+        setCommandAnnouncement(
+          `${getComponentName(clipboard.type)} pasted at position ${atIndex + 1} of ${slotLength + 1}.`
+        );
+      }
+    },
+    [currentLayout, selectedComponentId, clipboard, copyComponent, pasteComponent]
+  );
+
+  // Also handles key presses inside the viewport preview frame, which don't
+  // reach the editor window; their target tells which component has focus
+  const handleShortcutKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      handleHistoryShortcut(e);
+      handleClipboardShortcut(e);
+    },
+    [handleHistoryShortcut, handleClipboardShortcut]
+  );
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleShortcutKeyDown);
+    return () => window.removeEventListener('keydown', handleShortcutKeyDown);
+  }, [handleShortcutKeyDown]);
 
   // Measure canvas width for DragOverlay
   useEffect(() => {
@@ -82,7 +236,7 @@ export function WorkspaceView() {
     updateCanvasWidth();
     window.addEventListener('resize', updateCanvasWidth);
     return () => window.removeEventListener('resize', updateCanvasWidth);
-  }, [isLibraryCollapsed, isThemeSidebarOpen]);
+  }, [isLibraryCollapsed, isThemeSidebarOpen, selectedComponentId]);
 
   // Configure sensors for drag operations
   const sensors = useSensors(
@@ -90,9 +244,14 @@ export function WorkspaceView() {
       activationConstraint: {
         distance: 8, // Require 8px movement before drag starts
       },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: canvasKeyboardCoordinates,
     })
   );
 
+  const announcements = useDragAnnouncements(currentLayout, componentRegistry);
+
   const pageTypes: PageType[] = ['home', 'catalog', 'product', 'contact'];
 
   const handlePageTypeChange = useCallback((type: PageType) => {
@@ -129,15 +288,35 @@ export function WorkspaceView() {
     }
   }, [resetLayout]);
 
+  // Errors block the save and open the problems panel; warnings are saved with a notice
   const handleSave = useCallback(async () => {
+    if (isSaveBlocked) {
+      setIsProblemsPanelOpen(true);
+      toast.error(`Fix ${errorCount} ${errorCount === 1 ? 'error' : 'errors'} before saving this page.`);
+      return;
+    }
+
     try {
       await saveLayout();
-      toast.success('Page layout saved successfully');
+      if (warningCount > 0) {
+        toast.warning(`Page layout saved with ${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`);
+      } else {
+        toast.success('Page layout saved successfully');
+      }
     } catch (err) {
       toast.error('Failed to save page. Please try again.');
       console.error('Save error:', err);
     }
-  }, [saveLayout]);
+  }, [saveLayout, isSaveBlocked, errorCount, warningCount]);
+
+  const handleProblemsToggle = useCallback(() => {
+    setIsProblemsPanelOpen((prev) => !prev);
+  }, []);
+
+  const handleAutosaveToggle = useCallback((enabled: boolean) => {
+    setIsAutosaveEnabled(enabled);
+    saveAutosavePreference(enabled);
+  }, []);
 
   const handleDemo = useCallback(() => {
     const shopId = getShopIdFromToken();
@@ -151,8 +330,48 @@ export function WorkspaceView() {
 
   const handleThemeToggle = useCallback(() => {
     setIsThemeSidebarOpen((prev) => !prev);
+    setSelectedComponentId(null);
+  }, []);
+
+  // Both right-hand panels share the same slot, so opening one closes the other
+  const handleComponentSettings = useCallback((componentId: string) => {
+    setSelectedComponentId(componentId);
+    setIsThemeSidebarOpen(false);
+  }, []);
+
+  const handleComponentSettingsClose = useCallback(() => {
+    setSelectedComponentId(null);
   }, []);
 
+  // Keyboard alternatives to drag and drop, announced to screen readers.
+  // Positions count within the slot of the component: the page or a container's child layout.
+  const handleComponentMove = useCallback((fromIndex: number, toIndex: number, target: LayoutSlot) => {
+    const components = getSlotComponents(currentLayout, target);
+    if (toIndex < 0 || toIndex >= components.length) return;
+
+    reorderComponent(fromIndex, toIndex, target);
+    const name = getComponentName(components[fromIndex]?.type);
+    setCommandAnnouncement(`${name} moved to position ${toIndex + 1} of ${components.length}.`);
+  }, [currentLayout, reorderComponent]);
+
+  const handleComponentInsert = useCallback((componentType: string, atIndex: number, target: LayoutSlot) => {
+    const slotLength = getSlotComponents(currentLayout, target).length;
+
+    addComponent(componentType, atIndex, target);
+    const name = getComponentName(componentType);
+    setCommandAnnouncement(`${name} inserted at position ${atIndex + 1} of ${slotLength + 1}.`);
+  }, [currentLayout, addComponent]);
+
+  const handleComponentDuplicate = useCallback((componentId: string) => {
+    const location = findComponentLocation(currentLayout, componentId);
+    if (!location) return;
+
+    const components = getSlotComponents(currentLayout, location);
+    duplicateComponent(componentId);
+    const name = getComponentName(components[location.index].type);
+    setCommandAnnouncement(`${name} duplicated at position ${location.index + 2} of ${components.length + 1}.`);
+  }, [currentLayout, duplicateComponent]);
+
   const handleLibraryToggle = useCallback(() => {
     setIsLibraryCollapsed((prev) => !prev);
   }, []);
@@ -194,6 +413,35 @@ export function WorkspaceView() {
     );
   }
 
+  // Resolve the inspected component; it disappears when deleted or when the page changes
+  const selectedComponent = selectedComponentId
+    ? findComponent(currentLayout, selectedComponentId)
+    : undefined;
+  const selectedComponentEntry = selectedComponent
+    ? componentRegistry[selectedComponent.type]
+    : undefined;
+
+  const canvasColorScheme = previewColorScheme ?? getDefaultPreviewScheme(themeSettings.colorScheme);
+
+  const canvas = (
+    <Canvas
+      layout={currentLayout}
+      componentRegistry={componentRegistry}
+      onComponentDelete={deleteComponent}
+      onComponentSettings={handleComponentSettings}
+      onComponentDuplicate={handleComponentDuplicate}
+      onComponentMove={handleComponentMove}
+      onComponentInsert={handleComponentInsert}
+      onComponentVariantChange={setComponentVariant}
+      selectedComponentId={selectedComponent?.id ?? null}
+      onRestoreDefault={resetLayout}
+      dragState={dragState}
+      themeSettings={previewSettings ?? themeSettings}
+      colorScheme={canvasColorScheme}
+      problemSeverities={problemSeverities}
+    />
+  );
+
   // Render drag overlay preview
   const renderDragOverlay = () => {
     if (!dragState.isDragging) return null;
@@ -206,7 +454,7 @@ export function WorkspaceView() {
     }
     // Reordering from canvas
     else if (dragState.isReordering && dragState.draggedId) {
-      const component = currentLayout.find((item) => item.id === dragState.draggedId);
+      const component = findComponent(currentLayout, dragState.draggedId);
       if (component) {
         const componentEntry = componentRegistry[component.type];
         if (componentEntry) {
@@ -219,6 +467,7 @@ export function WorkspaceView() {
 
     // Use full canvas width when over canvas or when reordering, otherwise auto width
     const shouldUseFullWidth = dragState.isOverCanvas || dragState.isReordering;
+    const overlayWidth = viewportWidth ?? canvasWidth;
 
     return (
       <div
@@ -232,7 +481,7 @@ export function WorkspaceView() {
           backdropFilter: 'blur(4px)',
           boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
           padding: '1rem',
-          width: shouldUseFullWidth && canvasWidth ? `${canvasWidth}px` : 'auto',
+          width: shouldUseFullWidth && overlayWidth ? `${overlayWidth}px` : 'auto',
           transition: 'width 0.2s ease-in-out, border-color 0.2s ease-in-out',
         }}
       >
@@ -272,7 +521,9 @@ export function WorkspaceView() {
   return (
     <DndContext
       sensors={sensors}
-      collisionDetection={pointerWithin}
+      collisionDetection={collisionDetection}
+      measuring={canvasFrameMeasuring}
+      accessibility={{ announcements, screenReaderInstructions }}
       modifiers={[conditionalAxisRestriction]}
       onDragStart={handleDragStart}
       onDragMove={handleDragMove}
@@ -290,14 +541,34 @@ export function WorkspaceView() {
           hasUnsavedChanges={hasUnsavedChanges}
           isSaving={isSaving}
           isResetting={isResetting}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          autosaveEnabled={isAutosaveEnabled}
+          autosaveStatus={autosaveStatus}
           onPageTypeChange={handlePageTypeChange}
           onReset={handleReset}
           onSave={handleSave}
+          onUndo={undo}
+          onRedo={redo}
+          onAutosaveToggle={handleAutosaveToggle}
+          viewportWidth={viewportWidth}
+          onViewportWidthChange={setViewportWidth}
+          previewColorScheme={canvasColorScheme}
+          onPreviewColorSchemeChange={setPreviewColorScheme}
           onDemo={handleDemo}
           onThemeToggle={handleThemeToggle}
           isThemeSidebarOpen={isThemeSidebarOpen}
+          errorCount={errorCount}
+          warningCount={warningCount}
+          onProblemsToggle={handleProblemsToggle}
+          isProblemsPanelOpen={isProblemsPanelOpen}
         />
 
+        {/* Announces keyboard move, insert, duplicate and paste commands */}
+        <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+          {commandAnnouncement}
+        </div>
+
         {/* Main workspace body */}
         <div className="flex flex-1 overflow-hidden">
           {/* Left Sidebar - Component Library */}
@@ -307,25 +578,53 @@ export function WorkspaceView() {
             componentRegistry={componentRegistry}
           />
 
-          {/* Center Canvas */}
-          <main
-            className="flex-1 overflow-auto bg-gray-100 p-8"
-            role="main"
-            aria-label="Page canvas"
-          >
-            <div ref={canvasRef} className="w-full">
-              <Canvas
+          {/* Center Canvas, with the problems panel docked below it */}
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <main
+              className="flex-1 overflow-auto bg-gray-100 p-8"
+              role="main"
+              aria-label="Page canvas"
+            >
+              <div ref={canvasRef} className={viewportWidth === null ? 'w-full' : 'h-full w-full'}>
+                {viewportWidth === null ? (
+                  canvas
+                ) : (
+                  <CanvasFrame
+                    width={viewportWidth}
+                    isPointerPassthrough={dragState.isDragging && !dragState.isReordering}
+                    onKeyDown={handleShortcutKeyDown}
+                  >
+                    {canvas}
+                  </CanvasFrame>
+                )}
+              </div>
+            </main>
+
+            {isProblemsPanelOpen && (
+              <LayoutProblemsPanel
+                problems={layoutProblems}
                 layout={currentLayout}
                 componentRegistry={componentRegistry}
-                onComponentDelete={deleteComponent}
-                onRestoreDefault={resetLayout}
-                dragState={dragState}
+                onSelectComponent={handleComponentSettings}
+                onClose={handleProblemsToggle}
               />
-            </div>
-          </main>
+            )}
+          </div>
 
           {/* Right Sidebar - Theme Settings */}
           {isThemeSidebarOpen && <ThemeSettingsSidebar onClose={handleThemeToggle} />}
+
+          {/* Right Sidebar - Component Settings */}
+          {selectedComponent && selectedComponentEntry && (
+            <ComponentSettingsSidebar
+              key={selectedComponent.id}
+              componentDefinition={selectedComponent}
+              componentEntry={selectedComponentEntry}
+              onPropsChange={updateComponentProps}
+              onClose={handleComponentSettingsClose}
+              themeColors={getThemeColors(themeSettings)}
+            />
+          )}
         </div>
       </div>
 
@@ -347,6 +646,23 @@ export function WorkspaceView() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Draft recovery dialog */}
+      <AlertDialog open={pendingDraft !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Unsaved Draft</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDraft &&
+                `Unsaved changes to this page from ${new Date(pendingDraft.savedAt).toLocaleString()} were found. Do you want to restore them?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={discardDraft}>Discard Draft</AlertDialogCancel>
+            <AlertDialogAction onClick={restoreDraft}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Reset confirmation dialog */}
       <AlertDialog open={resetDialogOpen} onOpenChange={setResetDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,215 @@
+import {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useMemo,
+  useCallback,
+  type ReactNode,
+} from 'react';
+import type { ThemeSettings, ThemeSettingsContextValue, ThemeState } from '../types/workspace';
+import { fetchTheme, updateTheme, resetThemeToDefault } from '../lib/api/theme';
+import { DEFAULT_THEME_SETTINGS } from '../lib/theme';
+
+// Action types
+type ThemeAction =
+  | { type: 'SET_LOADING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null }
+  | { type: 'SET_THEME'; payload: ThemeSettings }
+  | { type: 'UPDATE_SETTINGS'; payload: Partial<ThemeSettings> }
+  | { type: 'DISCARD_CHANGES' }
+  | { type: 'SET_SAVING'; payload: boolean }
+  | { type: 'SET_RESETTING'; payload: boolean }
+  | { type: 'SAVE_SUCCESS'; payload: ThemeSettings; savedSettings: ThemeSettings }
+  | { type: 'RESET_SUCCESS'; payload: ThemeSettings }
+  | { type: 'SET_PREVIEW'; payload: ThemeSettings | null };
+
+// Initial state
+const initialState: ThemeState = {
+  settings: DEFAULT_THEME_SETTINGS,
+  originalSettings: DEFAULT_THEME_SETTINGS,
+  hasUnsavedThemeChanges: false,
+  isLoading: true,
+  error: null,
+  isSavingTheme: false,
+  isResettingTheme: false,
+  previewSettings: null,
+};
+
+// Reducer function
+function themeReducer(state: ThemeState, action: ThemeAction): ThemeState {
+  switch (action.type) {
+    case 'SET_LOADING':
+      return { ...state, isLoading: action.payload };
+
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isLoading: false };
+
+    case 'SET_THEME':
+      return {
+        ...state,
+        settings: action.payload,
+        originalSettings: action.payload,
+        hasUnsavedThemeChanges: false,
+        isLoading: false,
+        error: null,
+      };
+
+    case 'UPDATE_SETTINGS': {
+      const settings = { ...state.settings, ...action.payload };
+      const hasChanges = JSON.stringify(settings) !== JSON.stringify(state.originalSettings);
+      return {
+        ...state,
+        settings,
+        hasUnsavedThemeChanges: hasChanges,
+        previewSettings: null,
+      };
+    }
+
+    case 'DISCARD_CHANGES':
+      return {
+        ...state,
+        settings: state.originalSettings,
+        hasUnsavedThemeChanges: false,
+      };
+
+    case 'SET_SAVING':
+      return { ...state, isSavingTheme: action.payload };
+
+    case 'SET_RESETTING':
+      return { ...state, isResettingTheme: action.payload };
+
+    case 'SAVE_SUCCESS': {
+      // Settings edited while the save was in flight stay in the working copy
+      const isUnchanged = state.settings === action.savedSettings;
+      const settings = isUnchanged ? action.payload : state.settings;
+      return {
+        ...state,
+        settings,
+        originalSettings: action.payload,
+        hasUnsavedThemeChanges: JSON.stringify(settings) !== JSON.stringify(action.payload),
+        isSavingTheme: false,
+      };
+    }
+
+    case 'RESET_SUCCESS':
+      return {
+        ...state,
+        settings: action.payload,
+        originalSettings: action.payload,
+        hasUnsavedThemeChanges: false,
+        isResettingTheme: false,
+        previewSettings: null,
+      };
+
+    case 'SET_PREVIEW':
+      return { ...state, previewSettings: action.payload };
+
+    default:
+      return state;
+  }
+}
+
+// Context
+const ThemeSettingsContext = createContext<ThemeSettingsContextValue | null>(null);
+
+/**
+ * Holds the shop's global theme settings for the editor.
+ *
+ * Tracked and saved independently from page layouts: saving a page never
+ * saves the theme and vice versa.
+ */
+export function ThemeSettingsProvider({ children }: { children: ReactNode }) {
+  const [state, dispatch] = useReducer(themeReducer, initialState);
+
+  // Fetch theme on mount
+  useEffect(() => {
+    async function loadTheme() {
+      try {
+        dispatch({ type: 'SET_LOADING', payload: true });
+        const settings = await fetchTheme();
+        dispatch({ type: 'SET_THEME', payload: settings });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to load theme';
+        dispatch({ type: 'SET_ERROR', payload: message });
+        console.error('Error loading theme:', error);
+      }
+    }
+
+    loadTheme();
+  }, []);
+
+  // Update settings in the working copy
+  const updateThemeSettings = useCallback((changes: Partial<ThemeSettings>) => {
+    dispatch({ type: 'UPDATE_SETTINGS', payload: changes });
+  }, []);
+
+  // Revert the working copy to the last saved settings
+  const discardThemeChanges = useCallback(() => {
+    dispatch({ type: 'DISCARD_CHANGES' });
+  }, []);
+
+  // Save theme
+  const saveTheme = useCallback(async () => {
+    try {
+      dispatch({ type: 'SET_SAVING', payload: true });
+      const savedSettings = await updateTheme(state.settings);
+      dispatch({ type: 'SAVE_SUCCESS', payload: savedSettings, savedSettings: state.settings });
+    } catch (error) {
+      dispatch({ type: 'SET_SAVING', payload: false });
+      const message = error instanceof Error ? error.message : 'Failed to save theme';
+      throw new Error(message);
+    }
+  }, [state.settings]);
+
+  // Reset theme to the defaults
+  const resetTheme = useCallback(async () => {
+    try {
+      dispatch({ type: 'SET_RESETTING', payload: true });
+      const defaultSettings = await resetThemeToDefault();
+      dispatch({ type: 'RESET_SUCCESS', payload: defaultSettings });
+    } catch (error) {
+      dispatch({ type: 'SET_RESETTING', payload: false });
+      const message = error instanceof Error ? error.message : 'Failed to reset theme';
+      throw new Error(message);
+    }
+  }, []);
+
+  // Preview settings on the canvas without changing the working copy
+  const setThemePreview = useCallback((settings: ThemeSettings | null) => {
+    dispatch({ type: 'SET_PREVIEW', payload: settings });
+  }, []);
+
+  const value: ThemeSettingsContextValue = useMemo(
+    () => ({
+      settings: state.settings,
+      hasUnsavedThemeChanges: state.hasUnsavedThemeChanges,
+      isLoading: state.isLoading,
+      error: state.error,
+      isSavingTheme: state.isSavingTheme,
+      isResettingTheme: state.isResettingTheme,
+      previewSettings: state.previewSettings,
+      updateThemeSettings,
+      discardThemeChanges,
+      saveTheme,
+      resetTheme,
+      setThemePreview,
+    }),
+    [state, updateThemeSettings, discardThemeChanges, saveTheme, resetTheme, setThemePreview]
+  );
+
+  return (
+    <ThemeSettingsContext.Provider value={value}>
+      {children}
+    </ThemeSettingsContext.Provider>
+  );
+}
+
+// Custom hook to use theme settings context
+export function useThemeSettings(): ThemeSettingsContextValue {
+  const context = useContext(ThemeSettingsContext);
+  if (!context) {
+    throw new Error('useThemeSettings must be used within ThemeSettingsProvider');
+  }
+  return context;
+}
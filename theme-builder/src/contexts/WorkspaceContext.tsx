@@ -5,9 +5,14 @@ import {
   useEffect,
   useMemo,
   useCallback,
+  useRef,
   type ReactNode,
 } from 'react';
 import type {
+  LayoutDraft,
+  LayoutHistory,
+  LayoutSlot,
+  SaveLayoutOptions,
   WorkspaceContextValue,
   WorkspaceState,
 } from '../types/workspace';
@@ -18,6 +23,22 @@ import {
   resetPageToDefault,
 } from '../lib/api/pages';
 import { componentRegistry } from '../lib/componentRegistry';
+import { clearDraft, findRestorableDraft, saveDraft } from '../lib/workspaceStorage';
+import { fitSlots, pruneHiddenProps } from '@shared/utils';
+import { getSchemaVersion, migrateLayout } from '@shared/registry';
+import { applyVariant, withoutVariantProp } from '../utils/componentVariant';
+import {
+  ROOT_SLOT,
+  findComponent,
+  findComponentLocation,
+  getSlotComponents,
+  insertComponent,
+  isSameSlot,
+  mapLayout,
+  moveComponent,
+  removeComponent,
+  updateSlot,
+} from '../utils/layoutTree';
 
 // Action types
 type WorkspaceAction =
@@ -27,13 +48,23 @@ type WorkspaceAction =
   | { type: 'SET_CURRENT_PAGE_TYPE'; payload: PageType }
   | { type: 'SET_CURRENT_LAYOUT'; payload: ComponentDefinition[] }
   | { type: 'SET_ORIGINAL_LAYOUT'; payload: ComponentDefinition[] }
-  | { type: 'ADD_COMPONENT'; payload: { componentType: string; atIndex: number } }
-  | { type: 'REORDER_COMPONENT'; payload: { fromIndex: number; toIndex: number } }
+  | { type: 'ADD_COMPONENT'; payload: { componentType: string; atIndex: number; target: LayoutSlot } }
+  | { type: 'REORDER_COMPONENT'; payload: { fromIndex: number; toIndex: number; target: LayoutSlot } }
+  | { type: 'MOVE_COMPONENT'; payload: { componentId: string; target: LayoutSlot; toIndex: number } }
   | { type: 'DELETE_COMPONENT'; payload: string }
+  | { type: 'DUPLICATE_COMPONENT'; payload: string }
+  | { type: 'COPY_COMPONENT'; payload: string }
+  | { type: 'PASTE_COMPONENT'; payload: { atIndex: number; target: LayoutSlot } }
+  | { type: 'UPDATE_COMPONENT_PROPS'; payload: { componentId: string; props: Record<string, unknown> } }
+  | { type: 'SET_COMPONENT_VARIANT'; payload: { componentId: string; variant: string } }
   | { type: 'SET_SAVING'; payload: boolean }
   | { type: 'SET_RESETTING'; payload: boolean }
-  | { type: 'SAVE_SUCCESS'; payload: PageData }
-  | { type: 'RESET_SUCCESS'; payload: PageData };
+  | { type: 'SAVE_SUCCESS'; payload: PageData; savedLayout: ComponentDefinition[]; keepHistory?: boolean }
+  | { type: 'RESET_SUCCESS'; payload: PageData }
+  | { type: 'SET_PENDING_DRAFT'; payload: LayoutDraft | null }
+  | { type: 'RESTORE_DRAFT' }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
 
 // Initial state
 const initialState: WorkspaceState = {
@@ -46,8 +77,99 @@ const initialState: WorkspaceState = {
   error: null,
   isSaving: false,
   isResetting: false,
+  history: {},
+  pendingDraft: null,
+  clipboard: null,
 };
 
+// Maximum number of undo steps kept per page type
+const HISTORY_LIMIT = 50;
+
+// Actions that edit the current layout and can be undone
+const UNDOABLE_ACTIONS: ReadonlySet<WorkspaceAction['type']> = new Set([
+  'SET_CURRENT_LAYOUT',
+  'ADD_COMPONENT',
+  'REORDER_COMPONENT',
+  'MOVE_COMPONENT',
+  'DELETE_COMPONENT',
+  'DUPLICATE_COMPONENT',
+  'PASTE_COMPONENT',
+  'UPDATE_COMPONENT_PROPS',
+  'SET_COMPONENT_VARIANT',
+  'RESTORE_DRAFT',
+]);
+
+const emptyHistory: LayoutHistory = { past: [], future: [], lastEditKey: null };
+
+/**
+ * Removes props of fields hidden by their visibleWhen conditions,
+ * e.g. a backgroundImageUrl left behind after switching a Heading to text-only
+ */
+function pruneHiddenLayoutProps(layout: ComponentDefinition[]): ComponentDefinition[] {
+  return mapLayout(layout, (component) => {
+    const entry = componentRegistry[component.type];
+    if (!entry) {
+      return component;
+    }
+
+    return {
+      ...component,
+      props: pruneHiddenProps(entry.meta.editableFields, component.props, {
+        variant: component.variant,
+      }),
+    };
+  });
+}
+
+/**
+ * Upgrades a stored layout to the current component schemas, giving
+ * containers the slots their props ask for. Variant props stored by older
+ * editors are dropped in favour of the definition-level variant.
+ */
+function migrateComponents(layout: ComponentDefinition[]): ComponentDefinition[] {
+  return mapLayout(migrateLayout(layout), (component) => fitComponentSlots(withoutVariantProp(component)));
+}
+
+/**
+ * Upgrades a page loaded from the API, see migrateComponents
+ */
+function migratePage(page: PageData): PageData {
+  return { ...page, layout: migrateComponents(page.layout) };
+}
+
+/**
+ * Deep copies a component under a new UUID, so edits to the copy
+ * (including nested repeater items) never touch the original.
+ * Children of containers get new UUIDs as well.
+ */
+function cloneComponent(component: ComponentDefinition): ComponentDefinition {
+  return mapLayout([structuredClone(component)], (copy) => ({ ...copy, id: crypto.randomUUID() }))[0];
+}
+
+/**
+ * Fits the child layouts of a container to the slot count its props ask for,
+ * e.g. after its columnCount changed
+ */
+function fitComponentSlots(component: ComponentDefinition): ComponentDefinition {
+  const getSlotCount = componentRegistry[component.type]?.getSlotCount;
+  if (!getSlotCount) {
+    return component;
+  }
+
+  return { ...component, slots: fitSlots(component.slots, getSlotCount(component.props)) };
+}
+
+/**
+ * Applies an edit to one component, wherever it is in the tree
+ */
+function updateComponent(
+  layout: ComponentDefinition[],
+  componentId: string,
+  update: (component: ComponentDefinition) => ComponentDefinition
+): ComponentDefinition[] {
+  return mapLayout(layout, (component) => (component.id === componentId ? update(component) : component));
+}
+
 // Reducer function
 function workspaceReducer(
   state: WorkspaceState,
@@ -61,7 +183,7 @@ function workspaceReducer(
       return { ...state, error: action.payload, isLoading: false };
 
     case 'SET_PAGES': {
-      const pages = action.payload;
+      const pages = action.payload.map(migratePage);
       const currentPage = pages.find((p) => p.type === state.currentPageType);
       return {
         ...state,
@@ -97,7 +219,7 @@ function workspaceReducer(
       return { ...state, originalLayout: action.payload };
 
     case 'ADD_COMPONENT': {
-      const { componentType, atIndex } = action.payload;
+      const { componentType, atIndex, target } = action.payload;
       const componentEntry = componentRegistry[componentType];
 
       if (!componentEntry) {
@@ -107,17 +229,23 @@ function workspaceReducer(
 
       // Generate UUID for new component
       const id = crypto.randomUUID();
-      const defaultVariant = componentEntry.meta.variants[0]?.id || 'default';
-
-      const newComponent: ComponentDefinition = {
-        id,
-        type: componentType,
-        variant: defaultVariant,
-        props: { ...componentEntry.defaultProps },
-      };
+      const defaultVariant =
+        componentEntry.meta.defaultVariant || componentEntry.meta.variants[0]?.id || 'default';
+
+      const newComponent: ComponentDefinition = fitComponentSlots(
+        withoutVariantProp({
+          id,
+          type: componentType,
+          variant: defaultVariant,
+          props: { ...componentEntry.defaultProps },
+          schemaVersion: getSchemaVersion(componentType),
+        })
+      );
 
-      const newLayout = [...state.currentLayout];
-      newLayout.splice(atIndex, 0, newComponent);
+      const newLayout = insertComponent(state.currentLayout, target, atIndex, newComponent);
+      if (newLayout === state.currentLayout) {
+        return state;
+      }
 
       return {
         ...state,
@@ -127,15 +255,38 @@ function workspaceReducer(
     }
 
     case 'REORDER_COMPONENT': {
-      const { fromIndex, toIndex } = action.payload;
+      const { fromIndex, toIndex, target } = action.payload;
 
       if (fromIndex === toIndex) {
         return state;
       }
 
-      const newLayout = [...state.currentLayout];
-      const [movedComponent] = newLayout.splice(fromIndex, 1);
-      newLayout.splice(toIndex, 0, movedComponent);
+      const newLayout = updateSlot(state.currentLayout, target, (components) => {
+        const reordered = [...components];
+        const [movedComponent] = reordered.splice(fromIndex, 1);
+        reordered.splice(toIndex, 0, movedComponent);
+        return reordered;
+      });
+
+      return {
+        ...state,
+        currentLayout: newLayout,
+        hasUnsavedChanges: true,
+      };
+    }
+
+    case 'MOVE_COMPONENT': {
+      const { componentId, target, toIndex } = action.payload;
+      const location = findComponentLocation(state.currentLayout, componentId);
+
+      if (!location || (isSameSlot(location, target) && location.index === toIndex)) {
+        return state;
+      }
+
+      const newLayout = moveComponent(state.currentLayout, componentId, target, toIndex);
+      if (newLayout === state.currentLayout) {
+        return state;
+      }
 
       return {
         ...state,
@@ -145,8 +296,7 @@ function workspaceReducer(
     }
 
     case 'DELETE_COMPONENT': {
-      const componentId = action.payload;
-      const newLayout = state.currentLayout.filter((c) => c.id !== componentId);
+      const newLayout = removeComponent(state.currentLayout, action.payload);
 
       return {
         ...state,
@@ -155,6 +305,110 @@ function workspaceReducer(
       };
     }
 
+    case 'DUPLICATE_COMPONENT': {
+      const location = findComponentLocation(state.currentLayout, action.payload);
+      if (!location) {
+        return state;
+      }
+
+      const original = getSlotComponents(state.currentLayout, location)[location.index];
+      const newLayout = insertComponent(state.currentLayout, location, location.index + 1, cloneComponent(original));
+
+      return {
+        ...state,
+        currentLayout: newLayout,
+        hasUnsavedChanges: true,
+      };
+    }
+
+    case 'COPY_COMPONENT': {
+      const component = findComponent(state.currentLayout, action.payload);
+      if (!component) {
+        return state;
+      }
+
+      // Snapshot the component so later edits to it don't change what gets pasted
+      return { ...state, clipboard: structuredClone(component) };
+    }
+
+    case 'PASTE_COMPONENT': {
+      if (!state.clipboard) {
+        return state;
+      }
+
+      const { atIndex, target } = action.payload;
+      const newLayout = insertComponent(state.currentLayout, target, atIndex, cloneComponent(state.clipboard));
+      if (newLayout === state.currentLayout) {
+        return state;
+      }
+
+      return {
+        ...state,
+        currentLayout: newLayout,
+        hasUnsavedChanges: true,
+      };
+    }
+
+    case 'UPDATE_COMPONENT_PROPS': {
+      const { componentId, props } = action.payload;
+
+      // An edited variant field switches the definition-level variant instead of
+      // being stored in props, since renderers use ComponentDefinition.variant
+      const { variant, ...patch } = props;
+
+      const newLayout = updateComponent(state.currentLayout, componentId, (component) => {
+        const updated = fitComponentSlots({ ...component, props: { ...component.props, ...patch } });
+
+        return typeof variant === 'string' && variant !== component.variant
+          ? applyVariant(updated, variant, componentRegistry[component.type])
+          : updated;
+      });
+
+      const hasChanges = JSON.stringify(newLayout) !== JSON.stringify(state.originalLayout);
+
+      return {
+        ...state,
+        currentLayout: newLayout,
+        hasUnsavedChanges: hasChanges,
+      };
+    }
+
+    case 'SET_COMPONENT_VARIANT': {
+      const { componentId, variant } = action.payload;
+
+      const newLayout = updateComponent(state.currentLayout, componentId, (component) =>
+        applyVariant(component, variant, componentRegistry[component.type])
+      );
+
+      const hasChanges = JSON.stringify(newLayout) !== JSON.stringify(state.originalLayout);
+
+      return {
+        ...state,
+        currentLayout: newLayout,
+        hasUnsavedChanges: hasChanges,
+      };
+    }
+
+    case 'SET_PENDING_DRAFT':
+      return { ...state, pendingDraft: action.payload };
+
+    case 'RESTORE_DRAFT': {
+      const draft = state.pendingDraft;
+      if (!draft || draft.pageType !== state.currentPageType) {
+        return { ...state, pendingDraft: null };
+      }
+
+      // Drafts may have been stored before a component schema changed
+      const layout = migrateComponents(draft.layout);
+      const hasChanges = JSON.stringify(layout) !== JSON.stringify(state.originalLayout);
+      return {
+        ...state,
+        currentLayout: layout,
+        hasUnsavedChanges: hasChanges,
+        pendingDraft: null,
+      };
+    }
+
     case 'SET_SAVING':
       return { ...state, isSaving: action.payload };
 
@@ -162,23 +416,36 @@ function workspaceReducer(
       return { ...state, isResetting: action.payload };
 
     case 'SAVE_SUCCESS': {
-      const savedPage = action.payload;
+      // Migrated like loaded pages, so container slots stay fitted
+      const savedPage = migratePage(action.payload);
       const updatedPages = state.pages.map((p) =>
         p.type === savedPage.type ? savedPage : p
       );
 
+      // The user may have switched pages while the save was in flight
+      if (savedPage.type !== state.currentPageType) {
+        return { ...state, pages: updatedPages, isSaving: false };
+      }
+
+      // Autosaves leave the working copy alone, hidden props included, so what
+      // they saved is the layout as it was sent. Explicit saves show the stored
+      // layout, unless it was edited while the save was in flight.
+      const originalLayout = action.keepHistory ? action.savedLayout : savedPage.layout;
+      const isUnchanged = state.currentLayout === action.savedLayout;
+      const currentLayout = isUnchanged && !action.keepHistory ? savedPage.layout : state.currentLayout;
+
       return {
         ...state,
         pages: updatedPages,
-        originalLayout: savedPage.layout,
-        currentLayout: savedPage.layout,
-        hasUnsavedChanges: false,
+        originalLayout,
+        currentLayout,
+        hasUnsavedChanges: JSON.stringify(currentLayout) !== JSON.stringify(originalLayout),
         isSaving: false,
       };
     }
 
     case 'RESET_SUCCESS': {
-      const resetPage = action.payload;
+      const resetPage = migratePage(action.payload);
       const updatedPages = state.pages.map((p) =>
         p.type === resetPage.type ? resetPage : p
       );
@@ -198,12 +465,127 @@ function workspaceReducer(
   }
 }
 
+/**
+ * Identifies edits that should collapse into a single undo step,
+ * so typing into a text field doesn't record one step per keystroke
+ */
+function getEditKey(action: WorkspaceAction): string | null {
+  if (action.type !== 'UPDATE_COMPONENT_PROPS') {
+    return null;
+  }
+
+  const { componentId, props } = action.payload;
+  return `${componentId}:${Object.keys(props).sort().join(',')}`;
+}
+
+/**
+ * Moves the current layout one step through the history of the current page
+ */
+function travelHistory(state: WorkspaceState, direction: 'undo' | 'redo'): WorkspaceState {
+  const history = state.history[state.currentPageType];
+  const source = direction === 'undo' ? history?.past : history?.future;
+
+  if (!history || !source || source.length === 0) {
+    return state;
+  }
+
+  const layout = source[source.length - 1];
+  const remaining = source.slice(0, -1);
+  const target = direction === 'undo' ? history.future : history.past;
+
+  const nextHistory: LayoutHistory =
+    direction === 'undo'
+      ? { past: remaining, future: [...target, state.currentLayout], lastEditKey: null }
+      : { past: [...target, state.currentLayout], future: remaining, lastEditKey: null };
+
+  return {
+    ...state,
+    currentLayout: layout,
+    hasUnsavedChanges: JSON.stringify(layout) !== JSON.stringify(state.originalLayout),
+    history: { ...state.history, [state.currentPageType]: nextHistory },
+  };
+}
+
+/**
+ * Wraps workspaceReducer with undo/redo stacks kept per page type.
+ *
+ * Layout edits push the previous layout onto the current page's stack.
+ * Saving (except autosave) or resetting a page starts its history over, and so
+ * does discarding unsaved changes by switching pages, since the stack no longer
+ * matches the layout.
+ */
+function historyReducer(
+  state: WorkspaceState,
+  action: WorkspaceAction
+): WorkspaceState {
+  if (action.type === 'UNDO') {
+    return travelHistory(state, 'undo');
+  }
+
+  if (action.type === 'REDO') {
+    return travelHistory(state, 'redo');
+  }
+
+  const nextState = workspaceReducer(state, action);
+
+  switch (action.type) {
+    case 'SET_PAGES':
+      return { ...nextState, history: {} };
+
+    case 'SET_CURRENT_PAGE_TYPE': {
+      if (!state.hasUnsavedChanges) {
+        return nextState;
+      }
+      const history = { ...nextState.history };
+      delete history[state.currentPageType];
+      return { ...nextState, history };
+    }
+
+    case 'SAVE_SUCCESS': {
+      // Explicit saves start a fresh history once the stored layout replaces the working copy
+      if (nextState.currentLayout === state.currentLayout) {
+        return nextState;
+      }
+      const history = { ...nextState.history };
+      delete history[state.currentPageType];
+      return { ...nextState, history };
+    }
+
+    case 'RESET_SUCCESS': {
+      const history = { ...nextState.history };
+      delete history[action.payload.type];
+      return { ...nextState, history };
+    }
+  }
+
+  if (!UNDOABLE_ACTIONS.has(action.type) || nextState.currentLayout === state.currentLayout) {
+    return nextState;
+  }
+
+  const history = state.history[state.currentPageType] ?? emptyHistory;
+  const editKey = getEditKey(action);
+
+  // Consecutive edits of the same props only keep the layout from before the first one
+  const past =
+    editKey !== null && editKey === history.lastEditKey
+      ? history.past
+      : [...history.past, state.currentLayout].slice(-HISTORY_LIMIT);
+
+  return {
+    ...nextState,
+    history: {
+      ...nextState.history,
+      [state.currentPageType]: { past, future: [], lastEditKey: editKey },
+    },
+  };
+}
+
 // Context
 const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
 
 // Provider component
 export function WorkspaceProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(workspaceReducer, initialState);
+  const [state, dispatch] = useReducer(historyReducer, initialState);
 
   // Fetch pages on mount (only if authenticated)
   useEffect(() => {
@@ -234,19 +616,53 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     loadPages();
   }, []);
 
+  // Offer the local draft of the current page when it is newer than the saved layout
+  useEffect(() => {
+    if (state.isLoading) {
+      return;
+    }
+
+    const page = state.pages.find((p) => p.type === state.currentPageType);
+    dispatch({ type: 'SET_PENDING_DRAFT', payload: page ? findRestorableDraft(page) : null });
+  }, [state.pages, state.currentPageType, state.isLoading]);
+
+  // Persist unsaved layouts so they survive a crash or a closed tab
+  const draftStatusRef = useRef<{ pageType: PageType; hasUnsavedChanges: boolean } | null>(null);
+  useEffect(() => {
+    const previous = draftStatusRef.current;
+    draftStatusRef.current = { pageType: state.currentPageType, hasUnsavedChanges: state.hasUnsavedChanges };
+
+    if (state.hasUnsavedChanges) {
+      saveDraft(state.currentPageType, state.currentLayout);
+    } else if (previous?.pageType === state.currentPageType && previous.hasUnsavedChanges) {
+      // Saved, or undone back to the saved layout. Drafts of a page just
+      // loaded or switched to stay until the user restores or discards them.
+      clearDraft(state.currentPageType);
+    }
+  }, [state.currentPageType, state.currentLayout, state.hasUnsavedChanges]);
+
   // Set current page type
   const setCurrentPageType = useCallback((type: PageType) => {
+    // Switching pages discards unsaved changes, so their draft goes too
+    if (state.hasUnsavedChanges) {
+      clearDraft(state.currentPageType);
+    }
     dispatch({ type: 'SET_CURRENT_PAGE_TYPE', payload: type });
+  }, [state.hasUnsavedChanges, state.currentPageType]);
+
+  // Add component to the page, or to a slot of a container
+  const addComponent = useCallback((componentType: string, atIndex: number, target: LayoutSlot = ROOT_SLOT) => {
+    dispatch({ type: 'ADD_COMPONENT', payload: { componentType, atIndex, target } });
   }, []);
 
-  // Add component
-  const addComponent = useCallback((componentType: string, atIndex: number) => {
-    dispatch({ type: 'ADD_COMPONENT', payload: { componentType, atIndex } });
+  // Reorder component within its slot
+  const reorderComponent = useCallback((fromIndex: number, toIndex: number, target: LayoutSlot = ROOT_SLOT) => {
+    dispatch({ type: 'REORDER_COMPONENT', payload: { fromIndex, toIndex, target } });
   }, []);
 
-  // Reorder component
-  const reorderComponent = useCallback((fromIndex: number, toIndex: number) => {
-    dispatch({ type: 'REORDER_COMPONENT', payload: { fromIndex, toIndex } });
+  // Move component to a position in any slot, e.g. into a column
+  const moveComponentTo = useCallback((componentId: string, target: LayoutSlot, toIndex: number) => {
+    dispatch({ type: 'MOVE_COMPONENT', payload: { componentId, target, toIndex } });
   }, []);
 
   // Delete component
@@ -254,15 +670,46 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'DELETE_COMPONENT', payload: componentId });
   }, []);
 
+  // Insert a copy of a component right below it
+  const duplicateComponent = useCallback((componentId: string) => {
+    dispatch({ type: 'DUPLICATE_COMPONENT', payload: componentId });
+  }, []);
+
+  // Copy a component to the clipboard, which survives switching page type
+  const copyComponent = useCallback((componentId: string) => {
+    dispatch({ type: 'COPY_COMPONENT', payload: componentId });
+  }, []);
+
+  // Paste a copy of the clipboard component into the current layout
+  const pasteComponent = useCallback((atIndex: number, target: LayoutSlot = ROOT_SLOT) => {
+    dispatch({ type: 'PASTE_COMPONENT', payload: { atIndex, target } });
+  }, []);
+
+  // Update component props
+  const updateComponentProps = useCallback(
+    (componentId: string, props: Record<string, unknown>) => {
+      dispatch({ type: 'UPDATE_COMPONENT_PROPS', payload: { componentId, props } });
+    },
+    []
+  );
+
+  // Switch component variant, filling in props the new variant needs
+  const setComponentVariant = useCallback((componentId: string, variant: string) => {
+    dispatch({ type: 'SET_COMPONENT_VARIANT', payload: { componentId, variant } });
+  }, []);
+
   // Save layout
-  const saveLayout = useCallback(async () => {
+  const saveLayout = useCallback(async (options: SaveLayoutOptions = {}) => {
+    const { pruneHiddenFields = true, keepHistory = false } = options;
+
     try {
       dispatch({ type: 'SET_SAVING', payload: true });
-      const updatedPage = await updatePageLayout(
-        state.currentPageType,
-        state.currentLayout
-      );
-      dispatch({ type: 'SAVE_SUCCESS', payload: updatedPage });
+      const layout = pruneHiddenFields
+        ? pruneHiddenLayoutProps(state.currentLayout)
+        : state.currentLayout;
+      const updatedPage = await updatePageLayout(state.currentPageType, layout);
+      // The draft goes once the saved layout is no longer edited, see the draft effect
+      dispatch({ type: 'SAVE_SUCCESS', payload: updatedPage, savedLayout: state.currentLayout, keepHistory });
     } catch (error) {
       dispatch({ type: 'SET_SAVING', payload: false });
       const message = error instanceof Error ? error.message : 'Failed to save layout';
@@ -275,6 +722,7 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     try {
       dispatch({ type: 'SET_RESETTING', payload: true });
       const resetPage = await resetPageToDefault(state.currentPageType);
+      clearDraft(state.currentPageType);
       dispatch({ type: 'RESET_SUCCESS', payload: resetPage });
     } catch (error) {
       dispatch({ type: 'SET_RESETTING', payload: false });
@@ -296,6 +744,29 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Undo last layout edit on the current page
+  const undo = useCallback(() => {
+    dispatch({ type: 'UNDO' });
+  }, []);
+
+  // Redo last undone layout edit on the current page
+  const redo = useCallback(() => {
+    dispatch({ type: 'REDO' });
+  }, []);
+
+  // Apply the pending local draft to the current page
+  const restoreDraft = useCallback(() => {
+    dispatch({ type: 'RESTORE_DRAFT' });
+  }, []);
+
+  // Drop the pending local draft and keep the saved layout
+  const discardDraft = useCallback(() => {
+    clearDraft(state.currentPageType);
+    dispatch({ type: 'SET_PENDING_DRAFT', payload: null });
+  }, [state.currentPageType]);
+
+  const currentHistory = state.history[state.currentPageType];
+
   const value: WorkspaceContextValue = useMemo(
     () => ({
       pages: state.pages,
@@ -306,23 +777,48 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       error: state.error,
       isSaving: state.isSaving,
       isResetting: state.isResetting,
+      canUndo: (currentHistory?.past.length ?? 0) > 0,
+      canRedo: (currentHistory?.future.length ?? 0) > 0,
+      pendingDraft: state.pendingDraft,
+      clipboard: state.clipboard,
       setCurrentPageType,
       addComponent,
       reorderComponent,
+      moveComponent: moveComponentTo,
       deleteComponent,
+      duplicateComponent,
+      copyComponent,
+      pasteComponent,
+      updateComponentProps,
+      setComponentVariant,
       saveLayout,
       resetLayout,
       refreshPages,
+      undo,
+      redo,
+      restoreDraft,
+      discardDraft,
     }),
     [
       state,
+      currentHistory,
       setCurrentPageType,
       addComponent,
       reorderComponent,
+      moveComponentTo,
       deleteComponent,
+      duplicateComponent,
+      copyComponent,
+      pasteComponent,
+      updateComponentProps,
+      setComponentVariant,
       saveLayout,
       resetLayout,
       refreshPages,
+      undo,
+      redo,
+      restoreDraft,
+      discardDraft,
     ]
   );
 
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+// Quiet period after the last edit before the layout is saved
+export const AUTOSAVE_DELAY_MS = 2000;
+
+export interface UseAutosaveOptions {
+  enabled: boolean;
+  hasUnsavedChanges: boolean;
+  layout: unknown; // Changes to this value restart the debounce timer
+  isBusy: boolean; // A save or reset is already in flight
+  save: () => Promise<void>;
+  delay?: number;
+}
+
+/**
+ * Saves the layout once edits have settled for `delay` milliseconds.
+ * Failed saves are retried on the next edit.
+ */
+export function useAutosave({
+  enabled,
+  hasUnsavedChanges,
+  layout,
+  isBusy,
+  save,
+  delay = AUTOSAVE_DELAY_MS,
+}: UseAutosaveOptions): AutosaveStatus {
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+
+  // Keep the latest save callback without restarting the timer when it changes
+  const saveRef = useRef(save);
+  useEffect(() => {
+    saveRef.current = save;
+  }, [save]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    if (!hasUnsavedChanges) {
+      // Edits were undone or saved elsewhere before the timer fired
+      setStatus((prev) => (prev === 'pending' ? 'idle' : prev));
+      return;
+    }
+
+    if (isBusy) {
+      return;
+    }
+
+    setStatus('pending');
+    const timer = setTimeout(async () => {
+      setStatus('saving');
+      try {
+        await saveRef.current();
+        setStatus('saved');
+      } catch (error) {
+        console.error('Autosave error:', error);
+        setStatus('error');
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [enabled, hasUnsavedChanges, layout, isBusy, delay]);
+
+  return status;
+}
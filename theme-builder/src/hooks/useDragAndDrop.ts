@@ -1,7 +1,10 @@
 import { useState } from 'react';
 import type { DragEndEvent, DragStartEvent, DragMoveEvent } from '@dnd-kit/core';
 import { toast } from 'sonner';
-import { calculateInsertionPoint } from '../utils/insertionCalculator';
+import { calculateSlotInsertionPoint, getDropSlot, toReorderIndex } from '../utils/insertionCalculator';
+import { findComponentLocation, isSameSlot } from '../utils/layoutTree';
+import type { ComponentDefinition } from '../types/api';
+import type { LayoutSlot } from '../types/workspace';
 
 export interface DragState {
   isDragging: boolean;
@@ -10,23 +13,37 @@ export interface DragState {
   isReordering: boolean;
   isOverCanvas: boolean;
   insertionIndex: number | null;
+  insertionTarget: LayoutSlot | null; // Slot the insertion index belongs to
   hoveredComponentId: string | null;
 }
 
+const idleDragState: DragState = {
+  isDragging: false,
+  draggedComponentType: null,
+  draggedId: null,
+  isReordering: false,
+  isOverCanvas: false,
+  insertionIndex: null,
+  insertionTarget: null,
+  hoveredComponentId: null,
+};
+
+// Targets are recreated on every move, so they are compared by value
+function isSameTarget(a: LayoutSlot | null, b: LayoutSlot | null): boolean {
+  return a === b || (a !== null && b !== null && isSameSlot(a, b));
+}
+
+/**
+ * Drag and drop of library components onto the canvas and of canvas
+ * components within it. Drops land in the slot under the cursor: the page,
+ * or a child layout of a container such as a column.
+ */
 export function useDragAndDrop(
-  onComponentAdd: (componentType: string, atIndex: number) => void,
-  onComponentReorder: (fromIndex: number, toIndex: number) => void,
-  layout: Array<{ id: string }>
+  onComponentAdd: (componentType: string, atIndex: number, target: LayoutSlot) => void,
+  onComponentMove: (componentId: string, target: LayoutSlot, toIndex: number) => void,
+  layout: ComponentDefinition[]
 ) {
-  const [dragState, setDragState] = useState<DragState>({
-    isDragging: false,
-    draggedComponentType: null,
-    draggedId: null,
-    isReordering: false,
-    isOverCanvas: false,
-    insertionIndex: null,
-    hoveredComponentId: null,
-  });
+  const [dragState, setDragState] = useState<DragState>(idleDragState);
 
   const handleDragStart = (event: DragStartEvent) => {
     const componentType = event.active.data.current?.componentType as string;
@@ -41,6 +58,7 @@ export function useDragAndDrop(
       isReordering,
       isOverCanvas: false,
       insertionIndex: null,
+      insertionTarget: null,
       hoveredComponentId: null,
     });
   };
@@ -48,34 +66,38 @@ export function useDragAndDrop(
   const handleDragMove = (event: DragMoveEvent) => {
     const { over, active } = event;
 
-    // Determine if currently over canvas component
-    const overType = over?.data.current?.type as string | undefined;
-    const isOverCanvasComponent = overType === 'canvas-component';
-    const isOverCanvas = isOverCanvasComponent;
+    // Determine the slot under the cursor: the page or a container slot
+    const dropSlot = getDropSlot(over?.data.current);
+    let isOverCanvas = dropSlot !== null;
 
     // Calculate insertion point based on cursor position
     let insertionIndex: number | null = null;
+    let insertionTarget: LayoutSlot | null = null;
     let hoveredComponentId: string | null = null;
 
-    if (isOverCanvas && event.delta) {
+    if (dropSlot && event.delta) {
       // Get cursor Y position from the active draggable element
       const activeRect = active.rect.current.translated;
       if (activeRect) {
         const cursorY = activeRect.top + activeRect.height / 2;
-
-        // Get component IDs for calculation
-        const componentIds = layout.map((comp) => comp.id);
         const draggedComponentId = active.id as string;
 
-        // Calculate insertion point
-        const result = calculateInsertionPoint({
+        // Calculate insertion point among the components of the slot
+        const result = calculateSlotInsertionPoint({
           cursorY,
-          componentIds,
+          layout,
+          target: dropSlot,
           draggedComponentId: dragState.isReordering ? draggedComponentId : null,
         });
 
-        insertionIndex = result.insertionIndex;
-        hoveredComponentId = result.hoveredComponentId;
+        if (result) {
+          insertionIndex = result.insertionIndex;
+          insertionTarget = result.target;
+          hoveredComponentId = result.hoveredComponentId;
+        } else {
+          // A container can't be dropped into its own slots
+          isOverCanvas = false;
+        }
       }
     }
 
@@ -84,12 +106,14 @@ export function useDragAndDrop(
       if (
         prev.isOverCanvas !== isOverCanvas ||
         prev.insertionIndex !== insertionIndex ||
+        !isSameTarget(prev.insertionTarget, insertionTarget) ||
         prev.hoveredComponentId !== hoveredComponentId
       ) {
         return {
           ...prev,
           isOverCanvas,
           insertionIndex,
+          insertionTarget,
           hoveredComponentId,
         };
       }
@@ -110,75 +134,55 @@ export function useDragAndDrop(
         toast.info('Drop component on the canvas to add it');
       }
 
-      setDragState({
-        isDragging: false,
-        draggedComponentType: null,
-        draggedId: null,
-        isReordering: false,
-        isOverCanvas: false,
-        insertionIndex: null,
-        hoveredComponentId: null,
-      });
+      setDragState(idleDragState);
       return;
     }
 
     const activeType = active.data.current?.type as string;
 
-    // Use the calculated insertion index from drag state
-    const { insertionIndex } = dragState;
+    // Use the calculated insertion point from drag state
+    const { insertionIndex, insertionTarget, isOverCanvas } = dragState;
 
-    // Handle reordering existing components on canvas
+    // Handle moving existing components within the page or between slots
     if (activeType === 'canvas-component') {
-      const oldIndex = layout.findIndex((item) => item.id === active.id);
-
-      // Use insertion index if available, otherwise fall back to over.id lookup
-      let newIndex: number;
-      if (insertionIndex !== null) {
-        // Adjust insertion index if moving down (account for removal of dragged item)
-        newIndex = insertionIndex > oldIndex ? insertionIndex - 1 : insertionIndex;
-      } else {
-        // Fallback to old behavior
-        newIndex = layout.findIndex((item) => item.id === over.id);
-      }
-
-      if (oldIndex !== -1 && newIndex !== -1 && oldIndex !== newIndex) {
-        onComponentReorder(oldIndex, newIndex);
+      const location = findComponentLocation(layout, active.id as string);
+
+      if (location && isOverCanvas && insertionIndex !== null && insertionTarget) {
+        // Adjust insertion index if moving down within the same slot (account for removal of dragged item)
+        const toIndex = isSameSlot(location, insertionTarget)
+          ? toReorderIndex(insertionIndex, location.index)
+          : insertionIndex;
+
+        if (!isSameSlot(location, insertionTarget) || toIndex !== location.index) {
+          onComponentMove(active.id as string, insertionTarget, toIndex);
+        }
+      } else if (location && over.data.current?.type === 'canvas-component') {
+        // Fallback: take the place of the component dropped on
+        const overLocation = findComponentLocation(layout, over.id as string);
+        if (overLocation && overLocation.index !== location.index && isSameSlot(location, overLocation)) {
+          onComponentMove(active.id as string, overLocation, overLocation.index);
+        }
       }
     } else {
       // Handle adding new component from library
       const componentType = active.data.current?.componentType as string;
 
-      // Use insertion index if available, otherwise fall back to index from drop data
+      // Use insertion point if available, otherwise fall back to the slot and index from drop data
+      const target = insertionTarget ?? getDropSlot(over.data.current);
       const dropIndex = insertionIndex !== null
         ? insertionIndex
-        : (over.data.current?.index as number);
+        : (over.data.current?.index as number | undefined);
 
-      if (componentType && dropIndex !== undefined) {
-        onComponentAdd(componentType, dropIndex);
+      if (componentType && target && dropIndex !== undefined) {
+        onComponentAdd(componentType, dropIndex, target);
       }
     }
 
-    setDragState({
-      isDragging: false,
-      draggedComponentType: null,
-      draggedId: null,
-      isReordering: false,
-      isOverCanvas: false,
-      insertionIndex: null,
-      hoveredComponentId: null,
-    });
+    setDragState(idleDragState);
   };
 
   const handleDragCancel = () => {
-    setDragState({
-      isDragging: false,
-      draggedComponentType: null,
-      draggedId: null,
-      isReordering: false,
-      isOverCanvas: false,
-      insertionIndex: null,
-      hoveredComponentId: null,
-    });
+    setDragState(idleDragState);
   };
 
   return {
@@ -0,0 +1,133 @@
+import { useMemo, useRef } from 'react';
+import type { Active, Announcements, Over, ScreenReaderInstructions } from '@dnd-kit/core';
+import { calculateSlotInsertionPoint, getDropSlot, toReorderIndex } from '../utils/insertionCalculator';
+import { findComponentLocation, getSlotComponents, isSameSlot } from '../utils/layoutTree';
+import type { ComponentRegistry } from '../types/workspace';
+import type { ComponentDefinition } from '../types/api';
+
+export const screenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    'To pick up a component, press Space or Enter. ' +
+    'Use the up and down arrow keys to choose where it goes on the canvas. ' +
+    'Press Space or Enter again to drop it, or Escape to cancel. ' +
+    'A focused canvas component can also be moved with Alt and the up or down arrow key.',
+};
+
+/**
+ * Builds screen reader announcements for canvas drags.
+ *
+ * Positions are resolved with calculateSlotInsertionPoint from the dragged
+ * item's translated rect, the same way the drop itself and the
+ * InsertionIndicator are. They count within the slot the item is over: the
+ * page, or a child layout of a container.
+ */
+export function useDragAnnouncements(
+  layout: ComponentDefinition[],
+  componentRegistry: ComponentRegistry
+): Announcements {
+  // Pointer moves fire constantly, so only changes in position are announced
+  const lastMessageRef = useRef<string | undefined>(undefined);
+
+  return useMemo(() => {
+    const isReordering = (active: Active) => active.data.current?.type === 'canvas-component';
+
+    const getName = (active: Active): string => {
+      const componentType = isReordering(active)
+        ? (active.data.current?.componentDefinition as ComponentDefinition | undefined)?.type
+        : (active.data.current?.componentType as string | undefined);
+
+      return (componentType && componentRegistry[componentType]?.meta.name) || 'Component';
+    };
+
+    const isOverCanvas = (over: Over | null) => getDropSlot(over?.data.current) !== null;
+
+    /**
+     * Returns the 1-based target position and the number of positions,
+     * or null when the position can't be resolved
+     */
+    const getTargetPosition = (
+      active: Active,
+      over: Over | null
+    ): { position: number; total: number } | null => {
+      const translated = active.rect.current.translated;
+      const target = getDropSlot(over?.data.current);
+      if (!translated || !target) return null;
+
+      const result = calculateSlotInsertionPoint({
+        cursorY: translated.top + translated.height / 2,
+        layout,
+        target,
+        draggedComponentId: isReordering(active) ? String(active.id) : null,
+      });
+      if (!result) return null;
+
+      const total = getSlotComponents(layout, target).length;
+      const location = isReordering(active) ? findComponentLocation(layout, String(active.id)) : null;
+
+      if (location && isSameSlot(location, target)) {
+        return { position: toReorderIndex(result.insertionIndex, location.index) + 1, total };
+      }
+
+      return { position: result.insertionIndex + 1, total: total + 1 };
+    };
+
+    const announceChange = (message: string | undefined) => {
+      if (message === lastMessageRef.current) return undefined;
+      lastMessageRef.current = message;
+      return message;
+    };
+
+    const describeTarget = ({ active, over }: { active: Active; over: Over | null }) => {
+      const name = getName(active);
+      if (!isOverCanvas(over)) {
+        return `${name} is not over the canvas.`;
+      }
+
+      const target = getTargetPosition(active, over);
+      if (!target) return undefined;
+
+      return isReordering(active)
+        ? `${name} will be moved to position ${target.position} of ${target.total}.`
+        : `${name} will be inserted at position ${target.position} of ${target.total}.`;
+    };
+
+    return {
+      onDragStart({ active }) {
+        const name = getName(active);
+        lastMessageRef.current = undefined;
+
+        const location = isReordering(active) ? findComponentLocation(layout, String(active.id)) : null;
+        if (location) {
+          const total = getSlotComponents(layout, location).length;
+          return `Picked up ${name} at position ${location.index + 1} of ${total}.`;
+        }
+        return `Picked up ${name} from the component library.`;
+      },
+      onDragMove(args) {
+        return announceChange(describeTarget(args));
+      },
+      onDragOver(args) {
+        return announceChange(describeTarget(args));
+      },
+      onDragEnd({ active, over }) {
+        const name = getName(active);
+        lastMessageRef.current = undefined;
+
+        if (!isOverCanvas(over)) {
+          return `${name} was dropped outside the canvas.`;
+        }
+
+        const target = getTargetPosition(active, over);
+        if (!target) return `${name} was dropped.`;
+
+        return isReordering(active)
+          ? `${name} was moved to position ${target.position} of ${target.total}.`
+          : `${name} was inserted at position ${target.position} of ${target.total}.`;
+      },
+      onDragCancel({ active }) {
+        lastMessageRef.current = undefined;
+        return `Dragging was cancelled. ${getName(active)} was not moved.`;
+      },
+    };
+  }, [layout, componentRegistry]);
+}
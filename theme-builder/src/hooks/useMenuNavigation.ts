@@ -0,0 +1,40 @@
+import { useEffect, useRef, type KeyboardEvent } from 'react';
+
+const ITEM_SELECTOR = '[role^="menuitem"]';
+
+/**
+ * Keyboard behaviour shared by the canvas toolbar menus.
+ *
+ * Focus moves to the checked item (or the first one) when the menu opens;
+ * arrow keys move between items and Escape closes the menu.
+ */
+export function useMenuNavigation<T extends HTMLElement>(onClose: () => void) {
+  const menuRef = useRef<T>(null);
+
+  useEffect(() => {
+    const menu = menuRef.current;
+    const initialItem =
+      menu?.querySelector<HTMLElement>(`${ITEM_SELECTOR}[aria-checked="true"]`) ??
+      menu?.querySelector<HTMLElement>(ITEM_SELECTOR);
+    initialItem?.focus();
+  }, []);
+
+  const handleKeyDown = (e: KeyboardEvent<T>) => {
+    const items = Array.from(menuRef.current?.querySelectorAll<HTMLElement>(ITEM_SELECTOR) ?? []);
+    const currentIndex = items.findIndex((item) => item === e.target);
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      items[(currentIndex + 1) % items.length]?.focus();
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      items[(currentIndex - 1 + items.length) % items.length]?.focus();
+    }
+  };
+
+  return { menuRef, handleKeyDown };
+}
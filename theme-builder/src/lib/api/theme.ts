@@ -0,0 +1,97 @@
+import { apiRequest } from './client';
+import type { ThemeData } from '../../types/api';
+import type { ThemeSettings } from '../../types/workspace';
+import { ThemeDataSchema } from '../../types/api';
+import { DEFAULT_THEME_SETTINGS } from '../theme';
+
+/**
+ * Converts the stored theme into editor settings.
+ * Values the shop never saved fall back to the default theme.
+ */
+export function toThemeSettings(data: ThemeData): ThemeSettings {
+  return {
+    primaryColor: data.colors?.primary ?? DEFAULT_THEME_SETTINGS.primaryColor,
+    secondaryColor: data.colors?.secondary ?? DEFAULT_THEME_SETTINGS.secondaryColor,
+    accentColor: data.colors?.accent ?? DEFAULT_THEME_SETTINGS.accentColor,
+    headingFont: data.fonts?.heading ?? DEFAULT_THEME_SETTINGS.headingFont,
+    bodyFont: data.fonts?.body ?? DEFAULT_THEME_SETTINGS.bodyFont,
+    baseSpacing: data.spacing?.base ?? DEFAULT_THEME_SETTINGS.baseSpacing,
+    baseFontSize: data.typography?.baseSize ?? DEFAULT_THEME_SETTINGS.baseFontSize,
+    typeScaleRatio: data.typography?.scaleRatio ?? DEFAULT_THEME_SETTINGS.typeScaleRatio,
+    headingLineHeight: data.typography?.headingLineHeight ?? DEFAULT_THEME_SETTINGS.headingLineHeight,
+    bodyLineHeight: data.typography?.bodyLineHeight ?? DEFAULT_THEME_SETTINGS.bodyLineHeight,
+    headingLetterSpacing: data.typography?.headingLetterSpacing ?? DEFAULT_THEME_SETTINGS.headingLetterSpacing,
+    bodyLetterSpacing: data.typography?.bodyLetterSpacing ?? DEFAULT_THEME_SETTINGS.bodyLetterSpacing,
+    colorScheme: data.colorScheme ?? DEFAULT_THEME_SETTINGS.colorScheme,
+    lightScheme: { ...DEFAULT_THEME_SETTINGS.lightScheme, ...data.schemes?.light },
+    darkScheme: { ...DEFAULT_THEME_SETTINGS.darkScheme, ...data.schemes?.dark },
+  };
+}
+
+/**
+ * Converts editor settings into the stored theme format,
+ * which the demo shop reads as well
+ */
+export function toThemeData(settings: ThemeSettings): ThemeData {
+  return {
+    colors: {
+      primary: settings.primaryColor,
+      secondary: settings.secondaryColor,
+      accent: settings.accentColor,
+    },
+    fonts: {
+      heading: settings.headingFont,
+      body: settings.bodyFont,
+    },
+    spacing: {
+      base: settings.baseSpacing,
+    },
+    typography: {
+      baseSize: settings.baseFontSize,
+      scaleRatio: settings.typeScaleRatio,
+      headingLineHeight: settings.headingLineHeight,
+      bodyLineHeight: settings.bodyLineHeight,
+      headingLetterSpacing: settings.headingLetterSpacing,
+      bodyLetterSpacing: settings.bodyLetterSpacing,
+    },
+    colorScheme: settings.colorScheme,
+    schemes: {
+      light: { ...settings.lightScheme },
+      dark: { ...settings.darkScheme },
+    },
+  };
+}
+
+// GET /api/theme
+export async function fetchTheme(): Promise<ThemeSettings> {
+  const data = await apiRequest<ThemeData>('/api/theme', {
+    method: 'GET',
+  });
+
+  // Validate response with Zod
+  const validated = ThemeDataSchema.parse(data);
+  return toThemeSettings(validated);
+}
+
+// PUT /api/theme
+export async function updateTheme(settings: ThemeSettings): Promise<ThemeSettings> {
+  const data = await apiRequest<ThemeData>('/api/theme', {
+    method: 'PUT',
+    body: JSON.stringify(toThemeData(settings)),
+  });
+
+  // Validate response with Zod
+  const validated = ThemeDataSchema.parse(data);
+  return toThemeSettings(validated);
+}
+
+// POST /api/theme/reset
+export async function resetThemeToDefault(): Promise<ThemeSettings> {
+  const data = await apiRequest<ThemeData>('/api/theme/reset', {
+    method: 'POST',
+  });
+
+  // Validate response with Zod
+  const validated = ThemeDataSchema.parse(data);
+  return toThemeSettings(validated);
+}
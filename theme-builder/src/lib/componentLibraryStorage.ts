@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import type { ComponentCategory } from '../types/workspace';
+
+const RECENT_KEY = 'componentLibrary:recent';
+const FAVORITES_KEY = 'componentLibrary:favorites';
+const COLLAPSED_CATEGORIES_KEY = 'componentLibrary:collapsedCategories';
+
+// Number of recently used components shown in the library
+export const RECENT_COMPONENTS_LIMIT = 5;
+
+const StringListSchema = z.array(z.string());
+
+/**
+ * Reads a list of strings, ignoring missing or corrupt entries
+ */
+function loadList(key: string): string[] {
+  const saved = localStorage.getItem(key);
+  if (saved === null) {
+    return [];
+  }
+
+  try {
+    const result = StringListSchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadRecentComponents(): string[] {
+  return loadList(RECENT_KEY);
+}
+
+/**
+ * Moves a component type to the front of the recently used list
+ * and returns the updated list
+ */
+export function addRecentComponent(componentType: string): string[] {
+  const recent = [
+    componentType,
+    ...loadRecentComponents().filter((type) => type !== componentType),
+  ].slice(0, RECENT_COMPONENTS_LIMIT);
+
+  localStorage.setItem(RECENT_KEY, JSON.stringify(recent));
+  return recent;
+}
+
+export function loadFavoriteComponents(): string[] {
+  return loadList(FAVORITES_KEY);
+}
+
+export function saveFavoriteComponents(componentTypes: string[]): void {
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(componentTypes));
+}
+
+export function loadCollapsedCategories(): ComponentCategory[] {
+  return loadList(COLLAPSED_CATEGORIES_KEY) as ComponentCategory[];
+}
+
+export function saveCollapsedCategories(categories: ComponentCategory[]): void {
+  localStorage.setItem(COLLAPSED_CATEGORIES_KEY, JSON.stringify(categories));
+}
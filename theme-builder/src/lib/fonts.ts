@@ -0,0 +1,12 @@
+/**
+ * Font files for the theme fonts, bundled so the editor works offline.
+ * Keep in sync with FONT_FAMILIES in shared/utils/typography.ts.
+ */
+import '@fontsource-variable/inter';
+import '@fontsource-variable/roboto';
+import '@fontsource-variable/open-sans';
+import '@fontsource/lato/400.css';
+import '@fontsource/lato/700.css';
+import '@fontsource-variable/montserrat';
+import '@fontsource-variable/merriweather';
+import '@fontsource-variable/playfair-display';
@@ -0,0 +1,211 @@
+import type { ThemeSettings } from '../types/workspace';
+import type { CSSProperties } from 'react';
+import type { SelectOption } from '@shared/types';
+import { createTheme, type Theme } from '@shared/theme';
+import {
+  DEFAULT_SCHEME_COLORS,
+  DEFAULT_THEME_COLORS,
+  DEFAULT_TYPE_SCALE,
+  FONT_FAMILIES,
+  getFontStack,
+  getPaletteCssVariables,
+  getSchemeCssVariables,
+  getTypographyCssVariables,
+  type ColorScheme,
+  type ColorSchemePreference,
+  type SchemeColorName,
+  type ThemeColors,
+  type TypeScale,
+} from '@shared/utils';
+import type { ContrastPair } from '../utils/contrast';
+
+/**
+ * Theme used for shops that never saved one, and restored by a theme reset
+ */
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  primaryColor: DEFAULT_THEME_COLORS.primary,
+  secondaryColor: DEFAULT_THEME_COLORS.secondary,
+  accentColor: DEFAULT_THEME_COLORS.accent,
+  headingFont: 'Inter',
+  bodyFont: 'Inter',
+  baseSpacing: 8,
+  baseFontSize: DEFAULT_TYPE_SCALE.baseSize,
+  typeScaleRatio: DEFAULT_TYPE_SCALE.scaleRatio,
+  headingLineHeight: DEFAULT_TYPE_SCALE.headingLineHeight,
+  bodyLineHeight: DEFAULT_TYPE_SCALE.bodyLineHeight,
+  headingLetterSpacing: DEFAULT_TYPE_SCALE.headingLetterSpacing,
+  bodyLetterSpacing: DEFAULT_TYPE_SCALE.bodyLetterSpacing,
+  colorScheme: 'light',
+  lightScheme: DEFAULT_SCHEME_COLORS.light,
+  darkScheme: DEFAULT_SCHEME_COLORS.dark,
+};
+
+// Font families offered in the theme sidebar, all bundled with the apps
+export const FONT_OPTIONS: SelectOption[] = FONT_FAMILIES.map((font) => ({
+  value: font.name,
+  label: font.name,
+}));
+
+// Color scheme choices offered in the theme sidebar
+export const COLOR_SCHEME_OPTIONS: SelectOption[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'auto', label: 'Auto (follows device setting)' },
+];
+
+// Labels of the page colors each scheme defines
+export const SCHEME_COLOR_LABELS: Record<SchemeColorName, string> = {
+  background: 'Background',
+  surface: 'Surface',
+  text: 'Text',
+  mutedText: 'Muted Text',
+  border: 'Border',
+};
+
+// Range of the base spacing slider, in pixels
+export const BASE_SPACING_MIN = 4;
+export const BASE_SPACING_MAX = 16;
+export const BASE_SPACING_STEP = 2;
+
+// Range of the body font size slider, in pixels
+export const BASE_FONT_SIZE_MIN = 12;
+export const BASE_FONT_SIZE_MAX = 22;
+
+// Ranges of the line height and letter-spacing sliders
+export const LINE_HEIGHT_MIN = 1;
+export const LINE_HEIGHT_MAX = 2;
+export const LETTER_SPACING_MIN = -0.05;
+export const LETTER_SPACING_MAX = 0.1;
+
+const HEX_COLOR_REGEX = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+/**
+ * Checks whether a theme color is a hex color the API accepts
+ */
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR_REGEX.test(value);
+}
+
+/**
+ * Brand colors of the settings, used to resolve theme references such as `theme.primary`
+ */
+export function getThemeColors(settings: ThemeSettings): ThemeColors {
+  return {
+    primary: settings.primaryColor,
+    secondary: settings.secondaryColor,
+    accent: settings.accentColor,
+  };
+}
+
+/**
+ * Type scale of the settings, in the shape shared with the demo shop
+ */
+export function getThemeTypeScale(settings: ThemeSettings): TypeScale {
+  return {
+    baseSize: settings.baseFontSize,
+    scaleRatio: settings.typeScaleRatio,
+    headingLineHeight: settings.headingLineHeight,
+    bodyLineHeight: settings.bodyLineHeight,
+    headingLetterSpacing: settings.headingLetterSpacing,
+    bodyLetterSpacing: settings.bodyLetterSpacing,
+  };
+}
+
+/**
+ * Theme provided to the shared components rendered on the canvas, for the
+ * given scheme
+ */
+export function getComponentTheme(settings: ThemeSettings, scheme: ColorScheme = 'light'): Theme {
+  return createTheme({
+    colors: getThemeColors(settings),
+    colorScheme: scheme,
+    schemeColors: scheme === 'dark' ? settings.darkScheme : settings.lightScheme,
+    fonts: { heading: settings.headingFont, body: settings.bodyFont },
+    typeScale: getThemeTypeScale(settings),
+    baseSpacing: settings.baseSpacing,
+  });
+}
+
+/**
+ * Scheme shown on the canvas before the user picks one: the theme's own
+ * scheme, or light for themes that follow the device
+ */
+export function getDefaultPreviewScheme(preference: ColorSchemePreference): ColorScheme {
+  return preference === 'dark' ? 'dark' : 'light';
+}
+
+/**
+ * CSS custom properties exposing the theme to shared components.
+ *
+ * Uses the same variable names the demo shop sets on its document root, so a
+ * component looks the same in the canvas and in the shop. Each color also gets
+ * its tonal scale, e.g. `--color-primary-600`, each heading level its size
+ * from the type scale, e.g. `--font-size-h1`, and the page colors come from
+ * the given scheme.
+ */
+export function getThemeCssVariables(
+  settings: ThemeSettings,
+  scheme: ColorScheme = 'light'
+): Record<`--${string}`, string> {
+  return {
+    '--color-primary': settings.primaryColor,
+    '--color-secondary': settings.secondaryColor,
+    '--color-accent': settings.accentColor,
+    ...getPaletteCssVariables('primary', settings.primaryColor),
+    ...getPaletteCssVariables('secondary', settings.secondaryColor),
+    ...getPaletteCssVariables('accent', settings.accentColor),
+    ...getSchemeCssVariables(scheme === 'dark' ? settings.darkScheme : settings.lightScheme),
+    '--font-heading': getFontStack(settings.headingFont),
+    '--font-body': getFontStack(settings.bodyFont),
+    ...getTypographyCssVariables(getThemeTypeScale(settings)),
+    '--spacing-base': `${settings.baseSpacing}px`,
+  };
+}
+
+/**
+ * Inline style applying the theme to a subtree: the variables plus the body
+ * font and the scheme's page colors.
+ *
+ * Applied to the element wrapping rendered shop components only, so the editor
+ * chrome around them keeps its own colors and fonts.
+ */
+export function getThemeStyle(settings: ThemeSettings, scheme: ColorScheme = 'light'): CSSProperties {
+  return {
+    ...getThemeCssVariables(settings, scheme),
+    fontFamily: 'var(--font-body)',
+    color: 'var(--color-text)',
+    backgroundColor: 'var(--color-background)',
+    colorScheme: scheme,
+  } as CSSProperties;
+}
+
+/**
+ * Text/background pairs checked in the theme sidebar.
+ *
+ * Theme colors appear as text and links on the light page background and as
+ * backgrounds behind button text in that color; both uses have the same
+ * contrast ratio.
+ */
+export function getThemeContrastPairs(settings: ThemeSettings): ContrastPair[] {
+  const background = settings.lightScheme.background;
+
+  return [
+    { id: 'primaryColor', label: 'Primary on light background', foreground: settings.primaryColor, background },
+    { id: 'secondaryColor', label: 'Secondary on light background', foreground: settings.secondaryColor, background },
+    { id: 'accentColor', label: 'Accent on light background', foreground: settings.accentColor, background },
+  ];
+}
+
+/**
+ * Text/background pairs of a scheme's page colors, keyed by the text color
+ */
+export function getSchemeContrastPairs(settings: ThemeSettings, scheme: ColorScheme): ContrastPair[] {
+  const colors = scheme === 'dark' ? settings.darkScheme : settings.lightScheme;
+
+  return (['text', 'mutedText'] as const).map((name) => ({
+    id: name,
+    label: `${SCHEME_COLOR_LABELS[name]} on background`,
+    foreground: colors[name],
+    background: colors.background,
+  }));
+}
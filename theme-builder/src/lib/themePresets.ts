@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import type { ThemePreset, ThemeSettings } from '../types/workspace';
+import { getShopIdFromToken, getUserIdFromToken } from './auth';
+import { COLOR_SCHEME_PREFERENCES, DEFAULT_SCHEME_COLORS } from '@shared/utils';
+import { DEFAULT_THEME_SETTINGS, isHexColor } from './theme';
+
+/**
+ * Curated presets shown at the top of the theme gallery
+ */
+export const THEME_PRESETS: ThemePreset[] = [
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    settings: {
+      primaryColor: '#111827',
+      secondaryColor: '#6b7280',
+      accentColor: '#2563eb',
+      headingFont: 'Inter',
+      bodyFont: 'Inter',
+      baseSpacing: 8,
+      baseFontSize: 16,
+      typeScaleRatio: 1.2,
+      headingLineHeight: 1.2,
+      bodyLineHeight: 1.6,
+      headingLetterSpacing: -0.01,
+      bodyLetterSpacing: 0,
+      colorScheme: 'light',
+      lightScheme: DEFAULT_SCHEME_COLORS.light,
+      darkScheme: DEFAULT_SCHEME_COLORS.dark,
+    },
+  },
+  {
+    id: 'bold',
+    name: 'Bold',
+    settings: {
+      primaryColor: '#dc2626',
+      secondaryColor: '#1e3a8a',
+      accentColor: '#facc15',
+      headingFont: 'Montserrat',
+      bodyFont: 'Roboto',
+      baseSpacing: 10,
+      baseFontSize: 16,
+      typeScaleRatio: 1.333,
+      headingLineHeight: 1.1,
+      bodyLineHeight: 1.5,
+      headingLetterSpacing: -0.02,
+      bodyLetterSpacing: 0,
+      colorScheme: 'light',
+      lightScheme: DEFAULT_SCHEME_COLORS.light,
+      darkScheme: DEFAULT_SCHEME_COLORS.dark,
+    },
+  },
+  {
+    id: 'pastel',
+    name: 'Pastel',
+    settings: {
+      primaryColor: '#f472b6',
+      secondaryColor: '#a5b4fc',
+      accentColor: '#6ee7b7',
+      headingFont: 'Lato',
+      bodyFont: 'Open Sans',
+      baseSpacing: 12,
+      baseFontSize: 17,
+      typeScaleRatio: 1.2,
+      headingLineHeight: 1.3,
+      bodyLineHeight: 1.7,
+      headingLetterSpacing: 0,
+      bodyLetterSpacing: 0.01,
+      colorScheme: 'light',
+      lightScheme: DEFAULT_SCHEME_COLORS.light,
+      darkScheme: DEFAULT_SCHEME_COLORS.dark,
+    },
+  },
+  {
+    id: 'dark-boutique',
+    name: 'Dark boutique',
+    settings: {
+      primaryColor: '#1c1917',
+      secondaryColor: '#44403c',
+      accentColor: '#d4af37',
+      headingFont: 'Playfair Display',
+      bodyFont: 'Lato',
+      baseSpacing: 12,
+      baseFontSize: 16,
+      typeScaleRatio: 1.333,
+      headingLineHeight: 1.15,
+      bodyLineHeight: 1.7,
+      headingLetterSpacing: 0.02,
+      bodyLetterSpacing: 0,
+      colorScheme: 'dark',
+      lightScheme: {
+        background: '#faf7f2',
+        surface: '#f2ede4',
+        text: '#1c1917',
+        mutedText: '#57534e',
+        border: '#d6d3d1',
+      },
+      darkScheme: {
+        background: '#0c0a09',
+        surface: '#1c1917',
+        text: '#f5f5f4',
+        mutedText: '#a8a29e',
+        border: '#44403c',
+      },
+    },
+  },
+  {
+    id: 'classic',
+    name: 'Classic',
+    settings: {
+      primaryColor: '#1e40af',
+      secondaryColor: '#64748b',
+      accentColor: '#b45309',
+      headingFont: 'Merriweather',
+      bodyFont: 'Open Sans',
+      baseSpacing: 8,
+      baseFontSize: 17,
+      typeScaleRatio: 1.25,
+      headingLineHeight: 1.25,
+      bodyLineHeight: 1.7,
+      headingLetterSpacing: 0,
+      bodyLetterSpacing: 0,
+      colorScheme: 'light',
+      lightScheme: DEFAULT_SCHEME_COLORS.light,
+      darkScheme: DEFAULT_SCHEME_COLORS.dark,
+    },
+  },
+];
+
+// Longest name accepted for a custom preset
+export const PRESET_NAME_MAX_LENGTH = 40;
+
+const HexColorSchema = z.string().refine(isHexColor);
+
+const SchemeColorsSchema = z.object({
+  background: HexColorSchema,
+  surface: HexColorSchema,
+  text: HexColorSchema,
+  mutedText: HexColorSchema,
+  border: HexColorSchema,
+});
+
+const ThemePresetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(PRESET_NAME_MAX_LENGTH),
+  settings: z.object({
+    primaryColor: HexColorSchema,
+    secondaryColor: HexColorSchema,
+    accentColor: HexColorSchema,
+    headingFont: z.string().min(1),
+    bodyFont: z.string().min(1),
+    baseSpacing: z.number().positive(),
+    // Presets saved before typography settings existed get the default scale
+    baseFontSize: z.number().positive().default(DEFAULT_THEME_SETTINGS.baseFontSize),
+    typeScaleRatio: z.number().min(1).default(DEFAULT_THEME_SETTINGS.typeScaleRatio),
+    headingLineHeight: z.number().positive().default(DEFAULT_THEME_SETTINGS.headingLineHeight),
+    bodyLineHeight: z.number().positive().default(DEFAULT_THEME_SETTINGS.bodyLineHeight),
+    headingLetterSpacing: z.number().default(DEFAULT_THEME_SETTINGS.headingLetterSpacing),
+    bodyLetterSpacing: z.number().default(DEFAULT_THEME_SETTINGS.bodyLetterSpacing),
+    // Likewise for presets saved before color schemes existed
+    colorScheme: z.enum(COLOR_SCHEME_PREFERENCES).default(DEFAULT_THEME_SETTINGS.colorScheme),
+    lightScheme: SchemeColorsSchema.default(DEFAULT_THEME_SETTINGS.lightScheme),
+    darkScheme: SchemeColorsSchema.default(DEFAULT_THEME_SETTINGS.darkScheme),
+  }),
+});
+
+/**
+ * Custom presets belong to the user rather than the shop,
+ * so they can be reused when editing another shop
+ */
+function getCustomPresetsKey(): string {
+  const owner = getUserIdFromToken() ?? getShopIdFromToken() ?? 'anonymous';
+  return `themePresets:custom:${owner}`;
+}
+
+/**
+ * Loads the user's custom presets, ignoring corrupt entries
+ */
+export function loadCustomPresets(): ThemePreset[] {
+  const saved = localStorage.getItem(getCustomPresetsKey());
+  if (saved === null) {
+    return [];
+  }
+
+  try {
+    const result = z.array(ThemePresetSchema).safeParse(JSON.parse(saved));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeCustomPresets(presets: ThemePreset[]): void {
+  localStorage.setItem(getCustomPresetsKey(), JSON.stringify(presets));
+}
+
+/**
+ * Saves settings as a named custom preset and returns the updated list.
+ * A preset with the same name (ignoring case) is replaced.
+ */
+export function saveCustomPreset(name: string, settings: ThemeSettings): ThemePreset[] {
+  const trimmedName = name.trim().slice(0, PRESET_NAME_MAX_LENGTH);
+  const existing = loadCustomPresets();
+  const replaced = existing.find(
+    (preset) => preset.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+
+  const preset: ThemePreset = {
+    id: replaced?.id ?? crypto.randomUUID(),
+    name: trimmedName,
+    settings: { ...settings },
+  };
+
+  const presets = replaced
+    ? existing.map((item) => (item.id === replaced.id ? preset : item))
+    : [...existing, preset];
+
+  storeCustomPresets(presets);
+  return presets;
+}
+
+/**
+ * Removes a custom preset and returns the updated list
+ */
+export function deleteCustomPreset(presetId: string): ThemePreset[] {
+  const presets = loadCustomPresets().filter((preset) => preset.id !== presetId);
+  storeCustomPresets(presets);
+  return presets;
+}
+
+/**
+ * Checks whether settings match a preset exactly
+ */
+export function matchesPreset(settings: ThemeSettings, preset: ThemePreset): boolean {
+  return JSON.stringify(settings) === JSON.stringify(preset.settings);
+}
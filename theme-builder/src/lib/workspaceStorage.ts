@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import { ComponentDefinitionSchema } from '../types/api';
+import type { ComponentDefinition, PageData, PageType } from '../types/api';
+import type { LayoutDraft } from '../types/workspace';
+import { getShopIdFromToken, getUserIdFromToken } from './auth';
+
+const LayoutDraftSchema = z.object({
+  pageType: z.enum(['home', 'catalog', 'product', 'contact']),
+  layout: z.array(ComponentDefinitionSchema),
+  savedAt: z.string().datetime({ offset: true }),
+});
+
+/**
+ * Storage keys are scoped to the logged-in user, so drafts and preferences
+ * don't leak between accounts sharing a browser
+ */
+function getStorageOwner(): string {
+  return getUserIdFromToken() ?? getShopIdFromToken() ?? 'anonymous';
+}
+
+function getDraftKey(pageType: PageType): string {
+  return `workspace:draft:${getStorageOwner()}:${pageType}`;
+}
+
+function getAutosaveKey(): string {
+  return `workspace:autosave:${getStorageOwner()}`;
+}
+
+/**
+ * Persists the working copy of a page layout
+ */
+export function saveDraft(pageType: PageType, layout: ComponentDefinition[]): void {
+  const draft: LayoutDraft = {
+    pageType,
+    layout,
+    savedAt: new Date().toISOString(),
+  };
+
+  try {
+    localStorage.setItem(getDraftKey(pageType), JSON.stringify(draft));
+  } catch (error) {
+    // Storage can be full or disabled; drafts are best effort
+    console.error('Failed to save layout draft:', error);
+  }
+}
+
+/**
+ * Loads the stored draft of a page layout, ignoring corrupt entries
+ */
+export function loadDraft(pageType: PageType): LayoutDraft | null {
+  const saved = localStorage.getItem(getDraftKey(pageType));
+  if (saved === null) {
+    return null;
+  }
+
+  try {
+    const result = LayoutDraftSchema.safeParse(JSON.parse(saved));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearDraft(pageType: PageType): void {
+  localStorage.removeItem(getDraftKey(pageType));
+}
+
+/**
+ * Returns the draft of a page if it is worth restoring: saved after the
+ * server's last update and different from the server layout.
+ * Outdated drafts are removed.
+ */
+export function findRestorableDraft(page: PageData): LayoutDraft | null {
+  const draft = loadDraft(page.type);
+  if (!draft) {
+    return null;
+  }
+
+  const isNewer = Date.parse(draft.savedAt) > Date.parse(page.updated_at);
+  const isDifferent = JSON.stringify(draft.layout) !== JSON.stringify(page.layout);
+
+  if (!isNewer || !isDifferent) {
+    clearDraft(page.type);
+    return null;
+  }
+
+  return draft;
+}
+
+export function loadAutosavePreference(): boolean {
+  return localStorage.getItem(getAutosaveKey()) === 'true';
+}
+
+export function saveAutosavePreference(enabled: boolean): void {
+  localStorage.setItem(getAutosaveKey(), JSON.stringify(enabled));
+}
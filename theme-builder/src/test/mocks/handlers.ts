@@ -181,10 +181,18 @@ export const handlers = [
   // Theme handlers
   http.get(`${API_URL}/api/theme`, () => {
     return HttpResponse.json({
-      id: 1,
-      primaryColor: '#3B82F6',
-      secondaryColor: '#10B981',
-      fontFamily: 'Inter',
+      colors: {
+        primary: '#3B82F6',
+        secondary: '#10B981',
+        accent: '#F59E0B',
+      },
+      fonts: {
+        heading: 'Inter',
+        body: 'Inter',
+      },
+      spacing: {
+        base: 8,
+      },
     });
   }),
 
@@ -192,4 +200,8 @@ export const handlers = [
     const body = await request.json();
     return HttpResponse.json(body);
   }),
+
+  http.post(`${API_URL}/api/theme/reset`, () => {
+    return HttpResponse.json({});
+  }),
 ];
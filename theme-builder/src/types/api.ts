@@ -1,24 +1,31 @@
 import { z } from 'zod';
+import { COLOR_SCHEME_PREFERENCES, type ColorSchemePreference, type SchemeColors } from '@shared/utils';
 
 // Union type for page types
 export type PageType = 'home' | 'catalog' | 'product' | 'contact';
 
-// Zod schema for ComponentDefinition
-export const ComponentDefinitionSchema = z.object({
-  id: z.string().uuid(),
-  type: z.string().min(1),
-  variant: z.string().min(1),
-  props: z.record(z.string(), z.unknown()),
-});
-
 // Component definition in layout array
 export interface ComponentDefinition {
   id: string; // UUID v4
   type: string; // e.g., "hero", "text-section", "featured-products"
   variant: string; // e.g., "with-image", "grid-3", "2-column"
   props: Record<string, unknown>; // Component-specific props object
+  schemaVersion?: number; // Props shape version of the type; missing in layouts saved before versioning
+  slots?: ComponentDefinition[][]; // Child layouts of containers (Section, Columns), one per slot
 }
 
+// Zod schema for ComponentDefinition; recursive, as containers nest layouts
+export const ComponentDefinitionSchema: z.ZodType<ComponentDefinition> = z.object({
+  id: z.string().uuid(),
+  type: z.string().min(1),
+  variant: z.string().min(1),
+  props: z.record(z.string(), z.unknown()),
+  schemaVersion: z.number().int().positive().optional(),
+  get slots() {
+    return z.array(z.array(ComponentDefinitionSchema)).optional();
+  },
+});
+
 // Zod schema for PageData
 export const PageDataSchema = z.object({
   type: z.enum(['home', 'catalog', 'product', 'contact']),
@@ -50,3 +57,91 @@ export interface PagesResponse {
 export interface UpdatePageLayoutRequest {
   layout: ComponentDefinition[];
 }
+
+const HexColorSchema = z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/, 'Must be a hex color');
+
+// Page colors of one color scheme; colors the shop never set use the defaults
+const SchemeColorsSchema = z
+  .object({
+    background: HexColorSchema,
+    surface: HexColorSchema,
+    text: HexColorSchema,
+    mutedText: HexColorSchema,
+    border: HexColorSchema,
+  })
+  .partial();
+
+// Zod schema for ThemeData
+// Every group is optional: shops created before theming store an empty object
+export const ThemeDataSchema = z.object({
+  colors: z
+    .object({
+      primary: HexColorSchema,
+      secondary: HexColorSchema,
+      accent: HexColorSchema,
+    })
+    .partial()
+    .optional(),
+  fonts: z
+    .object({
+      heading: z.string().min(1),
+      body: z.string().min(1),
+    })
+    .partial()
+    .optional(),
+  spacing: z
+    .object({
+      base: z.number().positive(),
+    })
+    .partial()
+    .optional(),
+  typography: z
+    .object({
+      baseSize: z.number().positive(),
+      scaleRatio: z.number().min(1),
+      headingLineHeight: z.number().positive(),
+      bodyLineHeight: z.number().positive(),
+      headingLetterSpacing: z.number(),
+      bodyLetterSpacing: z.number(),
+    })
+    .partial()
+    .optional(),
+  colorScheme: z.enum(COLOR_SCHEME_PREFERENCES).optional(),
+  schemes: z
+    .object({
+      light: SchemeColorsSchema,
+      dark: SchemeColorsSchema,
+    })
+    .partial()
+    .optional(),
+});
+
+// Response from GET /api/theme
+// Also request body of PUT /api/theme and response from PUT and POST operations
+export interface ThemeData {
+  colors?: {
+    primary?: string; // Hex color
+    secondary?: string; // Hex color
+    accent?: string; // Hex color
+  };
+  fonts?: {
+    heading?: string; // Font family name
+    body?: string; // Font family name
+  };
+  spacing?: {
+    base?: number; // Base spacing unit in pixels
+  };
+  typography?: {
+    baseSize?: number; // Body font size in pixels
+    scaleRatio?: number; // Size ratio between heading levels
+    headingLineHeight?: number; // Unitless
+    bodyLineHeight?: number; // Unitless
+    headingLetterSpacing?: number; // In em
+    bodyLetterSpacing?: number; // In em
+  };
+  colorScheme?: ColorSchemePreference; // Defaults to 'light'
+  schemes?: {
+    light?: Partial<SchemeColors>;
+    dark?: Partial<SchemeColors>;
+  };
+}
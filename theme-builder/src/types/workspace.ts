@@ -1,5 +1,7 @@
 import type { PageData, ComponentDefinition, PageType } from './api';
-import type { ZodSchema } from 'zod';
+import type { EditableField } from '@shared/types';
+import type { ColorSchemePreference, SchemeColors } from '@shared/utils';
+import type { ComponentCategory, ComponentRegistration } from '@shared/registry';
 
 // Main workspace state
 export interface WorkspaceState {
@@ -12,15 +14,35 @@ export interface WorkspaceState {
   error: string | null; // Error message if API failed
   isSaving: boolean; // Save request in progress
   isResetting: boolean; // Reset request in progress
+  history: Partial<Record<PageType, LayoutHistory>>; // Undo/redo stacks per page type
+  pendingDraft: LayoutDraft | null; // Local draft offered for restore on the current page
+  clipboard: ComponentDefinition | null; // Copied component, kept across page types
+}
+
+// Undo/redo stacks for a single page's layout
+export interface LayoutHistory {
+  past: ComponentDefinition[][]; // Earlier layouts, most recent last
+  future: ComponentDefinition[][]; // Undone layouts, most recent last
+  lastEditKey: string | null; // Groups consecutive edits of the same props into one step
+}
+
+// Locally persisted working copy of a page layout
+export interface LayoutDraft {
+  pageType: PageType;
+  layout: ComponentDefinition[];
+  savedAt: string; // ISO 8601 timestamp
 }
 
 // Theme settings state (independent from page layout)
 export interface ThemeState {
-  settings: ThemeSettings;
-  originalSettings: ThemeSettings;
-  hasUnsavedThemeChanges: boolean;
-  isSavingTheme: boolean;
-  isThemeSidebarOpen: boolean;
+  settings: ThemeSettings; // Working copy edited in the theme sidebar
+  originalSettings: ThemeSettings; // Last saved settings
+  hasUnsavedThemeChanges: boolean; // Computed: settings !== originalSettings
+  isLoading: boolean; // Initial fetch in progress
+  error: string | null; // Error message if loading failed
+  isSavingTheme: boolean; // Save request in progress
+  isResettingTheme: boolean; // Reset request in progress
+  previewSettings: ThemeSettings | null; // Preset previewed on the canvas, not applied yet
 }
 
 // Theme configuration
@@ -30,10 +52,46 @@ export interface ThemeSettings {
   accentColor: string; // Hex color
   headingFont: string; // Font family name
   bodyFont: string; // Font family name
+  baseSpacing: number; // Base spacing unit in pixels
+  baseFontSize: number; // Body font size in pixels
+  typeScaleRatio: number; // Size ratio between heading levels
+  headingLineHeight: number; // Unitless
+  bodyLineHeight: number; // Unitless
+  headingLetterSpacing: number; // In em
+  bodyLetterSpacing: number; // In em
+  colorScheme: ColorSchemePreference; // Scheme of the storefront; 'auto' follows the visitor's device
+  lightScheme: SchemeColors; // Page colors of the light scheme
+  darkScheme: SchemeColors; // Page colors of the dark scheme
+}
+
+// Named set of theme settings offered in the preset gallery
+export interface ThemePreset {
+  id: string; // Preset identifier (UUID for custom presets)
+  name: string; // Display name
+  settings: ThemeSettings; // Fills every theme setting when applied
+}
+
+// Theme settings context value
+export interface ThemeSettingsContextValue {
+  // State
+  settings: ThemeSettings;
+  hasUnsavedThemeChanges: boolean;
+  isLoading: boolean;
+  error: string | null;
+  isSavingTheme: boolean;
+  isResettingTheme: boolean;
+  previewSettings: ThemeSettings | null; // Shown on the canvas instead of settings while set
+
+  // Operations
+  updateThemeSettings: (changes: Partial<ThemeSettings>) => void;
+  discardThemeChanges: () => void;
+  saveTheme: () => Promise<void>;
+  resetTheme: () => Promise<void>;
+  setThemePreview: (settings: ThemeSettings | null) => void;
 }
 
-// Component category
-export type ComponentCategory = 'Content' | 'Navigation' | 'Products' | 'Forms' | 'Media';
+// Component category, shared with the demo shop's registry
+export type { ComponentCategory };
 
 // Variant definition
 export interface VariantDefinition {
@@ -51,15 +109,30 @@ export interface ComponentMetadata {
   icon: string; // Icon name or path
   category: ComponentCategory;
   variants: VariantDefinition[];
-  propsSchema: ZodSchema; // Zod schema for validation
+  defaultVariant?: string; // Variant of newly added instances (default: first variant)
+  editableFields: EditableField[]; // Fields exposed in the property inspector
+  propsSchema: ComponentRegistration['propsSchema']; // Zod schema for validation
 }
 
 // Component registry entry
 export interface ComponentRegistryEntry {
-  meta: ComponentMetadata; // From shared component's meta.ts
-  Component: React.LazyExoticComponent<React.ComponentType<any>>;
+  meta: ComponentMetadata; // Derived from the shared registry
+  Component: React.ComponentType<any>;
   category: ComponentCategory;
-  defaultProps: Record<string, unknown>; // Default props for new instances
+  defaultProps: Record<string, unknown>; // Default props for new instances, stored with them
+  previewProps: Record<string, unknown>; // Runtime defaults and canvas samples, merged in at render time only
+  getSlotCount?: (props: Record<string, unknown>) => number; // Containers only: child layouts held with these props
+}
+
+// Child layout of a container, or the page itself (parentId null, slot 0)
+export interface LayoutSlot {
+  parentId: string | null; // Container holding the slot
+  slot: number; // Slot of the container, e.g. its column
+}
+
+// Position of a component in the layout tree
+export interface ComponentLocation extends LayoutSlot {
+  index: number; // Position within the slot
 }
 
 // Component registry map
@@ -83,6 +156,12 @@ export interface ConfirmationDialogState {
   onConfirm: () => void;
 }
 
+// Options for saving the current page layout
+export interface SaveLayoutOptions {
+  pruneHiddenFields?: boolean; // Drop props of fields hidden by visibleWhen (default: true)
+  keepHistory?: boolean; // Keep undo/redo stacks after saving, used by autosave (default: false)
+}
+
 // Workspace context value
 export interface WorkspaceContextValue {
   // State
@@ -94,13 +173,27 @@ export interface WorkspaceContextValue {
   error: string | null;
   isSaving: boolean;
   isResetting: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  pendingDraft: LayoutDraft | null;
+  clipboard: ComponentDefinition | null;
 
   // Operations
   setCurrentPageType: (type: PageType) => void;
-  addComponent: (componentType: string, atIndex: number) => void;
-  reorderComponent: (fromIndex: number, toIndex: number) => void;
+  addComponent: (componentType: string, atIndex: number, target?: LayoutSlot) => void; // Target defaults to the page
+  reorderComponent: (fromIndex: number, toIndex: number, target?: LayoutSlot) => void; // Within one slot
+  moveComponent: (componentId: string, target: LayoutSlot, toIndex: number) => void; // Into any slot, e.g. a column
   deleteComponent: (componentId: string) => void;
-  saveLayout: () => Promise<void>;
+  duplicateComponent: (componentId: string) => void;
+  copyComponent: (componentId: string) => void;
+  pasteComponent: (atIndex: number, target?: LayoutSlot) => void;
+  updateComponentProps: (componentId: string, props: Record<string, unknown>) => void;
+  setComponentVariant: (componentId: string, variant: string) => void;
+  saveLayout: (options?: SaveLayoutOptions) => Promise<void>;
   resetLayout: () => Promise<void>;
   refreshPages: () => Promise<void>;
+  undo: () => void;
+  redo: () => void;
+  restoreDraft: () => void;
+  discardDraft: () => void;
 }
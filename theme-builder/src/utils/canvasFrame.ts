@@ -0,0 +1,111 @@
+import { getClientRect } from '@dnd-kit/core';
+import type { ClientRect, CollisionDetection, MeasuringConfiguration } from '@dnd-kit/core';
+
+/**
+ * Helpers for rendering the canvas inside the viewport preview iframe.
+ *
+ * Elements inside the frame report rects relative to the frame's viewport,
+ * while dnd-kit and the insertion calculator work in editor coordinates.
+ * These helpers translate between the two so drag and drop keeps working
+ * whether or not the canvas is framed.
+ */
+
+export const CANVAS_FRAME_SELECTOR = 'iframe[data-canvas-frame]';
+
+/**
+ * Returns the document of the viewport preview frame, if one is rendered
+ */
+export function getCanvasFrameDocument(): Document | null {
+  const frame = document.querySelector<HTMLIFrameElement>(CANVAS_FRAME_SELECTOR);
+  return frame?.contentDocument ?? null;
+}
+
+/**
+ * Finds the rendered element of a canvas component, in the editor or in the preview frame
+ */
+export function findCanvasComponentElement(componentId: string): Element | null {
+  const selector = `[data-component-id="${componentId}"]`;
+  return document.querySelector(selector) ?? getCanvasFrameDocument()?.querySelector(selector) ?? null;
+}
+
+/**
+ * Offset of the frame containing a node, in editor coordinates (zero outside frames)
+ */
+export function getFrameOffset(node: Node): { top: number; left: number } {
+  const frame = node.ownerDocument?.defaultView?.frameElement;
+  if (!frame) {
+    return { top: 0, left: 0 };
+  }
+
+  const rect = frame.getBoundingClientRect();
+  return { top: rect.top + frame.clientTop, left: rect.left + frame.clientLeft };
+}
+
+/**
+ * getBoundingClientRect() in editor coordinates
+ */
+export function getEditorRect(element: Element): ClientRect {
+  const rect = element.getBoundingClientRect();
+  const offset = getFrameOffset(element);
+
+  return {
+    width: rect.width,
+    height: rect.height,
+    top: rect.top + offset.top,
+    bottom: rect.bottom + offset.top,
+    left: rect.left + offset.left,
+    right: rect.right + offset.left,
+  };
+}
+
+/**
+ * dnd-kit measure function that ignores transforms, like its default, and
+ * shifts rects of framed elements into editor coordinates
+ */
+function measureInEditor(element: HTMLElement): ClientRect {
+  const rect = getClientRect(element, { ignoreTransform: true });
+  const offset = getFrameOffset(element);
+
+  if (offset.top === 0 && offset.left === 0) {
+    return rect;
+  }
+
+  return {
+    ...rect,
+    top: rect.top + offset.top,
+    bottom: rect.bottom + offset.top,
+    left: rect.left + offset.left,
+    right: rect.right + offset.left,
+  };
+}
+
+export const canvasFrameMeasuring: MeasuringConfiguration = {
+  draggable: { measure: measureInEditor },
+  droppable: { measure: measureInEditor },
+};
+
+/**
+ * Wraps a collision detection so drags started inside the preview frame,
+ * whose pointer coordinates are frame-relative, are matched in editor coordinates
+ */
+export function withCanvasFrameCoordinates(detect: CollisionDetection): CollisionDetection {
+  return (args) => {
+    const { active, pointerCoordinates } = args;
+    const activeElement = pointerCoordinates
+      ? findCanvasComponentElement(String(active.id))
+      : null;
+
+    if (!pointerCoordinates || !activeElement) {
+      return detect(args);
+    }
+
+    const offset = getFrameOffset(activeElement);
+    return detect({
+      ...args,
+      pointerCoordinates: {
+        x: pointerCoordinates.x + offset.left,
+        y: pointerCoordinates.y + offset.top,
+      },
+    });
+  };
+}
@@ -0,0 +1,41 @@
+import { fillVisibleDefaults } from '@shared/utils';
+import type { ComponentDefinition } from '../types/api';
+import type { ComponentRegistryEntry } from '../types/workspace';
+
+/**
+ * Drops a `variant` prop from a component. The variant lives on
+ * ComponentDefinition.variant only; renderers pass it to the component.
+ */
+export function withoutVariantProp(component: ComponentDefinition): ComponentDefinition {
+  if (!('variant' in component.props)) {
+    return component;
+  }
+
+  const { variant: _variant, ...props } = component.props;
+  return { ...component, props };
+}
+
+/**
+ * Switches a component to another variant.
+ *
+ * Fields that become visible with the new variant get their defaults,
+ * e.g. a Heading switched to background-color receives a backgroundColor.
+ * Values the user already set are kept.
+ */
+export function applyVariant(
+  component: ComponentDefinition,
+  variant: string,
+  componentEntry: ComponentRegistryEntry | undefined
+): ComponentDefinition {
+  const { props } = withoutVariantProp(component);
+
+  if (!componentEntry) {
+    return { ...component, variant, props };
+  }
+
+  return {
+    ...component,
+    variant,
+    props: fillVisibleDefaults(componentEntry.meta.editableFields, props, { variant }),
+  };
+}
@@ -0,0 +1,253 @@
+import type { ColorField, EditableField } from '@shared/types';
+import { getVisibleFields } from '@shared/utils';
+
+/**
+ * WCAG 2.1 contrast analysis for text and background colors.
+ *
+ * Colors are accepted in the formats color fields store: #rgb, #rrggbb,
+ * rgb() and rgba(). Translucent colors are composited (the background over
+ * white, the text over the background) before measuring.
+ */
+
+export interface RgbaColor {
+  r: number; // 0-255
+  g: number; // 0-255
+  b: number; // 0-255
+  a: number; // 0-1
+}
+
+// WCAG conformance of a text/background pair; 'AA Large' passes for large text only
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export interface ContrastResult {
+  ratio: number; // 1 to 21
+  level: ContrastLevel;
+}
+
+// A text color measured against the background it is read on
+export interface ContrastPair {
+  id: string; // Field or setting name of the text color
+  label: string;
+  foreground: string;
+  background: string;
+}
+
+// Minimum ratios from WCAG 2.1 success criteria 1.4.3 and 1.4.6
+export const CONTRAST_AAA = 7;
+export const CONTRAST_AA = 4.5;
+export const CONTRAST_AA_LARGE = 3;
+
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
+const HEX_COLOR_REGEX = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+const RGBA_COLOR_REGEX = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/;
+
+/**
+ * Parses a hex or rgb(a) color, returning null for anything else
+ */
+export function parseColor(value: string): RgbaColor | null {
+  const color = value.trim();
+
+  if (HEX_COLOR_REGEX.test(color)) {
+    const hex = color.length === 4
+      ? color.slice(1).split('').map((char) => char + char).join('')
+      : color.slice(1);
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: 1,
+    };
+  }
+
+  const rgba = color.match(RGBA_COLOR_REGEX);
+  if (rgba) {
+    return {
+      r: Math.min(255, Number(rgba[1])),
+      g: Math.min(255, Number(rgba[2])),
+      b: Math.min(255, Number(rgba[3])),
+      a: rgba[4] === undefined ? 1 : Math.min(1, Number(rgba[4])),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Blends a translucent color over an opaque backdrop
+ */
+function composite(color: RgbaColor, backdrop: RgbaColor): RgbaColor {
+  const blend = (top: number, bottom: number) => top * color.a + bottom * (1 - color.a);
+  return {
+    r: blend(color.r, backdrop.r),
+    g: blend(color.g, backdrop.g),
+    b: blend(color.b, backdrop.b),
+    a: 1,
+  };
+}
+
+function mix(color: RgbaColor, target: RgbaColor, amount: number): RgbaColor {
+  const blend = (from: number, to: number) => from + (to - from) * amount;
+  return {
+    r: blend(color.r, target.r),
+    g: blend(color.g, target.g),
+    b: blend(color.b, target.b),
+    a: color.a,
+  };
+}
+
+/**
+ * Relative luminance as defined by WCAG 2.1, including its 0.03928
+ * linearization threshold (sRGB itself uses 0.04045)
+ */
+export function relativeLuminance(color: RgbaColor): number {
+  const [r, g, b] = [color.r, color.g, color.b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function ratioOf(foreground: RgbaColor, background: RgbaColor): number {
+  const opaqueBackground = composite(background, WHITE);
+  const opaqueForeground = composite(foreground, opaqueBackground);
+  const lighter = Math.max(relativeLuminance(opaqueForeground), relativeLuminance(opaqueBackground));
+  const darker = Math.min(relativeLuminance(opaqueForeground), relativeLuminance(opaqueBackground));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Contrast ratio between a text and a background color, or null if either
+ * color can't be parsed
+ */
+export function getContrastRatio(foreground: string, background: string): number | null {
+  const text = parseColor(foreground);
+  const backdrop = parseColor(background);
+  if (!text || !backdrop) return null;
+
+  return ratioOf(text, backdrop);
+}
+
+export function getContrastLevel(ratio: number): ContrastLevel {
+  if (ratio >= CONTRAST_AAA) return 'AAA';
+  if (ratio >= CONTRAST_AA) return 'AA';
+  if (ratio >= CONTRAST_AA_LARGE) return 'AA Large';
+  return 'Fail';
+}
+
+/**
+ * Measures a text/background pair, or returns null if a color can't be parsed
+ */
+export function analyzeContrast(foreground: string, background: string): ContrastResult | null {
+  const ratio = getContrastRatio(foreground, background);
+  if (ratio === null) return null;
+
+  return { ratio, level: getContrastLevel(ratio) };
+}
+
+/**
+ * Formats a color like the original value: rgb(a) values stay rgba so their
+ * alpha channel survives, everything else becomes #rrggbb
+ */
+function formatLike(color: RgbaColor, original: string): string {
+  const [r, g, b] = [color.r, color.g, color.b].map((channel) => Math.round(channel));
+
+  if (RGBA_COLOR_REGEX.test(original.trim())) {
+    return `rgba(${r}, ${g}, ${b}, ${color.a})`;
+  }
+
+  return `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Finds the smallest amount of black or white to mix in that reaches the ratio
+ */
+function findMixAmount(
+  color: RgbaColor,
+  target: RgbaColor,
+  background: RgbaColor,
+  minRatio: number
+): number | null {
+  if (ratioOf(mix(color, target, 1), background) < minRatio) return null;
+
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < 20; step++) {
+    const middle = (low + high) / 2;
+    if (ratioOf(mix(color, target, middle), background) >= minRatio) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+}
+
+/**
+ * Suggests the text color closest to the given one that reaches the ratio
+ * against the background, by darkening or lightening it.
+ *
+ * Returns the color unchanged when it already passes, and null when the
+ * colors can't be parsed or no shade of the color passes.
+ */
+export function suggestPassingColor(
+  foreground: string,
+  background: string,
+  minRatio: number = CONTRAST_AA
+): string | null {
+  const text = parseColor(foreground);
+  const backdrop = parseColor(background);
+  if (!text || !backdrop) return null;
+
+  if (ratioOf(text, backdrop) >= minRatio) return foreground;
+
+  const candidates = [BLACK, WHITE]
+    .map((target) => ({ target, amount: findMixAmount(text, target, backdrop, minRatio) }))
+    .filter((candidate): candidate is { target: RgbaColor; amount: number } => candidate.amount !== null)
+    .sort((a, b) => a.amount - b.amount);
+
+  if (candidates.length === 0) return null;
+
+  const [nearest] = candidates;
+  let suggestion = formatLike(mix(text, nearest.target, nearest.amount), foreground);
+
+  // Rounding to whole channels can land just below the threshold; nudge further
+  let amount = nearest.amount;
+  while ((getContrastRatio(suggestion, background) ?? 0) < minRatio && amount < 1) {
+    amount = Math.min(1, amount + 0.01);
+    suggestion = formatLike(mix(text, nearest.target, amount), foreground);
+  }
+
+  return suggestion;
+}
+
+/**
+ * Collects the text/background pairs of a component's color fields.
+ *
+ * A color field declares its background through `contrastWith`; pairs are
+ * only measured while both fields are visible and have a value.
+ */
+export function getComponentContrastPairs(
+  fields: EditableField[],
+  props: Record<string, unknown>
+): ContrastPair[] {
+  const visibleFields = getVisibleFields(fields, props);
+  const colorFields = visibleFields.filter((field): field is ColorField => field.type === 'color');
+
+  return colorFields.flatMap((field) => {
+    if (!field.contrastWith) return [];
+
+    const backgroundField = colorFields.find((candidate) => candidate.name === field.contrastWith);
+    const foreground = props[field.name];
+    const background = backgroundField ? props[backgroundField.name] : undefined;
+    if (typeof foreground !== 'string' || typeof background !== 'string') return [];
+
+    return [{
+      id: field.name,
+      label: `${field.label} on ${backgroundField!.label}`,
+      foreground,
+      background,
+    }];
+  });
+}
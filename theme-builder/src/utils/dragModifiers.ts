@@ -5,6 +5,7 @@ import type { Modifier } from '@dnd-kit/core';
  *
  * Behavior:
  * - Reordering canvas components: Vertical-only restriction (prevents ghost components)
+ * - Moving canvas components in layouts with containers: Free X/Y movement, to reach other columns
  * - Library components: Free X/Y movement (follows cursor naturally)
  *
  * Note: Visual feedback for valid drop areas is handled by:
@@ -22,8 +23,9 @@ export const conditionalAxisRestriction: Modifier = ({ transform, active }) => {
   const isReordering = activeType === 'canvas-component';
 
   // State A: Reordering existing canvas components
-  // Always restrict to vertical axis to prevent ghost components
-  if (isReordering) {
+  // Restrict to vertical axis to prevent ghost components, unless there are
+  // container slots (such as columns) beside the component to move into
+  if (isReordering && activeData.restrictToVerticalAxis !== false) {
     return {
       ...transform,
       x: 0,
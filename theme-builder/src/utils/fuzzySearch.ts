@@ -0,0 +1,104 @@
+// Bonus for a query character right after the previous match
+const CONSECUTIVE_BONUS = 3;
+// Bonus for a query character at the start of a word
+const WORD_START_BONUS = 2;
+// Bonus for the query appearing as-is in the text
+const SUBSTRING_BONUS = 10;
+// Characters that may be skipped inside a word between two matches
+const MAX_SKIPPED_CHARACTERS = 2;
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+
+  const previous = text[index - 1];
+  const current = text[index];
+  const isPreviousAlphanumeric = /[a-z0-9]/i.test(previous);
+  const isCamelCaseBoundary = /[a-z]/.test(previous) && /[A-Z]/.test(current);
+  return !isPreviousAlphanumeric || isCamelCaseBoundary;
+}
+
+/**
+ * Matches the query characters in order, starting at a given index.
+ *
+ * Within a word only a few characters may be skipped; a longer jump must
+ * land on a word start, so letters scattered across a long description
+ * don't count as a match while acronyms like "pg" still do.
+ */
+function matchFrom(needle: string, text: string, start: number): number | null {
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let previousMatch = start - 1;
+
+  for (const [needleIndex, char] of Array.from(needle).entries()) {
+    let matchIndex = needleIndex === 0 ? start : haystack.indexOf(char, previousMatch + 1);
+    while (
+      matchIndex !== -1 &&
+      matchIndex - previousMatch - 1 > MAX_SKIPPED_CHARACTERS &&
+      !isWordStart(text, matchIndex)
+    ) {
+      matchIndex = haystack.indexOf(char, matchIndex + 1);
+    }
+    if (matchIndex === -1) return null;
+
+    score += 1;
+    if (needleIndex > 0 && matchIndex === previousMatch + 1) score += CONSECUTIVE_BONUS;
+    if (isWordStart(text, matchIndex)) score += WORD_START_BONUS;
+
+    previousMatch = matchIndex;
+  }
+
+  return score;
+}
+
+/**
+ * Scores how well a query matches a text, case-insensitively.
+ *
+ * Every query character must appear in the text in order, so "prgrd"
+ * matches "Product Grid". Consecutive characters, word starts and exact
+ * substrings score higher. Returns null when the text doesn't match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (needle === '') return 0;
+
+  const haystack = text.toLowerCase();
+  let best: number | null = null;
+
+  // Try every occurrence of the first character, since a later one can match tighter
+  let start = haystack.indexOf(needle[0]);
+  while (start !== -1) {
+    const score = matchFrom(needle, text, start);
+    if (score !== null && (best === null || score > best)) {
+      best = score;
+    }
+    start = haystack.indexOf(needle[0], start + 1);
+  }
+
+  if (best === null) return null;
+
+  return haystack.includes(query.trim().toLowerCase()) ? best + SUBSTRING_BONUS : best;
+}
+
+/**
+ * Filters items by a fuzzy query and sorts them best match first.
+ *
+ * Fields are given in order of importance: a match in the first field
+ * (e.g. the name) outranks an equally good match in a later one
+ * (e.g. the description). Ties keep their original order.
+ */
+export function fuzzyFilter<T>(items: T[], query: string, getFields: (item: T) => string[]): T[] {
+  if (query.trim() === '') return items;
+
+  return items
+    .map((item, index) => {
+      const scores = getFields(item).map((field, fieldIndex) => {
+        const score = fuzzyScore(query, field);
+        return score === null ? null : score / (fieldIndex + 1);
+      });
+      const matched = scores.filter((score): score is number => score !== null);
+      return { item, index, score: matched.length > 0 ? Math.max(...matched) : null };
+    })
+    .filter((result) => result.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.index - b.index)
+    .map((result) => result.item);
+}
@@ -1,3 +1,8 @@
+import { findCanvasComponentElement, getEditorRect } from './canvasFrame';
+import { ROOT_SLOT, containsComponent, findComponent, getSlotComponents } from './layoutTree';
+import type { ComponentDefinition } from '../types/api';
+import type { LayoutSlot } from '../types/workspace';
+
 /**
  * Calculates the insertion index for a dragged component based on cursor position
  * and the layout of existing components.
@@ -69,10 +74,11 @@ export function calculateInsertionPoint(
   // Get bounding rectangles for all components
   const componentRects = componentIds
     .map((id) => {
-      const element = document.querySelector(`[data-component-id="${id}"]`);
+      const element = findCanvasComponentElement(id);
       if (!element) return null;
 
-      const rect = element.getBoundingClientRect();
+      // Editor coordinates, so components inside the viewport preview frame line up with the cursor
+      const rect = getEditorRect(element);
 
       // Skip components with zero height (currently being dragged)
       if (rect.height === 0) {
@@ -142,3 +148,84 @@ export function calculateInsertionPoint(
     hoveredComponentId: null,
   };
 }
+
+export interface SlotInsertionParams {
+  /**
+   * Current Y position of the cursor relative to the viewport
+   */
+  cursorY: number;
+
+  /**
+   * The whole layout tree
+   */
+  layout: ComponentDefinition[];
+
+  /**
+   * Slot the cursor is over: the page, or a child layout of a container
+   */
+  target: LayoutSlot;
+
+  /**
+   * ID of the component currently being dragged (if reordering)
+   */
+  draggedComponentId?: string | null;
+}
+
+export interface SlotInsertionResult extends InsertionCalculationResult {
+  /**
+   * Slot the insertion index belongs to
+   */
+  target: LayoutSlot;
+}
+
+/**
+ * Calculates where a dragged component should be inserted into a slot of a
+ * nested layout, among the components of that slot only.
+ *
+ * Returns null when the slot is inside the dragged component, since a
+ * container can't be dropped into itself.
+ */
+export function calculateSlotInsertionPoint(params: SlotInsertionParams): SlotInsertionResult | null {
+  const { cursorY, layout, target, draggedComponentId } = params;
+
+  if (draggedComponentId && target.parentId !== null) {
+    const draggedComponent = findComponent(layout, draggedComponentId);
+    if (draggedComponent && containsComponent(draggedComponent, target.parentId)) {
+      return null;
+    }
+  }
+
+  const result = calculateInsertionPoint({
+    cursorY,
+    componentIds: getSlotComponents(layout, target).map((component) => component.id),
+    draggedComponentId,
+  });
+
+  return { ...result, target };
+}
+
+/**
+ * Resolves the slot a drag is over from the data of the droppable under it:
+ * a canvas component stands for the slot it is in, an (empty) container slot
+ * and the empty canvas placeholder for themselves
+ */
+export function getDropSlot(data: Record<string, unknown> | undefined): LayoutSlot | null {
+  switch (data?.type) {
+    case 'canvas-component':
+      return (data.slot as LayoutSlot | undefined) ?? ROOT_SLOT;
+    case 'canvas-slot':
+      return { parentId: data.parentId as string, slot: data.slot as number };
+    case 'canvas-placeholder':
+      return ROOT_SLOT;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Converts an insertion index into the final index of a component that is
+ * being moved, accounting for its removal from its old position
+ */
+export function toReorderIndex(insertionIndex: number, fromIndex: number): number {
+  return insertionIndex > fromIndex ? insertionIndex - 1 : insertionIndex;
+}
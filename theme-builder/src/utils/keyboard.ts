@@ -0,0 +1,38 @@
+/**
+ * Checks whether a keyboard event target handles text editing itself,
+ * in which case workspace shortcuts must leave the key alone.
+ *
+ * Duck-typed instead of `instanceof Element` so targets inside the
+ * viewport preview frame, which belong to another realm, are recognised.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as Element | null;
+  if (!element || typeof element.closest !== 'function') {
+    return false;
+  }
+
+  return element.closest('input, textarea, select, [contenteditable="true"]') !== null;
+}
+
+/**
+ * Returns the ID of the canvas component containing a keyboard event target,
+ * or null when the target is outside the canvas
+ */
+export function getComponentIdFromTarget(target: EventTarget | null): string | null {
+  const element = target as Element | null;
+  if (!element || typeof element.closest !== 'function') {
+    return null;
+  }
+
+  return element.closest('[data-component-id]')?.getAttribute('data-component-id') ?? null;
+}
+
+/**
+ * Checks whether text is selected in the document of a keyboard event target,
+ * so copy shortcuts can be left to the browser
+ */
+export function hasTextSelection(target: EventTarget | null): boolean {
+  const ownerDocument = (target as Node | null)?.ownerDocument ?? document;
+  const selection = ownerDocument.getSelection();
+  return selection !== null && !selection.isCollapsed;
+}
@@ -0,0 +1,91 @@
+import { KeyboardCode, type ClientRect, type KeyboardCoordinateGetter } from '@dnd-kit/core';
+
+// Distance above the first component that counts as "insert at the top"
+const TOP_SLOT_OFFSET = 4;
+
+interface InsertionSlot {
+  insertionIndex: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Keyboard coordinate getter for canvas drags.
+ *
+ * Each Up/Down key press moves the center of the dragged item to the next
+ * insertion slot: above the first component, or over a component (insert
+ * below it). The drop position is then resolved by calculateInsertionPoint,
+ * exactly like a pointer drag. Slots that would leave a reordered component
+ * where it is are skipped, so every key press changes the position.
+ */
+export const canvasKeyboardCoordinates: KeyboardCoordinateGetter = (
+  event,
+  { active, currentCoordinates, context }
+) => {
+  if (event.code !== KeyboardCode.Down && event.code !== KeyboardCode.Up) {
+    return undefined;
+  }
+
+  event.preventDefault();
+
+  const { collisionRect, droppableRects, droppableContainers } = context;
+  if (!collisionRect) {
+    return undefined;
+  }
+
+  const componentRects: { id: string; rect: ClientRect }[] = [];
+  const slots: InsertionSlot[] = [];
+
+  droppableContainers.getEnabled().forEach((container) => {
+    const rect = droppableRects.get(container.id);
+    if (!rect) return;
+
+    const type = container.data.current?.type;
+    if (type === 'canvas-component') {
+      componentRects.push({ id: String(container.id), rect });
+    } else if (type === 'canvas-placeholder') {
+      // Empty canvas: a single slot in the middle of the placeholder
+      slots.push({
+        insertionIndex: 0,
+        x: rect.left + rect.width / 2,
+        y: rect.top + rect.height / 2,
+      });
+    }
+  });
+
+  componentRects.sort((a, b) => a.rect.top - b.rect.top);
+
+  const activeIndex = componentRects.findIndex((component) => component.id === String(active));
+
+  componentRects.forEach(({ rect }, index) => {
+    const x = rect.left + rect.width / 2;
+
+    if (index === 0) {
+      slots.push({ insertionIndex: 0, x, y: rect.top - TOP_SLOT_OFFSET });
+    }
+    slots.push({ insertionIndex: index + 1, x, y: rect.top + rect.height / 2 });
+  });
+
+  const candidates = slots.filter(
+    (slot) =>
+      activeIndex === -1 ||
+      (slot.insertionIndex !== activeIndex && slot.insertionIndex !== activeIndex + 1)
+  );
+
+  const centerX = collisionRect.left + collisionRect.width / 2;
+  const centerY = collisionRect.top + collisionRect.height / 2;
+
+  const target =
+    event.code === KeyboardCode.Down
+      ? candidates.filter((slot) => slot.y > centerY + 0.5).sort((a, b) => a.y - b.y)[0]
+      : candidates.filter((slot) => slot.y < centerY - 0.5).sort((a, b) => b.y - a.y)[0];
+
+  if (!target) {
+    return undefined;
+  }
+
+  return {
+    x: currentCoordinates.x + (target.x - centerX),
+    y: currentCoordinates.y + (target.y - centerY),
+  };
+};
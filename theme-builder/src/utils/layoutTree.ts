@@ -0,0 +1,176 @@
+import type { ComponentDefinition } from '../types/api';
+import type { ComponentLocation, LayoutSlot } from '../types/workspace';
+
+/**
+ * Helpers for layouts nesting child layouts in containers.
+ *
+ * A layout is a tree: containers such as Section and Columns hold one child
+ * layout per slot. Components are addressed by the slot they are in, so the
+ * same index-based operations work on the page and inside any container.
+ * All helpers return new arrays and leave the given layout untouched.
+ */
+
+/**
+ * The page itself, holding the top-level components
+ */
+export const ROOT_SLOT: LayoutSlot = { parentId: null, slot: 0 };
+
+export function isSameSlot(a: LayoutSlot, b: LayoutSlot): boolean {
+  return a.parentId === b.parentId && a.slot === b.slot;
+}
+
+/**
+ * Every component of the layout, containers before their children, in page order
+ */
+export function flattenLayout(layout: ComponentDefinition[]): ComponentDefinition[] {
+  return layout.flatMap((component) => [
+    component,
+    ...(component.slots ?? []).flatMap((slot) => flattenLayout(slot)),
+  ]);
+}
+
+export function findComponent(layout: ComponentDefinition[], componentId: string): ComponentDefinition | undefined {
+  return flattenLayout(layout).find((component) => component.id === componentId);
+}
+
+/**
+ * Finds the slot holding a component and its position there
+ */
+export function findComponentLocation(
+  layout: ComponentDefinition[],
+  componentId: string,
+  parentId: string | null = null,
+  slot = 0
+): ComponentLocation | null {
+  for (const [index, component] of layout.entries()) {
+    if (component.id === componentId) {
+      return { parentId, slot, index };
+    }
+
+    for (const [childSlot, children] of (component.slots ?? []).entries()) {
+      const location = findComponentLocation(children, componentId, component.id, childSlot);
+      if (location) {
+        return location;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Components of a slot; empty when the container doesn't exist
+ */
+export function getSlotComponents(layout: ComponentDefinition[], target: LayoutSlot): ComponentDefinition[] {
+  if (target.parentId === null) {
+    return layout;
+  }
+
+  return findComponent(layout, target.parentId)?.slots?.[target.slot] ?? [];
+}
+
+/**
+ * Whether a component is the given one or one of its descendants
+ */
+export function containsComponent(component: ComponentDefinition, componentId: string): boolean {
+  return flattenLayout([component]).some((descendant) => descendant.id === componentId);
+}
+
+/**
+ * Applies a function to every component of the layout, children before their containers
+ */
+export function mapLayout(
+  layout: ComponentDefinition[],
+  transform: (component: ComponentDefinition) => ComponentDefinition
+): ComponentDefinition[] {
+  return layout.map((component) =>
+    transform(
+      component.slots
+        ? { ...component, slots: component.slots.map((slot) => mapLayout(slot, transform)) }
+        : component
+    )
+  );
+}
+
+/**
+ * Replaces the components of a slot. Returns the layout as it is when the
+ * container doesn't exist.
+ */
+export function updateSlot(
+  layout: ComponentDefinition[],
+  target: LayoutSlot,
+  update: (components: ComponentDefinition[]) => ComponentDefinition[]
+): ComponentDefinition[] {
+  if (target.parentId === null) {
+    return update(layout);
+  }
+
+  if (!findComponent(layout, target.parentId)) {
+    return layout;
+  }
+
+  return mapLayout(layout, (component) => {
+    if (component.id !== target.parentId) {
+      return component;
+    }
+
+    const slots = [...(component.slots ?? [])];
+    slots[target.slot] = update(slots[target.slot] ?? []);
+    return { ...component, slots };
+  });
+}
+
+/**
+ * Inserts a component into a slot
+ */
+export function insertComponent(
+  layout: ComponentDefinition[],
+  target: LayoutSlot,
+  atIndex: number,
+  component: ComponentDefinition
+): ComponentDefinition[] {
+  return updateSlot(layout, target, (components) => {
+    const next = [...components];
+    next.splice(atIndex, 0, component);
+    return next;
+  });
+}
+
+/**
+ * Removes a component, along with its children, wherever it is in the tree
+ */
+export function removeComponent(layout: ComponentDefinition[], componentId: string): ComponentDefinition[] {
+  return layout
+    .filter((component) => component.id !== componentId)
+    .map((component) =>
+      component.slots
+        ? { ...component, slots: component.slots.map((slot) => removeComponent(slot, componentId)) }
+        : component
+    );
+}
+
+/**
+ * Moves a component into a slot, at its position after the move.
+ *
+ * Returns the layout as it is when the component or the target container
+ * doesn't exist, or when the target is inside the moved component itself.
+ */
+export function moveComponent(
+  layout: ComponentDefinition[],
+  componentId: string,
+  target: LayoutSlot,
+  toIndex: number
+): ComponentDefinition[] {
+  const component = findComponent(layout, componentId);
+  if (!component) {
+    return layout;
+  }
+
+  if (target.parentId !== null) {
+    if (containsComponent(component, target.parentId) || !findComponent(layout, target.parentId)) {
+      return layout;
+    }
+  }
+
+  return insertComponent(removeComponent(layout, componentId), target, toIndex, component);
+}
@@ -0,0 +1,130 @@
+import { getVisibleFields } from '@shared/utils';
+import type { ComponentDefinition } from '../types/api';
+import type { ComponentRegistry } from '../types/workspace';
+import { flattenLayout } from './layoutTree';
+
+/**
+ * Pre-save validation of page layouts.
+ *
+ * Each component's props are checked against its shared Zod schema, merged
+ * with the runtime props the demo shop provides, so problems show up in the
+ * editor instead of as "Invalid Component Configuration" alerts in the shop.
+ *
+ * Errors are layouts the shop cannot render and block saving; warnings are
+ * rendered with fallbacks and only warn.
+ */
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface LayoutProblem {
+  componentId: string;
+  componentType: string;
+  field: string | null; // Path of the prop, e.g. "columns.0.iconUrl"; null for the whole component
+  fieldLabel: string | null; // Label of the editable field the path starts with
+  message: string;
+  severity: ProblemSeverity;
+}
+
+// Placeholder for the shop ID the demo shop passes as a runtime prop
+const RUNTIME_SHOP_ID = '00000000-0000-4000-8000-000000000000';
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Validates one component against its registry entry
+ */
+export function validateComponent(
+  component: ComponentDefinition,
+  registry: ComponentRegistry
+): LayoutProblem[] {
+  const entry = registry[component.type];
+  const problem = (
+    field: string | null,
+    message: string,
+    severity: ProblemSeverity
+  ): LayoutProblem => ({
+    componentId: component.id,
+    componentType: component.type,
+    field,
+    fieldLabel: field
+      ? entry?.meta.editableFields.find((candidate) => candidate.name === field.split('.')[0])?.label ?? null
+      : null,
+    message,
+    severity,
+  });
+
+  if (!entry) {
+    return [problem(null, `Component type "${component.type}" is not registered`, 'error')];
+  }
+
+  const problems: LayoutProblem[] = [];
+
+  // Data the shop provides at runtime (products, categories, ...) is stood in
+  // for by the canvas samples; editable props are validated as stored
+  const editableNames = new Set(entry.meta.editableFields.map((field) => field.name));
+  const runtimeProps = Object.fromEntries(
+    Object.entries(entry.previewProps).filter(([name]) => !editableNames.has(name))
+  );
+  const props = {
+    isLoading: false,
+    error: null,
+    ...runtimeProps,
+    ...component.props,
+    variant: component.variant,
+    shopId: RUNTIME_SHOP_ID,
+  };
+  const result = entry.meta.propsSchema.safeParse(props);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => {
+      problems.push(problem(issue.path.length > 0 ? issue.path.join('.') : null, issue.message, 'error'));
+    });
+  }
+
+  // Schemas with a variant prop already reject unknown variants as errors
+  const variants = entry.meta.variants;
+  const isVariantRejected = problems.some((existing) => existing.field === 'variant');
+  if (variants.length > 0 && !isVariantRejected && !variants.some((variant) => variant.id === component.variant)) {
+    problems.push(problem(null, `Unknown variant "${component.variant}"; the default look is used`, 'warning'));
+  }
+
+  // Required fields the schema accepts empty fall back to placeholder content
+  const editableProps: Record<string, unknown> = { ...component.props, variant: component.variant };
+  getVisibleFields(entry.meta.editableFields, editableProps)
+    .filter((field) => field.required && isEmpty(editableProps[field.name]))
+    .filter((field) => !problems.some((existing) => existing.field === field.name))
+    .forEach((field) => {
+      problems.push(problem(field.name, `${field.label} is empty`, 'warning'));
+    });
+
+  return problems;
+}
+
+/**
+ * Validates every component of a layout, in layout order, including the
+ * components nested in containers
+ */
+export function validateLayout(layout: ComponentDefinition[], registry: ComponentRegistry): LayoutProblem[] {
+  return flattenLayout(layout).flatMap((component) => validateComponent(component, registry));
+}
+
+/**
+ * Checks whether any problem prevents saving the layout
+ */
+export function hasBlockingProblems(problems: LayoutProblem[]): boolean {
+  return problems.some((problem) => problem.severity === 'error');
+}
+
+/**
+ * Most severe problem of each component, used to highlight broken blocks
+ */
+export function getComponentSeverities(problems: LayoutProblem[]): Record<string, ProblemSeverity> {
+  const severities: Record<string, ProblemSeverity> = {};
+  problems.forEach((problem) => {
+    if (severities[problem.componentId] !== 'error') {
+      severities[problem.componentId] = problem.severity;
+    }
+  });
+  return severities;
+}
@@ -0,0 +1,37 @@
+/**
+ * Canvas preview viewports
+ *
+ * A width of null renders the canvas at the full width of the editor,
+ * any other width renders it inside the viewport preview frame.
+ */
+
+export type ViewportPresetId = 'desktop' | 'tablet' | 'mobile';
+
+export interface ViewportPreset {
+  id: ViewportPresetId;
+  label: string;
+  width: number | null;
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+  { id: 'desktop', label: 'Desktop', width: null },
+  { id: 'tablet', label: 'Tablet', width: 768 },
+  { id: 'mobile', label: 'Mobile', width: 375 },
+];
+
+export const MIN_VIEWPORT_WIDTH = 320;
+export const MAX_VIEWPORT_WIDTH = 2560;
+
+/**
+ * Keeps custom widths within the range the frame can sensibly preview
+ */
+export function clampViewportWidth(width: number): number {
+  return Math.min(MAX_VIEWPORT_WIDTH, Math.max(MIN_VIEWPORT_WIDTH, Math.round(width)));
+}
+
+/**
+ * Returns the preset matching a width, or null for custom widths
+ */
+export function getViewportPreset(width: number | null): ViewportPreset | null {
+  return VIEWPORT_PRESETS.find((preset) => preset.width === width) ?? null;
+}
@@ -0,0 +1,200 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DndContext } from '@dnd-kit/core';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Canvas } from '@/components/workspace/Canvas';
+import { componentRegistry } from '@/lib/componentRegistry';
+import { DEFAULT_THEME_SETTINGS } from '@/lib/theme';
+import type { ComponentDefinition } from '@/types/api';
+import type { ColorScheme } from '@shared/utils';
+
+const token = `header.${btoa(JSON.stringify({ sub: 'user-1', shopId: 'shop-1' }))}.signature`;
+
+describe('Canvas', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  const layout: ComponentDefinition[] = [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      type: 'Heading',
+      variant: 'text-only',
+      props: { text: 'Welcome', level: 'h1' },
+    },
+  ];
+
+  const renderCanvas = (canvasLayout: ComponentDefinition[] = layout, colorScheme?: ColorScheme) =>
+    render(
+      <DndContext>
+        <Canvas
+          layout={canvasLayout}
+          componentRegistry={componentRegistry}
+          onComponentDelete={vi.fn()}
+          onComponentSettings={vi.fn()}
+          themeSettings={{ ...DEFAULT_THEME_SETTINGS, primaryColor: '#123456' }}
+          colorScheme={colorScheme}
+        />
+      </DndContext>
+    );
+
+  describe('Validation', () => {
+    it('highlights components with layout problems', async () => {
+      render(
+        <DndContext>
+          <Canvas
+            layout={layout}
+            componentRegistry={componentRegistry}
+            onComponentDelete={vi.fn()}
+            problemSeverities={{ [layout[0].id]: 'error' }}
+          />
+        </DndContext>
+      );
+
+      const heading = await screen.findByRole('heading', { name: 'Welcome' });
+      expect(heading.closest('[data-problem-severity]')).toHaveAttribute('data-problem-severity', 'error');
+    });
+  });
+
+  describe('Theme', () => {
+    it('applies the theme variables around rendered components', async () => {
+      renderCanvas();
+
+      const heading = await screen.findByRole('heading', { name: 'Welcome' });
+      const scope = screen.getByTestId('canvas-theme-scope');
+
+      expect(scope).toContainElement(heading);
+      expect(scope.style.getPropertyValue('--color-primary')).toBe('#123456');
+    });
+
+    it('previews the page colors of the chosen color scheme', async () => {
+      renderCanvas(layout, 'dark');
+      await screen.findByRole('heading', { name: 'Welcome' });
+
+      const scope = screen.getByTestId('canvas-theme-scope');
+      expect(scope.style.getPropertyValue('--color-background')).toBe(DEFAULT_THEME_SETTINGS.darkScheme.background);
+      expect(scope.style.getPropertyValue('--color-text')).toBe(DEFAULT_THEME_SETTINGS.darkScheme.text);
+      // Brand colors are shared by both schemes
+      expect(scope.style.getPropertyValue('--color-primary')).toBe('#123456');
+    });
+
+    it('keeps the editor toolbar outside the theme scope', async () => {
+      const user = userEvent.setup();
+      renderCanvas();
+      await user.hover(await screen.findByRole('heading', { name: 'Welcome' }));
+
+      const scope = screen.getByTestId('canvas-theme-scope');
+      const settingsButton = screen.getByRole('button', { name: /settings/i });
+
+      expect(scope).not.toContainElement(settingsButton);
+    });
+
+    it('resolves theme references in component props', async () => {
+      renderCanvas([
+        {
+          ...layout[0],
+          variant: 'background-color',
+          props: {
+            text: 'Welcome',
+            level: 'h1',
+            variant: 'background-color',
+            textColor: 'theme.primary',
+            backgroundColor: 'rgba(0, 0, 0, 1)',
+          },
+        },
+      ]);
+
+      expect(await screen.findByRole('heading', { name: 'Welcome' })).toHaveStyle({ color: '#123456' });
+    });
+
+    it('provides the previewed scheme to the rendered components', async () => {
+      renderCanvas(
+        [
+          {
+            ...layout[0],
+            variant: 'background-image',
+            props: {
+              text: 'Welcome',
+              level: 'h1',
+              variant: 'background-image',
+              backgroundImageUrl: 'https://example.com/hero.jpg',
+            },
+          },
+        ],
+        'dark'
+      );
+
+      // The image placeholder uses the surface color of the theme
+      const heading = await screen.findByRole('heading', { name: 'Welcome' });
+      expect(heading.parentElement).toHaveStyle({
+        backgroundColor: DEFAULT_THEME_SETTINGS.darkScheme.surface,
+      });
+    });
+  });
+
+  describe('Containers', () => {
+    const columnsLayout: ComponentDefinition[] = [
+      {
+        id: '660e8400-e29b-41d4-a716-446655440000',
+        type: 'Columns',
+        variant: 'equal',
+        props: { variant: 'equal', columnCount: 2, gap: 'medium' },
+        slots: [
+          [
+            {
+              id: '770e8400-e29b-41d4-a716-446655440000',
+              type: 'Heading',
+              variant: 'text-only',
+              props: { text: 'In the first column', level: 'h2' },
+            },
+          ],
+          [],
+        ],
+      },
+    ];
+
+    it('renders the child layouts of containers inside them', async () => {
+      renderCanvas(columnsLayout);
+
+      const nested = await screen.findByRole('heading', { name: 'In the first column' });
+      const columns = screen.getByRole('group', { name: 'Columns, position 1 of 1' });
+
+      expect(columns).toContainElement(nested);
+      expect(screen.getByRole('group', { name: 'Heading, position 1 of 1' })).toContainElement(nested);
+      expect(screen.getAllByText('Drop components here')).toHaveLength(1);
+    });
+
+    it('moves nested components within their slot', async () => {
+      const user = userEvent.setup();
+      const onComponentMove = vi.fn();
+      const [columns] = columnsLayout;
+      const secondHeading: ComponentDefinition = {
+        id: '880e8400-e29b-41d4-a716-446655440000',
+        type: 'Heading',
+        variant: 'text-only',
+        props: { text: 'Also in the first column', level: 'h2' },
+      };
+
+      render(
+        <DndContext>
+          <Canvas
+            layout={[{ ...columns, slots: [[...(columns.slots?.[0] ?? []), secondHeading], []] }]}
+            componentRegistry={componentRegistry}
+            onComponentDelete={vi.fn()}
+            onComponentMove={onComponentMove}
+          />
+        </DndContext>
+      );
+
+      screen.getByRole('group', { name: 'Heading, position 1 of 2' }).focus();
+      await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+
+      expect(onComponentMove).toHaveBeenCalledTimes(1);
+      expect(onComponentMove).toHaveBeenCalledWith(0, 1, { parentId: columns.id, slot: 0 });
+    });
+  });
+});
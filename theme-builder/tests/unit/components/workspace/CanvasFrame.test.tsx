@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { CanvasFrame } from '@/components/workspace/CanvasFrame';
+
+async function renderFrame(props: { isPointerPassthrough?: boolean } = {}) {
+  render(
+    <CanvasFrame width={375} {...props}>
+      <p>Framed content</p>
+    </CanvasFrame>
+  );
+
+  const frame = screen.getByTitle('Canvas preview at 375px') as HTMLIFrameElement;
+  await waitFor(() =>
+    expect(frame.contentDocument?.body.textContent).toContain('Framed content')
+  );
+  return frame;
+}
+
+describe('CanvasFrame', () => {
+  afterEach(() => {
+    document.head.querySelectorAll('[data-test-style]').forEach((node) => node.remove());
+  });
+
+  it('renders children inside the frame document at the given width', async () => {
+    await renderFrame();
+
+    expect(screen.getByTestId('canvas-frame')).toHaveStyle({ width: '375px' });
+    expect(screen.queryByText('Framed content')).not.toBeInTheDocument();
+  });
+
+  it('mirrors editor stylesheets into the frame', async () => {
+    const style = document.createElement('style');
+    style.setAttribute('data-test-style', '');
+    style.textContent = '.framed { color: red; }';
+    document.head.appendChild(style);
+
+    const frame = await renderFrame();
+
+    expect(frame.contentDocument?.head.innerHTML).toContain('.framed { color: red; }');
+  });
+
+  it('picks up stylesheets added after the frame loaded', async () => {
+    const frame = await renderFrame();
+
+    const style = document.createElement('style');
+    style.setAttribute('data-test-style', '');
+    style.textContent = '.late { color: blue; }';
+    document.head.appendChild(style);
+
+    await waitFor(() =>
+      expect(frame.contentDocument?.head.innerHTML).toContain('.late { color: blue; }')
+    );
+  });
+
+  it('lets pointer events through while passthrough is enabled', async () => {
+    const frame = await renderFrame({ isPointerPassthrough: true });
+
+    expect(frame.style.pointerEvents).toBe('none');
+  });
+
+  it('hands key presses inside the frame to the shortcut handler with their target', async () => {
+    const handleKeyDown = vi.fn();
+    render(
+      <CanvasFrame width={375} onKeyDown={handleKeyDown}>
+        <div data-component-id="heading-1" tabIndex={0}>
+          Framed content
+        </div>
+      </CanvasFrame>
+    );
+    const frame = screen.getByTitle('Canvas preview at 375px') as HTMLIFrameElement;
+    await waitFor(() => expect(frame.contentDocument?.body.textContent).toContain('Framed content'));
+
+    const component = frame.contentDocument!.querySelector('[data-component-id="heading-1"]')!;
+    component.dispatchEvent(
+      new (frame.contentWindow as typeof window).KeyboardEvent('keydown', {
+        key: 'c',
+        ctrlKey: true,
+        bubbles: true,
+      })
+    );
+
+    expect(handleKeyDown).toHaveBeenCalledTimes(1);
+    expect(handleKeyDown.mock.calls[0][0]).toMatchObject({ key: 'c', ctrlKey: true, target: component });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ColorSchemeToggle } from '@/components/workspace/ColorSchemeToggle';
+
+describe('ColorSchemeToggle', () => {
+  it('marks the previewed scheme as pressed', () => {
+    render(<ColorSchemeToggle colorScheme="dark" onColorSchemeChange={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Dark' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Light' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('switches between schemes', async () => {
+    const user = userEvent.setup();
+    const onColorSchemeChange = vi.fn();
+    render(<ColorSchemeToggle colorScheme="light" onColorSchemeChange={onColorSchemeChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Dark' }));
+    expect(onColorSchemeChange).toHaveBeenLastCalledWith('dark');
+
+    await user.click(screen.getByRole('button', { name: 'Light' }));
+    expect(onColorSchemeChange).toHaveBeenLastCalledWith('light');
+  });
+});
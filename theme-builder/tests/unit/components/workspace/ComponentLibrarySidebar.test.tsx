@@ -0,0 +1,91 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DndContext } from '@dnd-kit/core';
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import { ComponentLibrarySidebar } from '@/components/workspace/ComponentLibrarySidebar';
+import { componentRegistry } from '@/lib/componentRegistry';
+
+describe('ComponentLibrarySidebar', () => {
+  const renderSidebar = () =>
+    render(
+      <DndContext>
+        <ComponentLibrarySidebar
+          isCollapsed={false}
+          onCollapseToggle={vi.fn()}
+          componentRegistry={componentRegistry}
+        />
+      </DndContext>
+    );
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('groups components into category sections', () => {
+    renderSidebar();
+
+    const navigation = screen.getByRole('button', { name: /^Navigation \d+$/ });
+    expect(navigation).toHaveAttribute('aria-expanded', 'true');
+
+    const section = document.getElementById(navigation.getAttribute('aria-controls')!)!;
+    expect(within(section).getByText(componentRegistry.CategoryPills.meta.name)).toBeInTheDocument();
+    expect(within(section).queryByText(componentRegistry.Heading.meta.name)).not.toBeInTheDocument();
+  });
+
+  it('collapses a category and remembers it', async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    await user.click(screen.getByRole('button', { name: /^Navigation \d+$/ }));
+
+    expect(screen.getByRole('button', { name: /^Navigation \d+$/ })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText(componentRegistry.CategoryPills.meta.name)).not.toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('componentLibrary:collapsedCategories')!)).toEqual([
+      'Navigation',
+    ]);
+  });
+
+  it('filters components with a fuzzy search', async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    await user.type(screen.getByLabelText('Search components'), 'prdgrid');
+
+    const results = screen.getByRole('region', { name: 'Search results' });
+    expect(within(results).getByText(componentRegistry.ProductListGrid.meta.name)).toBeInTheDocument();
+    expect(within(results).queryByText(componentRegistry.Heading.meta.name)).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state and clears the search on Escape', async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    const search = screen.getByLabelText('Search components');
+    await user.type(search, 'zzzz');
+    expect(screen.getByText('No components match "zzzz"')).toBeInTheDocument();
+
+    await user.keyboard('{Escape}');
+    expect(search).toHaveValue('');
+    expect(screen.getByRole('button', { name: /^Content \d+$/ })).toBeInTheDocument();
+  });
+
+  it('adds favorites to their own section', async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    await user.click(screen.getByRole('button', { name: `Favorite ${componentRegistry.Heading.meta.name}` }));
+
+    const favorites = screen.getByRole('region', { name: 'Favorites' });
+    expect(within(favorites).getByText(componentRegistry.Heading.meta.name)).toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('componentLibrary:favorites')!)).toEqual(['Heading']);
+  });
+
+  it('shows recently used components from storage', () => {
+    localStorage.setItem('componentLibrary:recent', JSON.stringify(['TextSection', 'Removed']));
+    renderSidebar();
+
+    const recent = screen.getByRole('region', { name: 'Recently used' });
+    expect(within(recent).getByText(componentRegistry.TextSection.meta.name)).toBeInTheDocument();
+    expect(within(recent).getAllByRole('button', { name: /Favorite/ })).toHaveLength(1);
+  });
+});
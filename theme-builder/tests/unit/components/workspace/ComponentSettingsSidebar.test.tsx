@@ -0,0 +1,318 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect } from 'vitest';
+import { ComponentSettingsSidebar } from '@/components/workspace/ComponentSettingsSidebar';
+import { componentRegistry } from '@/lib/componentRegistry';
+import type { ComponentDefinition } from '@/types/api';
+
+describe('ComponentSettingsSidebar', () => {
+  const headingDefinition: ComponentDefinition = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    type: 'Heading',
+    variant: 'background-color',
+    props: {
+      text: 'Welcome',
+      level: 'h1',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      height: 300,
+    },
+  };
+
+  const themeColors = { primary: '#112233', secondary: '#445566', accent: '#f59e0b' };
+
+  const renderSidebar = (
+    componentDefinition: ComponentDefinition = headingDefinition,
+    onPropsChange = vi.fn()
+  ) => {
+    render(
+      <ComponentSettingsSidebar
+        componentDefinition={componentDefinition}
+        componentEntry={componentRegistry[componentDefinition.type]}
+        onPropsChange={onPropsChange}
+        onClose={vi.fn()}
+        themeColors={themeColors}
+      />
+    );
+    return onPropsChange;
+  };
+
+  describe('Rendering', () => {
+    it('renders the component name as heading', () => {
+      renderSidebar();
+
+      expect(screen.getByRole('heading', { name: 'Heading' })).toBeInTheDocument();
+    });
+
+    it('renders a control for each editable field with current values', () => {
+      renderSidebar();
+
+      expect(screen.getByLabelText(/heading text/i)).toHaveValue('Welcome');
+      expect(screen.getByLabelText(/heading level/i)).toHaveValue('h1');
+      expect(screen.getByLabelText(/height/i)).toHaveValue(300);
+      expect(screen.getByLabelText('Background Color')).toHaveValue('rgba(0, 0, 0, 0.5)');
+    });
+
+    it('falls back to registry defaults for props missing from the definition', () => {
+      renderSidebar({
+        id: '550e8400-e29b-41d4-a716-446655440001',
+        type: 'ProductListGrid',
+        variant: '3',
+        props: {},
+      });
+
+      expect(screen.getByLabelText(/products per row/i)).toHaveValue('3');
+    });
+  });
+
+  describe('Editing', () => {
+    it('emits text changes for the edited field', () => {
+      const onPropsChange = renderSidebar();
+
+      const input = screen.getByLabelText(/heading text/i);
+      fireEvent.change(input, { target: { value: 'Hello' } });
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, { text: 'Hello' });
+    });
+
+    it('emits numbers for number fields', () => {
+      const onPropsChange = renderSidebar();
+
+      fireEvent.change(screen.getByLabelText(/height/i), { target: { value: '420' } });
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, { height: 420 });
+    });
+
+    it('coerces select values to the type of the current prop', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar({
+        id: '550e8400-e29b-41d4-a716-446655440001',
+        type: 'ProductListGrid',
+        variant: '3',
+        props: { productsPerRow: 3 },
+      });
+
+      await user.selectOptions(screen.getByLabelText(/products per row/i), '4');
+
+      expect(onPropsChange).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001', {
+        productsPerRow: 4,
+      });
+    });
+
+    it('stores numeric select options as numbers while the prop is unset', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = vi.fn();
+      render(
+        <ComponentSettingsSidebar
+          componentDefinition={{
+            id: '550e8400-e29b-41d4-a716-446655440001',
+            type: 'ProductListGrid',
+            variant: '3',
+            props: {},
+          }}
+          componentEntry={{ ...componentRegistry.ProductListGrid, defaultProps: {} }}
+          onPropsChange={onPropsChange}
+          onClose={vi.fn()}
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/products per row/i), '6');
+
+      expect(onPropsChange).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001', {
+        productsPerRow: 6,
+      });
+    });
+
+    it('edits boolean props with a checkbox', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar({
+        id: '550e8400-e29b-41d4-a716-446655440002',
+        type: 'CategoryPills',
+        variant: 'left',
+        props: { showAllOption: true },
+      });
+
+      const checkbox = screen.getByRole('checkbox', { name: /show "all" option/i });
+      expect(checkbox).toBeChecked();
+      await user.click(checkbox);
+
+      expect(onPropsChange).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440002', {
+        showAllOption: false,
+      });
+    });
+
+    it('keeps the rgba format when picking a color', () => {
+      const onPropsChange = renderSidebar();
+
+      fireEvent.change(screen.getByLabelText(/background color picker/i), {
+        target: { value: '#ff0000' },
+      });
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, {
+        backgroundColor: 'rgba(255, 0, 0, 0.5)',
+      });
+    });
+  });
+
+  describe('Repeater fields', () => {
+    const textSectionDefinition: ComponentDefinition = {
+      id: '550e8400-e29b-41d4-a716-446655440002',
+      type: 'TextSection',
+      variant: 'text-only',
+      props: {
+        variant: 'text-only',
+        columnCount: 2,
+        columns: [{ text: 'First' }, { text: 'Second' }],
+      },
+    };
+
+    it('renders one item per entry with its sub-fields', () => {
+      renderSidebar(textSectionDefinition);
+
+      expect(screen.getAllByRole('listitem')).toHaveLength(2);
+      expect(screen.getAllByLabelText(/column text/i)[1]).toHaveValue('Second');
+    });
+
+    it('keeps columnCount in sync when adding an item', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar(textSectionDefinition);
+
+      await user.click(screen.getByRole('button', { name: /add item/i }));
+
+      expect(onPropsChange).toHaveBeenCalledWith(textSectionDefinition.id, {
+        columns: [{ text: 'First' }, { text: 'Second' }, { text: '' }],
+        columnCount: 3,
+      });
+    });
+
+    it('duplicates an item right below the original', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar(textSectionDefinition);
+
+      await user.click(screen.getByRole('button', { name: /duplicate columns item 1/i }));
+
+      expect(onPropsChange).toHaveBeenCalledWith(textSectionDefinition.id, {
+        columns: [{ text: 'First' }, { text: 'First' }, { text: 'Second' }],
+        columnCount: 3,
+      });
+    });
+
+    it('enforces minItems and maxItems', () => {
+      renderSidebar({
+        ...textSectionDefinition,
+        props: { ...textSectionDefinition.props, columns: [{ text: 'Only' }], columnCount: 1 },
+      });
+
+      expect(screen.getByRole('button', { name: /remove columns item 1/i })).toBeDisabled();
+
+      renderSidebar({
+        ...textSectionDefinition,
+        props: {
+          ...textSectionDefinition.props,
+          columns: [{ text: '1' }, { text: '2' }, { text: '3' }, { text: '4' }],
+          columnCount: 4,
+        },
+      });
+
+      expect(screen.getAllByRole('button', { name: /add item/i })[1]).toBeDisabled();
+    });
+
+    it('does not let columnCount drop below the number of columns', () => {
+      const onPropsChange = renderSidebar(textSectionDefinition);
+
+      fireEvent.change(screen.getByLabelText(/number of columns/i), { target: { value: '1' } });
+
+      expect(onPropsChange).toHaveBeenCalledWith(textSectionDefinition.id, { columnCount: 2 });
+    });
+  });
+
+  describe('Contrast', () => {
+    it('rates the text color against the background color', () => {
+      renderSidebar({
+        ...headingDefinition,
+        props: { ...headingDefinition.props, textColor: '#ffffff', backgroundColor: '#1f2937' },
+      });
+
+      const check = screen.getByTestId('contrast-textColor');
+      expect(check).toHaveTextContent('14.68:1');
+      expect(check).toHaveTextContent('AAA');
+    });
+
+    it('suggests the nearest passing text color', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar({
+        ...headingDefinition,
+        props: { ...headingDefinition.props, textColor: '#4b5563', backgroundColor: '#1f2937' },
+      });
+
+      expect(screen.getByTestId('contrast-textColor')).toHaveTextContent('Fail');
+      await user.click(screen.getByRole('button', { name: /use suggested color/i }));
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, {
+        textColor: expect.stringMatching(/^#[0-9a-f]{6}$/),
+      });
+    });
+
+    it('is not shown for variants without a background color', () => {
+      renderSidebar({
+        ...headingDefinition,
+        variant: 'text-only',
+        props: { ...headingDefinition.props, variant: 'text-only', textColor: '#ffffff' },
+      });
+
+      expect(screen.queryByTestId('contrast-textColor')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Theme colors', () => {
+    it('stores a theme reference when a theme swatch is picked', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar();
+
+      const swatches = screen.getByRole('group', { name: 'Background Color theme colors' });
+      await user.click(within(swatches).getByRole('button', { name: 'Use theme primary' }));
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, { backgroundColor: 'theme.primary' });
+    });
+
+    it('offers shades of the referenced theme color', async () => {
+      const user = userEvent.setup();
+      const onPropsChange = renderSidebar({
+        ...headingDefinition,
+        props: { ...headingDefinition.props, backgroundColor: 'theme.primary' },
+      });
+
+      expect(screen.getByLabelText('Background Color picker')).toHaveValue('#112233');
+      expect(
+        within(screen.getByRole('group', { name: 'Background Color theme colors' })).getByRole('button', {
+          name: 'Use theme primary',
+        })
+      ).toHaveAttribute('aria-pressed', 'true');
+
+      await user.click(screen.getByRole('button', { name: 'Use primary 200' }));
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, { backgroundColor: 'theme.primary/200' });
+    });
+
+    it('keeps the field format when replacing a reference with the picker', () => {
+      const onPropsChange = renderSidebar({
+        ...headingDefinition,
+        props: { ...headingDefinition.props, backgroundColor: 'theme.primary' },
+      });
+
+      fireEvent.input(screen.getByLabelText('Background Color picker'), { target: { value: '#ff0000' } });
+
+      expect(onPropsChange).toHaveBeenCalledWith(headingDefinition.id, {
+        backgroundColor: 'rgba(255, 0, 0, 1)',
+      });
+    });
+
+    it('measures contrast on the resolved theme colors', () => {
+      renderSidebar({
+        ...headingDefinition,
+        props: { ...headingDefinition.props, textColor: '#ffffff', backgroundColor: 'theme.primary' },
+      });
+
+      expect(screen.getByTestId('contrast-textColor')).toHaveTextContent('AAA');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect } from 'vitest';
+import { InsertComponentMenu } from '@/components/workspace/InsertComponentMenu';
+import { componentRegistry } from '@/lib/componentRegistry';
+
+describe('InsertComponentMenu', () => {
+  const renderMenu = () => {
+    const onSelect = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <InsertComponentMenu
+        componentRegistry={componentRegistry}
+        onSelect={onSelect}
+        onClose={onClose}
+      />
+    );
+    return { onSelect, onClose };
+  };
+
+  it('lists every registered component and focuses the first one', () => {
+    renderMenu();
+
+    const items = screen.getAllByRole('menuitem');
+    expect(items).toHaveLength(Object.keys(componentRegistry).length);
+    expect(items[0]).toHaveFocus();
+  });
+
+  it('moves focus with the arrow keys and wraps around', async () => {
+    const user = userEvent.setup();
+    renderMenu();
+    const items = screen.getAllByRole('menuitem');
+
+    await user.keyboard('{ArrowDown}');
+    expect(items[1]).toHaveFocus();
+
+    await user.keyboard('{ArrowUp}{ArrowUp}');
+    expect(items[items.length - 1]).toHaveFocus();
+  });
+
+  it('selects the chosen component type', async () => {
+    const user = userEvent.setup();
+    const { onSelect } = renderMenu();
+
+    await user.click(screen.getByRole('menuitem', { name: componentRegistry.Heading.meta.name }));
+
+    expect(onSelect).toHaveBeenCalledWith('Heading');
+  });
+
+  it('closes on Escape', async () => {
+    const user = userEvent.setup();
+    const { onClose } = renderMenu();
+
+    await user.keyboard('{Escape}');
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect } from 'vitest';
+import { LayoutProblemsPanel } from '@/components/workspace/LayoutProblemsPanel';
+import { componentRegistry } from '@/lib/componentRegistry';
+import { validateLayout } from '@/utils/layoutValidation';
+import type { ComponentDefinition } from '@/types/api';
+
+describe('LayoutProblemsPanel', () => {
+  const layout: ComponentDefinition[] = [
+    {
+      id: 'valid-heading',
+      type: 'Heading',
+      variant: 'text-only',
+      props: { text: 'Welcome', level: 'h1' },
+    },
+    {
+      id: 'broken-text',
+      type: 'TextSection',
+      variant: 'text-only',
+      props: { columnCount: 2, columns: [{ text: 'One' }, { text: '' }] },
+    },
+    {
+      id: 'odd-grid',
+      type: 'ProductListGrid',
+      variant: 'neon',
+      props: { productsPerRow: 3 },
+    },
+  ];
+
+  const renderPanel = (components: ComponentDefinition[] = layout) => {
+    const onSelectComponent = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <LayoutProblemsPanel
+        problems={validateLayout(components, componentRegistry)}
+        layout={components}
+        componentRegistry={componentRegistry}
+        onSelectComponent={onSelectComponent}
+        onClose={onClose}
+      />
+    );
+    return { onSelectComponent, onClose };
+  };
+
+  it('lists the problems of each broken component per field', () => {
+    renderPanel();
+
+    const panel = screen.getByRole('region', { name: 'Layout problems' });
+    expect(within(panel).getByText('1 error, 1 warning')).toBeInTheDocument();
+    expect(within(panel).queryByText(/Heading \(position 1\)/)).not.toBeInTheDocument();
+    expect(within(panel).getByRole('button', { name: 'Text Section (position 2)' })).toBeInTheDocument();
+    expect(within(panel).getByText(/Columns › item 2 › text/)).toBeInTheDocument();
+    expect(within(panel).getByText(/Unknown variant "neon"/)).toBeInTheDocument();
+  });
+
+  it('selects a component from its group', async () => {
+    const user = userEvent.setup();
+    const { onSelectComponent } = renderPanel();
+
+    await user.click(screen.getByRole('button', { name: 'Text Section (position 2)' }));
+
+    expect(onSelectComponent).toHaveBeenCalledWith('broken-text');
+  });
+
+  it('confirms a layout without problems', () => {
+    renderPanel(layout.slice(0, 1));
+
+    expect(screen.getByText(/No problems found/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,205 @@
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ThemeSettingsSidebar } from '@/components/workspace/ThemeSettingsSidebar';
+import { ThemeSettingsProvider, useThemeSettings } from '@/contexts/ThemeSettingsContext';
+
+// Note: MSW server is started globally in src/test/setup.ts and serves the default theme mock
+
+const token = `header.${btoa(JSON.stringify({ sub: 'user-1', shopId: 'shop-1' }))}.signature`;
+
+// Shows the canvas preview state next to the sidebar
+function PreviewProbe() {
+  const { previewSettings } = useThemeSettings();
+  return <output data-testid="preview">{previewSettings?.primaryColor ?? 'none'}</output>;
+}
+
+describe('ThemeSettingsSidebar', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  const renderSidebar = async () => {
+    render(
+      <ThemeSettingsProvider>
+        <ThemeSettingsSidebar onClose={vi.fn()} />
+        <PreviewProbe />
+      </ThemeSettingsProvider>
+    );
+    await waitFor(() => expect(screen.getByLabelText(/^primary color\*$/i)).toHaveValue('#3B82F6'));
+  };
+
+  it('shows the saved theme', async () => {
+    await renderSidebar();
+
+    expect(screen.getByLabelText(/^secondary color\*$/i)).toHaveValue('#10B981');
+    expect(screen.getByLabelText(/^heading font\*$/i)).toHaveValue('Inter');
+    expect(screen.getByLabelText(/base spacing/i)).toHaveValue('8');
+    expect(screen.getByRole('button', { name: 'Save Theme' })).toBeDisabled();
+  });
+
+  it('enables saving once the theme changes', async () => {
+    const user = userEvent.setup();
+    await renderSidebar();
+
+    await user.selectOptions(screen.getByLabelText(/^body font\*$/i), 'Lato');
+
+    expect(screen.getByRole('button', { name: 'Save Theme' })).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Discard' })).toBeEnabled();
+  });
+
+  it('blocks saving while a color is not a hex color', async () => {
+    await renderSidebar();
+
+    fireEvent.change(screen.getByLabelText(/^accent color\*$/i), { target: { value: 'orange' } });
+
+    expect(screen.getByText(/enter a hex color/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save Theme' })).toBeDisabled();
+  });
+
+  it('updates the spacing value from the slider', async () => {
+    await renderSidebar();
+
+    fireEvent.change(screen.getByLabelText(/base spacing/i), { target: { value: '12' } });
+
+    expect(screen.getByText('12px')).toBeInTheDocument();
+  });
+
+  it('asks for confirmation before resetting to defaults', async () => {
+    const user = userEvent.setup();
+    await renderSidebar();
+
+    await user.click(screen.getByRole('button', { name: 'Reset to Defaults' }));
+    expect(screen.getByRole('alertdialog')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Reset Theme' }));
+
+    await waitFor(() => expect(screen.getByLabelText(/^primary color\*$/i)).toHaveValue('#3b82f6'));
+  });
+
+  describe('Presets', () => {
+    it('previews a preset on the canvas while hovered', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      const bold = screen.getByRole('button', { name: 'Apply Bold preset' });
+      await user.hover(bold);
+      expect(screen.getByTestId('preview')).toHaveTextContent('#dc2626');
+      expect(screen.getByRole('button', { name: 'Save Theme' })).toBeDisabled();
+
+      await user.unhover(bold);
+      expect(screen.getByTestId('preview')).toHaveTextContent('none');
+    });
+
+    it('fills every setting when a preset is applied', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      await user.click(screen.getByRole('button', { name: 'Apply Dark boutique preset' }));
+
+      expect(screen.getByLabelText(/^primary color\*$/i)).toHaveValue('#1c1917');
+      expect(screen.getByLabelText(/^heading font\*$/i)).toHaveValue('Playfair Display');
+      expect(screen.getByLabelText(/base spacing/i)).toHaveValue('12');
+      expect(screen.getByRole('button', { name: 'Apply Dark boutique preset' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: 'Save Theme' })).toBeEnabled();
+    });
+
+    it('saves the current settings as a custom preset', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      await user.type(screen.getByLabelText('Preset name'), 'Spring');
+      await user.click(screen.getByRole('button', { name: 'Save as preset' }));
+
+      expect(screen.getByRole('button', { name: 'Apply Spring preset' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Preset name')).toHaveValue('');
+
+      await user.click(screen.getByRole('button', { name: 'Delete Spring preset' }));
+      expect(screen.queryByRole('button', { name: 'Apply Spring preset' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Color scheme', () => {
+    it('edits the scheme and the palette of each scheme separately', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      await user.selectOptions(screen.getByLabelText(/^color scheme\*$/i), 'auto');
+      const darkPalette = screen.getByRole('group', { name: 'Dark palette' });
+      fireEvent.change(within(darkPalette).getByLabelText(/^background\*$/i), { target: { value: '#000000' } });
+
+      expect(screen.getByLabelText(/^color scheme\*$/i)).toHaveValue('auto');
+      expect(within(darkPalette).getByLabelText(/^background\*$/i)).toHaveValue('#000000');
+      expect(
+        within(screen.getByRole('group', { name: 'Light palette' })).getByLabelText(/^background\*$/i)
+      ).toHaveValue('#ffffff');
+      expect(screen.getByRole('button', { name: 'Save Theme' })).toBeEnabled();
+    });
+
+    it('blocks saving while a palette color is not a hex color', async () => {
+      await renderSidebar();
+
+      const lightPalette = screen.getByRole('group', { name: 'Light palette' });
+      fireEvent.change(within(lightPalette).getByLabelText(/^text\*$/i), { target: { value: 'black' } });
+
+      expect(within(lightPalette).getByText(/enter a hex color/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Save Theme' })).toBeDisabled();
+    });
+
+    it('checks the text contrast of each palette', async () => {
+      await renderSidebar();
+
+      const darkPalette = screen.getByRole('group', { name: 'Dark palette' });
+      expect(within(darkPalette).getByTestId('contrast-text')).toHaveTextContent('AAA');
+    });
+  });
+
+  describe('Typography', () => {
+    it('applies a suggested font pairing', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      const pairing = screen.getByRole('button', { name: /use editorial pairing/i });
+      await user.click(pairing);
+
+      expect(screen.getByLabelText(/^heading font\*$/i)).toHaveValue('Playfair Display');
+      expect(screen.getByLabelText(/^body font\*$/i)).toHaveValue('Lato');
+      expect(pairing).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('shows the sizes of the type scale', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      const sizes = screen.getByTestId('type-scale-sizes');
+      expect(sizes).toHaveTextContent('h139.06px');
+
+      await user.selectOptions(screen.getByLabelText(/^scale ratio\*$/i), '1.5');
+      fireEvent.change(screen.getByLabelText(/base font size/i), { target: { value: '18' } });
+
+      expect(sizes).toHaveTextContent('h191.13px');
+      expect(sizes).toHaveTextContent('body18px');
+      expect(screen.getByRole('button', { name: 'Save Theme' })).toBeEnabled();
+    });
+  });
+
+  describe('Contrast', () => {
+    it('rates each theme color and fixes failing ones', async () => {
+      const user = userEvent.setup();
+      await renderSidebar();
+
+      // The mocked accent #F59E0B is too light on the white page background
+      const accent = screen.getByTestId('contrast-accentColor');
+      expect(accent).toHaveTextContent('Fail');
+
+      await user.click(screen.getByRole('button', { name: /use suggested color .* for accent on light background/i }));
+
+      expect(screen.getByTestId('contrast-accentColor')).toHaveTextContent('AA');
+      expect(screen.getByTestId('contrast-accentColor')).not.toHaveTextContent('Fail');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect } from 'vitest';
+import { VariantPicker } from '@/components/workspace/VariantPicker';
+import { componentRegistry } from '@/lib/componentRegistry';
+import type { ComponentDefinition } from '@/types/api';
+
+describe('VariantPicker', () => {
+  const headingDefinition: ComponentDefinition = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    type: 'Heading',
+    variant: 'text-only',
+    props: { text: 'Welcome', level: 'h2', variant: 'text-only' },
+  };
+
+  const renderPicker = (entry = componentRegistry.Heading) => {
+    const onSelect = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <VariantPicker
+        componentDefinition={headingDefinition}
+        componentEntry={entry}
+        renderProps={{ ...headingDefinition.props, isLoading: false, error: null }}
+        onSelect={onSelect}
+        onClose={onClose}
+      />
+    );
+    return { onSelect, onClose };
+  };
+
+  it('lists every variant and focuses the current one', () => {
+    renderPicker();
+
+    const options = screen.getAllByRole('menuitemradio');
+    expect(options).toHaveLength(componentRegistry.Heading.meta.variants.length);
+
+    const current = screen.getByRole('menuitemradio', { name: /Text Only/ });
+    expect(current).toHaveAttribute('aria-checked', 'true');
+    expect(current).toHaveFocus();
+  });
+
+  it('renders a live preview of each variant', async () => {
+    renderPicker();
+
+    const preview = screen.getByTestId('variant-preview-background-color');
+    await waitFor(() => expect(preview).toHaveTextContent('Welcome'));
+    // The preview gets the defaults the variant would fill in
+    expect(preview.querySelector('[style*="background-color"]')).not.toBeNull();
+  });
+
+  it('shows the preview image when the variant has one', () => {
+    const entry = {
+      ...componentRegistry.Heading,
+      meta: {
+        ...componentRegistry.Heading.meta,
+        variants: componentRegistry.Heading.meta.variants.map((variant) => ({
+          ...variant,
+          previewImage: `https://example.com/${variant.id}.png`,
+        })),
+      },
+    };
+    renderPicker(entry);
+
+    const preview = screen.getByTestId('variant-preview-background-image');
+    expect(preview.querySelector('img')).toHaveAttribute(
+      'src',
+      'https://example.com/background-image.png'
+    );
+  });
+
+  it('selects a variant with the keyboard', async () => {
+    const user = userEvent.setup();
+    const { onSelect } = renderPicker();
+
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(onSelect).toHaveBeenCalledWith('background-image');
+  });
+
+  it('selects a variant on click and closes on Escape', async () => {
+    const user = userEvent.setup();
+    const { onSelect, onClose } = renderPicker();
+
+    await user.click(screen.getByRole('menuitemradio', { name: /Background Color/ }));
+    expect(onSelect).toHaveBeenCalledWith('background-color');
+
+    await user.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
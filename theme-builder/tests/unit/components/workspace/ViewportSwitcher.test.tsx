@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ViewportSwitcher } from '@/components/workspace/ViewportSwitcher';
+import { MAX_VIEWPORT_WIDTH, MIN_VIEWPORT_WIDTH } from '@/utils/viewport';
+
+describe('ViewportSwitcher', () => {
+  it('marks the preset matching the current width as pressed', () => {
+    render(<ViewportSwitcher viewportWidth={375} onViewportWidthChange={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Mobile' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Desktop' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('switches between presets', async () => {
+    const user = userEvent.setup();
+    const onViewportWidthChange = vi.fn();
+    render(<ViewportSwitcher viewportWidth={null} onViewportWidthChange={onViewportWidthChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Tablet' }));
+    expect(onViewportWidthChange).toHaveBeenLastCalledWith(768);
+
+    await user.click(screen.getByRole('button', { name: 'Desktop' }));
+    expect(onViewportWidthChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('applies a custom width on Enter', async () => {
+    const user = userEvent.setup();
+    const onViewportWidthChange = vi.fn();
+    render(<ViewportSwitcher viewportWidth={null} onViewportWidthChange={onViewportWidthChange} />);
+
+    const input = screen.getByLabelText('Custom viewport width in pixels');
+    await user.type(input, '1024{Enter}');
+
+    expect(onViewportWidthChange).toHaveBeenCalledTimes(1);
+    expect(onViewportWidthChange).toHaveBeenCalledWith(1024);
+  });
+
+  it('clamps custom widths to the supported range', () => {
+    const onViewportWidthChange = vi.fn();
+    render(<ViewportSwitcher viewportWidth={768} onViewportWidthChange={onViewportWidthChange} />);
+
+    const input = screen.getByLabelText('Custom viewport width in pixels');
+
+    fireEvent.change(input, { target: { value: '100' } });
+    fireEvent.blur(input);
+    expect(onViewportWidthChange).toHaveBeenLastCalledWith(MIN_VIEWPORT_WIDTH);
+
+    fireEvent.change(input, { target: { value: '99999' } });
+    fireEvent.blur(input);
+    expect(onViewportWidthChange).toHaveBeenLastCalledWith(MAX_VIEWPORT_WIDTH);
+  });
+
+  it('ignores an empty custom width', () => {
+    const onViewportWidthChange = vi.fn();
+    render(<ViewportSwitcher viewportWidth={768} onViewportWidthChange={onViewportWidthChange} />);
+
+    const input = screen.getByLabelText('Custom viewport width in pixels');
+    fireEvent.change(input, { target: { value: '' } });
+    fireEvent.blur(input);
+
+    expect(onViewportWidthChange).not.toHaveBeenCalled();
+    expect(input).toHaveValue(768);
+  });
+});
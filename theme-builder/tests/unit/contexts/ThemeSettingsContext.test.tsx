@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import type { ReactNode } from 'react';
+import { ThemeSettingsProvider, useThemeSettings } from '@/contexts/ThemeSettingsContext';
+import { server } from '@/test/mocks/server';
+import { DEFAULT_THEME_SETTINGS } from '@/lib/theme';
+import type { ThemeData } from '@/types/api';
+
+// Note: MSW server is started globally in src/test/setup.ts
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000';
+
+const token = `header.${btoa(JSON.stringify({ sub: 'user-1', shopId: 'shop-1' }))}.signature`;
+
+const savedTheme: ThemeData = {
+  colors: { primary: '#111111', secondary: '#222222', accent: '#333333' },
+  fonts: { heading: 'Lato', body: 'Roboto' },
+  spacing: { base: 12 },
+  typography: { baseSize: 18, scaleRatio: 1.333 },
+  colorScheme: 'auto',
+  schemes: { dark: { background: '#000000' } },
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <ThemeSettingsProvider>{children}</ThemeSettingsProvider>
+);
+
+async function renderThemeSettings() {
+  const hook = renderHook(() => useThemeSettings(), { wrapper });
+  await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+  return hook;
+}
+
+describe('ThemeSettingsContext', () => {
+  let lastSavedBody: ThemeData | null;
+
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+    lastSavedBody = null;
+
+    server.use(
+      http.get(`${API_URL}/api/theme`, () => HttpResponse.json(savedTheme)),
+      http.put(`${API_URL}/api/theme`, async ({ request }) => {
+        lastSavedBody = (await request.json()) as ThemeData;
+        return HttpResponse.json(lastSavedBody);
+      }),
+      http.post(`${API_URL}/api/theme/reset`, () => HttpResponse.json({}))
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('loads the saved theme', async () => {
+    const { result } = await renderThemeSettings();
+
+    expect(result.current.settings).toEqual({
+      primaryColor: '#111111',
+      secondaryColor: '#222222',
+      accentColor: '#333333',
+      headingFont: 'Lato',
+      bodyFont: 'Roboto',
+      baseSpacing: 12,
+      baseFontSize: 18,
+      typeScaleRatio: 1.333,
+      headingLineHeight: DEFAULT_THEME_SETTINGS.headingLineHeight,
+      bodyLineHeight: DEFAULT_THEME_SETTINGS.bodyLineHeight,
+      headingLetterSpacing: DEFAULT_THEME_SETTINGS.headingLetterSpacing,
+      bodyLetterSpacing: DEFAULT_THEME_SETTINGS.bodyLetterSpacing,
+      colorScheme: 'auto',
+      lightScheme: DEFAULT_THEME_SETTINGS.lightScheme,
+      darkScheme: { ...DEFAULT_THEME_SETTINGS.darkScheme, background: '#000000' },
+    });
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+  });
+
+  it('falls back to defaults for values the shop never saved', async () => {
+    server.use(
+      http.get(`${API_URL}/api/theme`, () => HttpResponse.json({ colors: { primary: '#111111' } }))
+    );
+
+    const { result } = await renderThemeSettings();
+
+    expect(result.current.settings).toEqual({ ...DEFAULT_THEME_SETTINGS, primaryColor: '#111111' });
+  });
+
+  it('tracks unsaved changes against the saved theme', async () => {
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ accentColor: '#abcdef' }));
+    expect(result.current.hasUnsavedThemeChanges).toBe(true);
+
+    // Changing it back to the saved value leaves nothing to save
+    act(() => result.current.updateThemeSettings({ accentColor: '#333333' }));
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+  });
+
+  it('discards changes', async () => {
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ baseSpacing: 4, bodyFont: 'Inter' }));
+    act(() => result.current.discardThemeChanges());
+
+    expect(result.current.settings.baseSpacing).toBe(12);
+    expect(result.current.settings.bodyFont).toBe('Roboto');
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+  });
+
+  it('saves the theme in the stored format', async () => {
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ primaryColor: '#abcdef', baseSpacing: 16 }));
+    await act(() => result.current.saveTheme());
+
+    expect(lastSavedBody).toEqual({
+      colors: { primary: '#abcdef', secondary: '#222222', accent: '#333333' },
+      fonts: { heading: 'Lato', body: 'Roboto' },
+      spacing: { base: 16 },
+      typography: {
+        baseSize: 18,
+        scaleRatio: 1.333,
+        headingLineHeight: DEFAULT_THEME_SETTINGS.headingLineHeight,
+        bodyLineHeight: DEFAULT_THEME_SETTINGS.bodyLineHeight,
+        headingLetterSpacing: DEFAULT_THEME_SETTINGS.headingLetterSpacing,
+        bodyLetterSpacing: DEFAULT_THEME_SETTINGS.bodyLetterSpacing,
+      },
+      colorScheme: 'auto',
+      schemes: {
+        light: DEFAULT_THEME_SETTINGS.lightScheme,
+        dark: { ...DEFAULT_THEME_SETTINGS.darkScheme, background: '#000000' },
+      },
+    });
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+    expect(result.current.isSavingTheme).toBe(false);
+  });
+
+  it('keeps changes made while a save is in flight', async () => {
+    let releaseSave!: () => void;
+    server.use(
+      http.put(`${API_URL}/api/theme`, async ({ request }) => {
+        lastSavedBody = (await request.json()) as ThemeData;
+        await new Promise<void>((resolve) => {
+          releaseSave = resolve;
+        });
+        return HttpResponse.json(lastSavedBody);
+      })
+    );
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ primaryColor: '#abcdef' }));
+    let save!: Promise<void>;
+    act(() => {
+      save = result.current.saveTheme();
+    });
+    await waitFor(() => expect(lastSavedBody).not.toBeNull());
+    act(() => result.current.updateThemeSettings({ accentColor: '#fedcba' }));
+    await act(async () => {
+      releaseSave();
+      await save;
+    });
+
+    expect(result.current.settings.primaryColor).toBe('#abcdef');
+    expect(result.current.settings.accentColor).toBe('#fedcba');
+    expect(result.current.hasUnsavedThemeChanges).toBe(true);
+    expect(result.current.isSavingTheme).toBe(false);
+
+    // Undoing the later edit leaves nothing to save, as the first edit is stored
+    act(() => result.current.updateThemeSettings({ accentColor: '#333333' }));
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+  });
+
+  it('keeps changes when saving fails', async () => {
+    server.use(
+      http.put(`${API_URL}/api/theme`, () =>
+        HttpResponse.json({ error: 'Server error' }, { status: 500 })
+      )
+    );
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ primaryColor: '#abcdef' }));
+    await act(() => expect(result.current.saveTheme()).rejects.toThrow());
+
+    expect(result.current.settings.primaryColor).toBe('#abcdef');
+    expect(result.current.hasUnsavedThemeChanges).toBe(true);
+    expect(result.current.isSavingTheme).toBe(false);
+  });
+
+  it('resets the theme to the defaults', async () => {
+    const { result } = await renderThemeSettings();
+
+    act(() => result.current.updateThemeSettings({ primaryColor: '#abcdef' }));
+    await act(() => result.current.resetTheme());
+
+    expect(result.current.settings).toEqual(DEFAULT_THEME_SETTINGS);
+    expect(result.current.hasUnsavedThemeChanges).toBe(false);
+  });
+});
@@ -0,0 +1,808 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import type { ReactNode } from 'react';
+import { WorkspaceProvider, useWorkspace } from '@/contexts/WorkspaceContext';
+import { server } from '@/test/mocks/server';
+import { loadDraft, saveDraft } from '@/lib/workspaceStorage';
+import { ROOT_SLOT } from '@/utils/layoutTree';
+import type { PageData, PageType } from '@/types/api';
+
+// Note: MSW server is started globally in src/test/setup.ts
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000';
+
+const timestamp = '2025-01-01T00:00:00+00:00';
+
+const token = `header.${btoa(JSON.stringify({ sub: 'user-1', shopId: 'shop-1' }))}.signature`;
+
+const headingComponent = {
+  id: '11111111-1111-4111-8111-111111111111',
+  type: 'Heading',
+  variant: 'text-only',
+  props: { text: 'Welcome', level: 'h1' },
+};
+
+function createPage(type: PageType, layout: PageData['layout'] = []): PageData {
+  return { type, layout, created_at: timestamp, updated_at: timestamp };
+}
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <WorkspaceProvider>{children}</WorkspaceProvider>
+);
+
+async function renderWorkspace() {
+  const hook = renderHook(() => useWorkspace(), { wrapper });
+  await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+  return hook;
+}
+
+describe('WorkspaceContext undo/redo', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [headingComponent]),
+            createPage('catalog'),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      ),
+      http.put(`${API_URL}/api/pages/:type`, async ({ params, request }) => {
+        const body = (await request.json()) as { layout: PageData['layout'] };
+        return HttpResponse.json(createPage(params.type as PageType, body.layout));
+      }),
+      http.post(`${API_URL}/api/pages/:type/reset`, ({ params }) =>
+        HttpResponse.json(createPage(params.type as PageType))
+      )
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with nothing to undo or redo', async () => {
+    const { result } = await renderWorkspace();
+
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('undoes and redoes layout edits', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 1));
+    act(() => result.current.reorderComponent(1, 0));
+    expect(result.current.currentLayout).toHaveLength(2);
+    expect(result.current.currentLayout[1].id).toBe(headingComponent.id);
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout[0].id).toBe(headingComponent.id);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    expect(result.current.currentLayout).toHaveLength(2);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+  });
+
+  it('restores deleted components', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    expect(result.current.currentLayout).toEqual([]);
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+  });
+
+  it('clears the redo stack after a new edit', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 0));
+    act(() => result.current.undo());
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('groups consecutive edits of the same prop into one step', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'W' }));
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'We' }));
+    act(() => result.current.updateComponentProps(headingComponent.id, { level: 'h2' }));
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout[0].props).toEqual({ text: 'We', level: 'h1' });
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout[0].props).toEqual(headingComponent.props);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('keeps a separate history per page type', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 0));
+    act(() => result.current.undo());
+
+    act(() => result.current.setCurrentPageType('catalog'));
+    expect(result.current.canRedo).toBe(false);
+
+    act(() => result.current.addComponent('Heading', 0));
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => result.current.undo());
+    act(() => result.current.setCurrentPageType('home'));
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it('drops the history of a page whose unsaved changes are discarded', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 0));
+    act(() => result.current.setCurrentPageType('catalog'));
+    act(() => result.current.setCurrentPageType('home'));
+
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('resets the history after saving', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 0));
+    await act(() => result.current.saveLayout());
+
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('resets the history after resetting the page', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    await act(() => result.current.resetLayout());
+
+    expect(result.current.currentLayout).toEqual([]);
+    expect(result.current.canUndo).toBe(false);
+  });
+});
+
+describe('WorkspaceContext drafts', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [headingComponent]),
+            createPage('catalog'),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      ),
+      http.put(`${API_URL}/api/pages/:type`, async ({ params, request }) => {
+        const body = (await request.json()) as { layout: PageData['layout'] };
+        return HttpResponse.json(createPage(params.type as PageType, body.layout));
+      })
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('persists unsaved layouts as drafts', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+
+    expect(loadDraft('home')?.layout).toEqual([]);
+  });
+
+  it('clears the draft after saving', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    await act(() => result.current.saveLayout());
+
+    expect(loadDraft('home')).toBeNull();
+  });
+
+  it('clears the draft once edits are undone back to the saved layout', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    expect(loadDraft('home')).not.toBeNull();
+
+    act(() => result.current.undo());
+
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(loadDraft('home')).toBeNull();
+  });
+
+  it('offers a draft newer than the saved layout and restores it', async () => {
+    saveDraft('home', []);
+
+    const { result } = await renderWorkspace();
+    await waitFor(() => expect(result.current.pendingDraft).not.toBeNull());
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+
+    act(() => result.current.restoreDraft());
+
+    expect(result.current.pendingDraft).toBeNull();
+    expect(result.current.currentLayout).toEqual([]);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('discards an offered draft', async () => {
+    saveDraft('home', []);
+
+    const { result } = await renderWorkspace();
+    await waitFor(() => expect(result.current.pendingDraft).not.toBeNull());
+
+    act(() => result.current.discardDraft());
+
+    expect(result.current.pendingDraft).toBeNull();
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+    expect(loadDraft('home')).toBeNull();
+  });
+
+  it('offers the draft of a page when switching to it', async () => {
+    saveDraft('catalog', [headingComponent]);
+
+    const { result } = await renderWorkspace();
+    expect(result.current.pendingDraft).toBeNull();
+
+    act(() => result.current.setCurrentPageType('catalog'));
+
+    await waitFor(() => expect(result.current.pendingDraft?.pageType).toBe('catalog'));
+  });
+});
+
+describe('WorkspaceContext saving', () => {
+  const hiddenPropHeading = {
+    ...headingComponent,
+    props: { ...headingComponent.props, backgroundImageUrl: 'https://example.com/hero.jpg' },
+  };
+
+  let savedLayouts: PageData['layout'][];
+  let releaseSave: () => void;
+
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+    savedLayouts = [];
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [hiddenPropHeading]),
+            createPage('catalog'),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      ),
+      // Responds once the test releases the save, so edits can happen while it is in flight
+      http.put(`${API_URL}/api/pages/:type`, async ({ params, request }) => {
+        const body = (await request.json()) as { layout: PageData['layout'] };
+        savedLayouts.push(body.layout);
+        await new Promise<void>((resolve) => {
+          releaseSave = resolve;
+        });
+        return HttpResponse.json(createPage(params.type as PageType, body.layout));
+      })
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  async function startSave(result: { current: ReturnType<typeof useWorkspace> }, keepHistory = false) {
+    let save!: Promise<void>;
+    act(() => {
+      save = result.current.saveLayout({ keepHistory });
+    });
+    await waitFor(() => expect(savedLayouts).toHaveLength(1));
+
+    return async () => {
+      await act(async () => {
+        releaseSave();
+        await save;
+      });
+    };
+  }
+
+  it('keeps edits made while a save is in flight', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    const finishSave = await startSave(result);
+    act(() => result.current.addComponent('Heading', 0));
+    await finishSave();
+
+    expect(result.current.currentLayout).toHaveLength(1);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.pages.find((page) => page.type === 'home')?.layout).toEqual([]);
+  });
+
+  it('keeps the page switched to while a save is in flight', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    const finishSave = await startSave(result);
+    act(() => result.current.setCurrentPageType('catalog'));
+    act(() => result.current.addComponent('Heading', 0));
+    await finishSave();
+
+    expect(result.current.currentPageType).toBe('catalog');
+    expect(result.current.currentLayout).toHaveLength(1);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+    expect(result.current.pages.find((page) => page.type === 'home')?.layout).toEqual([]);
+  });
+
+  it('sends hidden props pruned but keeps them in the working copy on autosave', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'Hello' }));
+    const finishSave = await startSave(result, true);
+    await finishSave();
+
+    expect(savedLayouts[0][0].props).not.toHaveProperty('backgroundImageUrl');
+    expect(result.current.currentLayout[0].props).toMatchObject({
+      text: 'Hello',
+      backgroundImageUrl: 'https://example.com/hero.jpg',
+    });
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('shows the stored layout after an explicit save', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'Hello' }));
+    const finishSave = await startSave(result);
+    await finishSave();
+
+    expect(result.current.currentLayout[0].props).not.toHaveProperty('backgroundImageUrl');
+    expect(result.current.hasUnsavedChanges).toBe(false);
+    expect(result.current.canUndo).toBe(false);
+  });
+});
+
+describe('WorkspaceContext duplicate and clipboard', () => {
+  const carouselComponent = {
+    id: '22222222-2222-4222-8222-222222222222',
+    type: 'ImageCarousel',
+    variant: 'default',
+    props: { slides: [{ imageUrl: 'https://example.com/1.jpg', title: 'First' }] },
+  };
+
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [headingComponent, carouselComponent]),
+            createPage('catalog'),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      )
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('inserts a deep copy with a new id right below the original', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.duplicateComponent(carouselComponent.id));
+
+    const [, original, copy] = result.current.currentLayout;
+    expect(original).toEqual(carouselComponent);
+    expect(copy.id).not.toBe(carouselComponent.id);
+    expect(copy).toEqual({ ...carouselComponent, id: copy.id });
+    expect(copy.props.slides).not.toBe(carouselComponent.props.slides);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout).toEqual([headingComponent, carouselComponent]);
+  });
+
+  it('pastes a copied component into another page', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.copyComponent(headingComponent.id));
+    act(() => result.current.setCurrentPageType('catalog'));
+    expect(result.current.clipboard).toEqual(headingComponent);
+
+    act(() => result.current.pasteComponent(0));
+
+    const [pasted] = result.current.currentLayout;
+    expect(pasted).toEqual({ ...headingComponent, id: pasted.id });
+    expect(pasted.id).not.toBe(headingComponent.id);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+  });
+
+  it('pastes the component as it was when copied', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.copyComponent(headingComponent.id));
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'Edited' }));
+    act(() => result.current.pasteComponent(2));
+    act(() => result.current.pasteComponent(3));
+
+    const [, , first, second] = result.current.currentLayout;
+    expect(first.props.text).toBe('Welcome');
+    expect(second.props.text).toBe('Welcome');
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('ignores paste with an empty clipboard', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.pasteComponent(0));
+
+    expect(result.current.currentLayout).toHaveLength(2);
+    expect(result.current.canUndo).toBe(false);
+  });
+});
+
+describe('WorkspaceContext variants', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [headingComponent]),
+            createPage('catalog'),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      )
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('adds new components with the default variant from their metadata', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('HeaderNavigation', 0));
+
+    expect(result.current.currentLayout[0].variant).toBe('static');
+  });
+
+  it('stores only the default config of new components, not canvas samples', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('ProductDetail', 0));
+    act(() => result.current.addComponent('ProductListGrid', 0));
+
+    expect(result.current.currentLayout[0].props).toEqual({ productsPerRow: 3 });
+    expect(result.current.currentLayout[1].props).toEqual({});
+  });
+
+  it('switches variant in place and fills the props it needs', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.setComponentVariant(headingComponent.id, 'background-color'));
+
+    const [heading] = result.current.currentLayout;
+    expect(heading.id).toBe(headingComponent.id);
+    expect(heading.variant).toBe('background-color');
+    expect(heading.props).toMatchObject({
+      text: 'Welcome',
+      textColor: '#ffffff',
+      backgroundColor: 'rgba(31, 41, 55, 1)',
+    });
+    expect(heading.props).not.toHaveProperty('variant');
+
+    act(() => result.current.undo());
+    expect(result.current.currentLayout).toEqual([headingComponent]);
+  });
+
+  it('switches the definition-level variant when the variant field is edited', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(headingComponent.id, { variant: 'background-color', text: 'Hi' }));
+
+    const [heading] = result.current.currentLayout;
+    expect(heading.variant).toBe('background-color');
+    expect(heading.props).toMatchObject({ text: 'Hi', backgroundColor: 'rgba(31, 41, 55, 1)' });
+    expect(heading.props).not.toHaveProperty('variant');
+  });
+
+  it('keeps props set for an earlier variant', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() =>
+      result.current.updateComponentProps(headingComponent.id, {
+        variant: 'background-color',
+        textColor: '#000000',
+      })
+    );
+    act(() => result.current.setComponentVariant(headingComponent.id, 'background-image'));
+
+    const [heading] = result.current.currentLayout;
+    expect(heading.props.textColor).toBe('#000000');
+    expect(heading.props.backgroundImageUrl).toBeDefined();
+  });
+});
+
+describe('WorkspaceContext schema migrations', () => {
+  const legacyPills = {
+    id: '22222222-2222-4222-8222-222222222222',
+    type: 'CategoryPills',
+    variant: 'center',
+    props: { variant: 'center', showAllOption: 'false' },
+  };
+
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [headingComponent]),
+            createPage('catalog', [legacyPills]),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      ),
+      http.post(`${API_URL}/api/pages/:type/reset`, ({ params }) =>
+        HttpResponse.json(createPage(params.type as PageType, [legacyPills]))
+      )
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('upgrades loaded layouts, keeping the variant on the definition only, without marking them as changed', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.setCurrentPageType('catalog'));
+
+    expect(result.current.currentLayout).toEqual([
+      { ...legacyPills, props: { showAllOption: false }, schemaVersion: 2 },
+    ]);
+    expect(result.current.hasUnsavedChanges).toBe(false);
+  });
+
+  it('upgrades the default layout after a reset', async () => {
+    const { result } = await renderWorkspace();
+
+    await act(() => result.current.resetLayout());
+
+    expect(result.current.currentLayout[0].props.showAllOption).toBe(false);
+  });
+
+  it('upgrades restored drafts', async () => {
+    saveDraft('home', [legacyPills]);
+
+    const { result } = await renderWorkspace();
+    await waitFor(() => expect(result.current.pendingDraft).not.toBeNull());
+    act(() => result.current.restoreDraft());
+
+    expect(result.current.currentLayout[0]).toMatchObject({ schemaVersion: 2, props: { showAllOption: false } });
+  });
+
+  it('stores the current schema version on new components', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('CategoryPills', 0));
+    act(() => result.current.addComponent('Heading', 0));
+
+    expect(result.current.currentLayout.map((component) => component.schemaVersion)).toEqual([1, 2, undefined]);
+  });
+});
+
+describe('WorkspaceContext nested containers', () => {
+  const columnsComponent = {
+    id: '33333333-3333-4333-8333-333333333333',
+    type: 'Columns',
+    variant: 'equal',
+    props: { columnCount: 2, gap: 'medium' },
+    slots: [[headingComponent], []],
+  };
+
+  const sectionWithoutSlots = {
+    id: '44444444-4444-4444-8444-444444444444',
+    type: 'Section',
+    variant: 'contained',
+    props: { paddingY: 'medium' },
+  };
+
+  const column = (slot: number) => ({ parentId: columnsComponent.id, slot });
+
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', token);
+
+    server.use(
+      http.get(`${API_URL}/api/pages`, () =>
+        HttpResponse.json({
+          pages: [
+            createPage('home', [columnsComponent]),
+            createPage('catalog', [sectionWithoutSlots]),
+            createPage('product'),
+            createPage('contact'),
+          ],
+        })
+      )
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('adds containers with an empty slot per column', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Columns', 1));
+    act(() => result.current.addComponent('Section', 0));
+
+    expect(result.current.currentLayout[0].slots).toEqual([[]]);
+    expect(result.current.currentLayout[2].slots).toEqual([[], []]);
+  });
+
+  it('adds components into a slot of a container', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Heading', 0, column(1)));
+
+    const [columns] = result.current.currentLayout;
+    expect(columns.slots?.[0]).toEqual([headingComponent]);
+    expect(columns.slots?.[1]).toMatchObject([{ type: 'Heading' }]);
+    expect(result.current.hasUnsavedChanges).toBe(true);
+  });
+
+  it('moves components between slots and out to the page', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.moveComponent(headingComponent.id, column(1), 0));
+    expect(result.current.currentLayout[0].slots).toEqual([[], [headingComponent]]);
+
+    act(() => result.current.moveComponent(headingComponent.id, ROOT_SLOT, 1));
+    expect(result.current.currentLayout).toEqual([{ ...columnsComponent, slots: [[], []] }, headingComponent]);
+
+    act(() => result.current.undo());
+    act(() => result.current.undo());
+    expect(result.current.currentLayout).toEqual([columnsComponent]);
+  });
+
+  it('reorders components within a slot', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.addComponent('Section', 1, column(0)));
+    act(() => result.current.reorderComponent(1, 0, column(0)));
+
+    expect(result.current.currentLayout[0].slots?.[0].map((component) => component.type)).toEqual([
+      'Section',
+      'Heading',
+    ]);
+  });
+
+  it('does not move a container into its own slots', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.moveComponent(columnsComponent.id, column(1), 0));
+
+    expect(result.current.currentLayout).toEqual([columnsComponent]);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('edits, duplicates and deletes nested components', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(headingComponent.id, { text: 'Nested' }));
+    expect(result.current.currentLayout[0].slots?.[0][0].props.text).toBe('Nested');
+
+    act(() => result.current.duplicateComponent(headingComponent.id));
+    const [original, copy] = result.current.currentLayout[0].slots?.[0] ?? [];
+    expect(original.id).toBe(headingComponent.id);
+    expect(copy).toEqual({ ...original, id: copy.id });
+    expect(copy.id).not.toBe(headingComponent.id);
+
+    act(() => result.current.deleteComponent(headingComponent.id));
+    expect(result.current.currentLayout[0].slots?.[0]).toEqual([copy]);
+  });
+
+  it('gives the children of duplicated containers new ids', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.duplicateComponent(columnsComponent.id));
+
+    const [, copy] = result.current.currentLayout;
+    expect(copy.id).not.toBe(columnsComponent.id);
+    expect(copy.slots?.[0][0]).toEqual({ ...headingComponent, id: copy.slots?.[0][0].id });
+    expect(copy.slots?.[0][0].id).not.toBe(headingComponent.id);
+  });
+
+  it('pastes into a slot of a container', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.copyComponent(headingComponent.id));
+    act(() => result.current.pasteComponent(0, column(1)));
+
+    const [pasted] = result.current.currentLayout[0].slots?.[1] ?? [];
+    expect(pasted).toEqual({ ...headingComponent, id: pasted.id });
+  });
+
+  it('moves the components of removed columns into the last remaining one', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.updateComponentProps(columnsComponent.id, { columnCount: 3 }));
+    expect(result.current.currentLayout[0].slots).toHaveLength(3);
+
+    act(() => result.current.addComponent('Section', 0, column(2)));
+    act(() => result.current.updateComponentProps(columnsComponent.id, { columnCount: 2 }));
+
+    const slots = result.current.currentLayout[0].slots ?? [];
+    expect(slots).toHaveLength(2);
+    expect(slots[1]).toMatchObject([{ type: 'Section' }]);
+  });
+
+  it('gives loaded containers the slots their props ask for', async () => {
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.setCurrentPageType('catalog'));
+
+    expect(result.current.currentLayout).toEqual([{ ...sectionWithoutSlots, slots: [[]] }]);
+    expect(result.current.hasUnsavedChanges).toBe(false);
+  });
+  it('gives saved containers the slots their props ask for', async () => {
+    // The stored layout comes back without the empty slots that were sent
+    server.use(
+      http.put(`${API_URL}/api/pages/:type`, async ({ params, request }) => {
+        const body = (await request.json()) as { layout: PageData['layout'] };
+        const stored = body.layout.map((component) => ({ ...component, slots: undefined }));
+        return HttpResponse.json(createPage(params.type as PageType, stored));
+      })
+    );
+    const { result } = await renderWorkspace();
+
+    act(() => result.current.setCurrentPageType('catalog'));
+    act(() => result.current.updateComponentProps(sectionWithoutSlots.id, { paddingY: 'large' }));
+    await act(() => result.current.saveLayout());
+
+    expect(result.current.currentLayout[0].slots).toEqual([[]]);
+    expect(result.current.pages.find((page) => page.type === 'catalog')?.layout[0].slots).toEqual([[]]);
+    expect(result.current.hasUnsavedChanges).toBe(false);
+  });
+});
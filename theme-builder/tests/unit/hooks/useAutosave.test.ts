@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAutosave, AUTOSAVE_DELAY_MS, type UseAutosaveOptions } from '@/hooks/useAutosave';
+
+function renderAutosave(initialProps: UseAutosaveOptions) {
+  return renderHook((props: UseAutosaveOptions) => useAutosave(props), { initialProps });
+}
+
+describe('useAutosave', () => {
+  let save: ReturnType<typeof vi.fn<() => Promise<void>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    save = vi.fn<() => Promise<void>>().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does nothing when disabled', () => {
+    const { result } = renderAutosave({
+      enabled: false,
+      hasUnsavedChanges: true,
+      layout: [],
+      isBusy: false,
+      save,
+    });
+
+    act(() => vi.advanceTimersByTime(AUTOSAVE_DELAY_MS * 2));
+
+    expect(save).not.toHaveBeenCalled();
+    expect(result.current).toBe('idle');
+  });
+
+  it('saves once edits have settled', async () => {
+    const options = { enabled: true, hasUnsavedChanges: true, isBusy: false, save };
+    const { result, rerender } = renderAutosave({ ...options, layout: ['a'] });
+    expect(result.current).toBe('pending');
+
+    act(() => vi.advanceTimersByTime(AUTOSAVE_DELAY_MS - 100));
+    rerender({ ...options, layout: ['a', 'b'] });
+    act(() => vi.advanceTimersByTime(AUTOSAVE_DELAY_MS - 100));
+    expect(save).not.toHaveBeenCalled();
+
+    await act(() => vi.advanceTimersByTimeAsync(100));
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(result.current).toBe('saved');
+  });
+
+  it('waits while another save is in flight', () => {
+    renderAutosave({ enabled: true, hasUnsavedChanges: true, layout: [], isBusy: true, save });
+
+    act(() => vi.advanceTimersByTime(AUTOSAVE_DELAY_MS * 2));
+
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('reports failed saves', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    save.mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderAutosave({
+      enabled: true,
+      hasUnsavedChanges: true,
+      layout: [],
+      isBusy: false,
+      save,
+    });
+
+    await act(() => vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS));
+
+    expect(result.current).toBe('error');
+  });
+
+  it('goes back to idle when changes are undone before saving', () => {
+    const options = { enabled: true, layout: [], isBusy: false, save };
+    const { result, rerender } = renderAutosave({ ...options, hasUnsavedChanges: true });
+
+    rerender({ ...options, hasUnsavedChanges: false });
+    act(() => vi.advanceTimersByTime(AUTOSAVE_DELAY_MS));
+
+    expect(save).not.toHaveBeenCalled();
+    expect(result.current).toBe('idle');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  RECENT_COMPONENTS_LIMIT,
+  addRecentComponent,
+  loadCollapsedCategories,
+  loadFavoriteComponents,
+  loadRecentComponents,
+  saveCollapsedCategories,
+  saveFavoriteComponents,
+} from '@/lib/componentLibraryStorage';
+
+describe('componentLibraryStorage', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('moves used components to the front of the recent list', () => {
+    addRecentComponent('Heading');
+    addRecentComponent('TextSection');
+    const recent = addRecentComponent('Heading');
+
+    expect(recent).toEqual(['Heading', 'TextSection']);
+    expect(loadRecentComponents()).toEqual(['Heading', 'TextSection']);
+  });
+
+  it('keeps a limited number of recent components', () => {
+    for (let i = 0; i < RECENT_COMPONENTS_LIMIT + 2; i++) {
+      addRecentComponent(`Component${i}`);
+    }
+
+    const recent = loadRecentComponents();
+    expect(recent).toHaveLength(RECENT_COMPONENTS_LIMIT);
+    expect(recent[0]).toBe(`Component${RECENT_COMPONENTS_LIMIT + 1}`);
+  });
+
+  it('persists favorites and collapsed categories', () => {
+    saveFavoriteComponents(['ProductListGrid']);
+    saveCollapsedCategories(['Navigation']);
+
+    expect(loadFavoriteComponents()).toEqual(['ProductListGrid']);
+    expect(loadCollapsedCategories()).toEqual(['Navigation']);
+  });
+
+  it('ignores corrupt entries', () => {
+    localStorage.setItem('componentLibrary:favorites', '{not json');
+    localStorage.setItem('componentLibrary:recent', JSON.stringify({ type: 'Heading' }));
+
+    expect(loadFavoriteComponents()).toEqual([]);
+    expect(loadRecentComponents()).toEqual([]);
+  });
+});
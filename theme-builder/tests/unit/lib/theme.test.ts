@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_THEME_SETTINGS,
+  getComponentTheme,
+  getDefaultPreviewScheme,
+  getThemeCssVariables,
+  getThemeStyle,
+  isHexColor,
+} from '@/lib/theme';
+
+describe('theme', () => {
+  describe('getThemeCssVariables', () => {
+    it('exposes colors, fonts and spacing under the demo shop variable names', () => {
+      const variables = getThemeCssVariables({
+        ...DEFAULT_THEME_SETTINGS,
+        primaryColor: '#111111',
+        headingFont: 'Playfair Display',
+        baseSpacing: 12,
+      });
+
+      expect(variables).toMatchObject({
+        '--color-primary': '#111111',
+        '--color-secondary': DEFAULT_THEME_SETTINGS.secondaryColor,
+        '--color-accent': DEFAULT_THEME_SETTINGS.accentColor,
+        '--font-heading': '"Playfair Display Variable", "Playfair Display", ui-serif, Georgia, serif',
+        '--font-body': '"Inter Variable", "Inter", ui-sans-serif, system-ui, sans-serif',
+        '--spacing-base': '12px',
+      });
+    });
+
+    it('exposes the tonal scale of each color', () => {
+      const variables = getThemeCssVariables(DEFAULT_THEME_SETTINGS);
+
+      expect(variables['--color-primary-50']).toMatch(/^#[0-9a-f]{6}$/);
+      expect(variables['--color-secondary-600']).toMatch(/^#[0-9a-f]{6}$/);
+      expect(variables['--color-accent-950']).toMatch(/^#[0-9a-f]{6}$/);
+    });
+
+    it('exposes the type scale', () => {
+      const variables = getThemeCssVariables({
+        ...DEFAULT_THEME_SETTINGS,
+        baseFontSize: 18,
+        typeScaleRatio: 1.2,
+        bodyLineHeight: 1.75,
+      });
+
+      expect(variables).toMatchObject({
+        '--font-size-body': '18px',
+        '--font-size-h1': '37.32px',
+        '--line-height-body': '1.75',
+        '--letter-spacing-heading': '0em',
+      });
+    });
+  });
+
+  describe('getThemeStyle', () => {
+    it('applies the page colors of the given scheme', () => {
+      const settings = {
+        ...DEFAULT_THEME_SETTINGS,
+        darkScheme: { ...DEFAULT_THEME_SETTINGS.darkScheme, background: '#000000' },
+      };
+
+      expect(getThemeStyle(settings)).toMatchObject({
+        '--color-background': DEFAULT_THEME_SETTINGS.lightScheme.background,
+        colorScheme: 'light',
+      });
+      expect(getThemeStyle(settings, 'dark')).toMatchObject({
+        '--color-background': '#000000',
+        backgroundColor: 'var(--color-background)',
+        colorScheme: 'dark',
+      });
+    });
+
+    it('applies the body font to the themed subtree', () => {
+      expect(getThemeStyle(DEFAULT_THEME_SETTINGS)).toMatchObject({
+        '--color-primary': DEFAULT_THEME_SETTINGS.primaryColor,
+        fontFamily: 'var(--font-body)',
+      });
+    });
+  });
+
+  describe('getComponentTheme', () => {
+    it('provides the settings with the page colors of the given scheme', () => {
+      const theme = getComponentTheme({ ...DEFAULT_THEME_SETTINGS, headingFont: 'Lato' }, 'dark');
+
+      expect(theme.colors.primary).toBe(DEFAULT_THEME_SETTINGS.primaryColor);
+      expect(theme.colorScheme).toBe('dark');
+      expect(theme.schemeColors).toEqual(DEFAULT_THEME_SETTINGS.darkScheme);
+      expect(theme.fonts).toEqual({ heading: 'Lato', body: 'Inter' });
+      expect(theme.typeScale.baseSize).toBe(DEFAULT_THEME_SETTINGS.baseFontSize);
+    });
+  });
+
+  describe('getDefaultPreviewScheme', () => {
+    it('previews light for themes that follow the device', () => {
+      expect(getDefaultPreviewScheme('dark')).toBe('dark');
+      expect(getDefaultPreviewScheme('auto')).toBe('light');
+    });
+  });
+
+  describe('isHexColor', () => {
+    it('accepts short and long hex colors only', () => {
+      expect(isHexColor('#abc')).toBe(true);
+      expect(isHexColor('#AABBCC')).toBe(true);
+      expect(isHexColor('abc')).toBe(false);
+      expect(isHexColor('rgb(0, 0, 0)')).toBe(false);
+    });
+  });
+});
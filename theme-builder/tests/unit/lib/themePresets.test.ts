@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  THEME_PRESETS,
+  deleteCustomPreset,
+  loadCustomPresets,
+  matchesPreset,
+  saveCustomPreset,
+} from '@/lib/themePresets';
+import { DEFAULT_THEME_SETTINGS } from '@/lib/theme';
+
+function createToken(sub: string, shopId: string): string {
+  return `header.${btoa(JSON.stringify({ sub, shopId }))}.signature`;
+}
+
+describe('themePresets', () => {
+  beforeEach(() => {
+    localStorage.setItem('jwt_token', createToken('user-1', 'shop-1'));
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('fills every theme setting in each curated preset', () => {
+    const settingKeys = Object.keys(DEFAULT_THEME_SETTINGS).sort();
+
+    THEME_PRESETS.forEach((preset) => {
+      expect(Object.keys(preset.settings).sort()).toEqual(settingKeys);
+    });
+  });
+
+  it('saves and loads custom presets', () => {
+    const presets = saveCustomPreset('  Summer sale ', DEFAULT_THEME_SETTINGS);
+
+    expect(presets).toHaveLength(1);
+    expect(presets[0].name).toBe('Summer sale');
+    expect(loadCustomPresets()).toEqual(presets);
+  });
+
+  it('replaces a custom preset with the same name', () => {
+    const [first] = saveCustomPreset('Summer', DEFAULT_THEME_SETTINGS);
+    const presets = saveCustomPreset('summer', { ...DEFAULT_THEME_SETTINGS, baseSpacing: 12 });
+
+    expect(presets).toHaveLength(1);
+    expect(presets[0].id).toBe(first.id);
+    expect(presets[0].settings.baseSpacing).toBe(12);
+  });
+
+  it('deletes custom presets', () => {
+    const [preset] = saveCustomPreset('Summer', DEFAULT_THEME_SETTINGS);
+
+    expect(deleteCustomPreset(preset.id)).toEqual([]);
+    expect(loadCustomPresets()).toEqual([]);
+  });
+
+  it('shares custom presets between shops of the same user', () => {
+    saveCustomPreset('Summer', DEFAULT_THEME_SETTINGS);
+
+    localStorage.setItem('jwt_token', createToken('user-1', 'shop-2'));
+    expect(loadCustomPresets()).toHaveLength(1);
+
+    localStorage.setItem('jwt_token', createToken('user-2', 'shop-3'));
+    expect(loadCustomPresets()).toEqual([]);
+  });
+
+  it('ignores corrupt stored presets', () => {
+    localStorage.setItem('themePresets:custom:user-1', '[{"id":"x","name":"Bad","settings":{}}]');
+
+    expect(loadCustomPresets()).toEqual([]);
+  });
+
+  it('gives presets saved before typography settings the default type scale', () => {
+    const { primaryColor, secondaryColor, accentColor, headingFont, bodyFont, baseSpacing } = DEFAULT_THEME_SETTINGS;
+    localStorage.setItem(
+      'themePresets:custom:user-1',
+      JSON.stringify([
+        {
+          id: 'old',
+          name: 'Old',
+          settings: { primaryColor, secondaryColor, accentColor, headingFont, bodyFont, baseSpacing },
+        },
+      ])
+    );
+
+    const [preset] = loadCustomPresets();
+
+    expect(preset.settings).toEqual(DEFAULT_THEME_SETTINGS);
+    expect(matchesPreset(DEFAULT_THEME_SETTINGS, preset)).toBe(true);
+  });
+
+  it('matches settings against a preset', () => {
+    const [minimal] = THEME_PRESETS;
+
+    expect(matchesPreset({ ...minimal.settings }, minimal)).toBe(true);
+    expect(matchesPreset({ ...minimal.settings, baseSpacing: 4 }, minimal)).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  saveDraft,
+  loadDraft,
+  clearDraft,
+  findRestorableDraft,
+  loadAutosavePreference,
+  saveAutosavePreference,
+} from '@/lib/workspaceStorage';
+import type { ComponentDefinition, PageData } from '@/types/api';
+
+const layout: ComponentDefinition[] = [
+  {
+    id: '11111111-1111-4111-8111-111111111111',
+    type: 'Heading',
+    variant: 'text-only',
+    props: { text: 'Draft heading' },
+  },
+];
+
+function createJWT(payload: Record<string, unknown>): string {
+  return `header.${btoa(JSON.stringify(payload))}.signature`;
+}
+
+function createPage(updatedAt: string, pageLayout: ComponentDefinition[] = []): PageData {
+  return {
+    type: 'home',
+    layout: pageLayout,
+    created_at: '2025-01-01T00:00:00+00:00',
+    updated_at: updatedAt,
+  };
+}
+
+describe('workspaceStorage', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('drafts', () => {
+    it('saves and loads a draft per page type', () => {
+      saveDraft('home', layout);
+
+      expect(loadDraft('home')?.layout).toEqual(layout);
+      expect(loadDraft('catalog')).toBeNull();
+    });
+
+    it('clears a draft', () => {
+      saveDraft('home', layout);
+      clearDraft('home');
+
+      expect(loadDraft('home')).toBeNull();
+    });
+
+    it('ignores corrupt drafts', () => {
+      saveDraft('home', layout);
+      const key = Object.keys(localStorage).find((k) => k.startsWith('workspace:draft:'))!;
+      localStorage.setItem(key, '{"layout":"oops"');
+
+      expect(loadDraft('home')).toBeNull();
+    });
+
+    it('scopes drafts to the logged-in user', () => {
+      localStorage.setItem('jwt_token', createJWT({ sub: 'user-1' }));
+      saveDraft('home', layout);
+
+      localStorage.setItem('jwt_token', createJWT({ sub: 'user-2' }));
+      expect(loadDraft('home')).toBeNull();
+
+      localStorage.setItem('jwt_token', createJWT({ sub: 'user-1' }));
+      expect(loadDraft('home')?.layout).toEqual(layout);
+    });
+  });
+
+  describe('findRestorableDraft()', () => {
+    it('returns a draft newer than the server layout', () => {
+      saveDraft('home', layout);
+
+      const draft = findRestorableDraft(createPage('2000-01-01T00:00:00+00:00'));
+
+      expect(draft?.layout).toEqual(layout);
+    });
+
+    it('discards drafts older than the server layout', () => {
+      saveDraft('home', layout);
+
+      expect(findRestorableDraft(createPage('2999-01-01T00:00:00+00:00'))).toBeNull();
+      expect(loadDraft('home')).toBeNull();
+    });
+
+    it('discards drafts identical to the server layout', () => {
+      saveDraft('home', layout);
+
+      expect(findRestorableDraft(createPage('2000-01-01T00:00:00+00:00', layout))).toBeNull();
+      expect(loadDraft('home')).toBeNull();
+    });
+  });
+
+  describe('autosave preference', () => {
+    it('is disabled by default', () => {
+      expect(loadAutosavePreference()).toBe(false);
+    });
+
+    it('persists the preference', () => {
+      saveAutosavePreference(true);
+      expect(loadAutosavePreference()).toBe(true);
+
+      saveAutosavePreference(false);
+      expect(loadAutosavePreference()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { defineComponent, sharedComponentRegistry } from '@shared/registry';
+import { Heading, HeadingPropsSchema } from '@shared/components/Heading';
+import type { ComponentMeta } from '@shared/types';
+import { componentRegistry } from '@/lib/componentRegistry';
+
+const shopId = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('sharedComponentRegistry', () => {
+  it('registers every component of the page layouts, including ProductDetail', () => {
+    expect(Object.keys(sharedComponentRegistry)).toEqual([
+      'Heading',
+      'TextSection',
+      'HeaderNavigation',
+      'CategoryPills',
+      'ProductListGrid',
+      'ProductDetail',
+      'Section',
+      'Columns',
+    ]);
+  });
+
+  it('gives containers a slot count following their props', () => {
+    const { Section, Columns, Heading: heading } = sharedComponentRegistry;
+
+    expect(Section.getSlotCount?.({ ...Section.meta.defaultConfig })).toBe(1);
+    expect(Columns.getSlotCount?.({ ...Columns.meta.defaultConfig })).toBe(2);
+    expect(Columns.getSlotCount?.({ columnCount: 4 })).toBe(4);
+    expect(heading.getSlotCount).toBeUndefined();
+  });
+
+  it('starts every component with a default variant it offers', () => {
+    Object.values(sharedComponentRegistry).forEach(({ meta }) => {
+      expect(meta.variants.map((variant) => variant.value)).toContain(meta.defaultVariant);
+    });
+  });
+
+  it('derives the editor registry, whose canvas props satisfy each schema', () => {
+    expect(Object.keys(componentRegistry)).toEqual(Object.keys(sharedComponentRegistry));
+
+    Object.entries(componentRegistry).forEach(([type, entry]) => {
+      const result = entry.meta.propsSchema.safeParse({ shopId, ...entry.previewProps, ...entry.defaultProps });
+      expect(result.success, `${type}: ${result.error?.message}`).toBe(true);
+    });
+  });
+
+  describe('defineComponent', () => {
+    it('rejects a default config the schema does not accept', () => {
+      const meta: ComponentMeta<{ level: 'h4' }> = {
+        displayName: 'Broken Heading',
+        description: 'Heading with an unsupported level',
+        editableFields: [],
+        variants: [],
+        defaultVariant: 'text-only',
+        defaultConfig: { level: 'h4' },
+      };
+
+      const registration = defineComponent({
+        Component: Heading,
+        // @ts-expect-error h4 is not a level of the Heading schema
+        meta,
+        propsSchema: HeadingPropsSchema,
+        category: 'Content',
+        icon: 'Heading',
+        runtimeDefaults: {},
+      });
+
+      expect(registration.propsSchema.safeParse({ ...registration.meta.defaultConfig }).success).toBe(false);
+    });
+  });
+});
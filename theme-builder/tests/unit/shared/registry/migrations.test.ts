@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  componentMigrations,
+  getSchemaVersion,
+  migrateComponent,
+  migrateLayout,
+  sharedComponentRegistry,
+  type ComponentMigrationRegistry,
+} from '@shared/registry';
+import { migrations as categoryPillsMigrations } from '@shared/components/CategoryPills';
+import { migrations as productListGridMigrations } from '@shared/components/ProductListGrid';
+
+describe('component migrations', () => {
+  it('numbers the steps of every component type consecutively from 2', () => {
+    Object.entries(componentMigrations).forEach(([type, migrations]) => {
+      expect(Object.keys(sharedComponentRegistry), type).toContain(type);
+      expect(migrations.map((migration) => migration.version)).toEqual(
+        migrations.map((_, index) => index + 2)
+      );
+    });
+  });
+
+  describe('CategoryPills', () => {
+    const [toVersion2] = categoryPillsMigrations;
+
+    it('v2 turns the string values of the former select into booleans', () => {
+      expect(toVersion2.migrate({ variant: 'left', props: { showAllOption: 'false' } })).toEqual({
+        variant: 'left',
+        props: { showAllOption: false },
+      });
+      expect(toVersion2.migrate({ variant: 'left', props: { showAllOption: 'true' } }).props).toEqual({
+        showAllOption: true,
+      });
+    });
+
+    it('v2 keeps boolean and missing values', () => {
+      const component = { variant: 'center', props: { variant: 'center', showAllOption: false } };
+
+      expect(toVersion2.migrate(component)).toEqual(component);
+      expect(toVersion2.migrate({ variant: 'center', props: {} })).toEqual({ variant: 'center', props: {} });
+    });
+  });
+
+  describe('ProductListGrid', () => {
+    const [toVersion2] = productListGridMigrations;
+
+    it('v2 turns the string values of the former select into numbers', () => {
+      expect(toVersion2.migrate({ variant: '4', props: { productsPerRow: '4' } })).toEqual({
+        variant: '4',
+        props: { productsPerRow: 4 },
+      });
+    });
+
+    it('v2 falls back to the default for strings that are no number', () => {
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: 'many' } }).props).toEqual({
+        productsPerRow: 3,
+      });
+    });
+
+    it('v2 falls back to the default for blank strings', () => {
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: '' } }).props).toEqual({ productsPerRow: 3 });
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: ' ' } }).props).toEqual({ productsPerRow: 3 });
+    });
+
+    it('v2 falls back to the default for numbers the select never offered', () => {
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: '5' } }).props).toEqual({ productsPerRow: 3 });
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: '0' } }).props).toEqual({ productsPerRow: 3 });
+    });
+
+    it('v2 reads values with surrounding whitespace', () => {
+      expect(toVersion2.migrate({ variant: '4', props: { productsPerRow: ' 4 ' } }).props).toEqual({ productsPerRow: 4 });
+    });
+
+    it('v2 keeps number and missing values', () => {
+      expect(toVersion2.migrate({ variant: '3', props: { productsPerRow: 3 } }).props).toEqual({ productsPerRow: 3 });
+      expect(toVersion2.migrate({ variant: '3', props: {} }).props).toEqual({});
+    });
+  });
+
+  describe('migrateComponent', () => {
+    const registry: ComponentMigrationRegistry = {
+      TextSection: [
+        {
+          version: 2,
+          description: 'columnCount renamed to count',
+          migrate: ({ variant, props: { columnCount, ...props } }) => ({
+            variant,
+            props: { ...props, count: columnCount },
+          }),
+        },
+        {
+          version: 3,
+          description: 'plain variant renamed',
+          migrate: ({ variant, props }) => ({
+            variant: variant === 'plain' ? 'text-only' : variant,
+            props: { ...props, variant: variant === 'plain' ? 'text-only' : variant },
+          }),
+        },
+      ],
+    };
+
+    const legacy = { id: 'text', type: 'TextSection', variant: 'plain', props: { columnCount: 2 } };
+
+    it('runs every pending step in order and stores the new version', () => {
+      expect(migrateComponent(legacy, registry)).toEqual({
+        id: 'text',
+        type: 'TextSection',
+        variant: 'text-only',
+        props: { count: 2, variant: 'text-only' },
+        schemaVersion: 3,
+      });
+    });
+
+    it('skips the steps a component already went through', () => {
+      const atVersion2 = { ...legacy, props: { count: 2 }, schemaVersion: 2 };
+
+      expect(migrateComponent(atVersion2, registry)).toMatchObject({ props: { count: 2 }, schemaVersion: 3 });
+    });
+
+    it('returns current, newer and unknown components as they are', () => {
+      const current = { ...legacy, schemaVersion: 3 };
+      const newer = { ...legacy, schemaVersion: 7 };
+      const unknown = { ...legacy, type: 'Carousel' };
+
+      expect(migrateComponent(current, registry)).toBe(current);
+      expect(migrateComponent(newer, registry)).toBe(newer);
+      expect(migrateComponent(unknown, registry)).toBe(unknown);
+    });
+  });
+
+  describe('migrateLayout', () => {
+    it('upgrades stored layouts to props the schemas accept', () => {
+      const [pills, grid] = migrateLayout([
+        { id: 'pills', type: 'CategoryPills', variant: 'left', props: { variant: 'left', showAllOption: 'true' } },
+        { id: 'grid', type: 'ProductListGrid', variant: '6', props: { productsPerRow: '6' } },
+      ]);
+
+      expect(
+        sharedComponentRegistry.CategoryPills.propsSchema.safeParse({
+          ...sharedComponentRegistry.CategoryPills.runtimeDefaults,
+          ...pills.props,
+        }).success
+      ).toBe(true);
+      expect(
+        sharedComponentRegistry.ProductListGrid.propsSchema.safeParse({
+          ...sharedComponentRegistry.ProductListGrid.runtimeDefaults,
+          ...grid.props,
+        }).success
+      ).toBe(true);
+    });
+
+    it('upgrades the child layouts of containers', () => {
+      const [section] = migrateLayout([
+        {
+          id: 'section',
+          type: 'Section',
+          variant: 'contained',
+          props: { variant: 'contained', paddingY: 'medium' },
+          slots: [[{ id: 'grid', type: 'ProductListGrid', variant: '4', props: { productsPerRow: '4' } }]],
+        },
+      ]);
+
+      expect(section.slots?.[0][0]).toMatchObject({ props: { productsPerRow: 4 }, schemaVersion: 2 });
+    });
+  });
+
+  describe('getSchemaVersion', () => {
+    it('is the version of the latest step, or 1 without migrations', () => {
+      expect(getSchemaVersion('CategoryPills')).toBe(2);
+      expect(getSchemaVersion('Heading')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_THEME, ThemeProvider, createTheme, useTheme } from '@shared/theme';
+import { DEFAULT_SCHEME_COLORS, DEFAULT_THEME_COLORS, DEFAULT_TYPE_SCALE } from '@shared/utils';
+
+function ThemeProbe() {
+  const theme = useTheme();
+  return (
+    <span data-testid="probe" data-primary={theme.colors.primary} data-scheme={theme.colorScheme}>
+      {theme.schemeColors.background}
+    </span>
+  );
+}
+
+describe('ThemeProvider', () => {
+  describe('createTheme', () => {
+    it('fills everything the shop never set with the defaults', () => {
+      expect(createTheme()).toEqual({
+        colors: DEFAULT_THEME_COLORS,
+        colorScheme: 'light',
+        schemeColors: DEFAULT_SCHEME_COLORS.light,
+        fonts: { heading: 'Inter', body: 'Inter' },
+        typeScale: DEFAULT_TYPE_SCALE,
+        baseSpacing: 8,
+      });
+    });
+
+    it('defaults the page colors to those of the chosen scheme', () => {
+      const theme = createTheme({ colorScheme: 'dark', schemeColors: { text: '#ffffff' } });
+
+      expect(theme.schemeColors).toEqual({ ...DEFAULT_SCHEME_COLORS.dark, text: '#ffffff' });
+    });
+
+    it('ignores values that are explicitly unset', () => {
+      const theme = createTheme({
+        colors: { primary: '#123456', secondary: undefined },
+        fonts: { heading: undefined },
+        typeScale: { baseSize: undefined },
+      });
+
+      expect(theme.colors).toEqual({ ...DEFAULT_THEME_COLORS, primary: '#123456' });
+      expect(theme.fonts.heading).toBe('Inter');
+      expect(theme.typeScale.baseSize).toBe(DEFAULT_TYPE_SCALE.baseSize);
+    });
+  });
+
+  describe('useTheme', () => {
+    it('returns the default theme without a provider', () => {
+      render(<ThemeProbe />);
+
+      expect(screen.getByTestId('probe')).toHaveAttribute('data-primary', DEFAULT_THEME.colors.primary);
+    });
+
+    it('returns the theme of the nearest provider', () => {
+      render(
+        <ThemeProvider theme={createTheme({ colors: { primary: '#123456' } })}>
+          <ThemeProvider theme={createTheme({ colors: { primary: '#abcdef' }, colorScheme: 'dark' })}>
+            <ThemeProbe />
+          </ThemeProvider>
+        </ThemeProvider>
+      );
+
+      const probe = screen.getByTestId('probe');
+      expect(probe).toHaveAttribute('data-primary', '#abcdef');
+      expect(probe).toHaveAttribute('data-scheme', 'dark');
+      expect(probe).toHaveTextContent(DEFAULT_SCHEME_COLORS.dark.background);
+    });
+  });
+});
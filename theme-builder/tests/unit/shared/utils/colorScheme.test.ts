@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCHEME_COLORS,
+  getColorSchemeStyleSheet,
+  getSchemeCssVariables,
+  isColorSchemePreference,
+  resolveColorScheme,
+} from '@shared/utils';
+
+describe('colorScheme', () => {
+  describe('resolveColorScheme', () => {
+    it('follows the device only for auto', () => {
+      expect(resolveColorScheme('auto', true)).toBe('dark');
+      expect(resolveColorScheme('auto', false)).toBe('light');
+      expect(resolveColorScheme('light', true)).toBe('light');
+      expect(resolveColorScheme('dark', false)).toBe('dark');
+    });
+  });
+
+  describe('isColorSchemePreference', () => {
+    it('accepts the three preferences only', () => {
+      expect(isColorSchemePreference('auto')).toBe(true);
+      expect(isColorSchemePreference('sepia')).toBe(false);
+      expect(isColorSchemePreference(undefined)).toBe(false);
+    });
+  });
+
+  describe('getSchemeCssVariables', () => {
+    it('uses the variable names of the component styles', () => {
+      expect(getSchemeCssVariables(DEFAULT_SCHEME_COLORS.light)).toEqual({
+        '--color-background': '#ffffff',
+        '--color-surface': '#f9fafb',
+        '--color-text': '#111827',
+        '--color-text-secondary': '#4b5563',
+        '--color-border': '#d1d5db',
+      });
+    });
+  });
+
+  describe('getColorSchemeStyleSheet', () => {
+    const schemes = {
+      light: { '--color-background': '#ffffff' },
+      dark: { '--color-background': '#000000' },
+    };
+
+    it('applies a fixed scheme directly', () => {
+      expect(getColorSchemeStyleSheet(':root', 'dark', schemes)).toBe(
+        ':root { --color-background: #000000; color-scheme: dark; }'
+      );
+    });
+
+    it('switches to the dark scheme with a media query for auto', () => {
+      expect(getColorSchemeStyleSheet(':root', 'auto', schemes)).toBe(
+        ':root { --color-background: #ffffff; color-scheme: light; }\n' +
+          '@media (prefers-color-scheme: dark) { :root { --color-background: #000000; color-scheme: dark; } }'
+      );
+    });
+
+    it('drops values that could break out of the style sheet', () => {
+      const styleSheet = getColorSchemeStyleSheet(':root', 'light', {
+        ...schemes,
+        light: { '--color-background': 'red; } </style><script>' },
+      });
+
+      expect(styleSheet).toBe(':root { color-scheme: light; }');
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { fitSlots } from '@shared/utils';
+
+describe('fitSlots', () => {
+  it('adds empty slots up to the count', () => {
+    expect(fitSlots(undefined, 2)).toEqual([[], []]);
+    expect(fitSlots([['a']], 3)).toEqual([['a'], [], []]);
+  });
+
+  it('keeps slots that already fit', () => {
+    expect(fitSlots([['a'], ['b']], 2)).toEqual([['a'], ['b']]);
+  });
+
+  it('moves the children of surplus slots into the last remaining one', () => {
+    expect(fitSlots([['a'], ['b'], ['c', 'd'], []], 2)).toEqual([['a'], ['b', 'c', 'd']]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { PALETTE_STEPS, generateTonalPalette, getPaletteCssVariables } from '@shared/utils';
+import { getContrastRatio } from '@/utils/contrast';
+
+describe('palette', () => {
+  describe('generateTonalPalette', () => {
+    it('generates a hex color for every step', () => {
+      const palette = generateTonalPalette('#3b82f6')!;
+
+      expect(Object.keys(palette).map(Number)).toEqual([...PALETTE_STEPS]);
+      Object.values(palette).forEach((color) => expect(color).toMatch(/^#[0-9a-f]{6}$/));
+    });
+
+    it('keeps the brand color at the step closest to its lightness', () => {
+      expect(generateTonalPalette('#3B82F6')![500]).toBe('#3b82f6');
+      expect(generateTonalPalette('#111827')![950]).toBe('#111827');
+    });
+
+    it('gets darker with every step', () => {
+      ['#3b82f6', '#f59e0b', '#10b981', '#d4af37'].forEach((color) => {
+        const palette = generateTonalPalette(color)!;
+        const contrastWithWhite = PALETTE_STEPS.map((step) => getContrastRatio(palette[step], '#ffffff')!);
+
+        contrastWithWhite.slice(1).forEach((ratio, index) => {
+          expect(ratio).toBeGreaterThan(contrastWithWhite[index]);
+        });
+      });
+    });
+
+    it('expands short hex colors', () => {
+      expect(generateTonalPalette('#fff')).not.toBeNull();
+    });
+
+    it('returns null for values that are not hex colors', () => {
+      expect(generateTonalPalette('rgba(0, 0, 0, 1)')).toBeNull();
+      expect(generateTonalPalette('blue')).toBeNull();
+    });
+  });
+
+  describe('getPaletteCssVariables', () => {
+    it('names variables after the color and step', () => {
+      const variables = getPaletteCssVariables('primary', '#3b82f6');
+
+      expect(Object.keys(variables)).toEqual(PALETTE_STEPS.map((step) => `--color-primary-${step}`));
+      expect(variables['--color-primary-500']).toBe('#3b82f6');
+    });
+
+    it('returns no variables for invalid colors', () => {
+      expect(getPaletteCssVariables('primary', 'blue')).toEqual({});
+    });
+  });
+});
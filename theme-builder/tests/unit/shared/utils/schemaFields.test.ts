@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { getSchemaFields } from '@shared/utils/schemaFields';
+import { HeadingPropsSchema } from '@shared/components/Heading';
+import { TextSectionPropsSchema } from '@shared/components/TextSection';
+import { CategoryPillsPropsSchema } from '@shared/components/CategoryPills';
+import { ProductListGridPropsSchema } from '@shared/components/ProductListGrid';
+import { sharedComponentRegistry } from '@shared/registry';
+
+describe('getSchemaFields', () => {
+  it('reads types and constraints of scalar props from the schema', () => {
+    const [text, height] = getSchemaFields(HeadingPropsSchema, [
+      { name: 'text', label: 'Heading Text', description: 'The heading text' },
+      { name: 'height', label: 'Height (px)', default: 300 },
+    ]);
+
+    expect(text).toEqual({
+      name: 'text',
+      label: 'Heading Text',
+      description: 'The heading text',
+      type: 'text',
+      required: true,
+      maxLength: 500,
+    });
+    expect(height).toEqual({
+      name: 'height',
+      label: 'Height (px)',
+      type: 'number',
+      required: false,
+      min: 50,
+      max: 1000,
+      default: 300,
+    });
+  });
+
+  it('turns enums into selects with annotated option labels', () => {
+    const [level] = getSchemaFields(HeadingPropsSchema, [
+      { name: 'level', label: 'Heading Level', optionLabels: { h1: 'H1 (Main Heading)' } },
+    ]);
+
+    expect(level).toMatchObject({
+      type: 'select',
+      required: true,
+      valueType: 'string',
+      options: [
+        { value: 'h1', label: 'H1 (Main Heading)' },
+        { value: 'h2', label: 'h2' },
+        { value: 'h3', label: 'h3' },
+      ],
+    });
+  });
+
+  it('edits boolean props as booleans', () => {
+    const [showAllOption] = getSchemaFields(CategoryPillsPropsSchema, [
+      { name: 'showAllOption', label: 'Show "All" Option', default: true },
+    ]);
+
+    expect(showAllOption).toMatchObject({ type: 'boolean', required: true, default: true });
+  });
+
+  it('turns literal unions into selects, keeping the schema default typed', () => {
+    const [productsPerRow] = getSchemaFields(ProductListGridPropsSchema, [
+      { name: 'productsPerRow', label: 'Products Per Row' },
+    ]);
+
+    expect(productsPerRow).toMatchObject({
+      type: 'select',
+      required: false,
+      valueType: 'number',
+      default: 3,
+      options: ['2', '3', '4', '6'].map((value) => ({ value, label: value })),
+    });
+  });
+
+  it('edits number literal unions as a number range when annotated', () => {
+    const [columnCount] = getSchemaFields(TextSectionPropsSchema, [
+      { name: 'columnCount', label: 'Number of Columns', control: 'number' },
+    ]);
+
+    expect(columnCount).toMatchObject({ type: 'number', min: 1, max: 4 });
+  });
+
+  it('turns arrays of objects into repeaters of their annotated item fields', () => {
+    const [columns] = getSchemaFields(TextSectionPropsSchema, [
+      {
+        name: 'columns',
+        label: 'Columns',
+        countField: 'columnCount',
+        fields: [
+          { name: 'text', label: 'Column Text', control: 'textarea' },
+          { name: 'iconUrl', label: 'Icon URL', visibleWhen: { variant: 'with-icons' } },
+        ],
+      },
+    ]);
+
+    expect(columns).toMatchObject({
+      type: 'repeater',
+      required: true,
+      minItems: 1,
+      maxItems: 4,
+      countField: 'columnCount',
+      fields: [
+        { name: 'text', type: 'textarea', required: true, maxLength: 2000 },
+        { name: 'iconUrl', type: 'url', required: false, visibleWhen: { variant: 'with-icons' } },
+      ],
+    });
+  });
+
+  it('rejects annotations the schema cannot back', () => {
+    expect(() => getSchemaFields(HeadingPropsSchema, [{ name: 'subtitle', label: 'Subtitle' }])).toThrow(
+      /"subtitle" is not part of the props schema/
+    );
+    expect(() => getSchemaFields(HeadingPropsSchema, [{ name: 'text', label: 'Text', control: 'number' }])).toThrow(
+      /"text" \(string\) cannot be edited/
+    );
+    expect(() => getSchemaFields(CategoryPillsPropsSchema, [{ name: 'onCategorySelect', label: 'Handler' }])).toThrow(
+      /cannot be edited/
+    );
+  });
+
+  it('generates the fields of every registered component in annotation order', () => {
+    Object.values(sharedComponentRegistry).forEach(({ meta, editableFields }) => {
+      expect(editableFields.map((field) => [field.name, field.label])).toEqual(
+        meta.editableFields.map((annotation) => [annotation.name, annotation.label])
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_THEME_COLORS,
+  formatThemeColorToken,
+  generateTonalPalette,
+  isThemeColorToken,
+  parseThemeColorToken,
+  resolveThemeColor,
+  resolveThemeTokens,
+} from '@shared/utils';
+import { HeadingPropsSchema } from '@shared/components/Heading/types';
+
+const colors = { primary: '#112233', secondary: '#445566', accent: '#f59e0b' };
+
+describe('themeTokens', () => {
+  describe('parseThemeColorToken', () => {
+    it('parses theme colors with and without a shade', () => {
+      expect(parseThemeColorToken('theme.primary')).toEqual({ color: 'primary' });
+      expect(parseThemeColorToken('theme.accent/200')).toEqual({ color: 'accent', step: 200 });
+    });
+
+    it('rejects unknown colors, shades and literals', () => {
+      expect(parseThemeColorToken('theme.brand')).toBeNull();
+      expect(parseThemeColorToken('theme.primary/250')).toBeNull();
+      expect(parseThemeColorToken('#112233')).toBeNull();
+      expect(isThemeColorToken(42)).toBe(false);
+    });
+
+    it('round-trips through formatThemeColorToken', () => {
+      ['theme.secondary', 'theme.primary/950'].forEach((token) => {
+        expect(formatThemeColorToken(parseThemeColorToken(token)!)).toBe(token);
+      });
+    });
+  });
+
+  describe('resolveThemeColor', () => {
+    it('resolves references to the theme color or its shade', () => {
+      expect(resolveThemeColor('theme.primary', colors)).toBe('#112233');
+      expect(resolveThemeColor('theme.accent/200', colors)).toBe(generateTonalPalette('#f59e0b')![200]);
+    });
+
+    it('falls back to the default theme for unset colors', () => {
+      expect(resolveThemeColor('theme.secondary', {})).toBe(DEFAULT_THEME_COLORS.secondary);
+    });
+
+    it('leaves literal colors unchanged', () => {
+      expect(resolveThemeColor('rgba(0, 0, 0, 0.5)', colors)).toBe('rgba(0, 0, 0, 0.5)');
+    });
+  });
+
+  describe('resolveThemeTokens', () => {
+    it('resolves references in props and repeater items', () => {
+      const error = new Error('x');
+      const resolved = resolveThemeTokens(
+        {
+          textColor: 'theme.primary',
+          items: [{ color: 'theme.secondary', label: 'theme' }],
+          error,
+        },
+        colors
+      );
+
+      expect(resolved).toEqual({
+        textColor: '#112233',
+        items: [{ color: '#445566', label: 'theme' }],
+        error,
+      });
+      expect(resolved.error).toBe(error);
+    });
+  });
+
+  describe('HeadingPropsSchema', () => {
+    const props = {
+      text: 'Welcome',
+      level: 'h1',
+      variant: 'background-color',
+      isLoading: false,
+      error: null,
+    };
+
+    it('accepts theme references in color props', () => {
+      expect(
+        HeadingPropsSchema.safeParse({ ...props, textColor: 'theme.accent/200', backgroundColor: 'theme.primary' })
+          .success
+      ).toBe(true);
+    });
+
+    it('accepts the resolved colors', () => {
+      expect(
+        HeadingPropsSchema.safeParse({ ...props, textColor: '#ffffff', backgroundColor: '#112233' }).success
+      ).toBe(true);
+    });
+
+    it('still rejects malformed colors', () => {
+      expect(
+        HeadingPropsSchema.safeParse({ ...props, textColor: 'theme.brand', backgroundColor: 'theme.primary' })
+          .success
+      ).toBe(false);
+    });
+  });
+});
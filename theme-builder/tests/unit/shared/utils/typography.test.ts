@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TYPE_SCALE,
+  FONT_FAMILIES,
+  FONT_PAIRINGS,
+  getFontStack,
+  getTypeScaleSizes,
+  getTypographyCssVariables,
+} from '@shared/utils';
+
+describe('typography', () => {
+  describe('getFontStack', () => {
+    it('puts the bundled family first with a fallback of the same category', () => {
+      expect(getFontStack('Inter')).toBe('"Inter Variable", "Inter", ui-sans-serif, system-ui, sans-serif');
+      expect(getFontStack('Merriweather')).toBe('"Merriweather Variable", "Merriweather", ui-serif, Georgia, serif');
+    });
+
+    it('keeps unknown fonts as they are', () => {
+      expect(getFontStack('Comic Sans MS')).toBe('"Comic Sans MS", ui-sans-serif, system-ui, sans-serif');
+    });
+  });
+
+  describe('FONT_PAIRINGS', () => {
+    it('only pairs bundled fonts', () => {
+      const names = FONT_FAMILIES.map((font) => font.name);
+
+      FONT_PAIRINGS.forEach((pairing) => {
+        expect(names).toContain(pairing.heading);
+        expect(names).toContain(pairing.body);
+      });
+    });
+  });
+
+  describe('getTypeScaleSizes', () => {
+    it('raises each heading level by one ratio step', () => {
+      expect(getTypeScaleSizes(DEFAULT_TYPE_SCALE)).toEqual({ body: 16, h3: 25, h2: 31.25, h1: 39.06 });
+      expect(getTypeScaleSizes({ ...DEFAULT_TYPE_SCALE, baseSize: 18, scaleRatio: 1.2 })).toEqual({
+        body: 18,
+        h3: 25.92,
+        h2: 31.1,
+        h1: 37.32,
+      });
+    });
+  });
+
+  describe('getTypographyCssVariables', () => {
+    it('exposes sizes, line heights and letter-spacing', () => {
+      expect(getTypographyCssVariables({ ...DEFAULT_TYPE_SCALE, headingLetterSpacing: -0.02 })).toEqual({
+        '--font-size-body': '16px',
+        '--font-size-h3': '25px',
+        '--font-size-h2': '31.25px',
+        '--font-size-h1': '39.06px',
+        '--line-height-heading': '1.2',
+        '--line-height-body': '1.6',
+        '--letter-spacing-heading': '-0.02em',
+        '--letter-spacing-body': '0em',
+      });
+    });
+  });
+});
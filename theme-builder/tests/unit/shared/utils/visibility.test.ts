@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesCondition,
+  isFieldVisible,
+  getVisibleFields,
+  pruneHiddenProps,
+  fillVisibleDefaults,
+} from '@shared/utils/visibility';
+import { sharedComponentRegistry } from '@shared/registry';
+
+const headingFields = sharedComponentRegistry.Heading.editableFields;
+const textSectionFields = sharedComponentRegistry.TextSection.editableFields;
+
+describe('visibility', () => {
+  describe('matchesCondition', () => {
+    it('matches a single expected value', () => {
+      expect(matchesCondition({ variant: 'background-image' }, { variant: 'background-image' })).toBe(true);
+      expect(matchesCondition({ variant: 'background-image' }, { variant: 'text-only' })).toBe(false);
+    });
+
+    it('matches any value of an expected array', () => {
+      const condition = { variant: ['background-image', 'background-color'] };
+
+      expect(matchesCondition(condition, { variant: 'background-color' })).toBe(true);
+      expect(matchesCondition(condition, { variant: 'text-only' })).toBe(false);
+    });
+
+    it('requires every key of the condition to match', () => {
+      const condition = { variant: 'with-icons', layout: 'grid' };
+
+      expect(matchesCondition(condition, { variant: 'with-icons', layout: 'grid' })).toBe(true);
+      expect(matchesCondition(condition, { variant: 'with-icons', layout: 'list' })).toBe(false);
+    });
+
+    it('compares non-string props as strings', () => {
+      expect(matchesCondition({ showAllOption: 'true' }, { showAllOption: true })).toBe(true);
+      expect(matchesCondition({ productsPerRow: ['4', '6'] }, { productsPerRow: 6 })).toBe(true);
+    });
+
+    it('does not match when the prop is missing', () => {
+      expect(matchesCondition({ variant: 'with-icons' }, {})).toBe(false);
+    });
+
+    it('falls back to parent props for missing keys', () => {
+      expect(matchesCondition({ variant: 'with-icons' }, { text: 'Column' }, { variant: 'with-icons' })).toBe(true);
+    });
+  });
+
+  describe('isFieldVisible', () => {
+    it('treats fields without visibleWhen as always visible', () => {
+      const textField = headingFields.find((field) => field.name === 'text')!;
+
+      expect(isFieldVisible(textField, {})).toBe(true);
+    });
+  });
+
+  describe('getVisibleFields', () => {
+    it('returns only the Heading fields relevant to the variant', () => {
+      const names = (variant: string) =>
+        getVisibleFields(headingFields, { variant }).map((field) => field.name);
+
+      expect(names('text-only')).toEqual(['text', 'level', 'variant']);
+      expect(names('background-image')).toEqual([
+        'text',
+        'level',
+        'variant',
+        'textColor',
+        'backgroundImageUrl',
+        'height',
+      ]);
+      expect(names('background-color')).toEqual([
+        'text',
+        'level',
+        'variant',
+        'textColor',
+        'backgroundColor',
+        'height',
+      ]);
+    });
+
+    it('evaluates nested repeater fields against the parent variant', () => {
+      const columnsField = textSectionFields.find((field) => field.name === 'columns');
+      if (columnsField?.type !== 'repeater') throw new Error('Expected repeater field');
+
+      const names = getVisibleFields(columnsField.fields, { text: 'Column' }, { variant: 'with-icons' })
+        .map((field) => field.name);
+
+      expect(names).toEqual(['text', 'iconUrl']);
+    });
+  });
+
+  describe('pruneHiddenProps', () => {
+    it('removes values of hidden fields', () => {
+      const pruned = pruneHiddenProps(headingFields, {
+        text: 'Hello',
+        level: 'h2',
+        variant: 'text-only',
+        backgroundImageUrl: 'https://example.com/old.jpg',
+        textColor: '#ffffff',
+      });
+
+      expect(pruned).toEqual({ text: 'Hello', level: 'h2', variant: 'text-only' });
+    });
+
+    it('keeps props that are not declared as editable fields', () => {
+      const pruned = pruneHiddenProps(headingFields, {
+        text: 'Hello',
+        variant: 'text-only',
+        shopId: 'shop-1',
+      });
+
+      expect(pruned).toEqual({ text: 'Hello', variant: 'text-only', shopId: 'shop-1' });
+    });
+
+    it('prunes repeater items using the parent props as context', () => {
+      const pruned = pruneHiddenProps(textSectionFields, {
+        variant: 'with-images',
+        columnCount: 2,
+        columns: [
+          { text: 'A', iconUrl: 'https://example.com/a.svg', imageUrl: 'https://example.com/a.jpg' },
+          { text: 'B', iconUrl: 'https://example.com/b.svg' },
+        ],
+      });
+
+      expect(pruned.columns).toEqual([
+        { text: 'A', imageUrl: 'https://example.com/a.jpg' },
+        { text: 'B' },
+      ]);
+    });
+
+    it('uses parent props when the variant lives on the component definition', () => {
+      const pruned = pruneHiddenProps(
+        headingFields,
+        { text: 'Hello', backgroundColor: 'rgba(0, 0, 0, 1)' },
+        { variant: 'background-color' }
+      );
+
+      expect(pruned).toEqual({ text: 'Hello', backgroundColor: 'rgba(0, 0, 0, 1)' });
+    });
+  });
+
+  describe('fillVisibleDefaults', () => {
+    it('fills defaults of fields the variant makes visible', () => {
+      const filled = fillVisibleDefaults(headingFields, {
+        text: 'Hello',
+        level: 'h2',
+        variant: 'background-color',
+      });
+
+      expect(filled).toMatchObject({
+        text: 'Hello',
+        textColor: '#ffffff',
+        backgroundColor: 'rgba(31, 41, 55, 1)',
+        height: 300,
+      });
+      expect(filled).not.toHaveProperty('backgroundImageUrl');
+    });
+
+    it('keeps values that are already set', () => {
+      const filled = fillVisibleDefaults(headingFields, {
+        text: 'Hello',
+        variant: 'background-color',
+        backgroundColor: 'rgba(255, 0, 0, 0.5)',
+        height: 120,
+      });
+
+      expect(filled.backgroundColor).toBe('rgba(255, 0, 0, 0.5)');
+      expect(filled.height).toBe(120);
+    });
+
+    it('leaves hidden fields and fields without defaults alone', () => {
+      const filled = fillVisibleDefaults(
+        textSectionFields,
+        { columnCount: 1, columns: [{ text: 'A' }] },
+        { variant: 'with-icons' }
+      );
+
+      expect(filled).toEqual({ columnCount: 1, columns: [{ text: 'A' }] });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { CollisionDetection } from '@dnd-kit/core';
+import { getEditorRect, getFrameOffset, withCanvasFrameCoordinates } from '@/utils/canvasFrame';
+
+function createRect(top: number, left: number, width = 100, height = 50): DOMRect {
+  return {
+    top,
+    left,
+    width,
+    height,
+    bottom: top + height,
+    right: left + width,
+    x: left,
+    y: top,
+    toJSON: () => ({}),
+  };
+}
+
+/**
+ * Builds an element that looks like it lives in a frame at the given offset
+ */
+function createFramedElement(elementRect: DOMRect, frameRect: DOMRect | null) {
+  const frameElement = frameRect
+    ? { getBoundingClientRect: () => frameRect, clientTop: 1, clientLeft: 1 }
+    : null;
+
+  return {
+    getBoundingClientRect: () => elementRect,
+    ownerDocument: { defaultView: { frameElement } },
+  } as unknown as Element;
+}
+
+describe('canvasFrame', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('getFrameOffset()', () => {
+    it('returns zero for elements outside a frame', () => {
+      const element = createFramedElement(createRect(10, 10), null);
+
+      expect(getFrameOffset(element)).toEqual({ top: 0, left: 0 });
+    });
+
+    it('includes the frame position and border', () => {
+      const element = createFramedElement(createRect(10, 10), createRect(100, 200));
+
+      expect(getFrameOffset(element)).toEqual({ top: 101, left: 201 });
+    });
+  });
+
+  describe('getEditorRect()', () => {
+    it('translates framed rects into editor coordinates', () => {
+      const element = createFramedElement(createRect(10, 20, 300, 40), createRect(100, 200));
+
+      expect(getEditorRect(element)).toEqual({
+        top: 111,
+        bottom: 151,
+        left: 221,
+        right: 521,
+        width: 300,
+        height: 40,
+      });
+    });
+  });
+
+  describe('withCanvasFrameCoordinates()', () => {
+    const baseArgs = {
+      collisionRect: { top: 0, left: 0, right: 0, bottom: 0, width: 0, height: 0 },
+      droppableRects: new Map(),
+      droppableContainers: [],
+    };
+
+    it('passes pointer coordinates through for drags outside the canvas', () => {
+      const detect = vi.fn<CollisionDetection>(() => []);
+      const pointerCoordinates = { x: 5, y: 5 };
+
+      withCanvasFrameCoordinates(detect)({
+        ...baseArgs,
+        active: { id: 'library-Heading' } as never,
+        pointerCoordinates,
+      });
+
+      expect(detect.mock.calls[0][0].pointerCoordinates).toEqual(pointerCoordinates);
+    });
+
+    it('passes pointer coordinates through for components rendered in the editor', () => {
+      const element = document.createElement('div');
+      element.dataset.componentId = 'component-1';
+      document.body.appendChild(element);
+
+      const detect = vi.fn<CollisionDetection>(() => []);
+
+      withCanvasFrameCoordinates(detect)({
+        ...baseArgs,
+        active: { id: 'component-1' } as never,
+        pointerCoordinates: { x: 5, y: 5 },
+      });
+
+      expect(detect.mock.calls[0][0].pointerCoordinates).toEqual({ x: 5, y: 5 });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import type { EditableField } from '@shared/types';
+import {
+  analyzeContrast,
+  getComponentContrastPairs,
+  getContrastLevel,
+  getContrastRatio,
+  parseColor,
+  relativeLuminance,
+  suggestPassingColor,
+} from '@/utils/contrast';
+
+describe('contrast', () => {
+  describe('parseColor', () => {
+    it('parses hex and rgba colors', () => {
+      expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+      expect(parseColor('#1F2937')).toEqual({ r: 31, g: 41, b: 55, a: 1 });
+      expect(parseColor('rgba(0, 0, 0, 0.5)')).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+      expect(parseColor('rgb(10,20,30)')).toEqual({ r: 10, g: 20, b: 30, a: 1 });
+    });
+
+    it('rejects other formats', () => {
+      expect(parseColor('red')).toBeNull();
+      expect(parseColor('theme.primary')).toBeNull();
+    });
+  });
+
+  describe('relativeLuminance', () => {
+    it('linearizes channels with the WCAG 2.1 threshold of 0.03928', () => {
+      // 10.05 / 255 lies between the WCAG (0.03928) and sRGB (0.04045) thresholds
+      const channel = 10.05 / 255;
+      expect(relativeLuminance({ r: 10.05, g: 10.05, b: 10.05, a: 1 })).toBeCloseTo(
+        ((channel + 0.055) / 1.055) ** 2.4,
+        10
+      );
+      expect(relativeLuminance({ r: 10, g: 10, b: 10, a: 1 })).toBeCloseTo(10 / 255 / 12.92, 10);
+    });
+  });
+
+  describe('getContrastRatio', () => {
+    it('matches the WCAG reference values', () => {
+      expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21, 5);
+      expect(getContrastRatio('#ffffff', '#ffffff')).toBeCloseTo(1, 5);
+      expect(getContrastRatio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+    });
+
+    it('is symmetric', () => {
+      expect(getContrastRatio('#3b82f6', '#ffffff')).toBeCloseTo(getContrastRatio('#ffffff', '#3b82f6')!, 10);
+    });
+
+    it('composites translucent backgrounds over white', () => {
+      // Half-transparent black over white is mid gray
+      expect(getContrastRatio('#ffffff', 'rgba(0, 0, 0, 0.5)')).toBeCloseTo(
+        getContrastRatio('#ffffff', '#808080')!,
+        1
+      );
+    });
+
+    it('returns null for unparsable colors', () => {
+      expect(getContrastRatio('red', '#ffffff')).toBeNull();
+    });
+  });
+
+  describe('getContrastLevel', () => {
+    it('maps ratios to WCAG levels', () => {
+      expect(getContrastLevel(7)).toBe('AAA');
+      expect(getContrastLevel(4.5)).toBe('AA');
+      expect(getContrastLevel(3)).toBe('AA Large');
+      expect(getContrastLevel(2.99)).toBe('Fail');
+    });
+  });
+
+  describe('suggestPassingColor', () => {
+    it('keeps colors that already pass', () => {
+      expect(suggestPassingColor('#000000', '#ffffff')).toBe('#000000');
+    });
+
+    it('darkens a light text color on a light background just enough', () => {
+      const suggestion = suggestPassingColor('#f59e0b', '#ffffff')!;
+      const ratio = getContrastRatio(suggestion, '#ffffff')!;
+
+      expect(ratio).toBeGreaterThanOrEqual(4.5);
+      expect(ratio).toBeLessThan(4.7);
+    });
+
+    it('lightens a text color on a dark background', () => {
+      const suggestion = suggestPassingColor('#4b5563', '#1f2937')!;
+
+      expect(analyzeContrast(suggestion, '#1f2937')!.level).not.toBe('Fail');
+      expect(getContrastRatio(suggestion, '#1f2937')).toBeGreaterThanOrEqual(4.5);
+    });
+
+    it('keeps the format and alpha of rgba colors', () => {
+      const suggestion = suggestPassingColor('rgba(200, 200, 200, 1)', '#ffffff');
+
+      expect(suggestion).toMatch(/^rgba\(\d+, \d+, \d+, 1\)$/);
+    });
+  });
+
+  describe('getComponentContrastPairs', () => {
+    const fields: EditableField[] = [
+      { name: 'variant', label: 'Variant', type: 'select', required: true, options: [] },
+      {
+        name: 'textColor',
+        label: 'Text Color',
+        type: 'color',
+        required: false,
+        contrastWith: 'backgroundColor',
+        visibleWhen: { variant: ['background-image', 'background-color'] },
+      },
+      {
+        name: 'backgroundColor',
+        label: 'Background Color',
+        type: 'color',
+        required: false,
+        visibleWhen: { variant: 'background-color' },
+      },
+    ];
+
+    it('pairs text colors with their background field', () => {
+      const pairs = getComponentContrastPairs(fields, {
+        variant: 'background-color',
+        textColor: '#ffffff',
+        backgroundColor: '#1f2937',
+      });
+
+      expect(pairs).toEqual([
+        {
+          id: 'textColor',
+          label: 'Text Color on Background Color',
+          foreground: '#ffffff',
+          background: '#1f2937',
+        },
+      ]);
+    });
+
+    it('skips pairs whose background field is hidden', () => {
+      const pairs = getComponentContrastPairs(fields, {
+        variant: 'background-image',
+        textColor: '#ffffff',
+        backgroundColor: '#1f2937',
+      });
+
+      expect(pairs).toEqual([]);
+    });
+  });
+});
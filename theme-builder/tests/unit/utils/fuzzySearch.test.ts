@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyFilter, fuzzyScore } from '@/utils/fuzzySearch';
+
+describe('fuzzyScore', () => {
+  it('matches characters in order, ignoring case', () => {
+    expect(fuzzyScore('prgrd', 'Product Grid')).not.toBeNull();
+    expect(fuzzyScore('HEAD', 'heading')).not.toBeNull();
+  });
+
+  it('rejects characters out of order or missing', () => {
+    expect(fuzzyScore('dirg', 'Product Grid')).toBeNull();
+    expect(fuzzyScore('xyz', 'Heading')).toBeNull();
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyScore('  ', 'Heading')).toBe(0);
+  });
+
+  it('scores exact substrings and word starts above scattered matches', () => {
+    const substring = fuzzyScore('grid', 'Product Grid')!;
+    const wordStarts = fuzzyScore('pg', 'Product Grid')!;
+    const scattered = fuzzyScore('rd', 'Product Grid')!;
+
+    expect(substring).toBeGreaterThan(wordStarts);
+    expect(wordStarts).toBeGreaterThan(scattered);
+  });
+
+  it('rejects characters scattered across a long text', () => {
+    expect(fuzzyScore('hbi', 'Displays a heading with optional background image and text')).not.toBeNull();
+    expect(fuzzyScore('lyk', 'Displays a heading with optional background image and text')).toBeNull();
+  });
+});
+
+describe('fuzzyFilter', () => {
+  const items = [
+    { name: 'Heading', description: 'Large title text' },
+    { name: 'Text Section', description: 'Paragraphs with a heading' },
+    { name: 'Product Grid', description: 'Grid of products' },
+  ];
+  const fields = (item: (typeof items)[number]) => [item.name, item.description];
+
+  it('returns all items for an empty query', () => {
+    expect(fuzzyFilter(items, '', fields)).toBe(items);
+  });
+
+  it('ranks name matches above description matches', () => {
+    const results = fuzzyFilter(items, 'heading', fields);
+
+    expect(results.map((item) => item.name)).toEqual(['Heading', 'Text Section']);
+  });
+
+  it('searches descriptions', () => {
+    const results = fuzzyFilter(items, 'products', fields);
+
+    expect(results.map((item) => item.name)).toEqual(['Product Grid']);
+  });
+});
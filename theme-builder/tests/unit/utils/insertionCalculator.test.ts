@@ -2,7 +2,14 @@
  * @vitest-environment happy-dom
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { calculateInsertionPoint } from '@/utils/insertionCalculator';
+import {
+  calculateInsertionPoint,
+  calculateSlotInsertionPoint,
+  getDropSlot,
+  toReorderIndex,
+} from '@/utils/insertionCalculator';
+import { ROOT_SLOT } from '@/utils/layoutTree';
+import type { ComponentDefinition } from '@/types/api';
 
 describe('calculateInsertionPoint', () => {
   // Mock DOM elements
@@ -292,4 +299,100 @@ describe('calculateInsertionPoint', () => {
       });
     });
   });
+
+  describe('Nested Layouts', () => {
+    const heading = (id: string): ComponentDefinition => ({ id, type: 'Heading', variant: 'text-only', props: {} });
+    const layout: ComponentDefinition[] = [
+      {
+        id: 'columns',
+        type: 'Columns',
+        variant: 'equal',
+        props: {},
+        slots: [[heading('left-1'), heading('left-2')], [heading('right-1')]],
+      },
+      { id: 'section', type: 'Section', variant: 'contained', props: {}, slots: [[]] },
+      heading('below'),
+    ];
+    const leftColumn = { parentId: 'columns', slot: 0 };
+    const rightColumn = { parentId: 'columns', slot: 1 };
+
+    beforeEach(() => {
+      mockElements.set('columns', { top: 0, bottom: 210, height: 210 });
+      mockElements.set('left-1', { top: 0, bottom: 100, height: 100 });
+      mockElements.set('left-2', { top: 110, bottom: 210, height: 100 });
+      mockElements.set('right-1', { top: 0, bottom: 100, height: 100 });
+      mockElements.set('section', { top: 220, bottom: 300, height: 80 });
+      mockElements.set('below', { top: 310, bottom: 410, height: 100 });
+    });
+
+    it('should position among the components of the slot under the cursor', () => {
+      expect(calculateSlotInsertionPoint({ cursorY: 150, layout, target: leftColumn })).toEqual({
+        insertionIndex: 2,
+        hoveredComponentId: 'left-2',
+        target: leftColumn,
+      });
+      expect(calculateSlotInsertionPoint({ cursorY: 150, layout, target: rightColumn })).toEqual({
+        insertionIndex: 1,
+        hoveredComponentId: null,
+        target: rightColumn,
+      });
+    });
+
+    it('should position among top-level components on the page', () => {
+      expect(calculateSlotInsertionPoint({ cursorY: 350, layout, target: ROOT_SLOT })).toMatchObject({
+        insertionIndex: 3,
+        hoveredComponentId: 'below',
+      });
+    });
+
+    it('should insert at index 0 of an empty slot', () => {
+      expect(
+        calculateSlotInsertionPoint({ cursorY: 250, layout, target: { parentId: 'section', slot: 0 } })
+      ).toMatchObject({ insertionIndex: 0, hoveredComponentId: null });
+    });
+
+    it('should reject slots inside the dragged container', () => {
+      expect(
+        calculateSlotInsertionPoint({ cursorY: 50, layout, target: rightColumn, draggedComponentId: 'columns' })
+      ).toBeNull();
+      expect(
+        calculateSlotInsertionPoint({ cursorY: 50, layout, target: rightColumn, draggedComponentId: 'left-1' })
+      ).not.toBeNull();
+    });
+  });
+});
+
+describe('getDropSlot', () => {
+  it('resolves canvas components to the slot they are in', () => {
+    expect(getDropSlot({ type: 'canvas-component', index: 0, slot: { parentId: 'columns', slot: 1 } })).toEqual({
+      parentId: 'columns',
+      slot: 1,
+    });
+    expect(getDropSlot({ type: 'canvas-component', index: 0 })).toEqual(ROOT_SLOT);
+  });
+
+  it('resolves container slots and the empty canvas to themselves', () => {
+    expect(getDropSlot({ type: 'canvas-slot', parentId: 'section', slot: 0, index: 0 })).toEqual({
+      parentId: 'section',
+      slot: 0,
+    });
+    expect(getDropSlot({ type: 'canvas-placeholder', index: 0 })).toEqual(ROOT_SLOT);
+  });
+
+  it('ignores anything else', () => {
+    expect(getDropSlot(undefined)).toBeNull();
+    expect(getDropSlot({ type: 'library-component' })).toBeNull();
+  });
+});
+
+describe('toReorderIndex', () => {
+  it('keeps insertion points above the dragged component', () => {
+    expect(toReorderIndex(0, 2)).toBe(0);
+    expect(toReorderIndex(2, 2)).toBe(2);
+  });
+
+  it('shifts insertion points below the dragged component up by one', () => {
+    expect(toReorderIndex(3, 1)).toBe(2);
+    expect(toReorderIndex(5, 1)).toBe(4);
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { KeyboardCode, type ClientRect, type SensorContext } from '@dnd-kit/core';
+import { canvasKeyboardCoordinates } from '@/utils/keyboardCoordinates';
+
+function createRect(top: number, height = 100, left = 0, width = 600): ClientRect {
+  return { top, left, width, height, bottom: top + height, right: left + width };
+}
+
+/**
+ * Builds the parts of the sensor context used by the coordinate getter
+ */
+function createContext(
+  droppables: { id: string; type: string; rect: ClientRect }[],
+  collisionRect: ClientRect
+) {
+  const containers = droppables.map(({ id, type }) => ({
+    id,
+    disabled: false,
+    data: { current: { type } },
+  }));
+
+  return {
+    collisionRect,
+    droppableRects: new Map(droppables.map(({ id, rect }) => [id, rect])),
+    droppableContainers: { getEnabled: () => containers },
+  } as unknown as SensorContext;
+}
+
+function press(code: string) {
+  return { code, preventDefault: vi.fn() } as unknown as KeyboardEvent;
+}
+
+// Three stacked components: centers at 150, 260 and 370
+const components = [
+  { id: 'comp-1', type: 'canvas-component', rect: createRect(100) },
+  { id: 'comp-2', type: 'canvas-component', rect: createRect(210) },
+  { id: 'comp-3', type: 'canvas-component', rect: createRect(320) },
+];
+
+describe('canvasKeyboardCoordinates', () => {
+  it('ignores keys other than up and down', () => {
+    const event = press(KeyboardCode.Right);
+    const result = canvasKeyboardCoordinates(event, {
+      active: 'library-Heading',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(components, createRect(0, 40, 0, 200)),
+    });
+
+    expect(result).toBeUndefined();
+    expect(event.preventDefault).not.toHaveBeenCalled();
+  });
+
+  it('moves a library item over the next component', () => {
+    // Library card centered at y=20, x=100
+    const result = canvasKeyboardCoordinates(press(KeyboardCode.Down), {
+      active: 'library-Heading',
+      currentCoordinates: { x: 10, y: 10 },
+      context: createContext(components, createRect(0, 40, 0, 200)),
+    });
+
+    // First slot is just above the first component (insert at index 0)
+    expect(result).toEqual({ x: 10 + (300 - 100), y: 10 + (96 - 20) });
+  });
+
+  it('steps to the next component center when moving down', () => {
+    // Item centered above the first component
+    const result = canvasKeyboardCoordinates(press(KeyboardCode.Down), {
+      active: 'library-Heading',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(components, createRect(76, 40, 200, 200)),
+    });
+
+    expect(result).toEqual({ x: 0, y: 150 - 96 });
+  });
+
+  it('skips slots that would leave a reordered component in place', () => {
+    // comp-2 is being dragged from its own position (center 260)
+    const down = canvasKeyboardCoordinates(press(KeyboardCode.Down), {
+      active: 'comp-2',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(components, createRect(210)),
+    });
+    const up = canvasKeyboardCoordinates(press(KeyboardCode.Up), {
+      active: 'comp-2',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(components, createRect(210)),
+    });
+
+    // Down: over comp-3 (insert below it); Up: above comp-1 (insert at the top)
+    expect(down).toEqual({ x: 0, y: 370 - 260 });
+    expect(up).toEqual({ x: 0, y: 96 - 260 });
+  });
+
+  it('stays put at the end of the canvas', () => {
+    const result = canvasKeyboardCoordinates(press(KeyboardCode.Down), {
+      active: 'comp-1',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(components, createRect(320)),
+    });
+
+    expect(result).toBeUndefined();
+  });
+
+  it('targets the empty canvas placeholder', () => {
+    const result = canvasKeyboardCoordinates(press(KeyboardCode.Down), {
+      active: 'library-Heading',
+      currentCoordinates: { x: 0, y: 0 },
+      context: createContext(
+        [{ id: 'empty-canvas', type: 'canvas-placeholder', rect: createRect(100, 400) }],
+        createRect(0, 40, 200, 200)
+      ),
+    });
+
+    expect(result).toEqual({ x: 0, y: 300 - 20 });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ROOT_SLOT,
+  containsComponent,
+  findComponent,
+  findComponentLocation,
+  flattenLayout,
+  getSlotComponents,
+  insertComponent,
+  mapLayout,
+  moveComponent,
+  removeComponent,
+} from '@/utils/layoutTree';
+import type { ComponentDefinition } from '@/types/api';
+
+const heading = (id: string): ComponentDefinition => ({ id, type: 'Heading', variant: 'text-only', props: {} });
+
+const layout: ComponentDefinition[] = [
+  heading('intro'),
+  {
+    id: 'section',
+    type: 'Section',
+    variant: 'contained',
+    props: {},
+    slots: [
+      [
+        {
+          id: 'columns',
+          type: 'Columns',
+          variant: 'equal',
+          props: {},
+          slots: [[heading('left')], [heading('right-1'), heading('right-2')]],
+        },
+      ],
+    ],
+  },
+  heading('outro'),
+];
+
+describe('layoutTree', () => {
+  it('lists nested components in page order, containers first', () => {
+    expect(flattenLayout(layout).map((component) => component.id)).toEqual([
+      'intro',
+      'section',
+      'columns',
+      'left',
+      'right-1',
+      'right-2',
+      'outro',
+    ]);
+  });
+
+  it('finds components and their slots at any depth', () => {
+    expect(findComponent(layout, 'right-2')?.id).toBe('right-2');
+    expect(findComponentLocation(layout, 'right-2')).toEqual({ parentId: 'columns', slot: 1, index: 1 });
+    expect(findComponentLocation(layout, 'outro')).toEqual({ parentId: null, slot: 0, index: 2 });
+    expect(findComponentLocation(layout, 'missing')).toBeNull();
+  });
+
+  it('reads the components of a slot', () => {
+    expect(getSlotComponents(layout, ROOT_SLOT)).toBe(layout);
+    expect(getSlotComponents(layout, { parentId: 'columns', slot: 0 }).map((c) => c.id)).toEqual(['left']);
+    expect(getSlotComponents(layout, { parentId: 'missing', slot: 0 })).toEqual([]);
+  });
+
+  it('knows which components a container holds', () => {
+    const section = layout[1];
+
+    expect(containsComponent(section, 'section')).toBe(true);
+    expect(containsComponent(section, 'right-1')).toBe(true);
+    expect(containsComponent(section, 'outro')).toBe(false);
+  });
+
+  it('inserts into nested slots without touching the given layout', () => {
+    const next = insertComponent(layout, { parentId: 'columns', slot: 0 }, 1, heading('new'));
+
+    expect(getSlotComponents(next, { parentId: 'columns', slot: 0 }).map((c) => c.id)).toEqual(['left', 'new']);
+    expect(getSlotComponents(layout, { parentId: 'columns', slot: 0 })).toHaveLength(1);
+    expect(insertComponent(layout, { parentId: 'missing', slot: 0 }, 0, heading('new'))).toBe(layout);
+  });
+
+  it('removes components along with their children', () => {
+    expect(flattenLayout(removeComponent(layout, 'columns')).map((c) => c.id)).toEqual(['intro', 'section', 'outro']);
+    expect(findComponent(removeComponent(layout, 'right-1'), 'right-1')).toBeUndefined();
+  });
+
+  it('moves components between slots', () => {
+    const next = moveComponent(layout, 'outro', { parentId: 'columns', slot: 0 }, 0);
+
+    expect(getSlotComponents(next, { parentId: 'columns', slot: 0 }).map((c) => c.id)).toEqual(['outro', 'left']);
+    expect(next.map((c) => c.id)).toEqual(['intro', 'section']);
+  });
+
+  it('does not move containers into themselves', () => {
+    expect(moveComponent(layout, 'section', { parentId: 'columns', slot: 1 }, 0)).toBe(layout);
+    expect(moveComponent(layout, 'columns', { parentId: 'columns', slot: 0 }, 0)).toBe(layout);
+  });
+
+  it('maps every component, children before their containers', () => {
+    const visited: string[] = [];
+    mapLayout(layout, (component) => {
+      visited.push(component.id);
+      return component;
+    });
+
+    expect(visited).toEqual(['intro', 'left', 'right-1', 'right-2', 'columns', 'section', 'outro']);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getComponentSeverities,
+  hasBlockingProblems,
+  validateComponent,
+  validateLayout,
+} from '@/utils/layoutValidation';
+import { componentRegistry } from '@/lib/componentRegistry';
+import type { ComponentDefinition } from '@/types/api';
+
+const heading = (props: Record<string, unknown>, variant = 'text-only'): ComponentDefinition => ({
+  id: `heading-${variant}`,
+  type: 'Heading',
+  variant,
+  props: { text: 'Welcome', level: 'h1', ...props },
+});
+
+const productGrid = (variant: string): ComponentDefinition => ({
+  id: `grid-${variant}`,
+  type: 'ProductListGrid',
+  variant,
+  props: { productsPerRow: 3 },
+});
+
+describe('layoutValidation', () => {
+  describe('validateComponent', () => {
+    it('accepts every component as it is added to the canvas', () => {
+      Object.entries(componentRegistry).forEach(([type, entry]) => {
+        const component: ComponentDefinition = {
+          id: type,
+          type,
+          variant: entry.meta.defaultVariant ?? entry.meta.variants[0].id,
+          props: { ...entry.defaultProps },
+        };
+
+        expect(validateComponent(component, componentRegistry)).toEqual([]);
+      });
+    });
+
+    it('reports schema errors on the field they belong to', () => {
+      const problems = validateComponent(heading({ level: 'h4' }), componentRegistry);
+
+      expect(problems).toHaveLength(1);
+      expect(problems[0]).toMatchObject({
+        componentId: 'heading-text-only',
+        componentType: 'Heading',
+        field: 'level',
+        fieldLabel: 'Heading Level',
+        severity: 'error',
+      });
+    });
+
+    it('reports nested repeater fields by their path', () => {
+      const problems = validateComponent(
+        {
+          id: 'text',
+          type: 'TextSection',
+          variant: 'text-only',
+          props: { variant: 'text-only', columnCount: 2, columns: [{ text: 'One' }, { text: '' }] },
+        },
+        componentRegistry
+      );
+
+      expect(problems.map((problem) => problem.field)).toContain('columns.1.text');
+    });
+
+    it('reports refinements of the whole component without a field', () => {
+      const problems = validateComponent(heading({}, 'background-color'), componentRegistry);
+
+      expect(problems).toContainEqual(
+        expect.objectContaining({ field: null, severity: 'error', message: 'Required fields for variant are missing' })
+      );
+    });
+
+    it('reports unregistered component types as errors', () => {
+      const problems = validateComponent({ id: 'x', type: 'Carousel', variant: 'default', props: {} }, componentRegistry);
+
+      expect(problems).toEqual([expect.objectContaining({ field: null, severity: 'error' })]);
+    });
+
+    it('warns about unknown variants', () => {
+      const problems = validateComponent(productGrid('neon'), componentRegistry);
+
+      expect(problems).toEqual([
+        expect.objectContaining({ field: null, severity: 'warning', message: expect.stringContaining('neon') }),
+      ]);
+    });
+
+    it('reports unknown variants the schema rejects on the variant field', () => {
+      const problems = validateComponent({ ...heading({}), variant: 'neon' }, componentRegistry);
+
+      expect(problems).toEqual([expect.objectContaining({ field: 'variant', severity: 'error' })]);
+    });
+
+    it('does not fill editable props from the defaults, as the shop does not either', () => {
+      const problems = validateComponent(
+        { id: 'nav', type: 'HeaderNavigation', variant: 'static', props: { logoPosition: 'left', variant: 'static' } },
+        componentRegistry
+      );
+
+      expect(problems).toContainEqual(expect.objectContaining({ field: 'logoUrl', severity: 'error' }));
+    });
+  });
+
+  describe('validateLayout', () => {
+    it('collects the problems of every component in layout order', () => {
+      const layout = [heading({ level: 'h4' }), { ...heading({ text: '' }), id: 'second' }];
+
+      expect(validateLayout(layout, componentRegistry).map((problem) => problem.componentId)).toEqual([
+        'heading-text-only',
+        'second',
+      ]);
+    });
+
+    it('validates the components nested in containers', () => {
+      const layout: ComponentDefinition[] = [
+        {
+          id: 'section',
+          type: 'Section',
+          variant: 'contained',
+          props: { variant: 'contained', paddingY: 'medium' },
+          slots: [[heading({ level: 'h4' })]],
+        },
+      ];
+
+      expect(validateLayout(layout, componentRegistry)).toEqual([
+        expect.objectContaining({ componentId: 'heading-text-only', field: 'level' }),
+      ]);
+    });
+  });
+
+  describe('severity helpers', () => {
+    const problems = validateLayout(
+      [heading({ level: 'h4' }), { ...productGrid('neon'), id: 'odd-variant' }],
+      componentRegistry
+    );
+
+    it('blocks saving only on errors', () => {
+      expect(hasBlockingProblems(problems)).toBe(true);
+      expect(hasBlockingProblems(problems.filter((problem) => problem.severity === 'warning'))).toBe(false);
+    });
+
+    it('keeps the most severe problem of each component', () => {
+      expect(getComponentSeverities(problems)).toEqual({
+        'heading-text-only': 'error',
+        'odd-variant': 'warning',
+      });
+    });
+  });
+});